@@ -20,6 +20,9 @@ const config: CapacitorConfig = {
       backgroundColor: '#2563EB',
       showSpinner: false,
     },
+    LocalNotifications: {
+      iconColor: '#2563EB',
+    },
   },
 };
 
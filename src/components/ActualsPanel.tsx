@@ -0,0 +1,191 @@
+import { useState } from 'react';
+import { ClipboardCheck, Undo2 } from 'lucide-react';
+import {
+  calculateChitDetails,
+  compareWithPlan,
+  monthFigures,
+  paidAmount,
+  type ChitInputs,
+  type ChitResult,
+  type MonthActuals,
+  type MonthFigures,
+  type Roster
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import { amountLabel, fillTemplate } from '../utils/format';
+
+interface ActualsPanelProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  // Run that already takes the recorded months as given
+  results: ChitResult;
+  actuals: MonthActuals[];
+  roster: Roster;
+  onChange: (actuals: MonthActuals[]) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+interface RecordMonthFormProps {
+  month: number;
+  defaults: MonthActuals;
+  showLoans: boolean;
+  onRecord: (actual: MonthActuals) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const cellClass = 'px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm';
+const headerClass = 'px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase';
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Remounted for every new month so the draft always starts from that month's projection
+const RecordMonthForm = ({ month, defaults, showLoans, onRecord, fmt, t }: RecordMonthFormProps) => {
+  const [draft, setDraft] = useState(defaults);
+
+  const fields: { key: keyof MonthActuals; label: string }[] = [
+    { key: 'collected', label: amountLabel(t.collectedAmount, t, fmt) },
+    { key: 'membersPaid', label: t.membersWithdrawing },
+    { key: 'paidOut', label: amountLabel(t.paidOut, t, fmt) },
+    ...(showLoans
+      ? [
+          { key: 'loansGiven' as const, label: amountLabel(t.loanGiven, t, fmt) },
+          { key: 'loanRepayments' as const, label: amountLabel(t.loanRepaymentsReceived, t, fmt) }
+        ]
+      : [])
+  ];
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-4">
+      <h3 className="text-sm font-bold text-gray-800 mb-3">{fillTemplate(t.recordMonth, { month })}</h3>
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-end">
+        {fields.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-xs text-gray-500 mb-1">{label}</label>
+            <input
+              type="number"
+              value={draft[key]}
+              onChange={(e) => setDraft({ ...draft, [key]: parseInt(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={() => onRecord(draft)}
+        className="mt-3 flex items-center gap-1.5 px-3 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+      >
+        <ClipboardCheck className="w-4 h-4" />
+        {fillTemplate(t.recordMonth, { month })}
+      </button>
+    </div>
+  );
+};
+
+// Finished months as they really happened, against the original plan. Everything
+// after the last recorded month is projected from the real pool state.
+const ActualsPanel = ({ inputs, loanUtilization, results, actuals, roster, onChange, fmt, t }: ActualsPanelProps) => {
+  const plan = calculateChitDetails(inputs, loanUtilization);
+  const variances = compareWithPlan(plan, results, actuals.length);
+  const showLoans = inputs.schemeType === 'fixed';
+
+  const nextMonth = actuals.length + 1;
+  // Null once every month of the group has been recorded
+  const projected = monthFigures(results, nextMonth);
+  // Prefer what the contribution ledger says was collected over the projection
+  const ledgerCollected = roster.members.reduce((sum, member) => sum + paidAmount(roster, member.id, nextMonth), 0);
+
+  const columns: { key: keyof MonthFigures; label: string; rupees: boolean }[] = [
+    { key: 'collected', label: t.collectedAmount, rupees: true },
+    { key: 'membersPaid', label: t.membersWithdrawing, rupees: false },
+    { key: 'paidOut', label: t.paidOut, rupees: true },
+    ...(showLoans
+      ? [
+          { key: 'loansGiven' as const, label: t.loanGiven, rupees: true },
+          { key: 'loanRepayments' as const, label: t.loanRepaymentsReceived, rupees: true }
+        ]
+      : []),
+    { key: 'closingBalance', label: t.closingBalance, rupees: true }
+  ];
+
+  const format = (value: number, rupees: boolean) =>
+    rupees ? fmt.money(value) : `${value}`;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+      <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-1">{t.actualsVsPlan}</h2>
+      <p className="text-xs text-gray-500 mb-4">{t.actualsHint}</p>
+
+      {variances.length === 0 ? (
+        <p className="text-sm text-gray-500">{t.noActualsYet}</p>
+      ) : (
+        <div className="overflow-x-auto -mx-4 sm:mx-0">
+          <table className="w-full min-w-[640px]">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className={headerClass}>{t.month}</th>
+                {columns.map((column) => (
+                  <th key={column.key} className={headerClass}>{column.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {variances.map(({ month, planned, actual }) => (
+                <tr key={month} className="hover:bg-gray-50">
+                  <td className={`${cellClass} font-medium text-gray-900`}>{t.month} {month}</td>
+                  {columns.map(({ key, rupees }) => {
+                    const variance = actual[key] - planned[key];
+                    return (
+                      <td key={key} className={cellClass}>
+                        <span className="block text-gray-900">{format(actual[key], rupees)}</span>
+                        <span className="block text-xs text-gray-500">{t.planLabel}: {format(planned[key], rupees)}</span>
+                        {variance !== 0 && (
+                          <span className={`block text-xs font-medium ${variance > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {variance > 0 ? '+' : '-'}{format(Math.abs(variance), rupees)}
+                          </span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {actuals.length > 0 && (
+        <button
+          onClick={() => onChange(actuals.slice(0, -1))}
+          className="mt-4 flex items-center gap-1.5 px-3 py-2 rounded-lg font-medium text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+        >
+          <Undo2 className="w-4 h-4" />
+          {t.undoLastMonth}
+        </button>
+      )}
+
+      {projected ? (
+        <RecordMonthForm
+          key={nextMonth}
+          month={nextMonth}
+          defaults={{
+            collected: ledgerCollected > 0 ? ledgerCollected : projected.collected,
+            membersPaid: projected.membersPaid,
+            paidOut: projected.paidOut,
+            loansGiven: showLoans ? projected.loansGiven : 0,
+            loanRepayments: showLoans ? projected.loanRepayments : 0
+          }}
+          showLoans={showLoans}
+          onRecord={(actual) => onChange([...actuals, actual])}
+          fmt={fmt}
+          t={t}
+        />
+      ) : (
+        <p className="text-sm text-green-600 mt-4">{t.allMonthsRecorded}</p>
+      )}
+    </div>
+  );
+};
+
+export default ActualsPanel;
@@ -0,0 +1,95 @@
+import { buildBidSchedule, type BidMode, type ChitInputs, type FieldErrors } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface AuctionBidInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const AuctionBidInput = ({ inputs, errors, onChange, fmt, t }: AuctionBidInputProps) => {
+  const modes: { mode: BidMode; label: string }[] = [
+    { mode: 'curve', label: t.bidCurve },
+    { mode: 'manual', label: t.manualBids }
+  ];
+
+  // The schedule is sized by the member count, so skip it until that is valid
+  const bids = errors.totalMembers ? [] : buildBidSchedule(inputs);
+
+  const selectMode = (mode: BidMode) => {
+    // Seed an empty bid table from the assumed curve so the organiser edits rather than retypes
+    if (mode === 'manual' && inputs.auctionBids.length === 0) {
+      onChange({ bidMode: mode, auctionBids: bids });
+    } else {
+      onChange({ bidMode: mode });
+    }
+  };
+
+  const updateBid = (index: number, value: number) => {
+    const next = [...bids];
+    next[index] = value;
+    onChange({ auctionBids: next });
+  };
+
+  return (
+    <div className="sm:col-span-2 lg:col-span-3">
+      <label className="block text-sm font-medium text-gray-700 mb-3">{t.bidMode}</label>
+      <div className="flex flex-wrap gap-2 sm:gap-4 mb-4">
+        {modes.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => selectMode(mode)}
+            className={`px-4 sm:px-6 py-2 rounded-lg font-medium text-sm sm:text-base transition-all ${
+              inputs.bidMode === mode
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {inputs.bidMode === 'curve' && (
+        <div className="w-full sm:w-64">
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.startingBidPercent}</label>
+          <input
+            type="number"
+            step="0.5"
+            value={inputs.startingBidPercent}
+            onChange={(e) => onChange({ startingBidPercent: parseFloat(e.target.value) || 0 })}
+            className={`w-full px-4 py-2 border ${errors.startingBidPercent ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+          />
+          <FieldErrorMessage error={errors.startingBidPercent} fmt={fmt} t={t} />
+        </div>
+      )}
+
+      {inputs.bidMode === 'manual' && (
+        <div>
+          <p className="text-xs text-gray-500 mb-3">{t.manualBidsHint}</p>
+          <FieldErrorMessage error={errors.auctionBids} fmt={fmt} t={t} />
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2 sm:gap-3">
+            {bids.map((bid, index) => (
+              <div key={index}>
+                <label className="block text-xs text-gray-500 mb-1">{t.month} {index + 1} (%)</label>
+                <input
+                  type="number"
+                  step="0.5"
+                  value={bid}
+                  onChange={(e) => updateBid(index, parseFloat(e.target.value) || 0)}
+                  className={`w-full px-3 py-1.5 text-sm border ${bid < 0 || bid > 100 ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuctionBidInput;
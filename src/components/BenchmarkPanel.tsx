@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import {
+  benchmarkMembers,
+  defaultBenchmarkRates,
+  type BenchmarkRates,
+  type MemberReturn,
+  type SavingsAlternative
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface BenchmarkPanelProps {
+  memberReturns: MemberReturn[];
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const cellClass = 'px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm align-top';
+const headerClass = 'px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase';
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const Verdict = ({ better, t }: { better: boolean; t: Translations }) => (
+  <span className={`inline-block mt-1 px-1.5 py-0.5 rounded text-xs font-medium ${better ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+    {better ? t.chitBetter : t.chitWorse}
+  </span>
+);
+
+// Every member's chit against saving the same contributions in an FD, RD or
+// SIP, and against borrowing the early part of the payout as a personal loan
+const BenchmarkPanel = ({ memberReturns, fmt, t }: BenchmarkPanelProps) => {
+  const [rates, setRates] = useState<BenchmarkRates>(defaultBenchmarkRates);
+  const benchmarks = benchmarkMembers(memberReturns, rates);
+
+  const rateFields: { key: keyof BenchmarkRates; label: string }[] = [
+    { key: 'fdRate', label: t.fdRate },
+    { key: 'rdRate', label: t.rdRate },
+    { key: 'sipReturn', label: t.sipReturn },
+    { key: 'personalLoanRate', label: t.personalLoanRate }
+  ];
+  const alternativeLabels: Record<SavingsAlternative, string> = {
+    fd: t.fixedDeposit,
+    rd: t.recurringDeposit,
+    sip: t.sip
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-2">{t.benchmarkComparison}</h3>
+      <p className="text-xs sm:text-sm text-gray-600 mb-4">{t.benchmarkHint}</p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-4">
+        {rateFields.map(({ key, label }) => (
+          <div key={key}>
+            <label className="block text-xs text-gray-500 mb-1">{label}</label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={rates[key]}
+              onChange={(e) => setRates({ ...rates, [key]: parseFloat(e.target.value) || 0 })}
+              className={inputClass}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto -mx-4 sm:mx-0">
+        <table className="w-full min-w-[760px]">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className={headerClass}>{t.member}</th>
+              {(['fd', 'rd', 'sip'] as const).map((alternative) => (
+                <th key={alternative} className={headerClass}>{alternativeLabels[alternative]}</th>
+              ))}
+              <th className={headerClass}>{t.personalLoan}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {benchmarks.map(({ member, withdrawalMonth, savings, borrowing }) => (
+              <tr key={member} className="hover:bg-gray-50">
+                <td className={`${cellClass} font-medium text-gray-900`}>
+                  #{member}
+                  <span className="block text-xs font-normal text-gray-500">{t.month} {withdrawalMonth}</span>
+                </td>
+                {savings.map(({ alternative, alternativeValue, chitValue, better }) => (
+                  <td key={alternative} className={cellClass}>
+                    <span className="block text-gray-700">{t.alternativeValue}: {fmt.money(alternativeValue)}</span>
+                    <span className="block text-gray-700">{t.chitValue}: {fmt.money(chitValue)}</span>
+                    <Verdict better={better} t={t} />
+                  </td>
+                ))}
+                <td className={cellClass}>
+                  {borrowing ? (
+                    <>
+                      <span className="block text-gray-700">{t.loanNeeded}: {fmt.money(borrowing.loanNeeded)}</span>
+                      <span className="block text-gray-700">{t.loanRepays}: {fmt.money(borrowing.loanRepayment)}</span>
+                      <span className="block text-gray-700">{t.chitRepays}: {fmt.money(borrowing.chitRepayment)}</span>
+                      <Verdict better={borrowing.better} t={t} />
+                    </>
+                  ) : (
+                    <span className="text-gray-400">-</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
@@ -0,0 +1,100 @@
+import type { ReactElement } from 'react';
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import type { ChitResult } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface ChitChartsProps {
+  results: ChitResult;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const ChartCard = ({ title, children }: { title: string; children: ReactElement }) => (
+  <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+    <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-4">{title}</h3>
+    <div className="h-64 sm:h-80 -mx-2 sm:mx-0">
+      <ResponsiveContainer width="100%" height="100%">
+        {children}
+      </ResponsiveContainer>
+    </div>
+  </div>
+);
+
+const ChitCharts = ({ results, fmt, t }: ChitChartsProps) => {
+  if (results.withdrawalSchedule.length === 0) {
+    return null;
+  }
+
+  // Plotted in rupees; only the labels are converted, compact on the axes and in full on hover
+  const formatAxis = (value: number) => fmt.money(value, 'compact');
+  const formatTooltip = (value: unknown) => fmt.money(Number(value), 'full');
+
+  const memberData = results.memberReturns.map((member) => ({
+    member: member.member,
+    totalContribution: member.totalContribution,
+    withdrawal: member.withdrawal
+  }));
+
+  return (
+    <div className="space-y-4 sm:space-y-6 mb-6">
+      {/* Withdrawal amount vs available pool per month */}
+      <ChartCard title={t.withdrawalTrends}>
+        <ComposedChart data={results.withdrawalSchedule} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+          <YAxis tickFormatter={formatAxis} tick={{ fontSize: 12 }} width={70} />
+          <Tooltip formatter={formatTooltip} labelFormatter={(month) => `${t.month} ${month}`} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Bar dataKey="availablePool" name={t.availablePool} fill="#a78bfa" radius={[4, 4, 0, 0]} />
+          <Line type="monotone" dataKey="withdrawalAmount" name={t.withdrawalAmount} stroke="#2563eb" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="remainingPool" name={t.remainingPool} stroke="#f97316" strokeWidth={2} dot={false} />
+        </ComposedChart>
+      </ChartCard>
+
+      {/* Loan given vs interest earned per month */}
+      {results.loanDetails.length > 0 && (
+        <ChartCard title={t.loanDistribution}>
+          <ComposedChart data={results.loanDetails} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+            <YAxis yAxisId="loan" tickFormatter={formatAxis} tick={{ fontSize: 12 }} width={70} />
+            <YAxis yAxisId="interest" orientation="right" tickFormatter={formatAxis} tick={{ fontSize: 12 }} width={60} />
+            <Tooltip formatter={formatTooltip} labelFormatter={(month) => `${t.month} ${month}`} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar yAxisId="loan" dataKey="loanAmount" name={t.loanGiven} fill="#06b6d4" radius={[4, 4, 0, 0]} />
+            <Line yAxisId="interest" type="monotone" dataKey="interestEarned" name={t.interestEarned} stroke="#16a34a" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ChartCard>
+      )}
+
+      {/* Each member's contribution vs withdrawal */}
+      {memberData.length > 0 && (
+        <ChartCard title={t.contributionVsWithdrawal}>
+          <BarChart data={memberData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="member" tick={{ fontSize: 12 }} />
+            <YAxis tickFormatter={formatAxis} tick={{ fontSize: 12 }} width={70} />
+            <Tooltip formatter={formatTooltip} labelFormatter={(member) => `${t.member} ${member}`} />
+            <Legend wrapperStyle={{ fontSize: 12 }} />
+            <Bar dataKey="totalContribution" name={t.totalContribution} fill="#f97316" radius={[4, 4, 0, 0]} />
+            <Bar dataKey="withdrawal" name={t.withdrawal} fill="#2563eb" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ChartCard>
+      )}
+    </div>
+  );
+};
+
+export default ChitCharts;
@@ -0,0 +1,145 @@
+import { useState } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { FileDown, FileSpreadsheet, FileText, Link, Share2 } from 'lucide-react';
+import type { ChitInputs, ChitResult } from '../engine/chitEngine';
+import { tableToCsv } from '../export/csv';
+import { buildReportTables, type ExportTable } from '../export/reportTables';
+import { deliverFile, shareUrl } from '../export/share';
+import { buildShareUrl } from '../storage/shareLink';
+import type { Language, Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface ExportPanelProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  results: ChitResult;
+  language: Language;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+const fileStamp = () => new Date().toISOString().slice(0, 10);
+
+const ExportPanel = ({ inputs, loanUtilization, results, language, fmt, t }: ExportPanelProps) => {
+  const [tableKey, setTableKey] = useState<ExportTable['key']>('withdrawalSchedule');
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [failed, setFailed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const tables = buildReportTables(results, t, inputs, fmt);
+
+  // The writers are loaded on demand so the calculator doesn't pay for them up front
+  const createFile = async (format: ExportFormat): Promise<[Blob, string]> => {
+    switch (format) {
+      case 'csv': {
+        const table = tables.find((item) => item.key === tableKey) ?? tables[0];
+        return [new Blob([tableToCsv(table)], { type: 'text/csv;charset=utf-8' }), `chit-fund-${table.key}-${fileStamp()}.csv`];
+      }
+      case 'xlsx': {
+        const { tablesToXlsx } = await import('../export/xlsx');
+        return [await tablesToXlsx(tables), `chit-fund-${fileStamp()}.xlsx`];
+      }
+      case 'pdf': {
+        const { renderReportPdf } = await import('../export/pdf');
+        return [await renderReportPdf({ inputs, loanUtilization, results, tables, fmt, t }), `chit-fund-report-${fileStamp()}.pdf`];
+      }
+    }
+  };
+
+  const runExport = async (format: ExportFormat) => {
+    setBusy(format);
+    setFailed(false);
+    try {
+      const [blob, fileName] = await createFile(format);
+      await deliverFile(blob, fileName, t.title);
+    } catch (error) {
+      console.error('Export failed', error);
+      setFailed(true);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runShareLink = async () => {
+    setFailed(false);
+    setCopied(false);
+    // The app has no web address of its own, so it shares the published one
+    const webBase = import.meta.env.VITE_SHARE_LINK_BASE || (Capacitor.isNativePlatform() ? null : `${window.location.origin}${window.location.pathname}`);
+    const url = buildShareUrl({ inputs, loanUtilization, language }, webBase);
+    try {
+      setCopied((await shareUrl(url, t.title)) === 'copied');
+    } catch (error) {
+      console.error('Sharing link failed', error);
+      setFailed(true);
+    }
+  };
+
+  const buttonClass = 'flex items-center gap-1.5 px-4 py-2 rounded-lg font-medium text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Share2 className="w-5 h-5 text-blue-600" />
+        {t.exportReport}
+      </h3>
+
+      <div className="flex flex-col lg:flex-row gap-3 lg:items-end">
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t.exportTable}</label>
+            <select
+              value={tableKey}
+              onChange={(e) => setTableKey(e.target.value as ExportTable['key'])}
+              className="w-full sm:w-64 px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {tables.map((table) => (
+                <option key={table.key} value={table.key}>{table.title}</option>
+              ))}
+            </select>
+          </div>
+          <button
+            disabled={busy !== null}
+            onClick={() => runExport('csv')}
+            className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+          >
+            <FileDown className="w-4 h-4" />
+            {busy === 'csv' ? t.exporting : t.exportCsv}
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            disabled={busy !== null}
+            onClick={() => runExport('xlsx')}
+            className={`${buttonClass} bg-green-600 text-white hover:bg-green-700`}
+          >
+            <FileSpreadsheet className="w-4 h-4" />
+            {busy === 'xlsx' ? t.exporting : t.exportXlsx}
+          </button>
+          <button
+            disabled={busy !== null}
+            onClick={() => runExport('pdf')}
+            className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            <FileText className="w-4 h-4" />
+            {busy === 'pdf' ? t.exporting : t.exportPdf}
+          </button>
+          <button
+            onClick={runShareLink}
+            className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+          >
+            <Link className="w-4 h-4" />
+            {t.shareLink}
+          </button>
+        </div>
+      </div>
+
+      {failed && <p className="text-sm text-red-600 mt-3">{t.exportFailed}</p>}
+      {copied && <p className="text-sm text-green-600 mt-3">{t.linkCopied}</p>}
+    </div>
+  );
+};
+
+export default ExportPanel;
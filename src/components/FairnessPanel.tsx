@@ -0,0 +1,114 @@
+import { useState } from 'react';
+import { Scale } from 'lucide-react';
+import {
+  fairnessReport,
+  type ChitInputs,
+  type ChitResult,
+  type FairnessReport,
+  type LadderVariable,
+  type MemberReturn
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { fillTemplate } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface FairnessPanelProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  results: ChitResult;
+  onApply: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+// How far apart the earliest and latest withdrawers' returns are, with payout
+// ladder changes that bring them closer. Finding those re-runs the scheme
+// dozens of times, so the report only runs on request.
+const FairnessPanel = ({ inputs, loanUtilization, results, onApply, fmt, t }: FairnessPanelProps) => {
+  const [checked, setChecked] = useState<{ report: FairnessReport; inputs: ChitInputs; loanUtilization: number } | null>(null);
+  const report = checked && checked.inputs === inputs && checked.loanUtilization === loanUtilization ? checked.report : null;
+
+  const variableLabels: Record<LadderVariable, string> = {
+    firstWithdrawal: t.firstWithdrawal,
+    monthlyIncrement: t.monthlyIncrement,
+    finalWithdrawal: t.finalWithdrawal,
+    stepUpPercent: t.stepUpPercent
+  };
+  const formatValue = (variable: LadderVariable, value: number) =>
+    variable === 'stepUpPercent' ? `${fmt.number(value, 1)}%` : fmt.money(value, 'full');
+  const points = (value: number) => fillTemplate(t.percentagePoints, { value: fmt.number(value, 1) });
+
+  const memberCard = (label: string, member: MemberReturn | null) => (
+    <div className="border border-gray-200 rounded-lg p-3">
+      <p className="text-xs text-gray-600 mb-1">{label}</p>
+      <p className="text-base sm:text-lg font-bold text-gray-900">
+        {member && member.annualizedIRR !== null ? fmt.percent(member.annualizedIRR, 1, true) : '-'}
+      </p>
+      {member && (
+        <p className="text-xs text-gray-500 mt-1">{fillTemplate(t.memberInMonth, { member: member.member, month: member.withdrawalMonth })}</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-base sm:text-lg font-bold text-gray-800">{t.fairnessReport}</h3>
+        <button
+          onClick={() => setChecked({ report: fairnessReport(inputs, loanUtilization, results), inputs, loanUtilization })}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+        >
+          <Scale className="w-4 h-4" />
+          {t.checkFairness}
+        </button>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-600 mb-4">{t.fairnessHint}</p>
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 mb-4">
+            {memberCard(t.earliestWithdrawer, report.earliest)}
+            {memberCard(t.latestWithdrawer, report.latest)}
+            <div className="border border-gray-200 rounded-lg p-3">
+              <p className="text-xs text-gray-600 mb-1">{t.irrSpread}</p>
+              <p className="text-base sm:text-lg font-bold text-gray-900">{report.spread !== null ? points(report.spread) : '-'}</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-3">
+              <p className="text-xs text-gray-600 mb-1">{t.irrRange}</p>
+              <p className="text-base sm:text-lg font-bold text-gray-900">
+                {report.lowestIrr !== null && report.highestIrr !== null
+                  ? `${fmt.percent(report.lowestIrr, 1, true)} … ${fmt.percent(report.highestIrr, 1, true)}`
+                  : '-'}
+              </p>
+            </div>
+          </div>
+
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.ladderSuggestions}</h4>
+          {report.suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500">{t.noLadderSuggestions}</p>
+          ) : (
+            <ul className="space-y-2">
+              {report.suggestions.map((suggestion) => (
+                <li key={suggestion.variable} className="flex flex-wrap items-center justify-between gap-3 bg-green-50 border border-green-200 rounded-lg p-3">
+                  <p className="text-sm text-gray-700">
+                    {variableLabels[suggestion.variable]}: {formatValue(suggestion.variable, inputs[suggestion.variable])} →{' '}
+                    <span className="font-bold text-green-700">{formatValue(suggestion.variable, suggestion.value)}</span>
+                    <span className="block text-xs text-gray-500">{fillTemplate(t.gapAfterChange, { gap: points(suggestion.gap) })}</span>
+                  </p>
+                  <button
+                    onClick={() => onApply({ [suggestion.variable]: suggestion.value })}
+                    className="px-4 py-2 rounded-lg font-medium text-sm bg-green-600 text-white hover:bg-green-700 transition-all"
+                  >
+                    {t.applySolution}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FairnessPanel;
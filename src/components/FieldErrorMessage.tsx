@@ -0,0 +1,43 @@
+import type { FieldError, FieldErrorCode } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { fillTemplate } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface FieldErrorMessageProps {
+  error: FieldError | undefined;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+// Keys of plain-text messages (not lists such as month names)
+type MessageKey = { [K in keyof Translations]: Translations[K] extends string ? K : never }[keyof Translations];
+
+const messageKeys: Record<FieldErrorCode, MessageKey> = {
+  wholeNumber: 'errWholeNumber',
+  minMembers: 'errMinMembers',
+  maxMembers: 'errMaxMembers',
+  positive: 'errPositive',
+  nonNegative: 'errNonNegative',
+  percentRange: 'errPercentRange',
+  exceedsNetPool: 'errExceedsNetPool',
+  commissionExceedsPool: 'errCommissionExceedsPool',
+  negativeEntries: 'errNegativeEntries',
+  bidRange: 'errBidRange',
+  invalidDate: 'errInvalidDate',
+  dayOfMonth: 'errDayOfMonth',
+  slotCount: 'errSlotCount',
+  slotMonths: 'errSlotMonths',
+  wholeTickets: 'errWholeTickets'
+};
+
+const FieldErrorMessage = ({ error, fmt, t }: FieldErrorMessageProps) => {
+  if (!error) return null;
+
+  return (
+    <p className="text-xs text-red-600 mt-1">
+      {fillTemplate(t[messageKeys[error.code]], { limit: error.limit !== undefined ? fmt.number(error.limit) : '' })}
+    </p>
+  );
+};
+
+export default FieldErrorMessage;
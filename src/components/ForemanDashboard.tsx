@@ -0,0 +1,131 @@
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import {
+  compareCommissionTypes,
+  summarizeForeman,
+  type ChitInputs,
+  type ChitResult,
+  type ForemanSummary
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { fillTemplate, irrIssueLabel } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface ForemanDashboardProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  results: ChitResult;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const cellClass = 'px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm';
+
+// The organiser's earnings, own cash at risk, IRR and break-even month, for
+// the scheme as entered and under either commission type
+const ForemanDashboard = ({ inputs, loanUtilization, results, fmt, t }: ForemanDashboardProps) => {
+  const summary = summarizeForeman(inputs, results);
+  const byCommissionType = compareCommissionTypes(inputs, loanUtilization);
+
+  const irrText = ({ annualizedIRR, irrIssue }: ForemanSummary) => {
+    if (annualizedIRR !== null) return fmt.percent(annualizedIRR, 1, true);
+    // Commission arrives before any outlay, so usually there is nothing to earn a rate on
+    if (irrIssue?.status === 'noSignChange') return t.noOwnCashAtRisk;
+    return irrIssue ? irrIssueLabel(irrIssue, t) : '-';
+  };
+  const breakEvenText = ({ breakEvenMonth }: ForemanSummary) =>
+    breakEvenMonth !== null ? `${t.month} ${breakEvenMonth}` : t.neverBreaksEven;
+
+  const metrics = [
+    { label: t.commissionCollected, value: fmt.money(summary.commission) },
+    { label: t.totalInterest, value: fmt.money(summary.interestEarned) },
+    { label: t.poolSurplus, value: fmt.money(summary.surplus) },
+    {
+      label: t.ownCashAtRisk,
+      value: fmt.money(summary.exposure),
+      note: summary.exposureMonths.length > 0 ? fillTemplate(t.exposureMonths, { months: summary.exposureMonths.join(', ') }) : t.noExposure
+    },
+    { label: t.foremanProfit, value: fmt.money(summary.profit) },
+    { label: t.foremanIrr, value: irrText(summary) },
+    { label: t.breakEvenMonth, value: breakEvenText(summary) }
+  ];
+
+  const columns = [
+    { type: 'monthly' as const, label: fillTemplate(t.monthlyCommissionColumn, { rate: fmt.number(inputs.commissionRate, 2) }) },
+    { type: 'onetime' as const, label: fillTemplate(t.oneTimeCommissionColumn, { amount: fmt.money(inputs.oneTimeCommission) }) }
+  ];
+  const rows: { label: string; value: (summary: ForemanSummary) => string }[] = [
+    { label: t.commissionCollected, value: (s) => fmt.money(s.commission) },
+    { label: t.poolSurplus, value: (s) => fmt.money(s.surplus) },
+    { label: t.ownCashAtRisk, value: (s) => fmt.money(s.exposure) },
+    { label: t.foremanProfit, value: (s) => fmt.money(s.profit) },
+    { label: t.foremanIrr, value: irrText },
+    { label: t.breakEvenMonth, value: breakEvenText }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-2">{t.foremanDashboard}</h3>
+      <p className="text-xs sm:text-sm text-gray-600 mb-4">{t.foremanHint}</p>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3 mb-6">
+        {metrics.map((metric) => (
+          <div key={metric.label} className="border border-gray-200 rounded-lg p-3">
+            <p className="text-xs text-gray-600 mb-1">{metric.label}</p>
+            <p className="text-base sm:text-lg font-bold text-gray-900">{metric.value}</p>
+            {metric.note && <p className="text-xs text-gray-500 mt-1">{metric.note}</p>}
+          </div>
+        ))}
+      </div>
+
+      {/* Cumulative Position */}
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.cumulativePosition}</h4>
+      <div className="h-56 sm:h-64 -mx-2 sm:mx-0 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={summary.timeline} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+            <YAxis tickFormatter={(value: number) => fmt.money(value, 'compact')} tick={{ fontSize: 12 }} width={70} />
+            <Tooltip
+              formatter={(value: unknown) => fmt.signedMoney(Number(value), 'full')}
+              labelFormatter={(month) => `${t.month} ${month}`}
+            />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <Area type="stepAfter" dataKey="cumulativePosition" name={t.cumulativePosition} stroke="#059669" fill="#a7f3d0" />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Monthly % vs one-time commission */}
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.commissionTypeComparison}</h4>
+      <div className="overflow-x-auto -mx-4 sm:mx-0">
+        <table className="w-full min-w-[400px]">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase"></th>
+              {columns.map(({ type, label }) => (
+                <th
+                  key={type}
+                  className={`px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium uppercase ${inputs.commissionType === type ? 'text-blue-600' : 'text-gray-500'}`}
+                >
+                  {label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.label} className="hover:bg-gray-50">
+                <td className={`${cellClass} font-medium text-gray-700`}>{row.label}</td>
+                {columns.map(({ type }) => (
+                  <td key={type} className={`${cellClass} text-gray-900`}>{row.value(byCommissionType[type])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ForemanDashboard;
@@ -0,0 +1,175 @@
+import { useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import {
+  isSolverApplicable,
+  solveGoal,
+  type ChitInputs,
+  type ChitResult,
+  type GoalSeekResult,
+  type SolverTarget,
+  type SolverVariable
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import { fillTemplate } from '../utils/format';
+
+interface GoalSeekPanelProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  onApply: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+type TargetKind = SolverTarget['kind'];
+
+const inputClass = 'w-full px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const GoalSeekPanel = ({ inputs, loanUtilization, onApply, fmt, t }: GoalSeekPanelProps) => {
+  const [variable, setVariable] = useState<SolverVariable>('monthlyIncrement');
+  const [targetKind, setTargetKind] = useState<TargetKind>('breakEven');
+  const [month, setMonth] = useState(inputs.totalMembers);
+  const [minIrr, setMinIrr] = useState(12);
+  // Remember what was solved so a result never outlives the inputs it was computed for
+  const [solved, setSolved] = useState<{ outcome: GoalSeekResult; inputs: ChitInputs; loanUtilization: number } | null>(null);
+
+  const outcome = solved && solved.inputs === inputs && solved.loanUtilization === loanUtilization ? solved.outcome : null;
+
+  const variables: { key: SolverVariable; label: string }[] = [
+    { key: 'firstWithdrawal', label: t.firstWithdrawal },
+    { key: 'monthlyIncrement', label: t.monthlyIncrement },
+    { key: 'monthlyContribution', label: t.monthlyContribution },
+    { key: 'commissionRate', label: t.monthlyRate }
+  ];
+
+  const lastIrr = (results: ChitResult) => {
+    const irr = results.memberReturns.at(-1)?.annualizedIRR;
+    return irr === null || irr === undefined ? '-' : fmt.percent(irr);
+  };
+
+  const formatValue = (key: SolverVariable, value: number) =>
+    key === 'commissionRate' ? `${fmt.number(value, 2)}%` : fmt.money(value, 'full');
+
+  const runSolver = () => {
+    const target: SolverTarget = targetKind === 'servedBy'
+      ? { kind: 'servedBy', month }
+      : targetKind === 'lastMemberIrr'
+        ? { kind: 'lastMemberIrr', minIrr }
+        : { kind: 'breakEven' };
+    setSolved({ outcome: solveGoal(inputs, loanUtilization, variable, target), inputs, loanUtilization });
+  };
+
+  const explain = (result: Exclude<GoalSeekResult, { status: 'solved' }>) => {
+    if (result.status === 'notApplicable') return t.solverNotApplicable;
+    if (result.status === 'invalidInputs') return t.fixInputsHint;
+
+    const values = {
+      low: formatValue(variable, result.range[0]),
+      high: formatValue(variable, result.range[1]),
+      served: result.mostServed,
+      total: inputs.totalMembers,
+      month: result.earliestMonth ?? '',
+      irr: result.bestIrr !== null ? fmt.number(result.bestIrr, 1) : ''
+    };
+    if (result.earliestMonth === null) return fillTemplate(t.solverNeverServesAll, values);
+    if (targetKind === 'servedBy') return fillTemplate(t.solverEarliestMonth, values);
+    if (targetKind === 'lastMemberIrr' && result.bestIrr !== null) return fillTemplate(t.solverBestIrr, values);
+    return fillTemplate(t.solverNoSolution, values);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <Crosshair className="w-5 h-5 text-blue-600" />
+        {t.goalSeek}
+      </h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 items-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.solveFor}</label>
+          <select value={variable} onChange={(e) => setVariable(e.target.value as SolverVariable)} className={inputClass}>
+            {variables.map(({ key, label }) => (
+              <option key={key} value={key} disabled={!isSolverApplicable(inputs, key)}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.target}</label>
+          <select value={targetKind} onChange={(e) => setTargetKind(e.target.value as TargetKind)} className={inputClass}>
+            <option value="breakEven">{t.targetBreakEven}</option>
+            <option value="servedBy">{t.targetServedBy}</option>
+            <option value="lastMemberIrr">{t.targetLastIrr}</option>
+          </select>
+        </div>
+
+        {targetKind === 'servedBy' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t.month}</label>
+            <input type="number" value={month} onChange={(e) => setMonth(parseInt(e.target.value) || 0)} className={inputClass} />
+          </div>
+        )}
+
+        {targetKind === 'lastMemberIrr' && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{t.lastMemberIrr} (%)</label>
+            <input
+              type="number"
+              step="0.5"
+              value={minIrr}
+              onChange={(e) => setMinIrr(parseFloat(e.target.value) || 0)}
+              className={inputClass}
+            />
+          </div>
+        )}
+
+        <button
+          onClick={runSolver}
+          className="px-6 py-2 rounded-lg font-medium text-sm sm:text-base bg-blue-600 text-white hover:bg-blue-700 transition-all"
+        >
+          {t.solve}
+        </button>
+      </div>
+
+      {outcome?.status === 'solved' && (
+        <div className="mt-4 bg-green-50 border border-green-200 rounded-lg p-4">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <p className="text-sm text-gray-700">
+              {t.solverResult}: {variables.find((item) => item.key === outcome.variable)?.label}{' '}
+              <span className="text-lg font-bold text-green-700">{formatValue(outcome.variable, outcome.value)}</span>
+            </p>
+            <button
+              onClick={() => onApply({ [outcome.variable]: outcome.value })}
+              className="px-4 py-2 rounded-lg font-medium text-sm bg-green-600 text-white hover:bg-green-700 transition-all"
+            >
+              {t.applySolution}
+            </button>
+          </div>
+          <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 mt-3 text-sm">
+            {[
+              { label: t.duration, value: `${outcome.results.duration}` },
+              { label: t.membersServed, value: `${outcome.results.totalMembersServed} / ${inputs.totalMembers}` },
+              { label: t.finalBalance, value: fmt.money(outcome.results.finalCarryOver) },
+              {
+                label: t.lastMemberIrr,
+                value: lastIrr(outcome.results)
+              }
+            ].map((item) => (
+              <div key={item.label}>
+                <dt className="text-xs text-gray-500">{item.label}</dt>
+                <dd className="font-bold text-gray-900">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+          {outcome.atLimit && <p className="text-xs text-gray-500 mt-3">{t.solverAtLimit}</p>}
+        </div>
+      )}
+
+      {outcome && outcome.status !== 'solved' && (
+        <p className="mt-4 text-sm text-amber-800 bg-amber-50 border border-amber-300 rounded-lg p-3">{explain(outcome)}</p>
+      )}
+    </div>
+  );
+};
+
+export default GoalSeekPanel;
@@ -0,0 +1,57 @@
+import type { ChitInputs, FieldErrors } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface LoanRiskInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-2 border ${invalid ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
+
+const LoanRiskInput = ({ inputs, errors, onChange, fmt, t }: LoanRiskInputProps) => (
+  <div className="sm:col-span-2 lg:col-span-3">
+    <label className="block text-sm font-medium text-gray-700 mb-1">{t.loanRisk}</label>
+    <p className="text-xs text-gray-500 mb-3">{t.loanRiskHint}</p>
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.loanDefaultRate}</label>
+        <input
+          type="number"
+          step="0.5"
+          value={inputs.loanDefaultRate}
+          onChange={(e) => onChange({ loanDefaultRate: parseFloat(e.target.value) || 0 })}
+          className={inputClass(!!errors.loanDefaultRate)}
+        />
+        <FieldErrorMessage error={errors.loanDefaultRate} fmt={fmt} t={t} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.loanRecoveryRate}</label>
+        <input
+          type="number"
+          value={inputs.loanRecoveryRate}
+          onChange={(e) => onChange({ loanRecoveryRate: parseFloat(e.target.value) || 0 })}
+          className={inputClass(!!errors.loanRecoveryRate)}
+        />
+        <FieldErrorMessage error={errors.loanRecoveryRate} fmt={fmt} t={t} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.loanRepaymentDelay}</label>
+        <input
+          type="number"
+          value={inputs.loanRepaymentDelay}
+          onChange={(e) => onChange({ loanRepaymentDelay: parseInt(e.target.value) || 0 })}
+          className={inputClass(!!errors.loanRepaymentDelay)}
+        />
+        <FieldErrorMessage error={errors.loanRepaymentDelay} fmt={fmt} t={t} />
+      </div>
+    </div>
+  </div>
+);
+
+export default LoanRiskInput;
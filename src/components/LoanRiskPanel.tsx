@@ -0,0 +1,89 @@
+import { useState } from 'react';
+import { Dices } from 'lucide-react';
+import {
+  Area,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { simulateLoanRisk, type ChitInputs, type LoanRiskSummary, type Percentiles } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import { fillTemplate } from '../utils/format';
+
+interface LoanRiskPanelProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const RUNS = 300;
+
+const formatBand = ({ p10, p50, p90 }: Percentiles, format: (value: number) => string) =>
+  `${format(p10)} / ${format(p50)} / ${format(p90)}`;
+
+// The simulation re-runs the whole scheme a few hundred times, so it only runs on request
+const LoanRiskPanel = ({ inputs, loanUtilization, fmt, t }: LoanRiskPanelProps) => {
+  const [simulated, setSimulated] = useState<{ summary: LoanRiskSummary; inputs: ChitInputs; loanUtilization: number } | null>(null);
+  const summary = simulated && simulated.inputs === inputs && simulated.loanUtilization === loanUtilization ? simulated.summary : null;
+
+  const chartData = summary?.servedByMonth.map((band) => ({ ...band, band: [band.p10, band.p90] }));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+        <h3 className="text-base sm:text-lg font-bold text-gray-800">{t.riskSimulation}</h3>
+        <button
+          onClick={() => setSimulated({ summary: simulateLoanRisk(inputs, loanUtilization, RUNS), inputs, loanUtilization })}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+        >
+          <Dices className="w-4 h-4" />
+          {t.runSimulation}
+        </button>
+      </div>
+      <p className="text-xs sm:text-sm text-gray-600 mb-4">{fillTemplate(t.riskSimulationHint, { runs: RUNS })}</p>
+
+      {summary && chartData && (
+        <>
+          <div className="h-64 sm:h-80 -mx-2 sm:mx-0 mb-4">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+                <YAxis tick={{ fontSize: 12 }} width={40} allowDecimals={false} />
+                <Tooltip labelFormatter={(month) => `${t.month} ${month}`} />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Area type="stepAfter" dataKey="band" name={t.riskBand} stroke="none" fill="#fdba74" fillOpacity={0.5} />
+                <Line type="stepAfter" dataKey="noRisk" name={t.noRiskRun} stroke="#9ca3af" strokeDasharray="5 5" strokeWidth={2} dot={false} />
+                <Line type="stepAfter" dataKey="expected" name={t.expectedRun} stroke="#2563eb" strokeWidth={2} dot={false} />
+                <Line type="stepAfter" dataKey="p50" name={t.medianRun} stroke="#ea580c" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <dl className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 text-sm">
+            {[
+              { label: `${t.duration} (${t.percentileRange})`, value: formatBand(summary.duration, (value) => `${value}`) },
+              { label: `${t.finalBalance} (${t.percentileRange})`, value: formatBand(summary.finalBalance, (value) => fmt.money(value)) },
+              { label: `${t.totalLosses} (${t.percentileRange})`, value: formatBand(summary.totalLoss, (value) => fmt.money(value)) },
+              { label: t.shortfallChance, value: fmt.percent(summary.shortfallPercent, 0) }
+            ].map((item) => (
+              <div key={item.label} className="bg-gray-50 rounded-lg p-3">
+                <dt className="text-xs text-gray-500 mb-1">{item.label}</dt>
+                <dd className="font-bold text-gray-900">{item.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default LoanRiskPanel;
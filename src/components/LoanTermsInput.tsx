@@ -0,0 +1,63 @@
+import type { ChitInputs, FieldErrors } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface LoanTermsInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-2 border ${invalid ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
+
+const LoanTermsInput = ({ inputs, errors, onChange, fmt, t }: LoanTermsInputProps) => (
+  <div className="sm:col-span-2 lg:col-span-3">
+    <label className="block text-sm font-medium text-gray-700 mb-1">{t.loanTerms}</label>
+    <p className="text-xs text-gray-500 mb-3">{t.loanTermsHint}</p>
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.loanTenure}</label>
+        <input
+          type="number"
+          min="1"
+          value={inputs.loanTenure}
+          onChange={(e) => onChange({ loanTenure: parseInt(e.target.value) || 0 })}
+          className={inputClass(!!errors.loanTenure)}
+        />
+        <FieldErrorMessage error={errors.loanTenure} fmt={fmt} t={t} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.repaymentStyle}</label>
+        <select
+          value={inputs.loanRepaymentStyle}
+          onChange={(e) => onChange({ loanRepaymentStyle: e.target.value as ChitInputs['loanRepaymentStyle'] })}
+          className={`${inputClass(false)} bg-white`}
+        >
+          <option value="bullet">{t.bulletRepayment}</option>
+          <option value="interestOnly">{t.interestOnlyRepayment}</option>
+          <option value="emi">{t.emiRepayment}</option>
+        </select>
+      </div>
+      {/* Interest-only loans clear their interest monthly, so compounding never applies */}
+      {inputs.loanRepaymentStyle !== 'interestOnly' && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t.interestCompounding}</label>
+          <select
+            value={inputs.loanCompounding}
+            onChange={(e) => onChange({ loanCompounding: e.target.value as ChitInputs['loanCompounding'] })}
+            className={`${inputClass(false)} bg-white`}
+          >
+            <option value="simple">{t.simpleInterest}</option>
+            <option value="monthly">{t.monthlyCompounding}</option>
+          </select>
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+export default LoanTermsInput;
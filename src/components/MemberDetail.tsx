@@ -0,0 +1,203 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  collectionDate,
+  conventionalRate,
+  mirr,
+  npv,
+  summarizeMember,
+  xirr,
+  type ChitInputs,
+  type IrrResult,
+  type MemberReturn
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import { irrIssueLabel } from '../utils/format';
+
+interface MemberDetailProps {
+  member: MemberReturn;
+  // Dated schemes also get an XIRR over the real collection days
+  calendar: Pick<ChitInputs, 'startDate' | 'collectionDay'>;
+  fmt: NumberFormatter;
+  t: Translations;
+  onClose: () => void;
+}
+
+const annualPercent = (monthlyRate: number) => (Math.pow(1 + monthlyRate, 12) - 1) * 100;
+
+const MemberDetail = ({ member, calendar, fmt, t, onClose }: MemberDetailProps) => {
+  const summary = summarizeMember(member);
+  const signed = (value: number) => fmt.signedMoney(value, 'full');
+  const [discountRate, setDiscountRate] = useState(7);
+
+  const monthlyDiscount = Math.pow(1 + discountRate / 100, 1 / 12) - 1;
+  const presentValue = npv(monthlyDiscount, member.cashFlows);
+  // Contributions financed and the payout reinvested at the same discount rate
+  const modifiedRate = conventionalRate(mirr(member.cashFlows, monthlyDiscount, monthlyDiscount));
+  const datedFlows = member.cashFlows.flatMap((amount, index) => {
+    const date = collectionDate(calendar, index + 1);
+    return date ? [{ date, amount }] : [];
+  });
+  const datedIrr = datedFlows.length === member.cashFlows.length ? xirr(datedFlows) : null;
+
+  // XIRR is already annual; like the IRR table, an ambiguous one shows the rate nearest zero
+  const xirrText = (result: IrrResult) =>
+    result.status === 'noSignChange' || result.status === 'noRoot'
+      ? irrIssueLabel(result, t)
+      : fmt.percent((conventionalRate(result) ?? 0) * 100);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6 border-2 border-blue-200">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-base sm:text-lg font-bold text-gray-800">
+          {t.member} {member.member} · {t.month} {member.withdrawalMonth}
+        </h3>
+        <button
+          onClick={onClose}
+          aria-label={t.close}
+          className="p-1.5 rounded-full text-gray-500 hover:bg-gray-100 transition-all"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {/* Simple Summary */}
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.simpleSummary}</h4>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4 mb-6">
+        <div className="bg-red-50 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.youPay}</p>
+          <p className="text-lg sm:text-xl font-bold text-red-600">{fmt.money(summary.youPay)}</p>
+        </div>
+        <div className="bg-green-50 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.youGet}</p>
+          <p className="text-lg sm:text-xl font-bold text-green-600">{fmt.money(summary.youGet)}</p>
+        </div>
+        <div className="bg-blue-50 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.netPosition}</p>
+          <p className={`text-lg sm:text-xl font-bold ${summary.netPosition >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+            {signed(summary.netPosition)}
+          </p>
+        </div>
+        <div className="bg-purple-50 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.monthsToRepay}</p>
+          <p className="text-lg sm:text-xl font-bold text-purple-600">{summary.monthsToRepay}</p>
+        </div>
+      </div>
+
+      {/* Split Contribution Analysis */}
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.splitContribution}</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 sm:gap-4 mb-6">
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.paidBefore}</p>
+          <p className="text-base sm:text-lg font-bold text-gray-900">{fmt.money(summary.paidBefore, 'full')}</p>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.paidAfter}</p>
+          <p className="text-base sm:text-lg font-bold text-gray-900">{fmt.money(summary.paidAfter, 'full')}</p>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.effectiveLoan}</p>
+          <p className={`text-base sm:text-lg font-bold ${summary.effectiveLoan > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+            {fmt.money(summary.effectiveLoan, 'full')}
+          </p>
+        </div>
+      </div>
+
+      {/* Time Value */}
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.timeValue}</h4>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 sm:gap-4 mb-6">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">{t.discountRate}</label>
+          <input
+            type="number"
+            min="0"
+            step="0.5"
+            value={discountRate}
+            onChange={(e) => setDiscountRate(parseFloat(e.target.value) || 0)}
+            className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.npvAtRate}</p>
+          <p className={`text-base sm:text-lg font-bold ${presentValue >= 0 ? 'text-green-600' : 'text-red-600'}`}>{signed(presentValue)}</p>
+        </div>
+        <div className="border border-gray-200 rounded-lg p-3">
+          <p className="text-xs text-gray-600 mb-1">{t.mirrLabel}</p>
+          <p className="text-base sm:text-lg font-bold text-gray-900">{modifiedRate !== null ? fmt.percent(annualPercent(modifiedRate)) : '-'}</p>
+        </div>
+        {datedIrr && (
+          <div className="border border-gray-200 rounded-lg p-3">
+            <p className="text-xs text-gray-600 mb-1">{t.xirrLabel}</p>
+            <p className="text-base sm:text-lg font-bold text-gray-900">{xirrText(datedIrr)}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Cumulative Position */}
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{t.cumulativePosition}</h4>
+      <div className="h-56 sm:h-64 -mx-2 sm:mx-0 mb-6">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={summary.timeline} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+            <XAxis dataKey="month" tick={{ fontSize: 12 }} />
+            <YAxis tickFormatter={(value: number) => fmt.money(Math.abs(value), 'compact')} tick={{ fontSize: 12 }} width={70} />
+            <Tooltip
+              formatter={(value: unknown) => signed(Number(value))}
+              labelFormatter={(month) => `${t.month} ${month}`}
+            />
+            <ReferenceLine y={0} stroke="#6b7280" />
+            <Area type="stepAfter" dataKey="cumulativePosition" name={t.cumulativePosition} stroke="#2563eb" fill="#bfdbfe" />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Cash Flow Timeline */}
+      <details className="cursor-pointer">
+        <summary className="text-sm font-semibold text-gray-700 mb-2">{t.cashFlowTimeline}</summary>
+        <div className="overflow-x-auto mt-2 -mx-4 sm:mx-0">
+          <table className="w-full min-w-[500px]">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.month}</th>
+                <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.contribution}</th>
+                <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.withdrawal}</th>
+                <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.netFlow}</th>
+                <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase">{t.cumulativePosition}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {summary.timeline.map((row) => (
+                <tr key={row.month} className={`hover:bg-gray-50 ${row.withdrawal > 0 ? 'bg-blue-50' : ''}`}>
+                  <td className="px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium text-gray-900">{t.month} {row.month}</td>
+                  <td className="px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-700">{fmt.money(row.contribution, 'full')}</td>
+                  <td className="px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium text-blue-600">
+                    {row.withdrawal > 0 ? fmt.money(row.withdrawal, 'full') : '-'}
+                  </td>
+                  <td className={`px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium ${row.netFlow >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {signed(row.netFlow)}
+                  </td>
+                  <td className={`px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-bold ${row.cumulativePosition >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                    {signed(row.cumulativePosition)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </details>
+    </div>
+  );
+};
+
+export default MemberDetail;
@@ -0,0 +1,376 @@
+import { useState } from 'react';
+import { CalendarCheck, Trash2, UserPlus, Users, Wallet } from 'lucide-react';
+import {
+  autoAssignWithdrawals,
+  buildCollectionLedger,
+  memberDue,
+  openSlots,
+  paidAmount,
+  paymentStatus,
+  recordPayment,
+  removeMember,
+  type ChitResult,
+  type PaymentStatus,
+  type Roster,
+  type RosterMember
+} from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import { fillTemplate } from '../utils/format';
+
+interface MemberRosterProps {
+  roster: Roster | null;
+  results: ChitResult | null;
+  totalMembers: number;
+  onChange: (roster: Roster) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+const cellClass = 'px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm';
+const headerClass = 'px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase';
+
+const statusStyles: Record<PaymentStatus, string> = {
+  paid: 'bg-green-100 text-green-700',
+  partial: 'bg-amber-100 text-amber-700',
+  unpaid: 'bg-red-100 text-red-700'
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const newMemberId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Live-group tracking: who is in the chit, when each member takes the payout,
+// and what has actually been collected against the simulated contributions
+const MemberRoster = ({ roster, results, totalMembers, onChange, fmt, t }: MemberRosterProps) => {
+  const [draft, setDraft] = useState({ name: '', phone: '', joinedOn: today() });
+  const [ledgerMonth, setLedgerMonth] = useState(1);
+
+  if (!roster) {
+    return <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 text-sm text-gray-600">{t.rosterNeedsGroup}</div>;
+  }
+  if (!results) {
+    return <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 text-sm text-red-600">{t.fixInputsHint}</div>;
+  }
+
+  const schedule = results.withdrawalSchedule;
+  const slots = openSlots(roster, schedule);
+  const ledger = buildCollectionLedger(roster, schedule);
+  const duesById = new Map(ledger.members.map((dues) => [dues.memberId, dues]));
+  const month = Math.min(Math.max(1, ledgerMonth), schedule.length);
+  const monthRow = schedule[month - 1];
+  const monthExpected = (member: RosterMember) => (monthRow ? memberDue(member, monthRow) : 0);
+  const monthCollected = roster.members.reduce((sum, member) => sum + paidAmount(roster, member.id, month), 0);
+
+  const addMember = () => {
+    const member: RosterMember = { id: newMemberId(), name: draft.name.trim(), phone: draft.phone.trim(), joinedOn: draft.joinedOn, share: 1, withdrawalMonth: null };
+    onChange({ ...roster, members: [...roster.members, member] });
+    setDraft({ name: '', phone: '', joinedOn: draft.joinedOn });
+  };
+
+  const updateMember = (id: string, changes: Partial<RosterMember>) => {
+    onChange({ ...roster, members: roster.members.map((member) => (member.id === id ? { ...member, ...changes } : member)) });
+  };
+
+  const statusLabels: Record<PaymentStatus, string> = {
+    paid: t.statusPaid,
+    partial: t.statusPartial,
+    unpaid: t.statusUnpaid
+  };
+
+  const owing = ledger.members.filter((dues) => dues.outstanding > 0);
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Roster */}
+      <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+        <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-1 flex items-center gap-2">
+          <Users className="w-5 h-5 text-blue-600" />
+          {t.roster}
+        </h2>
+        <p className="text-xs text-gray-500 mb-4">{t.rosterHint}</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 mb-4">
+          <input
+            type="text"
+            value={draft.name}
+            placeholder={t.memberName}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="tel"
+            value={draft.phone}
+            placeholder={t.phone}
+            onChange={(e) => setDraft({ ...draft, phone: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="date"
+            value={draft.joinedOn}
+            aria-label={t.joinedOn}
+            onChange={(e) => setDraft({ ...draft, joinedOn: e.target.value })}
+            className={inputClass}
+          />
+          <button
+            disabled={!draft.name.trim()}
+            onClick={addMember}
+            className="flex items-center justify-center gap-1.5 px-3 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <UserPlus className="w-4 h-4" />
+            {t.addMember}
+          </button>
+        </div>
+
+        {roster.members.length !== totalMembers && roster.members.length > 0 && (
+          <p className="text-xs text-amber-700 mb-3">
+            {fillTemplate(t.rosterCountMismatch, { count: roster.members.length, total: totalMembers })}
+          </p>
+        )}
+
+        {roster.members.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.noMembersYet}</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="w-full min-w-[720px]">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerClass}>{t.memberName}</th>
+                    <th className={headerClass}>{t.phone}</th>
+                    <th className={headerClass}>{t.joinedOn}</th>
+                    <th className={headerClass}>{t.share}</th>
+                    <th className={headerClass}>{t.withdrawalMonth}</th>
+                    <th className={headerClass}>{t.outstandingDues}</th>
+                    <th className={headerClass}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {roster.members.map((member) => (
+                    <tr key={member.id} className="hover:bg-gray-50">
+                      <td className={`${cellClass} font-medium text-gray-900`}>{member.name}</td>
+                      <td className={`${cellClass} text-gray-700`}>{member.phone || '-'}</td>
+                      <td className={`${cellClass} text-gray-700`}>{member.joinedOn || '-'}</td>
+                      <td className={cellClass}>
+                        <input
+                          type="number"
+                          min="0.5"
+                          step="0.5"
+                          value={member.share}
+                          onChange={(e) => updateMember(member.id, { share: parseFloat(e.target.value) || 1 })}
+                          className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                        />
+                      </td>
+                      <td className={cellClass}>
+                        <select
+                          value={member.withdrawalMonth ?? ''}
+                          onChange={(e) => updateMember(member.id, { withdrawalMonth: e.target.value ? parseInt(e.target.value) : null })}
+                          className="px-2 py-1 text-sm border border-gray-300 rounded-lg bg-white"
+                        >
+                          <option value="">{t.unassigned}</option>
+                          {schedule
+                            .filter((row) => row.actualWithdrawals > 0)
+                            .map((row) => (
+                              <option
+                                key={row.month}
+                                value={row.month}
+                                disabled={slots[row.month] <= 0 && member.withdrawalMonth !== row.month}
+                              >
+                                {t.month} {row.month} ({fmt.money(row.withdrawalAmount)})
+                              </option>
+                            ))}
+                        </select>
+                      </td>
+                      <td className={`${cellClass} font-medium ${duesById.get(member.id)?.outstanding ? 'text-red-600' : 'text-green-600'}`}>
+                        {fmt.money(duesById.get(member.id)?.outstanding ?? 0)}
+                      </td>
+                      <td className={`${cellClass} text-right`}>
+                        <button
+                          onClick={() => onChange(removeMember(roster, member.id))}
+                          aria-label={t.removeMember}
+                          className="p-1.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <button
+              disabled={roster.members.every((member) => member.withdrawalMonth !== null)}
+              onClick={() => onChange(autoAssignWithdrawals(roster, schedule))}
+              className="mt-4 flex items-center gap-1.5 px-3 py-2 rounded-lg font-medium text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <CalendarCheck className="w-4 h-4" />
+              {t.autoAssign}
+            </button>
+          </>
+        )}
+      </div>
+
+      {roster.members.length > 0 && monthRow && (
+        <>
+          {/* Contribution ledger for one month */}
+          <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+            <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-blue-600" />
+              {t.contributionLedger}
+            </h2>
+
+            <div className="flex flex-wrap gap-4 items-end mb-4">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">{t.month}</label>
+                <select
+                  value={month}
+                  onChange={(e) => setLedgerMonth(parseInt(e.target.value))}
+                  className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+                >
+                  {schedule.map((row) => (
+                    <option key={row.month} value={row.month}>{t.month} {row.month}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">{t.currentMonth}</label>
+                <input
+                  type="number"
+                  min="1"
+                  max={schedule.length}
+                  value={roster.currentMonth}
+                  onChange={(e) => onChange({ ...roster, currentMonth: Math.min(Math.max(1, parseInt(e.target.value) || 1), schedule.length) })}
+                  className="w-24 px-3 py-2 text-sm border border-gray-300 rounded-lg"
+                />
+              </div>
+              <dl className="flex gap-4 text-sm">
+                <div>
+                  <dt className="text-xs text-gray-500">{t.expectedAmount}</dt>
+                  <dd className="font-bold text-gray-900">{fmt.money(roster.members.reduce((sum, member) => sum + monthExpected(member), 0))}</dd>
+                </div>
+                <div>
+                  <dt className="text-xs text-gray-500">{t.collectedAmount}</dt>
+                  <dd className="font-bold text-green-600">{fmt.money(monthCollected)}</dd>
+                </div>
+              </dl>
+            </div>
+
+            <div className="overflow-x-auto -mx-4 sm:mx-0">
+              <table className="w-full min-w-[520px]">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerClass}>{t.memberName}</th>
+                    <th className={headerClass}>{t.expectedAmount}</th>
+                    <th className={headerClass}>{t.amountPaid}</th>
+                    <th className={headerClass}>{t.markPaid}</th>
+                    <th className={headerClass}></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {roster.members.map((member) => {
+                    const paid = paidAmount(roster, member.id, month);
+                    const expected = monthExpected(member);
+                    const status = paymentStatus(paid, expected);
+                    return (
+                      <tr key={member.id} className="hover:bg-gray-50">
+                        <td className={`${cellClass} font-medium text-gray-900`}>{member.name}</td>
+                        <td className={`${cellClass} text-gray-700`}>{fmt.money(expected)}</td>
+                        <td className={cellClass}>
+                          <input
+                            type="number"
+                            value={paid}
+                            onChange={(e) => onChange(recordPayment(roster, member.id, month, parseInt(e.target.value) || 0, today()))}
+                            className="w-28 px-2 py-1 text-sm border border-gray-300 rounded-lg"
+                          />
+                        </td>
+                        <td className={cellClass}>
+                          <input
+                            type="checkbox"
+                            checked={status === 'paid'}
+                            onChange={(e) => onChange(recordPayment(roster, member.id, month, e.target.checked ? expected : 0, today()))}
+                            className="w-4 h-4"
+                          />
+                        </td>
+                        <td className={cellClass}>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${statusStyles[status]}`}>{statusLabels[status]}</span>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Expected against collected up to the current month */}
+          <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+            <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4">
+              {fillTemplate(t.duesToDate, { month: Math.min(roster.currentMonth, schedule.length) })}
+            </h2>
+
+            <div className="overflow-x-auto -mx-4 sm:mx-0 mb-4">
+              <table className="w-full min-w-[480px]">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className={headerClass}>{t.month}</th>
+                    <th className={headerClass}>{t.expectedAmount}</th>
+                    <th className={headerClass}>{t.collectedAmount}</th>
+                    <th className={headerClass}>{t.shortfall}</th>
+                    <th className={headerClass}>{t.statusPaid}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {ledger.months.map((row) => (
+                    <tr key={row.month} className="hover:bg-gray-50">
+                      <td className={`${cellClass} font-medium text-gray-900`}>{t.month} {row.month}</td>
+                      <td className={`${cellClass} text-gray-700`}>{fmt.money(row.expected)}</td>
+                      <td className={`${cellClass} text-green-600`}>{fmt.money(row.collected)}</td>
+                      <td className={`${cellClass} ${row.shortfall > 0 ? 'text-red-600 font-medium' : 'text-gray-500'}`}>{fmt.money(row.shortfall)}</td>
+                      <td className={`${cellClass} text-gray-700`}>{row.paidMembers} / {roster.members.length}</td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot className="bg-gray-50 font-bold">
+                  <tr>
+                    <td className={cellClass}></td>
+                    <td className={cellClass}>{fmt.money(ledger.expected)}</td>
+                    <td className={`${cellClass} text-green-600`}>{fmt.money(ledger.collected)}</td>
+                    <td className={`${cellClass} text-red-600`}>{fmt.money(ledger.outstanding)}</td>
+                    <td className={cellClass}></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            <h3 className="text-sm font-bold text-gray-800 mb-2">{t.outstandingDues}</h3>
+            {owing.length === 0 ? (
+              <p className="text-sm text-green-600">{t.noDues}</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {owing.map((dues) => {
+                  const member = roster.members.find((item) => item.id === dues.memberId);
+                  return (
+                    <li key={dues.memberId} className="flex flex-wrap justify-between gap-2 py-2 text-sm">
+                      <span className="font-medium text-gray-900">
+                        {member?.name}
+                        {member?.phone && <span className="ml-2 text-xs text-gray-500">{member.phone}</span>}
+                      </span>
+                      <span className="text-gray-600">
+                        {t.unpaidMonths}: {dues.unpaidMonths.join(', ')}
+                        <span className="ml-3 font-bold text-red-600">{fmt.money(dues.outstanding)}</span>
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MemberRoster;
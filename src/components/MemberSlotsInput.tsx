@@ -0,0 +1,143 @@
+import { Trash2, UserPlus } from 'lucide-react';
+import { fullTicket, resolveSlots, stayingCount, type ChitInputs, type FieldErrors, type MemberSlot } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface MemberSlotsInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const headerClass = 'px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase';
+const cellInputClass = 'w-full px-2 py-1 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Members with larger or smaller shares, and members who join late or leave
+// early. An empty list keeps the plain group of equal members.
+const MemberSlotsInput = ({ inputs, errors, onChange, fmt, t }: MemberSlotsInputProps) => {
+  const slots = inputs.memberSlots;
+
+  // The scheme runs one month per staying member, so keep the count in step with the list
+  const updateSlots = (next: MemberSlot[]) => onChange({ memberSlots: next, totalMembers: stayingCount(next) });
+
+  const updateSlot = (index: number, changes: Partial<MemberSlot>) =>
+    updateSlots(slots.map((slot, i) => (i === index ? { ...slot, ...changes } : slot)));
+
+  return (
+    <div className="sm:col-span-2 lg:col-span-3">
+      <label className="block text-sm font-medium text-gray-700 mb-1">{t.memberSlots}</label>
+      <p className="text-xs text-gray-500 mb-3">{t.memberSlotsHint}</p>
+
+      {slots.length === 0 ? (
+        <button
+          disabled={!!errors.totalMembers}
+          onClick={() => onChange({ memberSlots: resolveSlots(inputs) })}
+          className="px-4 py-2 rounded-lg font-medium text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t.customizeMembers}
+        </button>
+      ) : (
+        <>
+          <FieldErrorMessage error={errors.memberSlots} fmt={fmt} t={t} />
+          <div className="overflow-x-auto -mx-4 sm:mx-0 mb-3">
+            <table className="w-full min-w-[420px]">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className={headerClass}>{t.member}</th>
+                  <th className={headerClass}>{t.share}</th>
+                  <th className={headerClass}>{t.joinMonth}</th>
+                  <th className={headerClass}>{t.leaveMonth}</th>
+                  <th className={headerClass}></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {slots.map((slot, index) => (
+                  <tr key={index}>
+                    <td className="px-2 py-1.5 text-sm font-medium text-gray-900">{index + 1}</td>
+                    <td className="px-2 py-1.5">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        value={slot.share}
+                        onChange={(e) => updateSlot(index, { share: parseFloat(e.target.value) || 0 })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      <input
+                        type="number"
+                        min="1"
+                        value={slot.joinMonth}
+                        onChange={(e) => updateSlot(index, { joinMonth: parseInt(e.target.value) || 0 })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-2 py-1.5">
+                      {/* Left empty for a member who stays to be paid out */}
+                      <input
+                        type="number"
+                        min="2"
+                        value={slot.leaveMonth ?? ''}
+                        placeholder={t.staysToEnd}
+                        onChange={(e) => updateSlot(index, { leaveMonth: parseInt(e.target.value) || null })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      <button
+                        onClick={() => updateSlots(slots.filter((_, i) => i !== index))}
+                        aria-label={t.removeMember}
+                        className="p-1.5 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap gap-2 sm:gap-4 mb-4">
+            <button
+              onClick={() => updateSlots([...slots, fullTicket()])}
+              className="flex items-center gap-1.5 px-3 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+            >
+              <UserPlus className="w-4 h-4" />
+              {t.addMember}
+            </button>
+            <button
+              onClick={() => onChange({ memberSlots: [], totalMembers: stayingCount(slots) })}
+              className="px-3 py-2 rounded-lg font-medium text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+            >
+              {t.equalMembers}
+            </button>
+          </div>
+
+          {slots.some((slot) => slot.leaveMonth !== null) && (
+            <div className="w-full sm:w-64">
+              <label className="block text-xs text-gray-500 mb-1">{t.exitRefundPercent}</label>
+              <input
+                type="number"
+                min="0"
+                max="100"
+                step="1"
+                value={inputs.exitRefundPercent}
+                onChange={(e) => onChange({ exitRefundPercent: parseFloat(e.target.value) || 0 })}
+                className={`w-full px-4 py-2 border ${errors.exitRefundPercent ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+              />
+              <FieldErrorMessage error={errors.exitRefundPercent} fmt={fmt} t={t} />
+              <p className="text-xs text-gray-500 mt-1">{t.exitRefundHint}</p>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MemberSlotsInput;
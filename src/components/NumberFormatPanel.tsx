@@ -0,0 +1,90 @@
+import { languages, type Language, type Translations } from '../translations';
+import { BASE_CURRENCY, displayCurrencies, type NumberFormatSettings, type NumberFormatter } from '../utils/numberFormat';
+import { fillTemplate } from '../utils/format';
+
+interface NumberFormatPanelProps {
+  settings: NumberFormatSettings;
+  onChange: (settings: NumberFormatSettings) => void;
+  language: Language;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white';
+
+// Display-only settings: grouping, compact or full amounts, the language's own
+// digits and a currency to view every amount in. The scheme itself stays in rupees.
+const NumberFormatPanel = ({ settings, onChange, language, fmt, t }: NumberFormatPanelProps) => {
+  const update = (changes: Partial<NumberFormatSettings>) => onChange({ ...settings, ...changes });
+
+  return (
+    <details className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <summary className="cursor-pointer text-base sm:text-lg font-bold text-gray-800">
+        {t.numberFormat}
+        <span className="ml-3 text-sm font-normal text-gray-500">{fmt.money(1234567)} · {fmt.money(1234567, 'full')}</span>
+      </summary>
+      <p className="text-xs sm:text-sm text-gray-600 mt-3 mb-4">{t.numberFormatHint}</p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t.digitGrouping}</label>
+          <select
+            value={settings.grouping}
+            onChange={(e) => update({ grouping: e.target.value as NumberFormatSettings['grouping'] })}
+            className={inputClass}
+          >
+            <option value="indian">{t.indianGrouping}</option>
+            <option value="international">{t.internationalGrouping}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t.amountDisplay}</label>
+          <select
+            value={settings.display}
+            onChange={(e) => update({ display: e.target.value as NumberFormatSettings['display'] })}
+            className={inputClass}
+          >
+            <option value="compact">{t.compactAmounts}</option>
+            <option value="full">{t.fullAmounts}</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">{t.displayCurrency}</label>
+          <select value={settings.currency} onChange={(e) => update({ currency: e.target.value })} className={inputClass}>
+            {displayCurrencies.map((code) => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </div>
+        {settings.currency !== BASE_CURRENCY && (
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{fillTemplate(t.exchangeRate, { currency: settings.currency })}</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={settings.exchangeRate}
+              onChange={(e) => update({ exchangeRate: parseFloat(e.target.value) || 0 })}
+              className={`${inputClass} ${settings.exchangeRate > 0 ? '' : 'border-red-400'}`}
+            />
+            {!(settings.exchangeRate > 0) && <p className="text-xs text-red-600 mt-1">{t.errPositive}</p>}
+          </div>
+        )}
+        {/* Latin-script languages have nothing to switch to */}
+        {languages[language].script !== 'latin' && (
+          <label className="flex items-center gap-2 text-sm text-gray-700 sm:col-span-2 lg:col-span-4">
+            <input
+              type="checkbox"
+              checked={settings.nativeDigits}
+              onChange={(e) => update({ nativeDigits: e.target.checked })}
+              className="w-4 h-4 accent-blue-600"
+            />
+            {t.nativeDigits}
+          </label>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default NumberFormatPanel;
@@ -0,0 +1,130 @@
+import { buildPayoutSchedule, derivedIncrement, type ChitInputs, type FieldErrors, type PayoutMode } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { amountLabel } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface PayoutScheduleInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-2 border ${invalid ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
+
+const PayoutScheduleInput = ({ inputs, errors, onChange, fmt, t }: PayoutScheduleInputProps) => {
+  const modes: { mode: PayoutMode; label: string }[] = [
+    { mode: 'increment', label: t.linearIncrement },
+    { mode: 'interpolate', label: t.linearInterpolation },
+    { mode: 'stepUp', label: t.stepUp },
+    { mode: 'custom', label: t.customSchedule }
+  ];
+
+  // The schedule is sized by the member count, so skip it until that is valid
+  const customPayouts = errors.totalMembers ? [] : buildPayoutSchedule(inputs);
+
+  const selectMode = (mode: PayoutMode) => {
+    // Seed an empty custom table from the ladder currently on screen so the organiser edits rather than retypes
+    if (mode === 'custom' && inputs.customPayouts.length === 0) {
+      onChange({ payoutMode: mode, customPayouts });
+    } else {
+      onChange({ payoutMode: mode });
+    }
+  };
+
+  const updateCustomPayout = (index: number, value: number) => {
+    const next = [...customPayouts];
+    next[index] = value;
+    onChange({ customPayouts: next });
+  };
+
+  return (
+    <div className="sm:col-span-2 lg:col-span-3">
+      <label className="block text-sm font-medium text-gray-700 mb-3">{t.payoutMode}</label>
+      <div className="flex flex-wrap gap-2 sm:gap-4 mb-4">
+        {modes.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => selectMode(mode)}
+            className={`px-4 sm:px-6 py-2 rounded-lg font-medium text-sm sm:text-base transition-all ${
+              inputs.payoutMode === mode
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {inputs.payoutMode === 'increment' && (
+        <div className="w-full sm:w-64">
+          <label className="block text-sm font-medium text-gray-700 mb-2">{amountLabel(t.monthlyIncrement, t, fmt)}</label>
+          <input
+            type="number"
+            value={inputs.monthlyIncrement}
+            onChange={(e) => onChange({ monthlyIncrement: parseInt(e.target.value) || 0 })}
+            className={inputClass(false)}
+          />
+        </div>
+      )}
+
+      {inputs.payoutMode === 'interpolate' && (
+        <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+          <div className="w-full sm:w-64">
+            <label className="block text-sm font-medium text-gray-700 mb-2">{amountLabel(t.finalWithdrawal, t, fmt)}</label>
+            <input
+              type="number"
+              value={inputs.finalWithdrawal}
+              onChange={(e) => onChange({ finalWithdrawal: parseInt(e.target.value) || 0 })}
+              className={inputClass(!!errors.finalWithdrawal)}
+            />
+            <FieldErrorMessage error={errors.finalWithdrawal} fmt={fmt} t={t} />
+          </div>
+          <p className="text-sm text-gray-600 pb-2">
+            {t.derivedIncrement}: <span className="font-bold text-blue-600">{fmt.money(Math.round(derivedIncrement(inputs)), 'full')}</span>
+          </p>
+        </div>
+      )}
+
+      {inputs.payoutMode === 'stepUp' && (
+        <div className="w-full sm:w-64">
+          <label className="block text-sm font-medium text-gray-700 mb-2">{t.stepUpPercent}</label>
+          <input
+            type="number"
+            step="0.1"
+            value={inputs.stepUpPercent}
+            onChange={(e) => onChange({ stepUpPercent: parseFloat(e.target.value) || 0 })}
+            className={inputClass(!!errors.stepUpPercent)}
+          />
+          <FieldErrorMessage error={errors.stepUpPercent} fmt={fmt} t={t} />
+        </div>
+      )}
+
+      {inputs.payoutMode === 'custom' && (
+        <div>
+          <p className="text-xs text-gray-500 mb-3">{t.customScheduleHint}</p>
+          <FieldErrorMessage error={errors.customPayouts} fmt={fmt} t={t} />
+          <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2 sm:gap-3">
+            {customPayouts.map((amount, index) => (
+              <div key={index}>
+                <label className="block text-xs text-gray-500 mb-1">{t.month} {index + 1}</label>
+                <input
+                  type="number"
+                  value={amount}
+                  onChange={(e) => updateCustomPayout(index, parseInt(e.target.value) || 0)}
+                  className={`w-full px-3 py-1.5 text-sm border ${amount < 0 ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PayoutScheduleInput;
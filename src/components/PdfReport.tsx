@@ -0,0 +1,138 @@
+import type { ChitInputs, ChitResult } from '../engine/chitEngine';
+import type { ExportTable } from '../export/reportTables';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface PdfReportProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  results: ChitResult;
+  tables: ExportTable[];
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+// Print layout used only for PDF export: plain A4-width markup with inline
+// sizes so the rendered page doesn't depend on the current viewport.
+const PdfReport = ({ inputs, loanUtilization, results, tables, fmt, t }: PdfReportProps) => {
+  const payoutModeLabels = {
+    increment: t.linearIncrement,
+    interpolate: t.linearInterpolation,
+    stepUp: t.stepUp,
+    custom: t.customSchedule
+  };
+  const withdrawalOrderLabels = {
+    sequence: t.sequenceOrder,
+    // The seed is printed so members can check the draw for themselves
+    lottery: `${t.lotteryDraw} · ${t.lotterySeed} ${inputs.lotterySeed}`,
+    priority: t.priorityOrder,
+    needs: t.needsOrder
+  };
+  const repaymentStyleLabels = {
+    bullet: t.bulletRepayment,
+    interestOnly: t.interestOnlyRepayment,
+    emi: t.emiRepayment
+  };
+
+  const inputRows = [
+    { label: t.schemeType, value: inputs.schemeType === 'fixed' ? t.fixedScheme : t.auctionScheme },
+    { label: t.totalMembers, value: `${inputs.totalMembers}` },
+    { label: t.monthlyContribution, value: fmt.money(inputs.monthlyContribution) },
+    ...(inputs.schemeType === 'fixed'
+      ? [
+          { label: t.firstWithdrawal, value: fmt.money(inputs.firstWithdrawal) },
+          { label: t.payoutMode, value: payoutModeLabels[inputs.payoutMode] },
+          { label: t.loanTenure, value: `${inputs.loanTenure}` },
+          { label: t.repaymentStyle, value: repaymentStyleLabels[inputs.loanRepaymentStyle] }
+        ]
+      : [{ label: t.startingBidPercent, value: `${inputs.startingBidPercent}%` }]),
+    {
+      label: t.commissionType,
+      value: inputs.commissionType === 'monthly'
+        ? `${t.monthlyRate}: ${inputs.commissionRate}%`
+        : `${t.oneTimeAmount}: ${fmt.money(inputs.oneTimeCommission)}`
+    },
+    { label: t.withdrawalOrder, value: withdrawalOrderLabels[inputs.withdrawalOrder] },
+    { label: t.loanInterestRate, value: `${inputs.loanInterestRate}%` },
+    { label: t.loanUtilization, value: `${loanUtilization}%` },
+    ...(inputs.gstRate > 0
+      ? [{ label: t.gstRate, value: `${inputs.gstRate}% · ${inputs.gstBorneBy === 'pool' ? t.gstByPool : t.gstByWinner}` }]
+      : []),
+    ...(inputs.schemeType === 'fixed' && inputs.tdsRate > 0
+      ? [
+          { label: t.tdsRate, value: `${inputs.tdsRate}%` },
+          { label: t.tdsThreshold, value: fmt.money(inputs.tdsThreshold) }
+        ]
+      : [])
+  ];
+
+  const metricRows = [
+    { label: t.monthlyPool, value: fmt.money(results.totalPool) },
+    { label: t.commissionPerMonth, value: fmt.money(results.commissionPerMonth) },
+    { label: t.totalCommission, value: fmt.money(results.totalCommission) },
+    { label: t.duration, value: `${results.duration}` },
+    { label: t.membersServed, value: `${results.totalMembersServed} / ${inputs.totalMembers}` },
+    { label: t.totalLoans, value: fmt.money(results.totalLoanAmount) },
+    { label: t.totalInterest, value: fmt.money(results.totalInterestEarned) },
+    ...(results.totalGst + results.totalTds > 0
+      ? [{ label: t.totalTaxes, value: fmt.money(results.totalGst + results.totalTds) }]
+      : []),
+    { label: t.finalBalance, value: fmt.money(results.finalCarryOver) }
+  ];
+
+  return (
+    <div className="bg-white text-gray-900 p-8" style={{ width: 794 }}>
+      <div data-pdf-block className="border-b-2 border-blue-600 pb-3 mb-5">
+        <h1 className="text-2xl font-bold">{t.title}</h1>
+        <p className="text-xs text-gray-500">{t.reportGenerated}: {new Date().toLocaleDateString('en-IN')}</p>
+      </div>
+
+      <div data-pdf-block className="grid grid-cols-2 gap-6 mb-6">
+        {[
+          { heading: t.inputParams, rows: inputRows },
+          { heading: t.calculatedResults, rows: metricRows }
+        ].map(({ heading, rows }) => (
+          <div key={heading}>
+            <h2 className="text-sm font-bold text-blue-700 mb-2">{heading}</h2>
+            <table className="w-full text-xs">
+              <tbody>
+                {rows.map((row) => (
+                  <tr key={row.label} className="border-b border-gray-100">
+                    <td className="py-1 pr-2 text-gray-600">{row.label}</td>
+                    <td className="py-1 text-right font-semibold">{row.value}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+
+      {tables.filter((table) => table.rows.length > 0).map((table) => (
+        <div key={table.key} className="mb-6">
+          <h2 data-pdf-block className="text-sm font-bold text-blue-700 mb-2">{table.title}</h2>
+          <table className="w-full" style={{ fontSize: 9 }}>
+            <thead className="bg-gray-100">
+              <tr>
+                {table.headers.map((header) => (
+                  <th key={header} className="px-1.5 py-1 text-left font-semibold text-gray-700">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {table.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className="border-b border-gray-100">
+                  {row.map((cell, cellIndex) => (
+                    <td key={cellIndex} className="px-1.5 py-0.5">{typeof cell === 'number' ? fmt.number(cell, 2) : cell}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PdfReport;
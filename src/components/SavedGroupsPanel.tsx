@@ -0,0 +1,99 @@
+import { useState } from 'react';
+import { Copy, FolderOpen, Pencil, Save, Trash2 } from 'lucide-react';
+import type { SavedGroup } from '../storage/savedGroups';
+import type { Translations } from '../translations';
+
+interface SavedGroupsPanelProps {
+  groups: SavedGroup[];
+  activeId: string | null;
+  t: Translations;
+  onSaveAsNew: (name: string) => void;
+  onSwitch: (id: string | null) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SavedGroupsPanel = ({ groups, activeId, t, onSaveAsNew, onSwitch, onRename, onDuplicate, onDelete }: SavedGroupsPanelProps) => {
+  const [name, setName] = useState('');
+  const activeGroup = groups.find((group) => group.id === activeId);
+  const trimmedName = name.trim();
+
+  const buttonClass = 'flex items-center gap-1.5 px-3 py-2 rounded-lg font-medium text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h2 className="text-base sm:text-lg font-bold text-gray-800 mb-4 flex items-center gap-2">
+        <FolderOpen className="w-5 h-5 text-blue-600" />
+        {t.savedGroups}
+      </h2>
+
+      <div className="flex flex-col lg:flex-row gap-3 lg:items-center">
+        <select
+          value={activeId ?? ''}
+          onChange={(e) => onSwitch(e.target.value || null)}
+          className="w-full lg:w-64 px-4 py-2 border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="">{t.unsavedGroup}</option>
+          {groups.map((group) => (
+            <option key={group.id} value={group.id}>{group.name}</option>
+          ))}
+        </select>
+
+        <input
+          type="text"
+          value={name}
+          placeholder={t.groupName}
+          onChange={(e) => setName(e.target.value)}
+          className="w-full lg:w-64 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            disabled={!trimmedName}
+            onClick={() => {
+              onSaveAsNew(trimmedName);
+              setName('');
+            }}
+            className={`${buttonClass} bg-blue-600 text-white hover:bg-blue-700`}
+          >
+            <Save className="w-4 h-4" />
+            {t.saveAsNew}
+          </button>
+          <button
+            disabled={!activeGroup || !trimmedName}
+            onClick={() => {
+              if (!activeGroup) return;
+              onRename(activeGroup.id, trimmedName);
+              setName('');
+            }}
+            className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+          >
+            <Pencil className="w-4 h-4" />
+            {t.rename}
+          </button>
+          <button
+            disabled={!activeGroup}
+            onClick={() => activeGroup && onDuplicate(activeGroup.id, trimmedName || `${activeGroup.name} ${t.copySuffix}`)}
+            className={`${buttonClass} bg-gray-200 text-gray-700 hover:bg-gray-300`}
+          >
+            <Copy className="w-4 h-4" />
+            {t.duplicate}
+          </button>
+          <button
+            disabled={!activeGroup}
+            onClick={() => activeGroup && window.confirm(t.confirmDelete) && onDelete(activeGroup.id)}
+            className={`${buttonClass} bg-red-50 text-red-600 hover:bg-red-100`}
+          >
+            <Trash2 className="w-4 h-4" />
+            {t.deleteGroup}
+          </button>
+        </div>
+      </div>
+
+      {activeGroup && <p className="text-xs text-gray-500 mt-3">{t.autoSaveHint}</p>}
+    </div>
+  );
+};
+
+export default SavedGroupsPanel;
@@ -0,0 +1,292 @@
+import { Plus, X } from 'lucide-react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import {
+  calculateChitDetails,
+  hasFieldErrors,
+  metricDeltas,
+  scenarioMetrics,
+  validateInputs,
+  type ChitInputs,
+  type Scenario,
+  type ScenarioMetrics
+} from '../engine/chitEngine';
+import type { SavedGroup } from '../storage/savedGroups';
+import type { Translations } from '../translations';
+import { amountLabel } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface ScenarioComparisonProps {
+  scenarios: Scenario[];
+  onChange: (scenarios: Scenario[]) => void;
+  currentInputs: ChitInputs;
+  currentLoanUtilization: number;
+  savedGroups: SavedGroup[];
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const MAX_SCENARIOS = 4;
+const MIN_SCENARIOS = 2;
+
+const SCENARIO_COLORS = ['#2563eb', '#16a34a', '#f97316', '#9333ea'];
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+const ScenarioComparison = ({ scenarios, onChange, currentInputs, currentLoanUtilization, savedGroups, fmt, t }: ScenarioComparisonProps) => {
+  // Scenarios with invalid inputs are left out rather than simulated
+  const results = scenarios.map((scenario) =>
+    hasFieldErrors(validateInputs(scenario.inputs, scenario.loanUtilization))
+      ? null
+      : calculateChitDetails(scenario.inputs, scenario.loanUtilization)
+  );
+  const metrics = results.map((result) => (result ? scenarioMetrics(result) : null));
+  const baseline = metrics[0];
+
+  const formatRupees = (value: number) => fmt.money(Math.abs(value));
+  const formatPercent = (value: number) => fmt.percent(value);
+
+  const metricRows: { key: keyof ScenarioMetrics; label: string; format: (value: number) => string }[] = [
+    { key: 'monthlyPool', label: t.monthlyPool, format: formatRupees },
+    { key: 'duration', label: t.duration, format: (value) => `${Math.abs(value)}` },
+    { key: 'totalLoans', label: t.totalLoans, format: formatRupees },
+    { key: 'totalInterest', label: t.totalInterest, format: formatRupees },
+    { key: 'finalBalance', label: t.finalBalance, format: formatRupees },
+    { key: 'min', label: t.minIRR, format: (value) => formatPercent(Math.abs(value)) },
+    { key: 'median', label: t.medianIRR, format: (value) => formatPercent(Math.abs(value)) },
+    { key: 'max', label: t.maxIRR, format: (value) => formatPercent(Math.abs(value)) }
+  ];
+
+  // One row per member position so scenarios with different member counts line up
+  const memberCount = Math.max(0, ...results.map((result) => result?.memberReturns.length ?? 0));
+  const irrData = Array.from({ length: memberCount }, (_, index) => {
+    const row: Record<string, number | null> = { member: index + 1 };
+    results.forEach((result, scenarioIndex) => {
+      row[scenarios[scenarioIndex].id] = result?.memberReturns[index]?.annualizedIRR ?? null;
+    });
+    return row;
+  });
+
+  const updateScenario = (id: string, changes: Partial<Scenario>) => {
+    onChange(scenarios.map((scenario) => (scenario.id === id ? { ...scenario, ...changes } : scenario)));
+  };
+
+  const updateInputs = (scenario: Scenario, changes: Partial<ChitInputs>) => {
+    updateScenario(scenario.id, { inputs: { ...scenario.inputs, ...changes } });
+  };
+
+  const loadFrom = (scenario: Scenario, source: string) => {
+    if (source === 'current') {
+      updateScenario(scenario.id, { inputs: currentInputs, loanUtilization: currentLoanUtilization });
+      return;
+    }
+    const group = savedGroups.find((item) => item.id === source);
+    if (group) {
+      updateScenario(scenario.id, { name: group.name, inputs: group.inputs, loanUtilization: group.loanUtilization });
+    }
+  };
+
+  const addScenario = () => {
+    const last = scenarios[scenarios.length - 1];
+    onChange([
+      ...scenarios,
+      {
+        id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+        name: `${t.scenario} ${scenarios.length + 1}`,
+        inputs: { ...last.inputs },
+        loanUtilization: last.loanUtilization
+      }
+    ]);
+  };
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {scenarios.map((scenario, index) => ({ scenario, current: metrics[index] })).map(({ scenario, current }, index) => (
+          <div
+            key={scenario.id}
+            className="bg-white rounded-lg shadow-md p-4 border-t-4"
+            style={{ borderTopColor: SCENARIO_COLORS[index] }}
+          >
+            <div className="flex items-center gap-2 mb-3">
+              <input
+                type="text"
+                value={scenario.name}
+                onChange={(e) => updateScenario(scenario.id, { name: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 text-sm font-bold text-gray-800 border border-transparent rounded hover:border-gray-300 focus:border-blue-500 focus:outline-none"
+              />
+              {scenarios.length > MIN_SCENARIOS && (
+                <button
+                  onClick={() => onChange(scenarios.filter((item) => item.id !== scenario.id))}
+                  aria-label={t.removeScenario}
+                  className="p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+
+            <label className="block text-xs text-gray-500 mb-1">{t.loadFrom}</label>
+            <select
+              value=""
+              onChange={(e) => loadFrom(scenario, e.target.value)}
+              className={`${inputClass} bg-white mb-3`}
+            >
+              <option value="" disabled>—</option>
+              <option value="current">{t.currentInputs}</option>
+              {savedGroups.map((group) => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+
+            <div className="grid grid-cols-2 gap-2 mb-4">
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">{t.totalMembers}</label>
+                <input
+                  type="number"
+                  value={scenario.inputs.totalMembers}
+                  onChange={(e) => updateInputs(scenario, { totalMembers: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">{amountLabel(t.monthlyContribution, t, fmt)}</label>
+                <input
+                  type="number"
+                  value={scenario.inputs.monthlyContribution}
+                  onChange={(e) => updateInputs(scenario, { monthlyContribution: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">{amountLabel(t.firstWithdrawal, t, fmt)}</label>
+                <input
+                  type="number"
+                  value={scenario.inputs.firstWithdrawal}
+                  onChange={(e) => updateInputs(scenario, { firstWithdrawal: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-500 mb-1">{amountLabel(t.monthlyIncrement, t, fmt)}</label>
+                <input
+                  type="number"
+                  value={scenario.inputs.monthlyIncrement}
+                  onChange={(e) => updateInputs(scenario, { monthlyIncrement: parseInt(e.target.value) || 0 })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2">
+                <label className="block text-xs text-gray-500 mb-1">{t.commissionType}</label>
+                <div className="flex gap-2">
+                  <select
+                    value={scenario.inputs.commissionType}
+                    onChange={(e) => updateInputs(scenario, { commissionType: e.target.value as ChitInputs['commissionType'] })}
+                    className={`${inputClass} bg-white`}
+                  >
+                    <option value="monthly">{t.monthlyRate}</option>
+                    <option value="onetime">{t.oneTimeAmount}</option>
+                  </select>
+                  <input
+                    type="number"
+                    step={scenario.inputs.commissionType === 'monthly' ? '0.1' : '1'}
+                    value={scenario.inputs.commissionType === 'monthly' ? scenario.inputs.commissionRate : scenario.inputs.oneTimeCommission}
+                    onChange={(e) => updateInputs(
+                      scenario,
+                      scenario.inputs.commissionType === 'monthly'
+                        ? { commissionRate: parseFloat(e.target.value) || 0 }
+                        : { oneTimeCommission: parseInt(e.target.value) || 0 }
+                    )}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Key metrics with the difference against scenario 1 */}
+            {current === null ? (
+              <p className="text-xs text-red-600">{t.fixInputsHint}</p>
+            ) : (
+              <dl className="divide-y divide-gray-100">
+                {metricRows.map(({ key, label, format }) => {
+                  const value = current[key];
+                  const delta = index > 0 && baseline ? metricDeltas(current, baseline)[key] : null;
+                  const changed = delta !== null && Math.abs(delta) > 0.05;
+
+                  return (
+                    <div key={key} className={`flex justify-between items-baseline gap-2 py-1.5 px-1 rounded ${changed ? 'bg-amber-50' : ''}`}>
+                      <dt className="text-xs text-gray-600">{label}</dt>
+                      <dd className="text-right">
+                        <span className="text-sm font-bold text-gray-900">
+                          {value === null ? '-' : `${value < 0 ? '-' : ''}${format(value)}`}
+                        </span>
+                        {changed && (
+                          <span className={`block text-xs font-medium ${delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                            {delta > 0 ? '+' : '-'}{format(delta)} {t.vsBaseline}
+                          </span>
+                        )}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {scenarios.length < MAX_SCENARIOS && (
+        <button
+          onClick={addScenario}
+          className="flex items-center gap-1.5 px-4 py-2 rounded-lg font-medium text-sm bg-blue-600 text-white hover:bg-blue-700 transition-all"
+        >
+          <Plus className="w-4 h-4" />
+          {t.addScenario}
+        </button>
+      )}
+
+      {/* IRR distribution across members */}
+      {memberCount > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-4 sm:p-6">
+          <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-4">{t.irrDistribution}</h3>
+          <div className="h-64 sm:h-80 -mx-2 sm:mx-0">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={irrData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis dataKey="member" tick={{ fontSize: 12 }} />
+                <YAxis tickFormatter={(value: number) => `${value}%`} tick={{ fontSize: 12 }} width={50} />
+                <Tooltip
+                  formatter={(value: unknown) => formatPercent(Number(value))}
+                  labelFormatter={(member) => `${t.member} ${member}`}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {scenarios.map((scenario, index) => (
+                  <Line
+                    key={scenario.id}
+                    type="monotone"
+                    dataKey={scenario.id}
+                    name={scenario.name}
+                    stroke={SCENARIO_COLORS[index]}
+                    strokeWidth={2}
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioComparison;
@@ -0,0 +1,48 @@
+import type { ChitInputs, FieldErrors } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface ScheduleDatesInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-2 border ${invalid ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
+
+const ScheduleDatesInput = ({ inputs, errors, onChange, fmt, t }: ScheduleDatesInputProps) => (
+  <div className="sm:col-span-2 lg:col-span-3">
+    <label className="block text-sm font-medium text-gray-700 mb-1">{t.scheduleDates}</label>
+    <p className="text-xs text-gray-500 mb-3">{t.scheduleDatesHint}</p>
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.startDate}</label>
+        <input
+          type="date"
+          value={inputs.startDate}
+          onChange={(e) => onChange({ startDate: e.target.value })}
+          className={inputClass(!!errors.startDate)}
+        />
+        <FieldErrorMessage error={errors.startDate} fmt={fmt} t={t} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.collectionDay}</label>
+        <input
+          type="number"
+          min="1"
+          max="31"
+          value={inputs.collectionDay}
+          onChange={(e) => onChange({ collectionDay: parseInt(e.target.value) || 0 })}
+          className={inputClass(!!errors.collectionDay)}
+        />
+        <FieldErrorMessage error={errors.collectionDay} fmt={fmt} t={t} />
+      </div>
+    </div>
+  </div>
+);
+
+export default ScheduleDatesInput;
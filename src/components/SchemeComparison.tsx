@@ -0,0 +1,76 @@
+import { compareSchemes, irrStats, type ChitInputs, type ChitResult, type SchemeType } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { fillTemplate } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface SchemeComparisonProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const payoutRange = (result: ChitResult, fmt: NumberFormatter) => {
+  const payouts = result.withdrawalSchedule.filter((row) => row.actualWithdrawals > 0).map((row) => row.withdrawalAmount);
+  if (payouts.length === 0) return '-';
+  return `${fmt.money(Math.min(...payouts))} – ${fmt.money(Math.max(...payouts))}`;
+};
+
+const irrRange = (result: ChitResult, fmt: NumberFormatter) => {
+  const { min, max } = irrStats(result);
+  if (min === null || max === null) return '-';
+  return `${fmt.percent(min)} – ${fmt.percent(max)}`;
+};
+
+const schemeLabels = (t: Translations): Record<SchemeType, string> => ({ fixed: t.fixedScheme, auction: t.auctionScheme });
+
+// Run the same inputs through both the fixed-ladder and the auction engine
+const SchemeComparison = ({ inputs, loanUtilization, fmt, t }: SchemeComparisonProps) => {
+  const schemes = compareSchemes(inputs, loanUtilization);
+  const { fixed, auction } = schemes;
+  // A scheme the inputs don't suit gets a blank column
+  const cell = (result: ChitResult | null, value: (result: ChitResult) => string) => (result ? value(result) : '-');
+  const both = (value: (result: ChitResult) => string) => ({ fixed: cell(fixed, value), auction: cell(auction, value) });
+  const notApplicable = (Object.keys(schemes) as SchemeType[]).filter((schemeType) => !schemes[schemeType]);
+
+  const rows = [
+    { label: t.payoutRange, ...both((result) => payoutRange(result, fmt)) },
+    { label: t.membersServed, ...both((result) => `${result.totalMembersServed} / ${inputs.totalMembers}`) },
+    { label: t.duration, ...both((result) => `${result.duration}`) },
+    { label: t.totalCommission, ...both((result) => fmt.money(result.totalCommission)) },
+    { label: t.totalInterest, ...both((result) => fmt.money(result.totalInterestEarned)) },
+    { label: t.finalBalance, ...both((result) => fmt.money(result.finalCarryOver)) },
+    { label: t.irrRange, ...both((result) => irrRange(result, fmt)) }
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-4">{t.schemeComparison}</h3>
+      <div className="overflow-x-auto -mx-4 sm:mx-0">
+        <table className="w-full min-w-[400px]">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium text-gray-500 uppercase"></th>
+              <th className={`px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium uppercase ${inputs.schemeType === 'fixed' ? 'text-blue-600' : 'text-gray-500'}`}>{t.fixedScheme}</th>
+              <th className={`px-3 sm:px-4 py-2 sm:py-3 text-left text-xs font-medium uppercase ${inputs.schemeType === 'auction' ? 'text-blue-600' : 'text-gray-500'}`}>{t.auctionScheme}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {rows.map((row) => (
+              <tr key={row.label} className="hover:bg-gray-50">
+                <td className="px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm font-medium text-gray-700">{row.label}</td>
+                <td className="px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900">{row.fixed}</td>
+                <td className="px-3 sm:px-4 py-2 sm:py-3 text-xs sm:text-sm text-gray-900">{row.auction}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {notApplicable.map((schemeType) => (
+        <p key={schemeType} className="text-xs text-gray-500 mt-3">{fillTemplate(t.schemeNotApplicable, { scheme: schemeLabels(t)[schemeType] })}</p>
+      ))}
+    </div>
+  );
+};
+
+export default SchemeComparison;
@@ -0,0 +1,45 @@
+import { AlertTriangle } from 'lucide-react';
+import type { SchemeDiagnostic } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import { fillTemplate } from '../utils/format';
+
+interface SchemeDiagnosticsProps {
+  diagnostics: SchemeDiagnostic[];
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const describe = (diagnostic: SchemeDiagnostic, fmt: NumberFormatter, t: Translations) => {
+  switch (diagnostic.code) {
+    case 'noWithdrawalMonth1':
+      return fillTemplate(t.diagNoWithdrawalMonth1, {
+        payout: fmt.money(diagnostic.payout, 'full'),
+        available: fmt.money(diagnostic.available, 'full')
+      });
+    case 'idleMonths':
+      return fillTemplate(t.diagIdleMonths, { months: diagnostic.months.join(', ') });
+    case 'membersUnserved':
+      return fillTemplate(t.diagMembersUnserved, { remaining: diagnostic.remaining, months: diagnostic.months });
+  }
+};
+
+const SchemeDiagnostics = ({ diagnostics, fmt, t }: SchemeDiagnosticsProps) => {
+  if (diagnostics.length === 0) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-300 rounded-lg p-4 sm:p-5 mb-6">
+      <h3 className="text-sm sm:text-base font-bold text-amber-800 mb-2 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5" />
+        {t.diagnosticsTitle}
+      </h3>
+      <ul className="list-disc pl-6 space-y-1 text-sm text-amber-800">
+        {diagnostics.map((diagnostic) => (
+          <li key={diagnostic.code}>{describe(diagnostic, fmt, t)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SchemeDiagnostics;
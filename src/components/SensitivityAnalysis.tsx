@@ -0,0 +1,126 @@
+import { useMemo, useState } from 'react';
+import { buildSensitivityGrid, type ChitInputs, type SensitivityCell } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+interface SensitivityAnalysisProps {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+type MetricKey = 'totalInterest' | 'finalBalance' | 'monthsToServe' | 'minIrr' | 'maxIrr';
+
+const RATE_ROWS = 7;
+
+const inputClass = 'w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// Red (worst) to green (best) across the values actually on screen
+const heatColor = (value: number, min: number, max: number, higherIsBetter: boolean) => {
+  const ratio = max === min ? 1 : (value - min) / (max - min);
+  const hue = (higherIsBetter ? ratio : 1 - ratio) * 120;
+  return `hsl(${Math.round(hue)}, 70%, 85%)`;
+};
+
+const SensitivityAnalysis = ({ inputs, loanUtilization, fmt, t }: SensitivityAnalysisProps) => {
+  const [metric, setMetric] = useState<MetricKey>('totalInterest');
+  const [rateFrom, setRateFrom] = useState(0);
+  // Until the organiser picks an upper rate, keep it following the scheme's own rate
+  const [customRateTo, setRateTo] = useState<number | null>(null);
+  const rateTo = customRateTo ?? Math.max(3, inputs.loanInterestRate * 2);
+
+  const metrics: { key: MetricKey; label: string; higherIsBetter: boolean; format: (value: number) => string }[] = [
+    { key: 'totalInterest', label: t.totalInterest, higherIsBetter: true, format: (value) => fmt.money(value) },
+    { key: 'finalBalance', label: t.finalBalance, higherIsBetter: true, format: (value) => fmt.money(value) },
+    { key: 'monthsToServe', label: t.monthsToServeAll, higherIsBetter: false, format: (value) => `${value}` },
+    { key: 'minIrr', label: t.minIRR, higherIsBetter: true, format: (value) => fmt.percent(value) },
+    { key: 'maxIrr', label: t.maxIRR, higherIsBetter: true, format: (value) => fmt.percent(value) }
+  ];
+  const selected = metrics.find((item) => item.key === metric) ?? metrics[0];
+
+  // Every cell is a full simulation, so only rebuild the grid when its inputs change
+  const grid = useMemo(
+    () => buildSensitivityGrid(inputs, Math.min(rateFrom, rateTo), Math.max(rateFrom, rateTo), RATE_ROWS),
+    [inputs, rateFrom, rateTo]
+  );
+  const valueOf = (cell: SensitivityCell) => cell[metric];
+  const values = grid.cells.flat().map(valueOf).filter((value): value is number => value !== null);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  // Outline the cell nearest to the calculator's own settings
+  const nearest = (options: number[], target: number) =>
+    options.reduce((best, option) => (Math.abs(option - target) < Math.abs(best - target) ? option : best), options[0]);
+  const currentUtilization = nearest(grid.utilizations, loanUtilization);
+  const currentRate = nearest(grid.interestRates, inputs.loanInterestRate);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 mb-6">
+      <h3 className="text-base sm:text-lg font-bold text-gray-800 mb-2">{t.sensitivityAnalysis}</h3>
+      <p className="text-xs sm:text-sm text-gray-600 mb-4">{t.sensitivityHint}</p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {metrics.map(({ key, label }) => (
+          <button
+            key={key}
+            onClick={() => setMetric(key)}
+            className={`px-3 py-1.5 rounded-lg font-medium text-xs sm:text-sm transition-all ${
+              metric === key ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <span className="text-sm font-medium text-gray-700 pb-1.5">{t.interestRange}</span>
+        <div className="w-24">
+          <label className="block text-xs text-gray-500 mb-1">{t.rangeFrom}</label>
+          <input type="number" step="0.1" value={rateFrom} onChange={(e) => setRateFrom(parseFloat(e.target.value) || 0)} className={inputClass} />
+        </div>
+        <div className="w-24">
+          <label className="block text-xs text-gray-500 mb-1">{t.rangeTo}</label>
+          <input type="number" step="0.1" value={rateTo} onChange={(e) => setRateTo(parseFloat(e.target.value) || 0)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="overflow-x-auto -mx-4 sm:mx-0">
+        <table className="w-full min-w-[720px] text-xs border-separate border-spacing-0.5">
+          <thead>
+            <tr>
+              <th className="px-2 py-1 text-left font-medium text-gray-500">{t.interest} ↓ / {t.loanUtilization} →</th>
+              {grid.utilizations.map((utilization) => (
+                <th key={utilization} className="px-2 py-1 font-medium text-gray-500">{utilization}%</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {grid.cells.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                <th className="px-2 py-1 text-left font-medium text-gray-500">{grid.interestRates[rowIndex]}%</th>
+                {row.map((cell) => {
+                  const value = valueOf(cell);
+                  const isCurrent = cell.loanUtilization === currentUtilization && cell.loanInterestRate === currentRate;
+                  return (
+                    <td
+                      key={cell.loanUtilization}
+                      className={`px-2 py-1.5 text-center font-medium text-gray-800 rounded ${isCurrent ? 'ring-2 ring-blue-600' : ''}`}
+                      style={{ backgroundColor: value === null ? '#e5e7eb' : heatColor(value, min, max, selected.higherIsBetter) }}
+                    >
+                      {value === null ? '✗' : selected.format(value)}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-500 mt-3">{t.sensitivityUnservedNote}</p>
+    </div>
+  );
+};
+
+export default SensitivityAnalysis;
@@ -0,0 +1,80 @@
+import type { ChitInputs, FieldErrors } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { amountLabel } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+import FieldErrorMessage from './FieldErrorMessage';
+
+interface TaxSettingsInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const inputClass = (invalid: boolean) =>
+  `w-full px-4 py-2 border ${invalid ? 'border-red-400' : 'border-gray-300'} rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent`;
+
+const TaxSettingsInput = ({ inputs, errors, onChange, fmt, t }: TaxSettingsInputProps) => (
+  <div className="sm:col-span-2 lg:col-span-3">
+    <label className="block text-sm font-medium text-gray-700 mb-1">{t.taxSettings}</label>
+    <p className="text-xs text-gray-500 mb-3">{t.taxSettingsHint}</p>
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.gstRate}</label>
+        <input
+          type="number"
+          min="0"
+          max="100"
+          step="0.5"
+          value={inputs.gstRate}
+          onChange={(e) => onChange({ gstRate: parseFloat(e.target.value) || 0 })}
+          className={inputClass(!!errors.gstRate)}
+        />
+        <FieldErrorMessage error={errors.gstRate} fmt={fmt} t={t} />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{t.gstBorneBy}</label>
+        <select
+          value={inputs.gstBorneBy}
+          onChange={(e) => onChange({ gstBorneBy: e.target.value as ChitInputs['gstBorneBy'] })}
+          className={`${inputClass(false)} bg-white`}
+        >
+          <option value="pool">{t.gstByPool}</option>
+          <option value="winner">{t.gstByWinner}</option>
+        </select>
+      </div>
+      {/* Only fixed schemes lend out the pool, so only they earn interest to withhold from */}
+      {inputs.schemeType === 'fixed' && (
+        <>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{t.tdsRate}</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={inputs.tdsRate}
+              onChange={(e) => onChange({ tdsRate: parseFloat(e.target.value) || 0 })}
+              className={inputClass(!!errors.tdsRate)}
+            />
+            <FieldErrorMessage error={errors.tdsRate} fmt={fmt} t={t} />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-500 mb-1">{amountLabel(t.tdsThreshold, t, fmt)}</label>
+            <input
+              type="number"
+              min="0"
+              value={inputs.tdsThreshold}
+              onChange={(e) => onChange({ tdsThreshold: parseInt(e.target.value) || 0 })}
+              className={inputClass(!!errors.tdsThreshold)}
+            />
+            <FieldErrorMessage error={errors.tdsThreshold} fmt={fmt} t={t} />
+          </div>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default TaxSettingsInput;
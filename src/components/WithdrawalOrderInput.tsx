@@ -0,0 +1,145 @@
+import { ArrowDown, ArrowUp, Dices, X } from 'lucide-react';
+import { payoutOrder, resolveSlots, type ChitInputs, type FieldErrors, type WithdrawalOrder } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { fillTemplate } from '../utils/format';
+
+interface WithdrawalOrderInputProps {
+  inputs: ChitInputs;
+  errors: FieldErrors;
+  onChange: (changes: Partial<ChitInputs>) => void;
+  t: Translations;
+}
+
+const iconButtonClass = 'p-1 rounded-full text-gray-400 hover:text-gray-700 hover:bg-gray-100 disabled:opacity-30 disabled:cursor-not-allowed';
+
+const moveItem = (list: number[], index: number, offset: number) => {
+  const next = [...list];
+  [next[index], next[index + offset]] = [next[index + offset], next[index]];
+  return next;
+};
+
+const WithdrawalOrderInput = ({ inputs, errors, onChange, t }: WithdrawalOrderInputProps) => {
+  const modes: { mode: WithdrawalOrder; label: string }[] = [
+    { mode: 'sequence', label: t.sequenceOrder },
+    { mode: 'lottery', label: t.lotteryDraw },
+    { mode: 'priority', label: t.priorityOrder },
+    { mode: 'needs', label: t.needsOrder }
+  ];
+
+  // The order is sized by the group, so skip it until the member count is valid
+  const memberCount = errors.totalMembers ? 0 : resolveSlots(inputs).length;
+  const order = payoutOrder(inputs, memberCount).map((index) => index + 1);
+  // Entries for members no longer in the group are left out of the editors
+  const requests = inputs.needRequests.filter((member) => member <= memberCount);
+
+  const selectMode = (mode: WithdrawalOrder) => {
+    // Seed an empty priority list from the current order so the organiser rearranges rather than retypes
+    if (mode === 'priority' && inputs.priorityList.length === 0) {
+      onChange({ withdrawalOrder: mode, priorityList: order });
+    } else {
+      onChange({ withdrawalOrder: mode });
+    }
+  };
+
+  const orderList = (list: number[], update: (next: number[]) => void, removable: boolean) => (
+    <ol className="space-y-1 mb-3">
+      {list.map((member, index) => (
+        <li key={member} className="flex items-center gap-2 text-sm">
+          <span className="w-6 text-right text-gray-500">{index + 1}.</span>
+          <span className="flex-1 font-medium text-gray-900">{t.member} {member}</span>
+          <button onClick={() => update(moveItem(list, index, -1))} disabled={index === 0} aria-label={t.moveUp} className={iconButtonClass}>
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button onClick={() => update(moveItem(list, index, 1))} disabled={index === list.length - 1} aria-label={t.moveDown} className={iconButtonClass}>
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          {removable && (
+            <button onClick={() => update(list.filter((_, i) => i !== index))} aria-label={t.removeRequest} className={iconButtonClass}>
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+
+  return (
+    <div className="sm:col-span-2 lg:col-span-3">
+      <label className="block text-sm font-medium text-gray-700 mb-1">{t.withdrawalOrder}</label>
+      <p className="text-xs text-gray-500 mb-3">{t.withdrawalOrderHint}</p>
+      <div className="flex flex-wrap gap-2 sm:gap-4 mb-4">
+        {modes.map(({ mode, label }) => (
+          <button
+            key={mode}
+            onClick={() => selectMode(mode)}
+            className={`px-4 sm:px-6 py-2 rounded-lg font-medium text-sm sm:text-base transition-all ${
+              inputs.withdrawalOrder === mode
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {inputs.withdrawalOrder === 'lottery' && (
+        <div>
+          <div className="flex flex-wrap items-end gap-3 mb-2">
+            <div className="w-full sm:w-48">
+              <label className="block text-xs text-gray-500 mb-1">{t.lotterySeed}</label>
+              <input
+                type="number"
+                value={inputs.lotterySeed}
+                onChange={(e) => onChange({ lotterySeed: parseInt(e.target.value) || 0 })}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <button
+              onClick={() => onChange({ lotterySeed: Math.floor(Math.random() * 1000000) })}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-lg font-medium text-sm bg-gray-200 text-gray-700 hover:bg-gray-300 transition-all"
+            >
+              <Dices className="w-4 h-4" />
+              {t.newDraw}
+            </button>
+          </div>
+          <p className="text-xs text-gray-500 mb-2">{t.lotterySeedHint}</p>
+        </div>
+      )}
+
+      {inputs.withdrawalOrder === 'priority' && (
+        <div>
+          <p className="text-xs text-gray-500 mb-3">{t.priorityHint}</p>
+          {orderList(order, (next) => onChange({ priorityList: next }), false)}
+        </div>
+      )}
+
+      {inputs.withdrawalOrder === 'needs' && (
+        <div>
+          <p className="text-xs text-gray-500 mb-3">{t.needsHint}</p>
+          {orderList(requests, (next) => onChange({ needRequests: next }), true)}
+          <select
+            value=""
+            onChange={(e) => onChange({ needRequests: [...requests, parseInt(e.target.value)] })}
+            className="w-full sm:w-64 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white mb-3"
+          >
+            <option value="">{t.addRequest}</option>
+            {order
+              .filter((member) => !requests.includes(member))
+              .map((member) => (
+                <option key={member} value={member}>
+                  {t.member} {member}
+                </option>
+              ))}
+          </select>
+        </div>
+      )}
+
+      {inputs.withdrawalOrder !== 'sequence' && memberCount > 0 && (
+        <p className="text-sm text-gray-700">{fillTemplate(t.drawnOrder, { order: order.join(', ') })}</p>
+      )}
+    </div>
+  );
+};
+
+export default WithdrawalOrderInput;
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { buildBidSchedule, calculateChitDetails, defaultChitInputs, type ChitInputs } from './chitEngine';
+
+const auctionInputs: ChitInputs = {
+  ...defaultChitInputs,
+  totalMembers: 10,
+  monthlyContribution: 10000,
+  commissionType: 'monthly',
+  commissionRate: 5,
+  schemeType: 'auction',
+  bidMode: 'curve',
+  startingBidPercent: 27
+};
+
+describe('buildBidSchedule', () => {
+  it('decays the assumed bid linearly to zero in the last month', () => {
+    const bids = buildBidSchedule(auctionInputs);
+
+    expect(bids).toHaveLength(10);
+    expect(bids[0]).toBe(27);
+    expect(bids[1]).toBe(24);
+    expect(bids[9]).toBe(0);
+  });
+
+  it('uses manual bids and falls back to the curve for missing months', () => {
+    const bids = buildBidSchedule({ ...auctionInputs, bidMode: 'manual', auctionBids: [35, 20] });
+
+    expect(bids.slice(0, 3)).toEqual([35, 20, 21]);
+  });
+
+  it('clamps bids to 0-100%', () => {
+    const bids = buildBidSchedule({ ...auctionInputs, bidMode: 'manual', auctionBids: [-5, 150] });
+
+    expect(bids.slice(0, 2)).toEqual([0, 100]);
+  });
+});
+
+describe('calculateChitDetails in auction mode', () => {
+  it('pays the winner the pool minus discount and commission', () => {
+    const [first] = calculateChitDetails(auctionInputs, 50).withdrawalSchedule;
+
+    // Pool 1,00,000; 27% bid = 27,000; 5% commission = 5,000
+    expect(first).toMatchObject({
+      month: 1,
+      contributionPerMember: 10000,
+      availablePool: 95000,
+      bidDiscount: 27000,
+      withdrawalAmount: 68000,
+      actualWithdrawals: 1,
+      remainingPool: 27000,
+      dividendPerMember: 2700
+    });
+  });
+
+  it('reduces next month contribution by the previous dividend', () => {
+    const [, second] = calculateChitDetails(auctionInputs, 50).withdrawalSchedule;
+
+    expect(second.contributionPerMember).toBe(10000 - 2700);
+    expect(second.carryOverFromPrevious).toBe(27000);
+    expect(second.availablePool).toBe(95000);
+  });
+
+  it('serves exactly one member per month', () => {
+    const result = calculateChitDetails(auctionInputs, 50);
+
+    expect(result.duration).toBe(10);
+    expect(result.totalMembersServed).toBe(10);
+    expect(result.withdrawalSchedule.every(row => row.actualWithdrawals === 1)).toBe(true);
+    expect(result.withdrawalSchedule.at(-1)?.isLastMonth).toBe(true);
+  });
+
+  it('produces member returns comparable with the fixed scheme', () => {
+    const auction = calculateChitDetails(auctionInputs, 50);
+    const fixed = calculateChitDetails({ ...auctionInputs, schemeType: 'fixed' }, 50);
+
+    expect(auction.memberReturns).toHaveLength(10);
+    expect(auction.memberReturns[0].cashFlows).toHaveLength(auction.duration);
+    expect(fixed.memberReturns.length).toBeGreaterThan(0);
+  });
+
+  it('gives later winners a larger payout', () => {
+    const { withdrawalSchedule } = calculateChitDetails(auctionInputs, 50);
+
+    expect(withdrawalSchedule.at(-1)!.withdrawalAmount).toBeGreaterThan(withdrawalSchedule[0].withdrawalAmount);
+  });
+
+  it('lets the last winner take the whole pool whatever bid was entered', () => {
+    const result = calculateChitDetails({ ...auctionInputs, bidMode: 'manual', auctionBids: Array(10).fill(20) }, 50);
+    const last = result.withdrawalSchedule.at(-1)!;
+
+    expect(last.bidDiscount).toBe(0);
+    expect(last.withdrawalAmount).toBe(last.availablePool);
+    expect(result.finalCarryOver).toBe(0);
+  });
+
+  it('does not lend out the held discount', () => {
+    const result = calculateChitDetails(auctionInputs, 100);
+
+    expect(result.loanDetails).toEqual([]);
+    expect(result.totalInterestEarned).toBe(0);
+  });
+});
@@ -0,0 +1,157 @@
+import { buildMemberReturns } from './memberReturns';
+import { payoutOrder } from './payoutOrder';
+import { activeShares, closingRefunds, grossPool, joinerArrears, nextPayees, resolveSlots, stayingCount, type SlotOutcome } from './slots';
+import { calculateGst } from './tax';
+import type { ChitInputs, ChitResult, MonthActuals, WithdrawalRow } from './types';
+
+// Bid discount (% of the monthly pool) for every month of an auction scheme
+export const buildBidSchedule = (inputs: ChitInputs): number[] => {
+  const { totalMembers, bidMode, startingBidPercent, auctionBids } = inputs;
+  const months = Math.max(Math.ceil(totalMembers), 0);
+  const bids: number[] = [];
+
+  for (let i = 0; i < months; i++) {
+    // The last member takes the pool unopposed, so the assumed curve reaches zero there
+    const curveBid = months > 1 ? (startingBidPercent * (months - 1 - i)) / (months - 1) : 0;
+    const bid = bidMode === 'manual' ? auctionBids[i] ?? curveBid : curveBid;
+    bids.push(Math.min(Math.max(bid, 0), 100));
+  }
+
+  return bids;
+};
+
+// Simulate an auction (bid/discount) chit. Each month exactly one member wins
+// the pool minus their bid discount and the foreman's commission; the discount
+// stays in the pool and is returned to every member as a dividend that reduces
+// next month's contribution. Recorded `actuals` replace the first months; what
+// was left after the real winners' payouts becomes the dividend. Winners come
+// in the chosen withdrawal order; a month with nobody eligible holds the pool.
+// The last winner has nobody to bid against and takes the whole pool.
+export const simulateAuction = (
+  inputs: ChitInputs,
+  commissionPerMonth: number,
+  totalCommission: number,
+  actuals: MonthActuals[] = []
+): ChitResult => {
+  const { totalMembers, monthlyContribution } = inputs;
+  const totalPool = grossPool(inputs);
+  const { gstPerMonth, totalGst, poolGstPerMonth } = calculateGst(inputs, commissionPerMonth, totalCommission);
+  const monthlyCharges = commissionPerMonth + poolGstPerMonth;
+  const netPoolPerMonth = totalPool - monthlyCharges;
+  const bids = buildBidSchedule(inputs);
+
+  const withdrawalSchedule: WithdrawalRow[] = [];
+  const slots = resolveSlots(inputs);
+  const order = payoutOrder(inputs, slots.length);
+  const paid = slots.map(() => false);
+  const outcomes: SlotOutcome[] = [];
+  // What one ticket has paid before each month, for arrears and exit refunds
+  const paidBefore = [0];
+  let remainingMembers = stayingCount(slots);
+  let heldDiscount = 0;
+
+  for (let i = 0; i < totalMembers && remainingMembers > 0; i++) {
+    const actual = actuals[i];
+    const shares = activeShares(slots, i + 1);
+    const dividendFromPrevious = shares > 0 ? heldDiscount / shares : 0;
+    const contributionPerMember = actual ? (shares > 0 ? actual.collected / shares : 0) : monthlyContribution - dividendFromPrevious;
+    const newContributions = contributionPerMember * shares - monthlyCharges;
+    // A recorded collection already includes whatever joining members brought in
+    const arrears = actual ? 0 : joinerArrears(slots, i + 1, paidBefore[i]);
+    const availablePool = newContributions + heldDiscount + arrears;
+
+    let payees = nextPayees(slots, order, paid, i + 1, actual ? Math.min(actual.membersPaid, remainingMembers) : 1);
+    // Members who left are refunded from the closing month's pool before its winner is paid
+    const exits = closingRefunds(slots, i + 1, paidBefore, inputs.exitRefundPercent);
+    const closing = payees.length === remainingMembers || i === totalMembers - 1;
+    const leaverRefunds = closing ? exits.settled + exits.pendingRate * contributionPerMember : 0;
+    const prizePool = availablePool - leaverRefunds;
+
+    let bidDiscount: number;
+    let totalWithdrawn: number;
+    if (actual) {
+      totalWithdrawn = actual.paidOut;
+      bidDiscount = Math.max(prizePool - totalWithdrawn, 0);
+    } else {
+      // A discount can never exceed what is actually in the pool; with nobody
+      // eligible to bid the whole pool is held over. A manual bid for the last
+      // winner's month would leave a dividend nobody is left to receive.
+      const lastWinner = payees.length > 0 && payees.length === remainingMembers;
+      const bid = payees.length === 0 ? Infinity : lastWinner ? 0 : (totalPool * bids[i]) / 100;
+      bidDiscount = Math.min(bid, Math.max(prizePool, 0));
+      totalWithdrawn = Math.max(prizePool - bidDiscount, 0);
+      if (totalWithdrawn <= 0) payees = [];
+    }
+    const actualWithdrawals = payees.length;
+    // Several winners in a recorded month share what was paid out by their shares;
+    // the row's payout, like the fixed scheme's, is per single ticket
+    const paidShares = payees.reduce((sum, index) => sum + slots[index].share, 0);
+    const withdrawalAmount = paidShares > 0 ? totalWithdrawn / paidShares : 0;
+    // GST the winner bears comes out of their payout; when nobody won it is
+    // settled from the held discount instead
+    const winnerGst = gstPerMonth - poolGstPerMonth;
+    const unpaidGst = actualWithdrawals > 0 ? 0 : winnerGst;
+    const winnerDeduction = paidShares > 0 ? winnerGst / paidShares : 0;
+    const remainingPool = prizePool - totalWithdrawn - unpaidGst;
+
+    payees.forEach((index) => {
+      paid[index] = true;
+      const slot = slots[index];
+      outcomes.push({ slot, member: index + 1, month: i + 1, amount: slot.share * (Math.round(withdrawalAmount) - Math.round(winnerDeduction)) });
+    });
+    if (closing) {
+      slots.forEach((slot, index) => {
+        if (slot.leaveMonth === null || slot.joinMonth > i + 1) return;
+        outcomes.push({ slot, member: index + 1, month: i + 1, amount: exits.refund(slot, contributionPerMember) });
+      });
+    }
+    paidBefore.push(paidBefore[i] + contributionPerMember);
+
+    remainingMembers -= actualWithdrawals;
+    heldDiscount = Math.max(bidDiscount - unpaidGst, 0);
+    const nextShares = activeShares(slots, i + 2);
+
+    withdrawalSchedule.push({
+      month: i + 1,
+      withdrawalAmount: Math.round(withdrawalAmount),
+      contributionPerMember: Math.round(contributionPerMember),
+      newContributions: Math.round(newContributions),
+      carryOverFromPrevious: Math.round(dividendFromPrevious * shares),
+      availablePool: Math.round(availablePool),
+      actualWithdrawals,
+      totalWithdrawn: Math.round(totalWithdrawn),
+      remainingPool: Math.round(remainingPool),
+      remainingMembersAfter: remainingMembers,
+      isLastMonth: remainingMembers === 0,
+      bidDiscount: Math.round(bidDiscount),
+      dividendPerMember: Math.round(bidDiscount / (nextShares || shares || 1)),
+      gst: Math.round(gstPerMonth),
+      winnerDeduction: Math.round(winnerDeduction),
+      tdsWithheld: 0,
+      joinerArrears: Math.round(arrears),
+      leaverRefunds: Math.round(leaverRefunds)
+    });
+  }
+
+  const lastRow = withdrawalSchedule.at(-1);
+
+  return {
+    duration: withdrawalSchedule.length,
+    totalPool,
+    commissionPerMonth: Math.round(commissionPerMonth),
+    totalCommission: Math.round(totalCommission),
+    netPoolPerMonth,
+    withdrawalSchedule,
+    totalMembersServed: lastRow ? stayingCount(slots) - lastRow.remainingMembersAfter : 0,
+    finalCarryOver: lastRow ? lastRow.remainingPool : 0,
+    // The held discount is owed back to members next month, so nothing is spare to lend
+    loanDetails: [],
+    totalLoanAmount: 0,
+    totalInterestEarned: 0,
+    totalExpectedLoss: 0,
+    totalGst: Math.round(totalGst),
+    // Auction pools lend nothing, so there is no interest to withhold from
+    totalTds: 0,
+    memberReturns: buildMemberReturns(withdrawalSchedule, outcomes)
+  };
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { benchmarkMembers, calculateChitDetails, defaultBenchmarkRates, defaultChitInputs } from './chitEngine';
+
+const results = calculateChitDetails(defaultChitInputs, 50);
+const zeroRates = { fdRate: 0, rdRate: 0, sipReturn: 0, personalLoanRate: 0 };
+
+describe('benchmarkMembers', () => {
+  it('compares plain totals when every rate is zero', () => {
+    const benchmarks = benchmarkMembers(results.memberReturns, zeroRates);
+
+    benchmarks.forEach(({ savings }, index) => {
+      const member = results.memberReturns[index];
+      for (const comparison of savings) {
+        expect(comparison.alternativeValue).toBe(member.totalContribution);
+        expect(comparison.chitValue).toBe(member.withdrawal);
+        expect(comparison.better).toBe(member.netReturn >= 0);
+      }
+    });
+  });
+
+  it('agrees with the IRR of a member who only saves until the last month', () => {
+    const last = results.memberReturns.at(-1)!;
+    const irr = last.annualizedIRR!;
+    const sipBetter = (sipReturn: number) =>
+      benchmarkMembers([last], { ...defaultBenchmarkRates, sipReturn })[0].savings.find((comparison) => comparison.alternative === 'sip')?.better;
+
+    expect(sipBetter(irr - 1)).toBe(true);
+    expect(sipBetter(irr + 1)).toBe(false);
+  });
+
+  it('prices the early part of the payout as a personal loan', () => {
+    const [first] = benchmarkMembers(results.memberReturns, zeroRates);
+    const member = results.memberReturns[0];
+
+    expect(first.borrowing).toEqual({
+      loanNeeded: member.withdrawal - 5000,
+      loanRepayment: member.withdrawal - 5000,
+      chitRepayment: member.totalContribution - 5000,
+      better: member.totalContribution <= member.withdrawal
+    });
+  });
+
+  it('charges EMI interest on the personal loan', () => {
+    const [first] = benchmarkMembers(results.memberReturns, defaultBenchmarkRates);
+
+    expect(first.borrowing?.loanRepayment).toBeGreaterThan(first.borrowing?.loanNeeded ?? Infinity);
+  });
+
+  it('leaves borrowing out for the member paid out last', () => {
+    const last = benchmarkMembers(results.memberReturns, defaultBenchmarkRates).at(-1);
+
+    expect(last?.borrowing).toBeNull();
+  });
+});
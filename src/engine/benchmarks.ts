@@ -0,0 +1,97 @@
+import { summarizeMember } from './memberReturns';
+import type { MemberReturn } from './types';
+
+// Annual rates (%) of what a member could do with their money instead
+export interface BenchmarkRates {
+  fdRate: number;
+  rdRate: number;
+  sipReturn: number;
+  personalLoanRate: number;
+}
+
+export const defaultBenchmarkRates: BenchmarkRates = {
+  fdRate: 7,
+  rdRate: 6.5,
+  sipReturn: 12,
+  personalLoanRate: 14
+};
+
+export type SavingsAlternative = 'fd' | 'rd' | 'sip';
+
+// The member's contributions saved in the alternative instead, against the
+// chit payout put into the same alternative, both valued in the last month
+export interface SavingsComparison {
+  alternative: SavingsAlternative;
+  alternativeValue: number;
+  chitValue: number;
+  better: boolean;
+}
+
+// Borrowing the part of the payout other members funded from a lender instead,
+// repaid over the months the member keeps contributing after their payout
+export interface BorrowingComparison {
+  loanNeeded: number;
+  loanRepayment: number;
+  chitRepayment: number;
+  better: boolean;
+}
+
+export interface MemberBenchmark {
+  member: number;
+  withdrawalMonth: number;
+  savings: SavingsComparison[];
+  // Null for members who are paid out only after saving at least their payout
+  borrowing: BorrowingComparison | null;
+}
+
+// Bank deposits compound quarterly; a SIP's assumed return is an effective annual rate
+const monthlyRate = (alternative: SavingsAlternative, rates: BenchmarkRates) => {
+  if (alternative === 'sip') return Math.pow(1 + rates.sipReturn / 100, 1 / 12) - 1;
+  const annual = alternative === 'fd' ? rates.fdRate : rates.rdRate;
+  return Math.pow(1 + annual / 400, 1 / 3) - 1;
+};
+
+// Total paid on a reducing-balance EMI loan
+const emiTotal = (principal: number, annualRate: number, months: number) => {
+  const rate = annualRate / 1200;
+  const emi = rate === 0 ? principal / months : (principal * rate) / (1 - Math.pow(1 + rate, -months));
+  return emi * months;
+};
+
+const compareSavings = (member: MemberReturn, alternative: SavingsAlternative, rates: BenchmarkRates): SavingsComparison => {
+  const rate = monthlyRate(alternative, rates);
+  const lastMonth = member.cashFlows.length;
+  const growth = (month: number) => Math.pow(1 + rate, lastMonth - month);
+
+  const alternativeValue = summarizeMember(member).timeline.reduce((sum, row) => sum + row.contribution * growth(row.month), 0);
+  const chitValue = member.withdrawal * growth(member.withdrawalMonth);
+
+  return {
+    alternative,
+    alternativeValue: Math.round(alternativeValue),
+    chitValue: Math.round(chitValue),
+    better: chitValue >= alternativeValue
+  };
+};
+
+const compareBorrowing = (member: MemberReturn, rates: BenchmarkRates): BorrowingComparison | null => {
+  const { effectiveLoan, monthsToRepay, paidAfter } = summarizeMember(member);
+  if (effectiveLoan <= 0 || monthsToRepay === 0) return null;
+
+  const loanRepayment = emiTotal(effectiveLoan, rates.personalLoanRate, monthsToRepay);
+  return {
+    loanNeeded: Math.round(effectiveLoan),
+    loanRepayment: Math.round(loanRepayment),
+    chitRepayment: Math.round(paidAfter),
+    better: paidAfter <= loanRepayment
+  };
+};
+
+// Each member's chit against saving in an FD, RD or SIP and against a personal loan
+export const benchmarkMembers = (memberReturns: MemberReturn[], rates: BenchmarkRates): MemberBenchmark[] =>
+  memberReturns.map((member) => ({
+    member: member.member,
+    withdrawalMonth: member.withdrawalMonth,
+    savings: (['fd', 'rd', 'sip'] as const).map((alternative) => compareSavings(member, alternative, rates)),
+    borrowing: compareBorrowing(member, rates)
+  }));
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs } from './chitEngine';
+import { collectionDate, dueEvents, parseIsoDate } from './calendar';
+
+const iso = (date: Date | null) =>
+  date && `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+describe('parseIsoDate', () => {
+  it('reads calendar dates and rejects impossible ones', () => {
+    expect(iso(parseIsoDate('2026-03-15'))).toBe('2026-03-15');
+    expect(parseIsoDate('2026-02-30')).toBeNull();
+    expect(parseIsoDate('')).toBeNull();
+    expect(parseIsoDate('15/03/2026')).toBeNull();
+  });
+});
+
+describe('collectionDate', () => {
+  it('starts in the start month when the collection day is still ahead', () => {
+    expect(iso(collectionDate({ startDate: '2026-01-03', collectionDay: 5 }, 1))).toBe('2026-01-05');
+    expect(iso(collectionDate({ startDate: '2026-01-05', collectionDay: 5 }, 1))).toBe('2026-01-05');
+  });
+
+  it('moves to the next month when the collection day has passed', () => {
+    expect(iso(collectionDate({ startDate: '2026-01-10', collectionDay: 5 }, 1))).toBe('2026-02-05');
+    expect(iso(collectionDate({ startDate: '2026-11-10', collectionDay: 5 }, 3))).toBe('2027-02-05');
+  });
+
+  it('falls back to the last day of short months', () => {
+    const inputs = { startDate: '2026-01-31', collectionDay: 31 };
+
+    expect([1, 2, 3, 4].map((month) => iso(collectionDate(inputs, month)))).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30'
+    ]);
+  });
+
+  it('is undated without a start date', () => {
+    expect(collectionDate({ startDate: '', collectionDay: 5 }, 1)).toBeNull();
+  });
+});
+
+describe('dueEvents', () => {
+  it('lists contributions, payouts and loan repayments on each collection day', () => {
+    const inputs = { ...defaultChitInputs, startDate: '2026-01-01', collectionDay: 10 };
+    const events = dueEvents(inputs, calculateChitDetails(inputs, 50));
+
+    expect(events.slice(0, 2).map((event) => [event.kind, event.month, iso(event.date), event.amount])).toEqual([
+      ['contribution', 1, '2026-01-10', 5000],
+      ['payout', 1, '2026-01-10', 80000]
+    ]);
+    // Month 1's loan comes back in month 2
+    expect(events.find((event) => event.kind === 'loanRepayment')?.month).toBe(2);
+  });
+
+  it('has nothing to remind about for an undated scheme', () => {
+    expect(dueEvents(defaultChitInputs, calculateChitDetails(defaultChitInputs, 50))).toEqual([]);
+  });
+});
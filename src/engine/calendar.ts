@@ -0,0 +1,64 @@
+import { monthFigures } from './reconcile';
+import type { ChitInputs, ChitResult } from './types';
+
+export type DueEventKind = 'contribution' | 'payout' | 'loanRepayment';
+
+// Something that falls due on a scheme month's collection day
+export interface DueEvent {
+  kind: DueEventKind;
+  month: number;
+  date: Date;
+  amount: number;
+}
+
+type CalendarInputs = Pick<ChitInputs, 'startDate' | 'collectionDay'>;
+
+// Local-time date from "YYYY-MM-DD"; null for anything else, including dates
+// that don't exist such as 2026-02-30
+export const parseIsoDate = (value: string): Date | null => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+const daysInMonth = (year: number, monthIndex: number) => new Date(year, monthIndex + 1, 0).getDate();
+
+// Collection day of a scheme month. Month 1 is the first collection day on or
+// after the start date, and a day past the end of a short month falls on its
+// last day (the 31st is 28 Feb, 30 Apr, ...).
+export const collectionDate = (inputs: CalendarInputs, month: number): Date | null => {
+  const start = parseIsoDate(inputs.startDate);
+  if (!start) return null;
+
+  const day = Math.min(Math.max(Math.round(inputs.collectionDay), 1), 31);
+  const firstInStartMonth = Math.min(day, daysInMonth(start.getFullYear(), start.getMonth()));
+  const monthIndex = start.getMonth() + (start.getDate() > firstInStartMonth ? 1 : 0) + month - 1;
+
+  return new Date(start.getFullYear(), monthIndex, Math.min(day, daysInMonth(start.getFullYear(), monthIndex)));
+};
+
+// Every contribution, payout and expected loan repayment of a dated scheme, in date order
+export const dueEvents = (inputs: CalendarInputs, results: ChitResult): DueEvent[] => {
+  const events: DueEvent[] = [];
+
+  for (const row of results.withdrawalSchedule) {
+    const date = collectionDate(inputs, row.month);
+    if (!date) return [];
+
+    if (row.contributionPerMember > 0) {
+      events.push({ kind: 'contribution', month: row.month, date, amount: row.contributionPerMember });
+    }
+    if (row.actualWithdrawals > 0) {
+      events.push({ kind: 'payout', month: row.month, date, amount: row.withdrawalAmount - row.winnerDeduction });
+    }
+    const repayments = monthFigures(results, row.month)?.loanRepayments ?? 0;
+    if (repayments > 0) {
+      events.push({ kind: 'loanRepayment', month: row.month, date, amount: repayments });
+    }
+  }
+
+  return events;
+};
@@ -0,0 +1,306 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildPayoutSchedule,
+  calculateChitDetails,
+  calculateIRR,
+  defaultChitInputs,
+  derivedIncrement,
+  summarizeMember,
+  type ChitInputs
+} from './chitEngine';
+
+const baseInputs: ChitInputs = {
+  ...defaultChitInputs,
+  totalMembers: 20,
+  monthlyContribution: 5000,
+  firstWithdrawal: 80000,
+  finalWithdrawal: 99000,
+  monthlyIncrement: 1000,
+  commissionType: 'monthly',
+  commissionRate: 5,
+  oneTimeCommission: 10000,
+  loanInterestRate: 2,
+  payoutMode: 'increment',
+  stepUpPercent: 1,
+  customPayouts: [],
+  schemeType: 'fixed'
+};
+
+describe('calculateIRR', () => {
+  it('returns zero for a stream that only returns what was paid', () => {
+    expect(calculateIRR([-100, 100])).toBeCloseTo(0, 6);
+  });
+
+  it('finds the rate of a simple one-period investment', () => {
+    expect(calculateIRR([-100, 110])).toBeCloseTo(0.1, 6);
+  });
+
+  it('handles a borrower-style stream (inflow first)', () => {
+    expect(calculateIRR([100, -110])).toBeCloseTo(0.1, 6);
+  });
+});
+
+describe('buildPayoutSchedule', () => {
+  it('adds the monthly increment in increment mode', () => {
+    const payouts = buildPayoutSchedule(baseInputs);
+
+    expect(payouts).toHaveLength(20);
+    expect(payouts[0]).toBe(80000);
+    expect(payouts[19]).toBe(99000);
+  });
+
+  it('interpolates from the first to the final payout', () => {
+    const inputs: ChitInputs = { ...baseInputs, payoutMode: 'interpolate', firstWithdrawal: 80000, finalWithdrawal: 118000 };
+    const payouts = buildPayoutSchedule(inputs);
+
+    expect(derivedIncrement(inputs)).toBe(2000);
+    expect(payouts[0]).toBe(80000);
+    expect(payouts[1]).toBe(82000);
+    expect(payouts[19]).toBe(118000);
+  });
+
+  it('compounds the step-up percentage', () => {
+    const payouts = buildPayoutSchedule({ ...baseInputs, payoutMode: 'stepUp', firstWithdrawal: 10000, stepUpPercent: 10 });
+
+    expect(payouts.slice(0, 3)).toEqual([10000, 11000, 12100]);
+  });
+
+  it('uses the custom table and repeats its last amount', () => {
+    const payouts = buildPayoutSchedule({ ...baseInputs, totalMembers: 4, payoutMode: 'custom', customPayouts: [70000, 90000] });
+
+    expect(payouts).toEqual([70000, 90000, 90000, 90000]);
+  });
+
+  it('falls back to the first payout for an empty custom table', () => {
+    const payouts = buildPayoutSchedule({ ...baseInputs, totalMembers: 2, payoutMode: 'custom', customPayouts: [] });
+
+    expect(payouts).toEqual([80000, 80000]);
+  });
+
+  it('drives the simulated withdrawal amounts', () => {
+    const inputs: ChitInputs = { ...baseInputs, payoutMode: 'stepUp', stepUpPercent: 2 };
+    const result = calculateChitDetails(inputs, 50);
+    const payouts = buildPayoutSchedule(inputs);
+
+    for (const row of result.withdrawalSchedule) {
+      expect(row.withdrawalAmount).toBe(payouts[row.month - 1]);
+    }
+  });
+});
+
+describe('calculateChitDetails', () => {
+  it('derives pool and commission figures for a monthly commission', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+
+    expect(result.totalPool).toBe(100000);
+    expect(result.commissionPerMonth).toBe(5000);
+    expect(result.netPoolPerMonth).toBe(95000);
+  });
+
+  it('spreads a one-time commission across the duration', () => {
+    const result = calculateChitDetails({ ...baseInputs, commissionType: 'onetime', oneTimeCommission: 10000 }, 50);
+
+    expect(result.totalCommission).toBe(10000);
+    expect(result.commissionPerMonth).toBe(500);
+  });
+
+  it('simulates the first month including the spare-pool loan', () => {
+    const [first] = calculateChitDetails(baseInputs, 50).withdrawalSchedule;
+
+    expect(first).toMatchObject({
+      month: 1,
+      withdrawalAmount: 80000,
+      contributionPerMember: 5000,
+      availablePool: 95000,
+      actualWithdrawals: 1,
+      remainingPool: 15000,
+      remainingMembersAfter: 19
+    });
+
+    const [loan] = calculateChitDetails(baseInputs, 50).loanDetails;
+    expect(loan).toEqual({
+      month: 1,
+      availableForLoan: 15000,
+      loanAmount: 7500,
+      interestRate: 2,
+      interestEarned: 150,
+      repaymentDue: 7650,
+      outstandingPrincipal: 7500,
+      expectedLoss: 0,
+      lateRecovery: 0
+    });
+  });
+
+  it('serves every member and produces one return row per member', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+
+    expect(result.totalMembersServed).toBe(20);
+    expect(result.memberReturns).toHaveLength(20);
+    expect(result.memberReturns.map(m => m.member)).toEqual(
+      Array.from({ length: 20 }, (_, i) => i + 1)
+    );
+    expect(result.withdrawalSchedule.at(-1)?.remainingMembersAfter).toBe(0);
+  });
+
+  it('keeps the pool balanced month to month', () => {
+    const { withdrawalSchedule } = calculateChitDetails(baseInputs, 0);
+
+    for (const row of withdrawalSchedule) {
+      expect(row.availablePool - row.totalWithdrawn).toBeCloseTo(row.remainingPool, -1);
+    }
+  });
+
+  it('gives no loans when utilisation is zero', () => {
+    const result = calculateChitDetails(baseInputs, 0);
+
+    expect(result.totalLoanAmount).toBe(0);
+    expect(result.totalInterestEarned).toBe(0);
+    expect(result.loanDetails.every(loan => loan.loanAmount === 0)).toBe(true);
+  });
+
+  it('keeps multi-month loans on the ledger until they are repaid', () => {
+    const inputs: ChitInputs = { ...baseInputs, loanTenure: 3 };
+    const { withdrawalSchedule, loanDetails } = calculateChitDetails(inputs, 50);
+
+    // A bullet loan from month 1 is not back by month 2, so only the unlent half carries over
+    expect(withdrawalSchedule[1].carryOverFromPrevious).toBe(7500);
+    expect(loanDetails[1].outstandingPrincipal).toBe(loanDetails[0].loanAmount + loanDetails[1].loanAmount);
+    expect(loanDetails[0].interestEarned).toBe(450);
+  });
+
+  it('returns EMI loans month by month', () => {
+    const inputs: ChitInputs = { ...baseInputs, loanTenure: 3, loanRepaymentStyle: 'emi' };
+    const { withdrawalSchedule, loanDetails } = calculateChitDetails(inputs, 50);
+
+    // Month 2 gets the first flat-rate instalment of month 1's loan: 2500 + 150 interest
+    expect(withdrawalSchedule[1].carryOverFromPrevious).toBe(7500 + 2650);
+    expect(loanDetails[0].outstandingPrincipal).toBe(7500);
+    expect(loanDetails[1].outstandingPrincipal).toBe(5000 + loanDetails[1].loanAmount);
+  });
+
+  it('settles loans still running when the group closes early', () => {
+    const inputs: ChitInputs = { ...baseInputs, loanTenure: 6, loanRepaymentStyle: 'emi' };
+    const result = calculateChitDetails(inputs, 50);
+    const schedule = result.withdrawalSchedule;
+
+    expect(result.duration).toBeLessThan(inputs.totalMembers);
+    expect(result.loanDetails.at(-1)?.outstandingPrincipal).toBe(0);
+    // Every rupee collected or repaid ends up paid out, lent or left in the pool
+    const collected = schedule.reduce((sum, row) => sum + row.newContributions, 0);
+    const repaid = result.totalLoanAmount + result.totalInterestEarned;
+    const paidOut = schedule.reduce((sum, row) => sum + row.totalWithdrawn, 0);
+    expect(collected + repaid).toBeCloseTo(paidOut + result.totalLoanAmount + result.finalCarryOver, -1);
+  });
+
+  it('counts the closing settlement in the last month before topping it up', () => {
+    const inputs: ChitInputs = { ...baseInputs, loanTenure: 3, loanRepaymentStyle: 'emi' };
+    const result = calculateChitDetails(inputs, 50);
+    const last = result.withdrawalSchedule.at(-1);
+    if (!last) throw new Error('empty schedule');
+
+    // The settlement shows in the row's pool, so the row reconciles and members aren't overcharged
+    expect(last.availablePool - last.totalWithdrawn - last.leaverRefunds).toBeCloseTo(last.remainingPool, -1);
+    expect(result.finalCarryOver).toBeCloseTo(0, -1);
+    // The loan rows leave out the waived interest just as the total does
+    const rowInterest = result.loanDetails.reduce((sum, loan) => sum + loan.interestEarned, 0);
+    expect(rowInterest).toBeCloseTo(result.totalInterestEarned, -1);
+  });
+
+  it('gives later withdrawers a larger net return than earlier ones', () => {
+    const { memberReturns } = calculateChitDetails(baseInputs, 50);
+    const first = memberReturns[0];
+    const last = memberReturns[memberReturns.length - 1];
+
+    expect(last.netReturn).toBeGreaterThan(first.netReturn);
+  });
+
+  it('returns an empty result for zero members', () => {
+    const result = calculateChitDetails({ ...baseInputs, totalMembers: 0 }, 50);
+
+    expect(result.duration).toBe(0);
+    expect(result.withdrawalSchedule).toEqual([]);
+    expect(result.memberReturns).toEqual([]);
+    expect(result.totalMembersServed).toBe(0);
+    expect(result.finalCarryOver).toBe(0);
+  });
+
+  it('returns an empty result for negative members', () => {
+    const result = calculateChitDetails({ ...baseInputs, totalMembers: -5 }, 50);
+
+    expect(result.withdrawalSchedule).toEqual([]);
+  });
+
+  it('does not divide by zero when the withdrawal amount is zero', () => {
+    const result = calculateChitDetails({ ...baseInputs, firstWithdrawal: 0, monthlyIncrement: 0 }, 50);
+
+    expect(result.withdrawalSchedule.length).toBeGreaterThan(0);
+    for (const row of result.withdrawalSchedule) {
+      expect(Number.isFinite(row.actualWithdrawals)).toBe(true);
+      expect(Number.isFinite(row.remainingMembersAfter)).toBe(true);
+    }
+    expect(result.totalMembersServed).toBe(0);
+  });
+
+  it('never serves more members than exist when the pool is overdrawn by commission', () => {
+    const result = calculateChitDetails({ ...baseInputs, commissionRate: 150 }, 50);
+
+    expect(result.totalMembersServed).toBe(0);
+    for (const row of result.withdrawalSchedule) {
+      expect(row.actualWithdrawals).toBe(0);
+      expect(row.remainingMembersAfter).toBe(20);
+    }
+  });
+
+  it('gives a reason wherever a member has no single IRR', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+
+    for (const member of result.memberReturns) {
+      if (member.monthlyIRR === null) {
+        expect(member.irrIssue?.status).toMatch(/noSignChange|noRoot/);
+      } else if (member.irrIssue) {
+        // Ambiguous streams still show the rate nearest zero
+        expect(member.irrIssue.status).toBe('multipleRoots');
+      }
+    }
+    expect(result.memberReturns.some((member) => member.irrIssue !== null)).toBe(true);
+  });
+
+  it('reports members left waiting when payouts outgrow the pool', () => {
+    const result = calculateChitDetails({ ...baseInputs, firstWithdrawal: 200000 }, 50);
+
+    expect(result.totalMembersServed).toBeLessThan(20);
+    expect(result.memberReturns).toHaveLength(result.totalMembersServed);
+  });
+});
+
+describe('summarizeMember', () => {
+  it('keeps one cash flow per simulated month on every member', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+
+    for (const member of result.memberReturns) {
+      expect(member.cashFlows).toHaveLength(result.duration);
+    }
+  });
+
+  it('splits contributions around the withdrawal month', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+    const member = result.memberReturns[0];
+    const summary = summarizeMember(member);
+
+    expect(summary.paidBefore).toBe(5000);
+    expect(summary.paidBefore + summary.paidAfter).toBe(member.totalContribution);
+    expect(summary.youGet).toBe(80000);
+    expect(summary.effectiveLoan).toBe(75000);
+    expect(summary.monthsToRepay).toBe(result.duration - 1);
+  });
+
+  it('ends the running position at the net return', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+
+    for (const member of result.memberReturns) {
+      const summary = summarizeMember(member);
+      expect(summary.timeline.at(-1)?.cumulativePosition).toBe(member.netReturn);
+      expect(summary.netPosition).toBe(member.netReturn);
+    }
+  });
+});
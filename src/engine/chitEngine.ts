@@ -0,0 +1,461 @@
+// Chit fund simulation engine
+// Pure functions only - no React, no DOM - so the same numbers can be reused
+// by scripts, tests and any screen of the app.
+
+import { simulateAuction } from './auction';
+import { loanInstallments } from './loans';
+import { buildMemberReturns } from './memberReturns';
+import { payoutOrder } from './payoutOrder';
+import { buildPayoutSchedule } from './payouts';
+import { activeShares, closingRefunds, grossPool, joinerArrears, nextPayees, resolveSlots, stayingCount, type SlotOutcome } from './slots';
+import { calculateGst } from './tax';
+import type { ChitInputs, ChitResult, LoanRow, MonthActuals, WithdrawalRow } from './types';
+
+export * from './types';
+export { calculateIRR, conventionalRate, irrRoots, mirr, npv, signChanges, solveIrr, xirr, xnpv } from './finance';
+export type { DatedCashFlow, IrrIssue, IrrResult } from './finance';
+export { buildPayoutSchedule, derivedIncrement } from './payouts';
+export { buildMemberReturns, summarizeMember } from './memberReturns';
+export { activeShares, fullTicket, grossPool, isActive, isMemberSlot, resolveSlots, stayingCount } from './slots';
+export type { SlotOutcome } from './slots';
+export { payoutOrder } from './payoutOrder';
+export { fairnessReport } from './fairness';
+export type { FairnessReport, LadderSuggestion, LadderVariable } from './fairness';
+export { buildBidSchedule } from './auction';
+export { compareSchemes, irrStats, metricDeltas, scenarioMetrics } from './compare';
+export type { IrrStats, Scenario, ScenarioMetrics } from './compare';
+export { MAX_MEMBERS, diagnoseScheme, hasFieldErrors, validateInputs } from './validation';
+export type { FieldError, FieldErrorCode, FieldErrors, InputField, SchemeDiagnostic } from './validation';
+export { isSolverApplicable, solveGoal } from './goalSeek';
+export type { GoalSeekResult, SolverTarget, SolverVariable } from './goalSeek';
+export { buildSensitivityGrid } from './sensitivity';
+export type { SensitivityCell, SensitivityGrid } from './sensitivity';
+export { simulateLoanRisk } from './loanRisk';
+export { createRng } from './random';
+export type { LoanRiskSummary, Percentiles, ServedBand } from './loanRisk';
+export { calculateGst } from './tax';
+export { benchmarkMembers, defaultBenchmarkRates } from './benchmarks';
+export type { BenchmarkRates, BorrowingComparison, MemberBenchmark, SavingsAlternative, SavingsComparison } from './benchmarks';
+export { loanInstallments } from './loans';
+export type { LoanInstallment } from './loans';
+export { collectionDate, dueEvents, parseIsoDate } from './calendar';
+export type { DueEvent, DueEventKind } from './calendar';
+export { compareWithPlan, monthFigures } from './reconcile';
+export type { MonthFigures, MonthVariance } from './reconcile';
+export { compareCommissionTypes, summarizeForeman } from './foreman';
+export type { ForemanMonth, ForemanSummary } from './foreman';
+export {
+  autoAssignWithdrawals,
+  buildCollectionLedger,
+  emptyRoster,
+  memberDue,
+  openSlots,
+  paidAmount,
+  paymentStatus,
+  recordPayment,
+  removeMember
+} from './roster';
+export type {
+  CollectionLedger,
+  ContributionPayment,
+  MemberDues,
+  MonthCollection,
+  PaymentStatus,
+  Roster,
+  RosterMember
+} from './roster';
+
+export const defaultChitInputs: ChitInputs = {
+  totalMembers: 20,
+  monthlyContribution: 5000,
+  firstWithdrawal: 80000,
+  finalWithdrawal: 99000,
+  monthlyIncrement: 1000,
+  commissionType: 'monthly',
+  commissionRate: 5,
+  oneTimeCommission: 10000,
+  loanInterestRate: 2,
+  payoutMode: 'increment',
+  stepUpPercent: 1,
+  customPayouts: [],
+  schemeType: 'fixed',
+  bidMode: 'curve',
+  startingBidPercent: 30,
+  auctionBids: [],
+  loanDefaultRate: 0,
+  loanRecoveryRate: 50,
+  loanRepaymentDelay: 1,
+  loanTenure: 1,
+  loanRepaymentStyle: 'bullet',
+  loanCompounding: 'simple',
+  startDate: '',
+  collectionDay: 5,
+  gstRate: 0,
+  gstBorneBy: 'pool',
+  tdsRate: 0,
+  tdsThreshold: 40000,
+  memberSlots: [],
+  exitRefundPercent: 100,
+  withdrawalOrder: 'sequence',
+  lotterySeed: 1,
+  priorityList: [],
+  needRequests: []
+};
+
+// Foreman commission per month and over the whole scheme
+export const calculateCommission = (
+  inputs: Pick<ChitInputs, 'totalMembers' | 'memberSlots' | 'monthlyContribution' | 'commissionType' | 'commissionRate' | 'oneTimeCommission'>
+) => {
+  const { totalMembers, commissionType, commissionRate, oneTimeCommission } = inputs;
+  const duration = totalMembers;
+  const totalPool = grossPool(inputs);
+
+  if (commissionType === 'monthly') {
+    const commissionPerMonth = (totalPool * commissionRate) / 100;
+    return { commissionPerMonth, totalCommission: commissionPerMonth * duration };
+  }
+
+  return { commissionPerMonth: oneTimeCommission / duration, totalCommission: oneTimeCommission };
+};
+
+const emptyResult = (): ChitResult => ({
+  duration: 0,
+  totalPool: 0,
+  commissionPerMonth: 0,
+  totalCommission: 0,
+  netPoolPerMonth: 0,
+  withdrawalSchedule: [],
+  totalMembersServed: 0,
+  finalCarryOver: 0,
+  loanDetails: [],
+  totalLoanAmount: 0,
+  totalInterestEarned: 0,
+  totalExpectedLoss: 0,
+  totalGst: 0,
+  totalTds: 0,
+  memberReturns: []
+});
+
+// How one instalment of a month's loans comes back: `onTime` when it falls due
+// and `late` after the configured delay. Whatever is left of `due` is lost.
+export type LoanSettlement = (due: number, month: number) => { onTime: number; late: number };
+
+// Deterministic expected-value settlement used for the normal calculation
+export const expectedSettlement = (inputs: Pick<ChitInputs, 'loanDefaultRate' | 'loanRecoveryRate'>): LoanSettlement => {
+  const defaultShare = inputs.loanDefaultRate / 100;
+  const recoveryShare = inputs.loanRecoveryRate / 100;
+  return (due) => ({ onTime: due * (1 - defaultShare), late: due * defaultShare * recoveryShare });
+};
+
+// `actuals` are the recorded figures of a running group's finished months
+// (index 0 = month 1). Those months are taken as they happened and only the
+// months after them are projected, starting from the real pool state.
+export const calculateChitDetails = (
+  inputs: ChitInputs,
+  loanUtilization: number,
+  settle: LoanSettlement = expectedSettlement(inputs),
+  actuals: MonthActuals[] = []
+): ChitResult => {
+  const { totalMembers, monthlyContribution, loanInterestRate } = inputs;
+
+  // Add validation for edge cases
+  if (!(totalMembers > 0)) {
+    return emptyResult();
+  }
+
+  const duration = totalMembers;
+  const totalPool = grossPool(inputs);
+
+  const { commissionPerMonth, totalCommission } = calculateCommission(inputs);
+
+  if (inputs.schemeType === 'auction') {
+    return simulateAuction(inputs, commissionPerMonth, totalCommission, actuals);
+  }
+
+  const { gstPerMonth, totalGst, poolGstPerMonth } = calculateGst(inputs, commissionPerMonth, totalCommission);
+  // Everything the foreman's side takes out of each month's collection
+  const monthlyCharges = commissionPerMonth + poolGstPerMonth;
+  const netPoolPerMonth = totalPool - monthlyCharges;
+  const payouts = buildPayoutSchedule(inputs);
+
+  const withdrawalSchedule: WithdrawalRow[] = [];
+  // Members are paid in the chosen withdrawal order; payouts and instalments
+  // scale with each member's share, so the schedule's amounts are per single ticket
+  const slots = resolveSlots(inputs);
+  const order = payoutOrder(inputs, slots.length);
+  const paid = slots.map(() => false);
+  const outcomes: SlotOutcome[] = [];
+  // What one ticket has paid before each month, for arrears and exit refunds
+  const paidBefore = [0];
+  let remainingMembers = stayingCount(slots);
+  let carryOverPool = 0;
+  // Loan ledger: repayments expected to arrive, and contracted principal
+  // falling due, by month index. Whatever is still owed when the group
+  // closes is settled in the closing month, and counts towards its pool.
+  const repayments: number[] = [];
+  const principalDue: number[] = [];
+  // The part of each month's repayments that is interest, net of TDS and defaults
+  const interestRepaid: number[] = [];
+  let outstandingPrincipal = 0;
+  // Each loan's own interest and the loss on it by month, so a close can take
+  // the waived interest off the loan's row as well as the totals
+  const openLoans: { row: LoanRow; interestEarned: number; expectedLoss: number; interest: number[]; interestLoss: number[] }[] = [];
+  // TDS is withheld once a scheme year's loan interest passes the threshold,
+  // so interest is tallied by the year its instalment falls due in
+  const interestByYear: number[] = [];
+  const tdsDue: number[] = [];
+  const repaymentDelay = Math.max(0, Math.round(inputs.loanRepaymentDelay));
+
+  const loanDetails: LoanRow[] = [];
+  let totalLoanAmount = 0;
+  let totalInterestEarned = 0;
+  let totalExpectedLoss = 0;
+  let totalTds = 0;
+
+  for (let i = 0; i < duration && remainingMembers > 0; i++) {
+    const actual = actuals[i];
+    let withdrawalAmount = payouts[i];
+    // A recorded month replaces the repayments the ledger expected with what really came back
+    let effectiveCarryOver = carryOverPool + (actual ? actual.loanRepayments : repayments[i] ?? 0);
+    // What borrowers hand back if the group closes this month: everything still
+    // owed, less the interest for the months after the close
+    let loanSettlement = 0;
+    for (let month = i + 1; month < repayments.length; month++) loanSettlement += (repayments[month] ?? 0) - (interestRepaid[month] ?? 0);
+    let settled = false;
+    const shares = activeShares(slots, i + 1);
+    // A recorded collection already includes whatever joining members brought in
+    const arrears = actual ? 0 : joinerArrears(slots, i + 1, paidBefore[i]);
+    const exits = closingRefunds(slots, i + 1, paidBefore, inputs.exitRefundPercent);
+
+    let currentMonthContribution = shares * monthlyContribution - monthlyCharges;
+    let contributionPerMember = monthlyContribution;
+    let availablePool = currentMonthContribution + effectiveCarryOver + arrears;
+    let isLastMonth = false;
+    let payees: number[];
+
+    if (actual) {
+      currentMonthContribution = actual.collected - monthlyCharges;
+      contributionPerMember = shares > 0 ? actual.collected / shares : 0;
+      availablePool = currentMonthContribution + effectiveCarryOver;
+      payees = nextPayees(slots, order, paid, i + 1, Math.min(actual.membersPaid, remainingMembers));
+      isLastMonth = payees.length === remainingMembers;
+    } else {
+      const requiredShares = slots.reduce((sum, slot, index) => (!paid[index] && slot.leaveMonth === null ? sum + slot.share : sum), 0);
+      const totalRequiredForRemainingMembers = requiredShares * withdrawalAmount;
+      // Everyone still waiting must have joined before the group can close
+      const allJoined = slots.every((slot, index) => paid[index] || slot.leaveMonth !== null || slot.joinMonth <= i + 1);
+      isLastMonth = allJoined && totalRequiredForRemainingMembers + exits.settled + exits.pendingRate * monthlyContribution < availablePool + loanSettlement;
+      // The scheduled end closes the group whoever is still waiting
+      if (isLastMonth || i === duration - 1) {
+        effectiveCarryOver += loanSettlement;
+        availablePool += loanSettlement;
+        settled = true;
+      }
+
+      if (isLastMonth) {
+        // The closing instalment also covers refunds to members who left
+        const requiredNet = totalRequiredForRemainingMembers + exits.settled - effectiveCarryOver - arrears;
+
+        if (requiredNet <= 0) {
+          currentMonthContribution = 0;
+          contributionPerMember = 0;
+          availablePool = effectiveCarryOver + arrears;
+        } else {
+          const grossRequired = requiredNet + monthlyCharges;
+          contributionPerMember = grossRequired / (shares - exits.pendingRate);
+
+          const totalGrossContribution = contributionPerMember * shares;
+          currentMonthContribution = totalGrossContribution - monthlyCharges;
+          availablePool = currentMonthContribution + effectiveCarryOver + arrears;
+        }
+      }
+
+      // A non-positive payout or an overdrawn pool cannot serve anyone this month
+      const maxWithdrawalsBasedOnPool = withdrawalAmount > 0 && availablePool > 0
+        ? Math.floor(availablePool / withdrawalAmount)
+        : 0;
+      let takenShares = 0;
+      payees = nextPayees(slots, order, paid, i + 1, remainingMembers, (share) => {
+        if (takenShares + share > maxWithdrawalsBasedOnPool) return false;
+        takenShares += share;
+        return true;
+      });
+    }
+
+    const actualWithdrawals = payees.length;
+    const paidShares = payees.reduce((sum, index) => sum + slots[index].share, 0);
+    let totalWithdrawn = withdrawalAmount * paidShares;
+    if (actual) {
+      totalWithdrawn = actual.paidOut;
+      if (paidShares > 0) withdrawalAmount = actual.paidOut / paidShares;
+    }
+    const closing = isLastMonth || actualWithdrawals === remainingMembers || i === duration - 1;
+    if (closing && !settled) {
+      effectiveCarryOver += loanSettlement;
+      availablePool += loanSettlement;
+    }
+    const leaverRefunds = closing ? exits.settled + exits.pendingRate * contributionPerMember : 0;
+
+    // GST the winners bear is split between them and taken from their payouts;
+    // in a month nobody is paid the pool still has to settle it
+    const winnerGst = gstPerMonth - poolGstPerMonth;
+    const winnerDeduction = paidShares > 0 ? winnerGst / paidShares : 0;
+    const remainingPool = availablePool - totalWithdrawn - leaverRefunds - (actualWithdrawals > 0 ? 0 : winnerGst);
+
+    payees.forEach((index) => {
+      paid[index] = true;
+      const slot = slots[index];
+      outcomes.push({ slot, member: index + 1, month: i + 1, amount: slot.share * (Math.round(withdrawalAmount) - Math.round(winnerDeduction)) });
+    });
+    if (closing) {
+      slots.forEach((slot, index) => {
+        if (slot.leaveMonth === null || slot.joinMonth > i + 1) return;
+        outcomes.push({ slot, member: index + 1, month: i + 1, amount: exits.refund(slot, contributionPerMember) });
+      });
+    }
+    paidBefore.push(paidBefore[i] + contributionPerMember);
+
+    // Recorded repayments already arrived net of whatever was withheld
+    const tdsWithheld = actual ? 0 : tdsDue[i] ?? 0;
+    totalTds += tdsWithheld;
+
+    let loanAmount = 0;
+    outstandingPrincipal -= principalDue[i] ?? 0;
+
+    if (actual ? actual.loansGiven > 0 : !closing && remainingPool > 0) {
+      loanAmount = actual ? actual.loansGiven : (remainingPool * loanUtilization) / 100;
+      // Loans never run past the scheme's scheduled end; nothing is lent in its final month
+      const tenure = Math.max(1, Math.min(inputs.loanTenure, duration - 1 - i));
+      const installments = loanInstallments(loanAmount, inputs, tenure);
+
+      let interestEarned = 0;
+      let expectedLoss = 0;
+      let lateRecovery = 0;
+      const interest: number[] = [];
+      const interestLoss: number[] = [];
+      installments.forEach((installment, k) => {
+        const month = i + 1 + k;
+        const year = Math.floor(month / 12);
+        interestByYear[year] = (interestByYear[year] ?? 0) + installment.interest;
+        const tds = interestByYear[year] > inputs.tdsThreshold ? (installment.interest * inputs.tdsRate) / 100 : 0;
+        tdsDue[month] = (tdsDue[month] ?? 0) + tds;
+
+        const due = installment.principal + installment.interest - tds;
+        const { onTime, late } = settle(due, i + 1);
+
+        repayments[month] = (repayments[month] ?? 0) + onTime;
+        repayments[month + repaymentDelay] = (repayments[month + repaymentDelay] ?? 0) + late;
+        principalDue[month] = (principalDue[month] ?? 0) + installment.principal;
+        const repaidInterest = due > 0 ? ((onTime + late) / due) * (installment.interest - tds) : 0;
+        interestRepaid[month] = (interestRepaid[month] ?? 0) + repaidInterest;
+        interest[month] = installment.interest;
+        interestLoss[month] = installment.interest - tds - repaidInterest;
+
+        interestEarned += installment.interest;
+        expectedLoss += due - onTime - late;
+        lateRecovery += late;
+      });
+      outstandingPrincipal += loanAmount;
+
+      totalLoanAmount += loanAmount;
+      totalInterestEarned += interestEarned;
+      totalExpectedLoss += expectedLoss;
+
+      const row: LoanRow = {
+        month: i + 1,
+        availableForLoan: Math.round(remainingPool),
+        loanAmount: Math.round(loanAmount),
+        interestRate: loanInterestRate,
+        interestEarned: Math.round(interestEarned),
+        repaymentDue: Math.round(loanAmount + interestEarned),
+        outstandingPrincipal: Math.round(outstandingPrincipal),
+        expectedLoss: Math.round(expectedLoss),
+        lateRecovery: Math.round(lateRecovery)
+      };
+      loanDetails.push(row);
+      openLoans.push({ row, interestEarned, expectedLoss, interest, interestLoss });
+    } else if (Math.round(outstandingPrincipal) > 0) {
+      // No new lending, but earlier loans are still being repaid
+      loanDetails.push({
+        month: i + 1,
+        availableForLoan: 0,
+        loanAmount: 0,
+        interestRate: loanInterestRate,
+        interestEarned: 0,
+        repaymentDue: 0,
+        outstandingPrincipal: Math.round(outstandingPrincipal),
+        expectedLoss: 0,
+        lateRecovery: 0
+      });
+    }
+
+    if (closing) {
+      // The group winds up: borrowers repaid what they still owe with the
+      // settlement, and the interest for the months after the close is never charged
+      openLoans.forEach((loan) => {
+        for (let month = i + 1; month < loan.interest.length; month++) {
+          loan.interestEarned -= loan.interest[month] ?? 0;
+          loan.expectedLoss -= loan.interestLoss[month] ?? 0;
+          totalInterestEarned -= loan.interest[month] ?? 0;
+          totalExpectedLoss -= loan.interestLoss[month] ?? 0;
+        }
+        loan.row.interestEarned = Math.round(loan.interestEarned);
+        loan.row.repaymentDue = loan.row.loanAmount + loan.row.interestEarned;
+        loan.row.expectedLoss = Math.round(loan.expectedLoss);
+      });
+      outstandingPrincipal = 0;
+      const closingLoans = loanDetails.at(-1);
+      if (closingLoans?.month === i + 1) closingLoans.outstandingPrincipal = 0;
+    }
+
+    carryOverPool = remainingPool - loanAmount;
+    remainingMembers -= actualWithdrawals;
+
+    withdrawalSchedule.push({
+      month: i + 1,
+      withdrawalAmount: Math.round(withdrawalAmount),
+      contributionPerMember: Math.round(contributionPerMember),
+      newContributions: Math.round(currentMonthContribution),
+      carryOverFromPrevious: Math.round(effectiveCarryOver),
+      availablePool: Math.round(availablePool),
+      actualWithdrawals: actualWithdrawals,
+      totalWithdrawn: Math.round(totalWithdrawn),
+      remainingPool: Math.round(remainingPool),
+      remainingMembersAfter: remainingMembers,
+      isLastMonth: isLastMonth,
+      bidDiscount: 0,
+      dividendPerMember: 0,
+      gst: Math.round(gstPerMonth),
+      winnerDeduction: Math.round(winnerDeduction),
+      tdsWithheld: Math.round(tdsWithheld),
+      joinerArrears: Math.round(arrears),
+      leaverRefunds: Math.round(leaverRefunds)
+    });
+
+    if (remainingMembers === 0) break;
+  }
+
+  const memberReturns = buildMemberReturns(withdrawalSchedule, outcomes);
+
+  // The schedule is never empty here (totalMembers > 0 runs at least one month),
+  // but guard the lookup so a future change cannot turn it into a crash
+  const lastRow = withdrawalSchedule.at(-1);
+
+  return {
+    duration: withdrawalSchedule.length,
+    totalPool,
+    commissionPerMonth: Math.round(commissionPerMonth),
+    totalCommission: Math.round(totalCommission),
+    netPoolPerMonth,
+    withdrawalSchedule,
+    totalMembersServed: lastRow ? stayingCount(slots) - lastRow.remainingMembersAfter : 0,
+    finalCarryOver: lastRow ? lastRow.remainingPool : 0,
+    loanDetails,
+    totalLoanAmount: Math.round(totalLoanAmount),
+    totalInterestEarned: Math.round(totalInterestEarned),
+    totalExpectedLoss: Math.round(totalExpectedLoss),
+    totalGst: Math.round(totalGst),
+    totalTds: Math.round(totalTds),
+    memberReturns
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs } from './chitEngine';
+import { compareSchemes, irrStats, metricDeltas, scenarioMetrics } from './compare';
+
+describe('irrStats', () => {
+  it('returns nulls when there are no members', () => {
+    const result = calculateChitDetails({ ...defaultChitInputs, totalMembers: 0 }, 50);
+
+    expect(irrStats(result)).toEqual({ min: null, median: null, max: null });
+  });
+
+  it('orders min, median and max', () => {
+    const stats = irrStats(calculateChitDetails(defaultChitInputs, 50));
+
+    expect(stats.min).not.toBeNull();
+    expect(stats.min!).toBeLessThanOrEqual(stats.median!);
+    expect(stats.median!).toBeLessThanOrEqual(stats.max!);
+  });
+});
+
+describe('scenarioMetrics', () => {
+  it('picks the headline figures from a result', () => {
+    const result = calculateChitDetails(defaultChitInputs, 50);
+    const metrics = scenarioMetrics(result);
+
+    expect(metrics.monthlyPool).toBe(result.totalPool);
+    expect(metrics.duration).toBe(result.duration);
+    expect(metrics.totalLoans).toBe(result.totalLoanAmount);
+    expect(metrics.totalInterest).toBe(result.totalInterestEarned);
+    expect(metrics.finalBalance).toBe(result.finalCarryOver);
+  });
+});
+
+describe('metricDeltas', () => {
+  it('is zero against itself and signed against another scenario', () => {
+    const base = scenarioMetrics(calculateChitDetails(defaultChitInputs, 50));
+    const bigger = scenarioMetrics(calculateChitDetails({ ...defaultChitInputs, totalMembers: 25, monthlyContribution: 4000 }, 50));
+
+    expect(metricDeltas(base, base).monthlyPool).toBe(0);
+    expect(metricDeltas(bigger, base).monthlyPool).toBe(0);
+    expect(metricDeltas(bigger, base).duration).toBeGreaterThan(0);
+  });
+});
+
+describe('compareSchemes', () => {
+  it('runs the inputs as both a fixed and an auction scheme', () => {
+    const { fixed, auction } = compareSchemes(defaultChitInputs, 50);
+
+    expect(fixed).toEqual(calculateChitDetails(defaultChitInputs, 50));
+    expect(auction).toEqual(calculateChitDetails({ ...defaultChitInputs, schemeType: 'auction' }, 50));
+  });
+
+  it('leaves out an auction when a member holds a double share', () => {
+    const single = { share: 1, joinMonth: 1, leaveMonth: null };
+    const inputs = { ...defaultChitInputs, memberSlots: [{ ...single, share: 2 }, ...Array.from({ length: 19 }, () => single)] };
+    const { fixed, auction } = compareSchemes(inputs, 50);
+
+    expect(fixed?.totalMembersServed).toBe(20);
+    expect(auction).toBeNull();
+  });
+});
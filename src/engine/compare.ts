@@ -0,0 +1,80 @@
+import { calculateChitDetails } from './chitEngine';
+import type { ChitInputs, ChitResult, SchemeType } from './types';
+import { hasFieldErrors, validateInputs } from './validation';
+
+// One column of the side-by-side comparison
+export interface Scenario {
+  id: string;
+  name: string;
+  inputs: ChitInputs;
+  loanUtilization: number;
+}
+
+export interface IrrStats {
+  min: number | null;
+  median: number | null;
+  max: number | null;
+}
+
+export interface ScenarioMetrics extends IrrStats {
+  monthlyPool: number;
+  duration: number;
+  totalLoans: number;
+  totalInterest: number;
+  finalBalance: number;
+  membersServed: number;
+}
+
+// Spread of annualized IRR across members, ignoring members whose IRR did not converge
+export const irrStats = (result: ChitResult): IrrStats => {
+  const irrs = result.memberReturns
+    .map((member) => member.annualizedIRR)
+    .filter((irr): irr is number => irr !== null)
+    .sort((a, b) => a - b);
+
+  if (irrs.length === 0) {
+    return { min: null, median: null, max: null };
+  }
+
+  const middle = Math.floor(irrs.length / 2);
+  const median = irrs.length % 2 === 0 ? (irrs[middle - 1] + irrs[middle]) / 2 : irrs[middle];
+
+  return { min: irrs[0], median, max: irrs[irrs.length - 1] };
+};
+
+// Headline figures used to put several configurations side by side
+export const scenarioMetrics = (result: ChitResult): ScenarioMetrics => ({
+  monthlyPool: result.totalPool,
+  duration: result.duration,
+  totalLoans: result.totalLoanAmount,
+  totalInterest: result.totalInterestEarned,
+  finalBalance: result.finalCarryOver,
+  membersServed: result.totalMembersServed,
+  ...irrStats(result)
+});
+
+// Difference of every metric against a baseline scenario (null when either side is missing)
+export const metricDeltas = (metrics: ScenarioMetrics, baseline: ScenarioMetrics): Record<keyof ScenarioMetrics, number | null> => {
+  const deltas = {} as Record<keyof ScenarioMetrics, number | null>;
+
+  for (const key of Object.keys(metrics) as (keyof ScenarioMetrics)[]) {
+    const value = metrics[key];
+    const base = baseline[key];
+    deltas[key] = value === null || base === null ? null : value - base;
+  }
+
+  return deltas;
+};
+
+const schemeTypes: SchemeType[] = ['fixed', 'auction'];
+
+// The same inputs run as a fixed-ladder and as an auction scheme. A scheme the
+// inputs don't suit (say an auction with members holding other than one share)
+// is null rather than simulated.
+export const compareSchemes = (inputs: ChitInputs, loanUtilization: number): Record<SchemeType, ChitResult | null> =>
+  Object.fromEntries(
+    schemeTypes.map((schemeType) => {
+      const variant = { ...inputs, schemeType };
+      return [schemeType, hasFieldErrors(validateInputs(variant, loanUtilization)) ? null : calculateChitDetails(variant, loanUtilization)];
+    })
+  ) as Record<SchemeType, ChitResult | null>;
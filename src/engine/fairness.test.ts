@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, type ChitInputs } from './chitEngine';
+import { fairnessReport } from './fairness';
+
+const report = (inputs: ChitInputs) => fairnessReport(inputs, 50, calculateChitDetails(inputs, 50));
+
+describe('fairnessReport', () => {
+  it('measures the IRR gap between the first and last members paid', () => {
+    const results = calculateChitDetails(defaultChitInputs, 50);
+    const { earliest, latest, spread, lowestIrr, highestIrr } = fairnessReport(defaultChitInputs, 50, results);
+
+    expect(earliest?.withdrawalMonth).toBe(1);
+    expect(latest?.withdrawalMonth).toBe(results.duration);
+    expect(spread).toBeCloseTo((latest?.annualizedIRR ?? 0) - (earliest?.annualizedIRR ?? 0));
+    expect(lowestIrr).toBeLessThanOrEqual(highestIrr ?? -Infinity);
+  });
+
+  it('suggests ladder changes that narrow the gap and still pay everyone', () => {
+    const { spread, suggestions } = report(defaultChitInputs);
+
+    expect(suggestions.length).toBeGreaterThan(0);
+    for (const suggestion of suggestions) {
+      const results = calculateChitDetails(suggestion.inputs, 50);
+
+      expect(suggestion.inputs[suggestion.variable]).toBe(suggestion.value);
+      expect(suggestion.gap).toBeLessThan(Math.abs(spread ?? Infinity));
+      expect(results.totalMembersServed).toBe(defaultChitInputs.totalMembers);
+    }
+  });
+
+  it('has nothing to suggest for ladders it cannot reshape', () => {
+    expect(report({ ...defaultChitInputs, schemeType: 'auction' }).suggestions).toEqual([]);
+    expect(report({ ...defaultChitInputs, payoutMode: 'custom', customPayouts: [80000] }).suggestions).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+import { calculateChitDetails } from './chitEngine';
+import { grossPool } from './slots';
+import type { ChitInputs, ChitResult, MemberReturn } from './types';
+import { hasFieldErrors, validateInputs } from './validation';
+
+export type LadderVariable = 'firstWithdrawal' | 'monthlyIncrement' | 'finalWithdrawal' | 'stepUpPercent';
+
+export interface LadderSuggestion {
+  variable: LadderVariable;
+  value: number;
+  // Size of the IRR gap between the earliest and latest withdrawers with this value
+  gap: number;
+  inputs: ChitInputs;
+}
+
+// How evenly the scheme treats members who are paid early and late. An early
+// withdrawer's IRR is what their advance costs them, a late one's what their
+// savings earn; a fair ladder keeps the two close.
+export interface FairnessReport {
+  earliest: MemberReturn | null;
+  latest: MemberReturn | null;
+  // Latest minus earliest annual IRR, in percentage points
+  spread: number | null;
+  lowestIrr: number | null;
+  highestIrr: number | null;
+  // Ladder changes that narrow the gap while still paying everyone, best first
+  suggestions: LadderSuggestion[];
+}
+
+// Grid points per input, then a finer pass around the best one
+const SAMPLES = 24;
+const REFINE_SAMPLES = 12;
+// Smallest narrowing (percentage points) worth suggesting
+const MIN_IMPROVEMENT = 0.1;
+
+const STEP: Record<LadderVariable, number> = {
+  firstWithdrawal: 100,
+  monthlyIncrement: 100,
+  finalWithdrawal: 100,
+  stepUpPercent: 0.1
+};
+
+// Members paid out (not refunded) whose IRR could be worked out, in payout order
+const rankedMembers = (results: ChitResult) =>
+  results.memberReturns.filter((member) => member.leaveMonth === null && member.annualizedIRR !== null);
+
+const spreadOf = (results: ChitResult): number | null => {
+  const members = rankedMembers(results);
+  const [earliest, latest] = [members[0], members.at(-1)];
+  return earliest && latest && members.length > 1 ? (latest.annualizedIRR as number) - (earliest.annualizedIRR as number) : null;
+};
+
+// The input shaping the ladder in the current payout mode, plus the first payout
+const ladderVariables = (inputs: ChitInputs): LadderVariable[] => {
+  if (inputs.schemeType !== 'fixed' || inputs.payoutMode === 'custom') return [];
+  const shape: Record<'increment' | 'interpolate' | 'stepUp', LadderVariable> = {
+    increment: 'monthlyIncrement',
+    interpolate: 'finalWithdrawal',
+    stepUp: 'stepUpPercent'
+  };
+  return [shape[inputs.payoutMode], 'firstWithdrawal'];
+};
+
+const searchRange = (inputs: ChitInputs, variable: LadderVariable): [number, number] => {
+  const { totalMembers } = inputs;
+  const pool = grossPool(inputs);
+
+  switch (variable) {
+    case 'firstWithdrawal':
+      return [Math.round(pool / 2), pool];
+    case 'monthlyIncrement':
+      return [0, Math.ceil(pool / Math.max(totalMembers - 1, 1))];
+    case 'finalWithdrawal':
+      return [inputs.firstWithdrawal, 2 * pool];
+    case 'stepUpPercent':
+      return [0, 10];
+  }
+};
+
+const snap = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(2));
+
+// Scan one ladder input for the value with the smallest gap that still serves everyone
+const bestValue = (inputs: ChitInputs, loanUtilization: number, variable: LadderVariable): LadderSuggestion | null => {
+  const step = STEP[variable];
+  const evaluate = (value: number): LadderSuggestion | null => {
+    const candidate = { ...inputs, [variable]: value };
+    if (hasFieldErrors(validateInputs(candidate, loanUtilization))) return null;
+    const results = calculateChitDetails(candidate, loanUtilization);
+    const spread = spreadOf(results);
+    if (results.totalMembersServed < inputs.totalMembers || spread === null) return null;
+    return { variable, value, gap: Math.abs(spread), inputs: candidate };
+  };
+  const scan = (low: number, high: number, samples: number) =>
+    Array.from({ length: samples + 1 }, (_, i) => evaluate(snap(low + ((high - low) * i) / samples, step)));
+  const best = (candidates: (LadderSuggestion | null)[]) =>
+    candidates.reduce<LadderSuggestion | null>((found, candidate) => (candidate && (!found || candidate.gap < found.gap) ? candidate : found), null);
+
+  const [low, high] = searchRange(inputs, variable);
+  const coarse = best(scan(low, high, SAMPLES));
+  if (!coarse) return null;
+
+  const width = (high - low) / SAMPLES;
+  return best([coarse, ...scan(Math.max(low, coarse.value - width), Math.min(high, coarse.value + width), REFINE_SAMPLES)]);
+};
+
+export const fairnessReport = (inputs: ChitInputs, loanUtilization: number, results: ChitResult): FairnessReport => {
+  const members = rankedMembers(results);
+  const irrs = members.map((member) => member.annualizedIRR as number);
+  const spread = spreadOf(results);
+  const currentGap = spread !== null ? Math.abs(spread) : Infinity;
+
+  const suggestions = ladderVariables(inputs)
+    .map((variable) => bestValue(inputs, loanUtilization, variable))
+    .filter((suggestion): suggestion is LadderSuggestion => suggestion !== null && suggestion.gap <= currentGap - MIN_IMPROVEMENT)
+    .sort((a, b) => a.gap - b.gap);
+
+  return {
+    earliest: members[0] ?? null,
+    latest: members.at(-1) ?? null,
+    spread,
+    lowestIrr: irrs.length > 0 ? Math.min(...irrs) : null,
+    highestIrr: irrs.length > 0 ? Math.max(...irrs) : null,
+    suggestions
+  };
+};
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { conventionalRate, mirr, npv, signChanges, solveIrr, xirr } from './finance';
+
+describe('signChanges', () => {
+  it('counts flips between paying and receiving, skipping zeros', () => {
+    expect(signChanges([-100, 0, -50, 200, 0, -30])).toBe(2);
+    expect(signChanges([-100, -50])).toBe(0);
+  });
+});
+
+describe('npv', () => {
+  it('discounts every flow after the first', () => {
+    expect(npv(0.1, [-100, 110])).toBeCloseTo(0, 9);
+    expect(npv(0, [-100, 40, 40])).toBe(-20);
+  });
+});
+
+describe('solveIrr', () => {
+  it('finds the single rate of a conventional stream', () => {
+    expect(solveIrr([-1000, 300, 400, 500])).toEqual({ status: 'ok', rate: expect.closeTo(0.0889633947, 8) });
+  });
+
+  it('explains a stream that never changes sign', () => {
+    expect(solveIrr([-100, -50])).toEqual({ status: 'noSignChange' });
+    expect(solveIrr([])).toEqual({ status: 'noSignChange' });
+  });
+
+  it('explains a stream whose value never reaches zero', () => {
+    expect(solveIrr([-100, 50, -100])).toEqual({ status: 'noRoot' });
+  });
+
+  it('reports every rate when several balance the stream', () => {
+    const result = solveIrr([-100, 230, -132]);
+
+    expect(result.status).toBe('multipleRoots');
+    if (result.status !== 'multipleRoots') return;
+    expect(result.rates).toHaveLength(2);
+    expect(result.rates[0]).toBeCloseTo(0.1, 9);
+    expect(result.rates[1]).toBeCloseTo(0.2, 9);
+    expect(conventionalRate(result)).toBeCloseTo(0.1, 9);
+  });
+});
+
+describe('xirr', () => {
+  it('uses the actual days between dates', () => {
+    const result = xirr([
+      { date: new Date(2025, 0, 1), amount: -1000 },
+      { date: new Date(2026, 0, 1), amount: 1100 }
+    ]);
+
+    expect(result).toEqual({ status: 'ok', rate: expect.closeTo(0.1, 8) });
+  });
+
+  it('annualises flows half a year apart', () => {
+    const result = xirr([
+      { date: new Date(2025, 0, 1), amount: -1000 },
+      { date: new Date(2025, 6, 2), amount: 1050 }
+    ]);
+
+    expect(conventionalRate(result)).toBeCloseTo(Math.pow(1.05, 365 / 182) - 1, 8);
+  });
+
+  it('explains a stream that never changes sign', () => {
+    expect(xirr([{ date: new Date(2025, 0, 1), amount: 500 }])).toEqual({ status: 'noSignChange' });
+  });
+});
+
+describe('mirr', () => {
+  it('reinvests receipts at the reinvestment rate', () => {
+    expect(conventionalRate(mirr([-1000, 500, 600], 0.1, 0.1))).toBeCloseTo(Math.sqrt(1.15) - 1, 9);
+  });
+
+  it('gives one answer even where the IRR is ambiguous', () => {
+    expect(mirr([-100, 230, -132], 0.1, 0.1).status).toBe('ok');
+  });
+
+  it('needs both payments and receipts', () => {
+    expect(mirr([-100, -100], 0.1, 0.1)).toEqual({ status: 'noSignChange' });
+  });
+});
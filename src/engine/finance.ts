@@ -0,0 +1,145 @@
+// Time-value-of-money helpers. Cash flows are negative for money paid out
+// (contributions) and positive for money received (payouts).
+
+export type IrrResult =
+  | { status: 'ok'; rate: number }
+  // Only payments or only receipts: no rate can balance them
+  | { status: 'noSignChange' }
+  // The flows change sign but their value never reaches zero in the searched range
+  | { status: 'noRoot' }
+  // Several rates balance the flows, so no single one is "the" IRR
+  | { status: 'multipleRoots'; rates: number[] };
+
+export type IrrIssue = Exclude<IrrResult, { status: 'ok' }>;
+
+export interface DatedCashFlow {
+  date: Date;
+  amount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const BISECTION_STEPS = 100;
+
+const range = (from: number, to: number, step: number) =>
+  Array.from({ length: Math.round((to - from) / step) + 1 }, (_, index) => from + index * step);
+
+// Rates checked for a change of sign before refining. Dense where chit returns
+// actually fall and sparse towards the extremes; two roots closer together
+// than one step are not told apart.
+const MONTHLY_RATE_GRID = [-0.99, -0.9, -0.75, -0.5, -0.35, -0.25, -0.15, -0.1, ...range(-0.08, 0.3, 0.005), 0.35, 0.5, 0.75, 1, 1.5, 2, 3, 5, 10];
+const ANNUAL_RATE_GRID = [-0.99, -0.9, -0.75, -0.5, -0.35, -0.25, ...range(-0.2, 1, 0.01), 1.25, 1.5, 2, 3, 5, 10, 20, 50];
+
+// Number of times the stream flips between paying and receiving, ignoring zeros.
+// More than one means the IRR may not be unique.
+export const signChanges = (amounts: number[]): number => {
+  let changes = 0;
+  let previous = 0;
+  for (const amount of amounts) {
+    if (amount === 0) continue;
+    if (previous !== 0 && Math.sign(amount) !== Math.sign(previous)) changes++;
+    previous = amount;
+  }
+  return changes;
+};
+
+// Net present value of evenly spaced flows, the first one undiscounted
+export const npv = (rate: number, cashFlows: number[]): number => {
+  // Horner's scheme in 1 / (1 + rate) avoids a power per period
+  const discount = 1 / (1 + rate);
+  return cashFlows.reduceRight((value, amount) => value * discount + amount, 0);
+};
+
+// Net present value of dated flows on an actual/365 basis, at the first date
+export const xnpv = (annualRate: number, flows: DatedCashFlow[]): number => {
+  if (flows.length === 0) return 0;
+  const start = flows[0].date.getTime();
+  return flows.reduce((value, { date, amount }) => value + amount / Math.pow(1 + annualRate, (date.getTime() - start) / (365 * DAY_MS)), 0);
+};
+
+// Every rate on the grid's span where `value` crosses zero, refined by bisection.
+// Anything within `tolerance` of zero counts as a root, so one sitting right on
+// a grid point isn't lost to rounding.
+const findRoots = (value: (rate: number) => number, grid: number[], tolerance: number): number[] => {
+  const roots: number[] = [];
+  const isZero = (amount: number) => Math.abs(amount) <= tolerance;
+
+  for (let i = 0; i < grid.length - 1; i++) {
+    let low = grid[i];
+    let high = grid[i + 1];
+    let valueLow = value(low);
+    const valueHigh = value(high);
+    // Very long streams overflow at the extremes; skip what can't be evaluated
+    if (!Number.isFinite(valueLow) || !Number.isFinite(valueHigh)) continue;
+    if (isZero(valueLow)) {
+      roots.push(low);
+      continue;
+    }
+    // A root on the upper end is picked up as the next interval's lower end
+    if (isZero(valueHigh) || valueLow * valueHigh > 0) continue;
+
+    for (let step = 0; step < BISECTION_STEPS && high - low > 1e-12; step++) {
+      const mid = (low + high) / 2;
+      const valueMid = value(mid);
+      if (valueLow * valueMid <= 0) {
+        high = mid;
+      } else {
+        low = mid;
+        valueLow = valueMid;
+      }
+    }
+    roots.push((low + high) / 2);
+  }
+
+  const last = grid[grid.length - 1];
+  if (isZero(value(last))) roots.push(last);
+  return roots;
+};
+
+// Rounding noise allowed in a stream's present value
+const toleranceFor = (amounts: number[]) => 1e-9 * amounts.reduce((sum, amount) => sum + Math.abs(amount), 0);
+
+const toResult = (amounts: number[], roots: number[]): IrrResult => {
+  if (signChanges(amounts) === 0) return { status: 'noSignChange' };
+  if (roots.length === 0) return { status: 'noRoot' };
+  if (roots.length > 1) return { status: 'multipleRoots', rates: roots };
+  return { status: 'ok', rate: roots[0] };
+};
+
+// All per-period rates at which the flows' NPV is zero
+export const irrRoots = (cashFlows: number[]): number[] =>
+  findRoots((rate) => npv(rate, cashFlows), MONTHLY_RATE_GRID, toleranceFor(cashFlows));
+
+// Per-period IRR of evenly spaced flows, or why there isn't a single one
+export const solveIrr = (cashFlows: number[]): IrrResult =>
+  signChanges(cashFlows) === 0 ? { status: 'noSignChange' } : toResult(cashFlows, irrRoots(cashFlows));
+
+// Annual IRR of dated flows (Excel's XIRR), or why there isn't a single one
+export const xirr = (flows: DatedCashFlow[]): IrrResult => {
+  const amounts = flows.map(({ amount }) => amount);
+  if (signChanges(amounts) === 0) return { status: 'noSignChange' };
+  return toResult(amounts, findRoots((rate) => xnpv(rate, flows), ANNUAL_RATE_GRID, toleranceFor(amounts)));
+};
+
+// Modified IRR: payments are financed at `financeRate` and receipts reinvested
+// at `reinvestRate` (both per period), which always gives a single answer
+export const mirr = (cashFlows: number[], financeRate: number, reinvestRate: number): IrrResult => {
+  const periods = cashFlows.length - 1;
+  const paid = cashFlows.reduce((sum, amount, t) => (amount < 0 ? sum - amount / Math.pow(1 + financeRate, t) : sum), 0);
+  const received = cashFlows.reduce((sum, amount, t) => (amount > 0 ? sum + amount * Math.pow(1 + reinvestRate, periods - t) : sum), 0);
+  if (periods < 1 || paid === 0 || received === 0) return { status: 'noSignChange' };
+
+  return { status: 'ok', rate: Math.pow(received / paid, 1 / periods) - 1 };
+};
+
+// The usual single reading of a result: its rate, or the one nearest zero when
+// several fit (the others are typically absurd, such as 200% a month)
+export const conventionalRate = (result: IrrResult): number | null => {
+  if (result.status === 'ok') return result.rate;
+  if (result.status === 'multipleRoots') {
+    return result.rates.reduce((best, rate) => (Math.abs(rate) < Math.abs(best) ? rate : best));
+  }
+  return null;
+};
+
+// Per-period IRR as a plain number, null when no rate fits
+export const calculateIRR = (cashFlows: number[]): number | null => conventionalRate(solveIrr(cashFlows));
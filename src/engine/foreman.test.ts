@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, expectedSettlement, resolveSlots } from './chitEngine';
+import { compareCommissionTypes, summarizeForeman } from './foreman';
+
+describe('summarizeForeman', () => {
+  it('earns commission month by month without own cash when the pool always suffices', () => {
+    const results = calculateChitDetails(defaultChitInputs, 50);
+    const summary = summarizeForeman(defaultChitInputs, results);
+
+    expect(summary.commission).toBe(results.totalCommission);
+    expect(summary.exposure).toBe(0);
+    expect(summary.exposureMonths).toEqual([]);
+    expect(summary.profit).toBe(summary.commission + results.finalCarryOver);
+    expect(summary.irrIssue).toEqual({ status: 'noSignChange' });
+    expect(summary.breakEvenMonth).toBe(1);
+  });
+
+  it('advances the gap in months the pool cannot pay anyone', () => {
+    const inputs = { ...defaultChitInputs, firstWithdrawal: 97000 };
+    const results = calculateChitDetails(inputs, 50);
+    const summary = summarizeForeman(inputs, results);
+    const shortMonths = results.withdrawalSchedule.filter((row) => row.actualWithdrawals === 0).map((row) => row.month);
+
+    expect(shortMonths.length).toBeGreaterThan(0);
+    expect(summary.exposureMonths).toEqual(shortMonths);
+    expect(summary.exposure).toBeGreaterThan(0);
+    // Nothing in the schedule repays a missed payout, so the advances are lost
+    expect(summary.profit).toBe(summary.commission + results.finalCarryOver - summary.exposure);
+    expect(summary.timeline.at(-1)?.cumulativePosition).toBeCloseTo(summary.profit, 0);
+  });
+
+  it('gets an overdraft back from the next month and breaks even then', () => {
+    const actuals = [{ collected: 100000, membersPaid: 1, paidOut: 105000, loansGiven: 0, loanRepayments: 0 }];
+    const results = calculateChitDetails(defaultChitInputs, 50, expectedSettlement(defaultChitInputs), actuals);
+    const summary = summarizeForeman(defaultChitInputs, results);
+
+    expect(summary.timeline[0]).toMatchObject({ advance: 10000, netFlow: -5000 });
+    expect(summary.timeline[1]).toMatchObject({ advance: 0, repayment: 10000, netFlow: 15000 });
+    expect(summary.breakEvenMonth).toBe(2);
+    expect(summary.irrIssue).toBeNull();
+    expect(summary.annualizedIRR).toBeGreaterThan(0);
+  });
+
+  it('counts an overdraft left at close as lost', () => {
+    // Two leavers refunded in full when the group closes overdraw the final pool
+    const leaver = { share: 1, joinMonth: 1, leaveMonth: 18 };
+    const inputs = {
+      ...defaultChitInputs,
+      firstWithdrawal: 90000,
+      monthlyIncrement: 5000,
+      exitRefundPercent: 100,
+      memberSlots: [...resolveSlots(defaultChitInputs), leaver, leaver]
+    };
+    const results = calculateChitDetails(inputs, 0);
+    const summary = summarizeForeman(inputs, results);
+
+    expect(results.finalCarryOver).toBeLessThan(0);
+    expect(summary.exposureMonths).toContain(results.withdrawalSchedule.at(-1)?.month);
+    expect(summary.timeline.at(-1)?.advance).toBeGreaterThanOrEqual(-results.finalCarryOver);
+    // Only overdrafts within the group come back; the one at close is lost with the missed payouts
+    const repaid = summary.timeline.reduce((sum, month) => sum + month.repayment, 0);
+    expect(summary.profit).toBe(summary.commission - summary.exposure + repaid);
+    expect(summary.timeline.at(-1)?.cumulativePosition).toBeCloseTo(summary.profit, 0);
+  });
+});
+
+describe('compareCommissionTypes', () => {
+  it('runs the scheme under a monthly rate and a one-time amount', () => {
+    const { monthly, onetime } = compareCommissionTypes(defaultChitInputs, 50);
+    const oneTimeResults = calculateChitDetails({ ...defaultChitInputs, commissionType: 'onetime' }, 50);
+
+    expect(monthly).toEqual(summarizeForeman(defaultChitInputs, calculateChitDetails(defaultChitInputs, 50)));
+    expect(onetime.commission).toBe(10000);
+    expect(onetime.timeline.reduce((sum, month) => sum + month.commission, 0)).toBeCloseTo(10000, 6);
+    expect(oneTimeResults.duration).toBeLessThan(20);
+  });
+});
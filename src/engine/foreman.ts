@@ -0,0 +1,109 @@
+import { calculateChitDetails, calculateCommission } from './chitEngine';
+import { conventionalRate, solveIrr, type IrrIssue } from './finance';
+import type { ChitInputs, ChitResult, CommissionType } from './types';
+
+export interface ForemanMonth {
+  month: number;
+  commission: number;
+  // Own cash the foreman puts in so the month's member is still paid
+  advance: number;
+  // Earlier overdrafts coming back; in the final month also the surplus left in the pool
+  repayment: number;
+  netFlow: number;
+  cumulativePosition: number;
+}
+
+// The scheme from the organiser's side. The foreman earns the commission and
+// keeps whatever is left in the pool once every member is paid, which is
+// where the pool's loan interest ends up. When the pool can't pay even one
+// member, or ends a month overdrawn, the foreman puts in the difference. An
+// overdraft comes back without interest from the next month's collection; a
+// missed payout has nothing in the schedule to repay it, so it is a loss.
+// Commission is the full amount the scheme owes, whatever month it closes in.
+export interface ForemanSummary {
+  commission: number;
+  interestEarned: number;
+  surplus: number;
+  exposure: number;
+  exposureMonths: number[];
+  profit: number;
+  monthlyIRR: number | null;
+  annualizedIRR: number | null;
+  // Why monthlyIRR is missing; noSignChange means none of the foreman's own money was at risk
+  irrIssue: IrrIssue | null;
+  // First month from which the foreman is never out of pocket again; null if they end behind
+  breakEvenMonth: number | null;
+  timeline: ForemanMonth[];
+}
+
+const commissionTypes: CommissionType[] = ['monthly', 'onetime'];
+
+export const summarizeForeman = (inputs: ChitInputs, results: ChitResult): ForemanSummary => {
+  const { commissionPerMonth, totalCommission } = calculateCommission(inputs);
+  const schedule = results.withdrawalSchedule;
+
+  const advances: number[] = [];
+  const repayments: number[] = [];
+  schedule.forEach((row, index) => {
+    // The pool ended overdrawn; the next month's collection repays it first
+    const overdraft = Math.max(0, -row.remainingPool);
+    // Nobody could be paid although members were waiting: cover one payout
+    const shortfall =
+      row.actualWithdrawals === 0 && row.remainingMembersAfter > 0 ? Math.max(0, row.withdrawalAmount - Math.max(0, row.remainingPool)) : 0;
+    advances[index] = shortfall + overdraft;
+    repayments[index + 1] = overdraft;
+  });
+  // An overdrawn final month has no later collection to repay it, so that advance is lost
+  const settlement = Math.max(0, results.finalCarryOver);
+  // Commission the monthly instalments didn't reach, due when the group closes early
+  const commissionBalance = totalCommission - commissionPerMonth * schedule.length;
+
+  const timeline: ForemanMonth[] = [];
+  let cumulativePosition = 0;
+  schedule.forEach((row, index) => {
+    const isFinal = index === schedule.length - 1;
+    const monthSettlement = isFinal ? settlement : 0;
+    const commission = commissionPerMonth + (isFinal ? commissionBalance : 0);
+    const netFlow = commission - advances[index] + (repayments[index] ?? 0) + monthSettlement;
+    cumulativePosition += netFlow;
+    timeline.push({
+      month: row.month,
+      commission,
+      advance: advances[index],
+      repayment: (repayments[index] ?? 0) + monthSettlement,
+      netFlow,
+      cumulativePosition
+    });
+  });
+
+  const lastBehind = timeline.reduce((last, month, index) => (month.cumulativePosition < 0 ? index : last), -1);
+  const breakEvenMonth = lastBehind === -1 ? 1 : lastBehind + 1 < timeline.length ? timeline[lastBehind + 1].month : null;
+
+  const irr = solveIrr(timeline.map((month) => month.netFlow));
+  const monthlyIRR = conventionalRate(irr);
+
+  return {
+    commission: Math.round(totalCommission),
+    interestEarned: results.totalInterestEarned,
+    surplus: results.finalCarryOver,
+    exposure: Math.round(advances.reduce((sum, advance) => sum + advance, 0)),
+    exposureMonths: schedule.filter((_, index) => advances[index] > 0).map((row) => row.month),
+    // Lost advances included, so this is where the timeline ends
+    profit: Math.round(cumulativePosition),
+    monthlyIRR: monthlyIRR !== null ? monthlyIRR * 100 : null,
+    annualizedIRR: monthlyIRR !== null ? (Math.pow(1 + monthlyIRR, 12) - 1) * 100 : null,
+    irrIssue: irr.status === 'ok' ? null : irr,
+    breakEvenMonth,
+    timeline
+  };
+};
+
+// The foreman's side under a monthly percentage and under a one-time amount,
+// keeping every other input as it is
+export const compareCommissionTypes = (inputs: ChitInputs, loanUtilization: number): Record<CommissionType, ForemanSummary> =>
+  Object.fromEntries(
+    commissionTypes.map((commissionType) => {
+      const variant = { ...inputs, commissionType };
+      return [commissionType, summarizeForeman(variant, calculateChitDetails(variant, loanUtilization))];
+    })
+  ) as Record<CommissionType, ForemanSummary>;
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, type ChitInputs } from './chitEngine';
+import { isSolverApplicable, solveGoal } from './goalSeek';
+
+const baseInputs: ChitInputs = { ...defaultChitInputs };
+
+describe('solveGoal', () => {
+  it('finds the largest increment that still serves everyone', () => {
+    const outcome = solveGoal(baseInputs, 50, 'monthlyIncrement', { kind: 'breakEven' });
+    if (outcome.status !== 'solved') throw new Error(outcome.status);
+
+    expect(outcome.results.totalMembersServed).toBe(baseInputs.totalMembers);
+    expect(outcome.results.finalCarryOver).toBe(0);
+
+    // One rupee more and somebody is left without a payout
+    const over = calculateChitDetails({ ...baseInputs, monthlyIncrement: outcome.value + 1 }, 50);
+    expect(over.totalMembersServed).toBeLessThan(baseInputs.totalMembers);
+  });
+
+  it('finds the smallest contribution that serves everyone by a given month', () => {
+    const outcome = solveGoal(baseInputs, 50, 'monthlyContribution', { kind: 'servedBy', month: 15 });
+    if (outcome.status !== 'solved') throw new Error(outcome.status);
+
+    expect(outcome.results.duration).toBeLessThanOrEqual(15);
+    const under = calculateChitDetails({ ...baseInputs, monthlyContribution: outcome.value - 1 }, 50);
+    expect(under.totalMembersServed === baseInputs.totalMembers && under.duration <= 15).toBe(false);
+  });
+
+  it('meets a minimum IRR for the last member', () => {
+    const outcome = solveGoal(baseInputs, 50, 'firstWithdrawal', { kind: 'lastMemberIrr', minIrr: 10 });
+    if (outcome.status !== 'solved') throw new Error(outcome.status);
+
+    expect(outcome.results.memberReturns.at(-1)?.annualizedIRR).toBeGreaterThanOrEqual(10);
+    expect(outcome.results.totalMembersServed).toBe(baseInputs.totalMembers);
+  });
+
+  it('measures the last member to collect, not a leaver refunded at the end', () => {
+    const memberSlots = [...Array.from({ length: 20 }, () => ({ share: 1, joinMonth: 1, leaveMonth: null })), { share: 1, joinMonth: 1, leaveMonth: 15 }];
+    const inputs: ChitInputs = { ...baseInputs, memberSlots, exitRefundPercent: 80 };
+    const outcome = solveGoal(inputs, 50, 'firstWithdrawal', { kind: 'lastMemberIrr', minIrr: 10 });
+    if (outcome.status !== 'solved') throw new Error(outcome.status);
+
+    const withdrawers = outcome.results.memberReturns.filter((member) => member.leaveMonth === null);
+    expect(withdrawers.at(-1)?.annualizedIRR).toBeGreaterThanOrEqual(10);
+    expect(outcome.results.memberReturns.at(-1)?.leaveMonth).toBe(15);
+  });
+
+  it('explains when the target is out of reach', () => {
+    const outcome = solveGoal(baseInputs, 50, 'commissionRate', { kind: 'servedBy', month: 2 });
+
+    expect(outcome.status).toBe('noSolution');
+    if (outcome.status === 'noSolution') {
+      expect(outcome.range).toEqual([0, 100]);
+      expect(outcome.earliestMonth).toBeGreaterThan(2);
+    }
+  });
+
+  it('refuses variables that do not affect the current payout mode', () => {
+    expect(isSolverApplicable({ ...baseInputs, payoutMode: 'stepUp' }, 'monthlyIncrement')).toBe(false);
+    expect(solveGoal({ ...baseInputs, schemeType: 'auction' }, 50, 'firstWithdrawal', { kind: 'breakEven' }).status).toBe('notApplicable');
+  });
+
+  it('refuses to solve around invalid inputs', () => {
+    expect(solveGoal({ ...baseInputs, totalMembers: 0 }, 50, 'monthlyIncrement', { kind: 'breakEven' }).status).toBe('invalidInputs');
+  });
+});
@@ -0,0 +1,173 @@
+import { calculateChitDetails } from './chitEngine';
+import { buildPayoutSchedule } from './payouts';
+import { grossPool } from './slots';
+import type { ChitInputs, ChitResult } from './types';
+import { validateInputs } from './validation';
+
+export type SolverVariable = 'firstWithdrawal' | 'monthlyIncrement' | 'monthlyContribution' | 'commissionRate';
+
+export type SolverTarget =
+  | { kind: 'breakEven' }
+  | { kind: 'servedBy'; month: number }
+  | { kind: 'lastMemberIrr'; minIrr: number };
+
+export type GoalSeekResult =
+  | { status: 'solved'; variable: SolverVariable; value: number; atLimit: boolean; inputs: ChitInputs; results: ChitResult }
+  | { status: 'notApplicable' }
+  | { status: 'invalidInputs' }
+  | {
+      status: 'noSolution';
+      range: [number, number];
+      // Best outcomes seen anywhere in the range, to explain how far off the target is
+      mostServed: number;
+      earliestMonth: number | null;
+      bestIrr: number | null;
+    };
+
+// Grid points checked before refining, enough to catch a feasible band in any
+// realistic scheme without making the solver noticeably slow on a phone
+const SAMPLES = 48;
+
+// Which end of the feasible range is the useful answer: the biggest payouts
+// and commission, or the smallest contribution, that still meet the target
+const PREFER: Record<SolverVariable, 'max' | 'min'> = {
+  firstWithdrawal: 'max',
+  monthlyIncrement: 'max',
+  monthlyContribution: 'min',
+  commissionRate: 'max'
+};
+
+const STEP: Record<SolverVariable, number> = {
+  firstWithdrawal: 1,
+  monthlyIncrement: 1,
+  monthlyContribution: 1,
+  commissionRate: 0.01
+};
+
+// Whether changing the variable changes anything in the current configuration
+export const isSolverApplicable = (inputs: ChitInputs, variable: SolverVariable): boolean => {
+  switch (variable) {
+    case 'firstWithdrawal':
+      return inputs.schemeType === 'fixed' && inputs.payoutMode !== 'custom';
+    case 'monthlyIncrement':
+      return inputs.schemeType === 'fixed' && inputs.payoutMode === 'increment';
+    case 'commissionRate':
+      return inputs.commissionType === 'monthly';
+    case 'monthlyContribution':
+      return true;
+  }
+};
+
+const searchRange = (inputs: ChitInputs, variable: SolverVariable): [number, number] => {
+  const { totalMembers, monthlyContribution } = inputs;
+  const pool = grossPool(inputs);
+
+  switch (variable) {
+    case 'firstWithdrawal':
+      return [1, pool];
+    case 'monthlyIncrement':
+      return [0, Math.ceil((2 * pool) / (totalMembers - 1))];
+    case 'commissionRate':
+      return [0, 100];
+    case 'monthlyContribution': {
+      // Enough for the pool to cover twice the largest payout in any month
+      const largestPayout = Math.max(0, ...buildPayoutSchedule(inputs));
+      return [1, Math.max(monthlyContribution * 4, Math.ceil((2 * largestPayout) / totalMembers))];
+    }
+  }
+};
+
+// IRR of the last member to collect; leavers are refunded rather than paid out, so they don't count
+const lastWithdrawerIrr = (results: ChitResult) =>
+  results.memberReturns.filter((member) => member.leaveMonth === null).at(-1)?.annualizedIRR ?? null;
+
+const meetsTarget = (inputs: ChitInputs, results: ChitResult, target: SolverTarget) => {
+  if (results.totalMembersServed < inputs.totalMembers) return false;
+
+  switch (target.kind) {
+    case 'breakEven':
+      return true;
+    case 'servedBy':
+      return results.duration <= target.month;
+    case 'lastMemberIrr': {
+      const irr = lastWithdrawerIrr(results);
+      return irr !== null && irr >= target.minIrr;
+    }
+  }
+};
+
+const snap = (value: number, step: number) => Number((Math.round(value / step) * step).toFixed(2));
+
+// Search one input for the best value that meets the target, keeping every
+// other input fixed. A coarse scan finds the feasible band, then bisection
+// pins down its edge to the nearest rupee (or 0.01% for commission).
+//
+// Break-even means the edge of serving everyone: the largest payout (or smallest
+// contribution) that still pays every member. The pool can still end with money
+// left over, such as loan interest, which the result shows as the final balance.
+export const solveGoal = (
+  inputs: ChitInputs,
+  loanUtilization: number,
+  variable: SolverVariable,
+  target: SolverTarget
+): GoalSeekResult => {
+  if (!isSolverApplicable(inputs, variable)) return { status: 'notApplicable' };
+
+  // Errors that compare one input against the pool may be fixed by the value being solved for
+  const otherErrors = Object.values(validateInputs(inputs, loanUtilization)).filter(
+    (error) => error.field !== variable && error.code !== 'exceedsNetPool' && error.code !== 'commissionExceedsPool'
+  );
+  if (otherErrors.length > 0) return { status: 'invalidInputs' };
+
+  const step = STEP[variable];
+  const [low, high] = searchRange(inputs, variable);
+
+  const evaluate = (value: number) => {
+    const candidate = { ...inputs, [variable]: value };
+    const results = calculateChitDetails(candidate, loanUtilization);
+    return { value, inputs: candidate, results, ok: meetsTarget(candidate, results, target) };
+  };
+
+  const samples = Array.from({ length: SAMPLES + 1 }, (_, i) => evaluate(snap(low + ((high - low) * i) / SAMPLES, step)));
+  const okIndexes = samples.flatMap((sample, index) => (sample.ok ? [index] : []));
+
+  if (okIndexes.length === 0) {
+    const served = samples.filter((sample) => sample.results.totalMembersServed >= inputs.totalMembers);
+    const irrs = served
+      .map((sample) => lastWithdrawerIrr(sample.results))
+      .filter((irr): irr is number => irr !== null);
+
+    return {
+      status: 'noSolution',
+      range: [low, high],
+      mostServed: Math.max(...samples.map((sample) => sample.results.totalMembersServed)),
+      earliestMonth: served.length > 0 ? Math.min(...served.map((sample) => sample.results.duration)) : null,
+      bestIrr: irrs.length > 0 ? Math.max(...irrs) : null
+    };
+  }
+
+  const direction = PREFER[variable] === 'max' ? 1 : -1;
+  const bestIndex = direction === 1 ? okIndexes[okIndexes.length - 1] : okIndexes[0];
+  let good = samples[bestIndex];
+  const beyond = samples[bestIndex + direction];
+
+  if (beyond) {
+    // Narrow the gap between the last feasible sample and the first infeasible one
+    let bad = beyond.value;
+    while (Math.abs(bad - good.value) > step) {
+      const middle = evaluate(snap((good.value + bad) / 2, step));
+      if (middle.value === good.value || middle.value === bad) break;
+      if (middle.ok) good = middle;
+      else bad = middle.value;
+    }
+  }
+
+  return {
+    status: 'solved',
+    variable,
+    value: good.value,
+    atLimit: !beyond,
+    inputs: good.inputs,
+    results: good.results
+  };
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, type ChitInputs } from './chitEngine';
+import { simulateLoanRisk } from './loanRisk';
+import { createRng } from './random';
+
+const baseInputs: ChitInputs = { ...defaultChitInputs, loanInterestRate: 2 };
+
+describe('expected-value loan risk', () => {
+  it('changes nothing when loans never default', () => {
+    const safe = calculateChitDetails(baseInputs, 50);
+
+    expect(safe.totalExpectedLoss).toBe(0);
+    expect(safe.loanDetails.every((loan) => loan.expectedLoss === 0 && loan.lateRecovery === 0)).toBe(true);
+  });
+
+  it('books the unrecovered share of defaulted repayments as a loss', () => {
+    const risky = calculateChitDetails({ ...baseInputs, loanDefaultRate: 10, loanRecoveryRate: 40 }, 50);
+    const [first] = risky.loanDetails;
+
+    expect(first.expectedLoss).toBeCloseTo(first.repaymentDue * 0.1 * 0.6, -1);
+    expect(first.lateRecovery).toBeCloseTo(first.repaymentDue * 0.1 * 0.4, -1);
+    expect(risky.totalExpectedLoss).toBeGreaterThan(0);
+  });
+
+  it('delivers late recoveries after the configured delay', () => {
+    // Everything defaults and is recovered in full
+    const inputs = { ...baseInputs, loanDefaultRate: 100, loanRecoveryRate: 100 };
+    const immediate = calculateChitDetails({ ...inputs, loanRepaymentDelay: 0 }, 50);
+    const delayed = calculateChitDetails({ ...inputs, loanRepaymentDelay: 2 }, 50);
+    const [month1, month2] = delayed.withdrawalSchedule;
+
+    // With no delay a full recovery is just an on-time repayment
+    expect(immediate.withdrawalSchedule).toEqual(calculateChitDetails(baseInputs, 50).withdrawalSchedule);
+    // Month 2 only sees the cash left in the pool; month 1's loan lands in month 4
+    expect(month2.carryOverFromPrevious).toBe(Math.round(month1.remainingPool - delayed.loanDetails[0].loanAmount));
+    expect(delayed.totalExpectedLoss).toBe(0);
+  });
+});
+
+describe('simulateLoanRisk', () => {
+  it('is reproducible for a given seed', () => {
+    const inputs = { ...baseInputs, loanDefaultRate: 20 };
+
+    expect(simulateLoanRisk(inputs, 80, 50, 7)).toEqual(simulateLoanRisk(inputs, 80, 50, 7));
+    expect(createRng(3)()).toBe(createRng(3)());
+  });
+
+  it('collapses to the no-risk run when nothing defaults', () => {
+    const summary = simulateLoanRisk(baseInputs, 50, 20);
+
+    expect(summary.servedByMonth.every((band) => band.p10 === band.noRisk && band.p90 === band.noRisk)).toBe(true);
+    expect(summary.shortfallPercent).toBe(0);
+  });
+
+  it('pushes payouts later when loans go bad', () => {
+    const inputs = { ...baseInputs, loanDefaultRate: 50, loanRecoveryRate: 0 };
+    const summary = simulateLoanRisk(inputs, 100, 200);
+    const behind = summary.servedByMonth.some((band) => band.p50 < band.noRisk);
+    const ahead = summary.servedByMonth.some((band) => band.p90 > band.noRisk);
+
+    expect(behind).toBe(true);
+    expect(ahead).toBe(false);
+    expect(summary.totalLoss.p50).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,81 @@
+import { calculateChitDetails, type LoanSettlement } from './chitEngine';
+import { createRng } from './random';
+import type { ChitInputs, ChitResult } from './types';
+
+export interface Percentiles {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+// Members paid out by the end of each month under each view of loan risk
+export interface ServedBand extends Percentiles {
+  month: number;
+  noRisk: number;
+  expected: number;
+}
+
+export interface LoanRiskSummary {
+  runs: number;
+  servedByMonth: ServedBand[];
+  duration: Percentiles;
+  finalBalance: Percentiles;
+  totalLoss: Percentiles;
+  // Share of runs (%) in which at least one member is never paid
+  shortfallPercent: number;
+}
+
+const percentiles = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q: number) => sorted[Math.round(q * (sorted.length - 1))] ?? 0;
+  return { p10: at(0.1), p50: at(0.5), p90: at(0.9) };
+};
+
+const servedByMonth = (results: ChitResult, totalMembers: number, months: number) =>
+  Array.from({ length: months }, (_, i) => {
+    const row = results.withdrawalSchedule[i] ?? results.withdrawalSchedule.at(-1);
+    return row ? totalMembers - row.remainingMembersAfter : 0;
+  });
+
+// Monte Carlo over loan defaults: each repayment instalment either comes back
+// in full when due or defaults, in which case only the recovery share arrives,
+// loanRepaymentDelay months late. Compared against the no-risk and
+// expected-value runs of the same scheme.
+export const simulateLoanRisk = (
+  inputs: ChitInputs,
+  loanUtilization: number,
+  runs = 500,
+  seed = 1
+): LoanRiskSummary => {
+  const months = Math.max(0, Math.ceil(inputs.totalMembers));
+  const defaultShare = inputs.loanDefaultRate / 100;
+  const recoveryShare = inputs.loanRecoveryRate / 100;
+  const random = createRng(seed);
+
+  const drawSettlement: LoanSettlement = (due) =>
+    random() < defaultShare ? { onTime: 0, late: due * recoveryShare } : { onTime: due, late: 0 };
+
+  const noRisk = calculateChitDetails({ ...inputs, loanDefaultRate: 0 }, loanUtilization);
+  const expected = calculateChitDetails(inputs, loanUtilization);
+  const simulations = Array.from({ length: runs }, () => calculateChitDetails(inputs, loanUtilization, drawSettlement));
+
+  const servedRuns = simulations.map((results) => servedByMonth(results, inputs.totalMembers, months));
+  const noRiskServed = servedByMonth(noRisk, inputs.totalMembers, months);
+  const expectedServed = servedByMonth(expected, inputs.totalMembers, months);
+
+  return {
+    runs,
+    servedByMonth: noRiskServed.map((served, i) => ({
+      month: i + 1,
+      noRisk: served,
+      expected: expectedServed[i],
+      ...percentiles(servedRuns.map((run) => run[i]))
+    })),
+    duration: percentiles(simulations.map((results) => results.duration)),
+    finalBalance: percentiles(simulations.map((results) => results.finalCarryOver)),
+    totalLoss: percentiles(simulations.map((results) => results.totalExpectedLoss)),
+    shortfallPercent: runs > 0
+      ? (simulations.filter((results) => results.totalMembersServed < inputs.totalMembers).length / runs) * 100
+      : 0
+  };
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { loanInstallments } from './loans';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+describe('loanInstallments', () => {
+  it('repays a one-month bullet loan with simple interest the next month', () => {
+    const installments = loanInstallments(10000, { loanInterestRate: 2, loanRepaymentStyle: 'bullet', loanCompounding: 'simple' }, 1);
+
+    expect(installments).toEqual([{ principal: 10000, interest: 200 }]);
+  });
+
+  it('compounds bullet interest monthly when asked', () => {
+    const simple = loanInstallments(10000, { loanInterestRate: 2, loanRepaymentStyle: 'bullet', loanCompounding: 'simple' }, 3);
+    const compound = loanInstallments(10000, { loanInterestRate: 2, loanRepaymentStyle: 'bullet', loanCompounding: 'monthly' }, 3);
+
+    expect(simple.map((item) => item.principal)).toEqual([0, 0, 10000]);
+    expect(simple[2].interest).toBeCloseTo(600, 6);
+    expect(compound[2].interest).toBeCloseTo(612.08, 6);
+  });
+
+  it('charges interest-only loans every month and returns principal at the end', () => {
+    const installments = loanInstallments(10000, { loanInterestRate: 2, loanRepaymentStyle: 'interestOnly', loanCompounding: 'monthly' }, 4);
+
+    expect(installments.map((item) => item.interest)).toEqual([200, 200, 200, 200]);
+    expect(installments.map((item) => item.principal)).toEqual([0, 0, 0, 10000]);
+  });
+
+  it('splits a reducing-balance EMI into equal payments that clear the principal', () => {
+    const installments = loanInstallments(10000, { loanInterestRate: 2, loanRepaymentStyle: 'emi', loanCompounding: 'monthly' }, 6);
+    const payments = installments.map((item) => item.principal + item.interest);
+
+    expect(sum(installments.map((item) => item.principal))).toBeCloseTo(10000, 6);
+    for (const payment of payments) expect(payment).toBeCloseTo(1785.26, 2);
+    // Interest falls as the balance is paid down
+    expect(installments[5].interest).toBeLessThan(installments[0].interest);
+  });
+
+  it('falls back to straight principal instalments at zero interest', () => {
+    const installments = loanInstallments(9000, { loanInterestRate: 0, loanRepaymentStyle: 'emi', loanCompounding: 'monthly' }, 3);
+
+    expect(installments).toEqual([
+      { principal: 3000, interest: 0 },
+      { principal: 3000, interest: 0 },
+      { principal: 3000, interest: 0 }
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import type { ChitInputs } from './types';
+
+export interface LoanInstallment {
+  principal: number;
+  interest: number;
+}
+
+type LoanTerms = Pick<ChitInputs, 'loanInterestRate' | 'loanRepaymentStyle' | 'loanCompounding'>;
+
+// Contracted repayments of one pool loan, one entry per month after it is
+// given (index 0 = the following month). loanInterestRate is per month.
+export const loanInstallments = (principal: number, terms: LoanTerms, tenure: number): LoanInstallment[] => {
+  const months = Math.max(1, Math.round(tenure));
+  const rate = terms.loanInterestRate / 100;
+  const compounding = terms.loanCompounding === 'monthly';
+
+  if (terms.loanRepaymentStyle === 'interestOnly') {
+    // Interest is cleared every month, so there is nothing left to compound
+    return Array.from({ length: months }, (_, k) => ({
+      principal: k === months - 1 ? principal : 0,
+      interest: principal * rate
+    }));
+  }
+
+  if (terms.loanRepaymentStyle === 'emi') {
+    if (!compounding || rate === 0) {
+      // Flat-rate EMI: interest on the original principal for every month
+      return Array.from({ length: months }, () => ({ principal: principal / months, interest: principal * rate }));
+    }
+
+    // Reducing-balance EMI
+    const growth = (1 + rate) ** months;
+    const emi = (principal * rate * growth) / (growth - 1);
+    const installments: LoanInstallment[] = [];
+    let balance = principal;
+    for (let k = 0; k < months; k++) {
+      const interest = balance * rate;
+      // The last instalment clears whatever floating-point drift is left
+      const repaid = k === months - 1 ? balance : emi - interest;
+      installments.push({ principal: repaid, interest });
+      balance -= repaid;
+    }
+    return installments;
+  }
+
+  // Bullet: everything falls due at the end of the tenure
+  const interest = compounding ? principal * ((1 + rate) ** months - 1) : principal * rate * months;
+  return Array.from({ length: months }, (_, k) =>
+    k === months - 1 ? { principal, interest } : { principal: 0, interest: 0 }
+  );
+};
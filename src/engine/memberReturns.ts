@@ -0,0 +1,101 @@
+import { conventionalRate, solveIrr } from './finance';
+import { fullTicket, isActive, type SlotOutcome } from './slots';
+import type { MemberReturn, MemberSummary, MemberTimelineRow, WithdrawalRow } from './types';
+
+// Everyone paid in the schedule, as single tickets held throughout, in payout order
+const payoutOutcomes = (withdrawalSchedule: WithdrawalRow[]): SlotOutcome[] =>
+  withdrawalSchedule
+    .flatMap((row) => Array.from({ length: row.actualWithdrawals }, () => row))
+    .map((row, index) => ({
+      slot: fullTicket(),
+      member: index + 1,
+      month: row.month,
+      // What the member actually takes home, after any GST charged to the winner
+      amount: row.withdrawalAmount - row.winnerDeduction
+    }));
+
+// Build one return row per member paid out or refunded. Without `outcomes`
+// every payout in the schedule is taken as one member holding a single ticket.
+export const buildMemberReturns = (
+  withdrawalSchedule: WithdrawalRow[],
+  outcomes: SlotOutcome[] = payoutOutcomes(withdrawalSchedule)
+): MemberReturn[] => {
+  // Per-ticket contributions paid up to each month, for the arrears of late joiners
+  const paidBefore: number[] = [0];
+  withdrawalSchedule.forEach((row, month) => paidBefore.push(paidBefore[month] + row.contributionPerMember));
+
+  return [...outcomes]
+    .sort((a, b) => a.month - b.month)
+    .map(({ slot, member, month: outcomeMonth, amount }) => {
+      const contributions = withdrawalSchedule.map((row) => {
+        const instalment = isActive(slot, row.month) ? slot.share * row.contributionPerMember : 0;
+        return row.month === slot.joinMonth ? instalment + slot.share * paidBefore[row.month - 1] : instalment;
+      });
+      // Build cash flows array for IRR calculation
+      // Negative = outflow (paying contribution), Positive = inflow (receiving withdrawal)
+      const cashFlows = withdrawalSchedule.map((row, index) => (row.month === outcomeMonth ? amount : 0) - contributions[index]);
+
+      const paid = contributions.reduce((sum, contribution) => sum + contribution, 0);
+      const netReturn = amount - paid;
+      const returnPercent = paid > 0 ? (netReturn / paid) * 100 : 0;
+
+      // Calculate IRR, keeping the reason when there isn't a single one
+      const irr = solveIrr(cashFlows);
+      const monthlyIRR = conventionalRate(irr);
+      const annualizedIRR = monthlyIRR !== null
+        ? (Math.pow(1 + monthlyIRR, 12) - 1) * 100  // Compound annual rate
+        : null;
+
+      return {
+        member,
+        share: slot.share,
+        joinMonth: slot.joinMonth,
+        leaveMonth: slot.leaveMonth,
+        withdrawalMonth: outcomeMonth,
+        totalContribution: Math.round(paid),
+        withdrawal: amount,
+        netReturn: Math.round(netReturn),
+        returnPercent: returnPercent,
+        monthlyIRR: monthlyIRR !== null ? monthlyIRR * 100 : null,
+        annualizedIRR: annualizedIRR,
+        irrIssue: irr.status === 'ok' ? null : irr,
+        cashFlows
+      };
+    });
+};
+
+// Break a member's cash flows into a running timeline and a plain pay/get summary
+export const summarizeMember = (member: MemberReturn): MemberSummary => {
+  const timeline: MemberTimelineRow[] = [];
+  let cumulativePosition = 0;
+  let paidBefore = 0;
+  let paidAfter = 0;
+
+  member.cashFlows.forEach((netFlow, index) => {
+    const month = index + 1;
+    const withdrawal = month === member.withdrawalMonth ? member.withdrawal : 0;
+    const contribution = withdrawal - netFlow;
+    cumulativePosition += netFlow;
+
+    if (month <= member.withdrawalMonth) {
+      paidBefore += contribution;
+    } else {
+      paidAfter += contribution;
+    }
+
+    timeline.push({ month, contribution, withdrawal, netFlow, cumulativePosition });
+  });
+
+  const youPay = paidBefore + paidAfter;
+
+  return {
+    timeline,
+    youPay,
+    youGet: member.withdrawal,
+    netPosition: member.withdrawal - youPay,
+    paidBefore,
+    paidAfter,
+    effectiveLoan: member.withdrawal - paidBefore,
+    monthsToRepay: Math.max(member.cashFlows.length - member.withdrawalMonth, 0)
+  };
+};
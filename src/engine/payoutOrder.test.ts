@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs } from './chitEngine';
+import { payoutOrder } from './payoutOrder';
+
+const order = (changes: Partial<typeof defaultChitInputs>, count = 6) => payoutOrder({ ...defaultChitInputs, ...changes }, count);
+
+describe('payoutOrder', () => {
+  it('keeps list order by default', () => {
+    expect(order({})).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('draws the same order for the same seed', () => {
+    const draw = order({ withdrawalOrder: 'lottery', lotterySeed: 42 });
+
+    expect(order({ withdrawalOrder: 'lottery', lotterySeed: 42 })).toEqual(draw);
+    expect([...draw].sort()).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(order({ withdrawalOrder: 'lottery', lotterySeed: 43 })).not.toEqual(draw);
+  });
+
+  it('puts listed members first and ignores numbers outside the group', () => {
+    expect(order({ withdrawalOrder: 'priority', priorityList: [6, 5, 4, 3, 2, 1] })).toEqual([5, 4, 3, 2, 1, 0]);
+    expect(order({ withdrawalOrder: 'needs', needRequests: [4, 9, 2, 4] })).toEqual([3, 1, 0, 2, 4, 5]);
+  });
+});
+
+describe('withdrawal order in the engine', () => {
+  it('pays members in the chosen order while keeping their numbers', () => {
+    const inputs = { ...defaultChitInputs, withdrawalOrder: 'needs' as const, needRequests: [7] };
+    const results = calculateChitDetails(inputs, 50);
+    const plain = calculateChitDetails(defaultChitInputs, 50);
+
+    expect(results.memberReturns[0]).toMatchObject({ member: 7, withdrawalMonth: 1 });
+    expect(results.memberReturns.find((member) => member.member === 1)?.withdrawalMonth).toBe(2);
+    // Every member pays the same instalments, so only who gets which payout changes
+    expect(results.withdrawalSchedule).toEqual(plain.withdrawalSchedule);
+  });
+});
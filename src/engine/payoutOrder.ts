@@ -0,0 +1,40 @@
+import { createRng } from './random';
+import type { ChitInputs } from './types';
+
+// Listed member numbers first, in the order given, then everyone else in list
+// order. Numbers outside the group (say after it shrank) are ignored.
+const listedFirst = (memberNumbers: number[], count: number): number[] => {
+  const listed = [...new Set(memberNumbers.filter((member) => Number.isInteger(member) && member >= 1 && member <= count))].map(
+    (member) => member - 1
+  );
+  const rest = Array.from({ length: count }, (_, index) => index).filter((index) => !listed.includes(index));
+  return [...listed, ...rest];
+};
+
+// Fisher-Yates shuffle driven by the seed, so the same seed always draws the same order
+const drawOrder = (count: number, seed: number): number[] => {
+  const random = createRng(seed);
+  const order = Array.from({ length: count }, (_, index) => index);
+  for (let i = count - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+};
+
+// Slot indices in the order members are offered a payout
+export const payoutOrder = (
+  inputs: Pick<ChitInputs, 'withdrawalOrder' | 'lotterySeed' | 'priorityList' | 'needRequests'>,
+  count: number
+): number[] => {
+  switch (inputs.withdrawalOrder) {
+    case 'lottery':
+      return drawOrder(count, inputs.lotterySeed);
+    case 'priority':
+      return listedFirst(inputs.priorityList, count);
+    case 'needs':
+      return listedFirst(inputs.needRequests, count);
+    default:
+      return Array.from({ length: count }, (_, index) => index);
+  }
+};
@@ -0,0 +1,33 @@
+import type { ChitInputs } from './types';
+
+// Increment implied by linear interpolation between the first and final payouts
+export const derivedIncrement = (inputs: ChitInputs): number => {
+  const { totalMembers, firstWithdrawal, finalWithdrawal } = inputs;
+  return totalMembers > 1 ? (finalWithdrawal - firstWithdrawal) / (totalMembers - 1) : 0;
+};
+
+// Payout amount for every month of the scheme, according to the selected mode
+export const buildPayoutSchedule = (inputs: ChitInputs): number[] => {
+  const { totalMembers, firstWithdrawal, monthlyIncrement, payoutMode, stepUpPercent, customPayouts } = inputs;
+  const months = Math.max(Math.ceil(totalMembers), 0);
+  const payouts: number[] = [];
+
+  for (let i = 0; i < months; i++) {
+    switch (payoutMode) {
+      case 'interpolate':
+        payouts.push(Math.round(firstWithdrawal + derivedIncrement(inputs) * i));
+        break;
+      case 'stepUp':
+        payouts.push(Math.round(firstWithdrawal * Math.pow(1 + stepUpPercent / 100, i)));
+        break;
+      case 'custom':
+        // Short tables repeat their last amount; an empty table falls back to the first payout
+        payouts.push(customPayouts[i] ?? customPayouts.at(-1) ?? firstWithdrawal);
+        break;
+      default:
+        payouts.push(firstWithdrawal + monthlyIncrement * i);
+    }
+  }
+
+  return payouts;
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, expectedSettlement } from './chitEngine';
+import { compareWithPlan, monthFigures } from './reconcile';
+import type { ChitInputs, MonthActuals } from './types';
+
+const inputs: ChitInputs = { ...defaultChitInputs, totalMembers: 20, monthlyContribution: 5000, firstWithdrawal: 80000, monthlyIncrement: 1000 };
+const settle = expectedSettlement(inputs);
+const plan = calculateChitDetails(inputs, 50);
+
+const asPlanned = (month: number): MonthActuals => {
+  const figures = monthFigures(plan, month);
+  if (!figures) throw new Error(`no month ${month}`);
+  return figures;
+};
+
+describe('calculateChitDetails with recorded months', () => {
+  it('reproduces the plan when reality matched it', () => {
+    const actuals = [1, 2, 3].map(asPlanned);
+    const reconciled = calculateChitDetails(inputs, 50, settle, actuals);
+
+    expect(reconciled.duration).toBe(plan.duration);
+    expect(reconciled.withdrawalSchedule.map((row) => row.actualWithdrawals)).toEqual(
+      plan.withdrawalSchedule.map((row) => row.actualWithdrawals)
+    );
+    reconciled.withdrawalSchedule.forEach((row, i) => {
+      expect(Math.abs(row.remainingPool - plan.withdrawalSchedule[i].remainingPool)).toBeLessThanOrEqual(5);
+    });
+  });
+
+  it('projects the remaining months from the real pool state', () => {
+    // Month 1 came in short and nobody could be paid
+    const actuals: MonthActuals[] = [{ ...asPlanned(1), collected: 70000, membersPaid: 0, paidOut: 0, loansGiven: 0 }];
+    const reconciled = calculateChitDetails(inputs, 50, settle, actuals);
+    const [first, second] = reconciled.withdrawalSchedule;
+
+    expect(first.remainingMembersAfter).toBe(20);
+    expect(first.remainingPool).toBe(70000 - reconciled.commissionPerMonth);
+    expect(second.carryOverFromPrevious).toBe(first.remainingPool);
+    expect(reconciled.totalMembersServed).toBe(20);
+  });
+
+  it('books real loans on the ledger so they come back later', () => {
+    const actuals: MonthActuals[] = [{ ...asPlanned(1), loansGiven: 10000, loanRepayments: 0 }];
+    const reconciled = calculateChitDetails(inputs, 0, settle, actuals);
+
+    const [first, second] = reconciled.withdrawalSchedule;
+
+    expect(reconciled.loanDetails[0].loanAmount).toBe(10000);
+    // Month 2 receives the one-month loan back with interest
+    expect(second.carryOverFromPrevious - (first.remainingPool - 10000)).toBe(10200);
+  });
+
+  it('turns whatever the auction winner did not take into next month’s dividend', () => {
+    const auction: ChitInputs = { ...inputs, schemeType: 'auction' };
+    const commission = calculateChitDetails(auction, 0).commissionPerMonth;
+    const actuals: MonthActuals[] = [{ collected: 100000, membersPaid: 1, paidOut: 70000, loansGiven: 0, loanRepayments: 0 }];
+    const [first, second] = calculateChitDetails(auction, 0, settle, actuals).withdrawalSchedule;
+
+    expect(first.bidDiscount).toBe(30000 - commission);
+    expect(second.carryOverFromPrevious).toBe(30000 - commission);
+  });
+
+  it('splits a recorded auction payout between the month’s winners', () => {
+    const auction: ChitInputs = { ...inputs, schemeType: 'auction' };
+    const actuals: MonthActuals[] = [{ collected: 100000, membersPaid: 2, paidOut: 80000, loansGiven: 0, loanRepayments: 0 }];
+    const result = calculateChitDetails(auction, 0, settle, actuals);
+    const [first] = result.withdrawalSchedule;
+
+    expect(first).toMatchObject({ actualWithdrawals: 2, withdrawalAmount: 40000, totalWithdrawn: 80000 });
+    expect(first.remainingPool).toBe(first.availablePool - 80000);
+    expect(result.memberReturns.filter((member) => member.withdrawalMonth === 1).map((member) => member.withdrawal)).toEqual([40000, 40000]);
+  });
+});
+
+describe('compareWithPlan', () => {
+  it('lines up plan and reality for each recorded month', () => {
+    const actuals: MonthActuals[] = [asPlanned(1), { ...asPlanned(2), collected: asPlanned(2).collected - 5000 }];
+    const reconciled = calculateChitDetails(inputs, 50, settle, actuals);
+    const variances = compareWithPlan(plan, reconciled, actuals.length);
+
+    expect(variances).toHaveLength(2);
+    expect(variances[0].actual).toEqual(variances[0].planned);
+    expect(variances[1].actual.collected - variances[1].planned.collected).toBe(-5000);
+    expect(variances[1].actual.closingBalance).toBeLessThan(variances[1].planned.closingBalance);
+  });
+});
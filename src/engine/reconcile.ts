@@ -0,0 +1,61 @@
+import type { ChitResult } from './types';
+
+// The figures of one month that can be compared between plan and reality
+export interface MonthFigures {
+  collected: number;
+  membersPaid: number;
+  paidOut: number;
+  loansGiven: number;
+  loanRepayments: number;
+  // Cash left in the pool after payouts and lending
+  closingBalance: number;
+}
+
+export interface MonthVariance {
+  month: number;
+  planned: MonthFigures;
+  actual: MonthFigures;
+}
+
+const closingBalance = (result: ChitResult, index: number) => {
+  const row = result.withdrawalSchedule[index];
+  if (!row) return 0;
+  const lent = result.loanDetails.find((loan) => loan.month === row.month)?.loanAmount ?? 0;
+  return row.remainingPool - lent;
+};
+
+// Read a month of a simulated (or partly recorded) result back as plain figures
+export const monthFigures = (result: ChitResult, month: number): MonthFigures | null => {
+  const index = month - 1;
+  const row = result.withdrawalSchedule[index];
+  if (!row) return null;
+
+  const previousBalance = index > 0 ? closingBalance(result, index - 1) : 0;
+  return {
+    // Add back what the foreman's side kept: commission and any GST the pool pays
+    collected: row.newContributions + Math.round(result.totalPool - result.netPoolPerMonth),
+    membersPaid: row.actualWithdrawals,
+    paidOut: row.totalWithdrawn,
+    loansGiven: result.loanDetails.find((loan) => loan.month === month)?.loanAmount ?? 0,
+    // Whatever came into the pool beyond last month's balance was loan money coming back
+    loanRepayments: row.carryOverFromPrevious - previousBalance,
+    closingBalance: closingBalance(result, index)
+  };
+};
+
+// Plan against reality for each recorded month. `plan` is the projection made
+// from month 1 and `reconciled` the run that took the recorded months as given.
+export const compareWithPlan = (plan: ChitResult, reconciled: ChitResult, recordedMonths: number): MonthVariance[] => {
+  const variances: MonthVariance[] = [];
+  for (let month = 1; month <= recordedMonths; month++) {
+    const actual = monthFigures(reconciled, month);
+    if (!actual) break;
+    variances.push({
+      month,
+      // The plan may have finished earlier than the real group
+      planned: monthFigures(plan, month) ?? { collected: 0, membersPaid: 0, paidOut: 0, loansGiven: 0, loanRepayments: 0, closingBalance: 0 },
+      actual
+    });
+  }
+  return variances;
+};
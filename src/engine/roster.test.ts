@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs } from './chitEngine';
+import {
+  autoAssignWithdrawals,
+  buildCollectionLedger,
+  openSlots,
+  paidAmount,
+  recordPayment,
+  removeMember,
+  type Roster,
+  type RosterMember
+} from './roster';
+import type { WithdrawalRow } from './types';
+
+const member = (id: string, withdrawalMonth: number | null = null, share = 1): RosterMember => ({
+  id,
+  name: `Member ${id}`,
+  phone: '',
+  joinedOn: '2026-01-01',
+  share,
+  withdrawalMonth
+});
+
+const row = (month: number, contributionPerMember: number, actualWithdrawals = 1) =>
+  ({ month, contributionPerMember, actualWithdrawals }) as WithdrawalRow;
+
+const schedule = [row(1, 5000), row(2, 5000, 2), row(3, 4000, 0), row(4, 4500)];
+
+describe('payments', () => {
+  it('records, replaces and clears a month’s payment', () => {
+    let roster: Roster = { members: [member('a')], payments: [], currentMonth: 1 };
+
+    roster = recordPayment(roster, 'a', 1, 3000, '2026-01-10');
+    roster = recordPayment(roster, 'a', 1, 5000, '2026-01-12');
+    expect(roster.payments).toEqual([{ memberId: 'a', month: 1, amount: 5000, paidOn: '2026-01-12' }]);
+
+    roster = recordPayment(roster, 'a', 1, 0, '2026-01-12');
+    expect(paidAmount(roster, 'a', 1)).toBe(0);
+    expect(roster.payments).toEqual([]);
+  });
+
+  it('drops a removed member’s payments with them', () => {
+    const roster = recordPayment({ members: [member('a'), member('b')], payments: [], currentMonth: 1 }, 'a', 1, 5000, '');
+
+    expect(removeMember(roster, 'a')).toEqual({ members: [member('b')], payments: [], currentMonth: 1 });
+  });
+});
+
+describe('withdrawal assignment', () => {
+  it('counts the payout places left in each month', () => {
+    const roster: Roster = { members: [member('a', 2), member('b', 1)], payments: [], currentMonth: 1 };
+
+    expect(openSlots(roster, schedule)).toEqual({ 1: 0, 2: 1, 3: 0, 4: 1 });
+  });
+
+  it('fills the earliest free months in roster order and keeps existing choices', () => {
+    const roster: Roster = {
+      members: [member('a', 2), member('b'), member('c'), member('d'), member('e')],
+      payments: [],
+      currentMonth: 1
+    };
+
+    const assigned = autoAssignWithdrawals(roster, schedule).members.map((item) => item.withdrawalMonth);
+    expect(assigned).toEqual([2, 1, 2, 4, null]);
+  });
+
+  it('matches the simulated schedule one member per place', () => {
+    const { withdrawalSchedule } = calculateChitDetails(defaultChitInputs, 50);
+    const members = Array.from({ length: defaultChitInputs.totalMembers }, (_, i) => member(`${i}`));
+
+    const assigned = autoAssignWithdrawals({ members, payments: [], currentMonth: 1 }, withdrawalSchedule).members;
+    expect(assigned.every((item) => item.withdrawalMonth !== null)).toBe(true);
+  });
+});
+
+describe('buildCollectionLedger', () => {
+  const base: Roster = { members: [member('a'), member('b')], payments: [], currentMonth: 2 };
+  const roster = [
+    (current: Roster) => recordPayment(current, 'a', 1, 5000, ''),
+    (current: Roster) => recordPayment(current, 'b', 1, 6000, ''),
+    (current: Roster) => recordPayment(current, 'a', 2, 2000, ''),
+    // Paid ahead for a month the group hasn't reached yet
+    (current: Roster) => recordPayment(current, 'b', 3, 4000, '')
+  ].reduce((current, step) => step(current), base);
+
+  it('compares expected and collected amounts month by month', () => {
+    const ledger = buildCollectionLedger(roster, schedule);
+
+    expect(ledger.months).toEqual([
+      { month: 1, expectedPerMember: 5000, expected: 10000, collected: 11000, paidMembers: 2, shortfall: 0 },
+      { month: 2, expectedPerMember: 5000, expected: 10000, collected: 2000, paidMembers: 0, shortfall: 8000 }
+    ]);
+  });
+
+  it('works out each member’s outstanding dues up to the current month', () => {
+    const ledger = buildCollectionLedger(roster, schedule);
+
+    expect(ledger.members).toEqual([
+      { memberId: 'a', expected: 10000, paid: 7000, outstanding: 3000, unpaidMonths: [2] },
+      { memberId: 'b', expected: 10000, paid: 6000, outstanding: 5000, unpaidMonths: [2] }
+    ]);
+    expect(ledger.outstanding).toBe(8000);
+    expect(ledger.expected).toBe(20000);
+    expect(ledger.collected).toBe(13000);
+  });
+
+  it('scales a member’s dues by the share they hold', () => {
+    const shared = recordPayment({ members: [member('a', null, 2), member('b')], payments: [], currentMonth: 1 }, 'a', 1, 5000, '');
+    const ledger = buildCollectionLedger(shared, schedule);
+
+    expect(ledger.months[0]).toEqual({ month: 1, expectedPerMember: 5000, expected: 15000, collected: 5000, paidMembers: 0, shortfall: 10000 });
+    expect(ledger.members[0]).toEqual({ memberId: 'a', expected: 10000, paid: 5000, outstanding: 5000, unpaidMonths: [1] });
+  });
+});
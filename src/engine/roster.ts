@@ -0,0 +1,152 @@
+import type { WithdrawalRow } from './types';
+
+// A live group's members, their assigned payout months and what they have paid.
+// Amounts expected each month come from the simulated withdrawal schedule.
+
+export interface RosterMember {
+  id: string;
+  name: string;
+  phone: string;
+  // ISO date (YYYY-MM-DD)
+  joinedOn: string;
+  // Tickets held, as with the scheme's member shares: a 2× share owes double each month
+  share: number;
+  withdrawalMonth: number | null;
+}
+
+export interface ContributionPayment {
+  memberId: string;
+  month: number;
+  amount: number;
+  // ISO date the payment was recorded
+  paidOn: string;
+}
+
+export interface Roster {
+  members: RosterMember[];
+  payments: ContributionPayment[];
+  // Month the group has reached; dues are counted up to and including it
+  currentMonth: number;
+}
+
+export type PaymentStatus = 'paid' | 'partial' | 'unpaid';
+
+export interface MonthCollection {
+  month: number;
+  expectedPerMember: number;
+  expected: number;
+  collected: number;
+  paidMembers: number;
+  shortfall: number;
+}
+
+export interface MemberDues {
+  memberId: string;
+  expected: number;
+  paid: number;
+  outstanding: number;
+  unpaidMonths: number[];
+}
+
+export interface CollectionLedger {
+  months: MonthCollection[];
+  members: MemberDues[];
+  expected: number;
+  collected: number;
+  outstanding: number;
+}
+
+export const emptyRoster = (): Roster => ({ members: [], payments: [], currentMonth: 1 });
+
+export const paymentStatus = (paid: number, expected: number): PaymentStatus => {
+  if (paid >= expected) return 'paid';
+  return paid > 0 ? 'partial' : 'unpaid';
+};
+
+export const paidAmount = (roster: Roster, memberId: string, month: number) =>
+  roster.payments.find((payment) => payment.memberId === memberId && payment.month === month)?.amount ?? 0;
+
+// Record (or clear, with a zero amount) what a member paid for a month
+export const recordPayment = (roster: Roster, memberId: string, month: number, amount: number, paidOn: string): Roster => {
+  const others = roster.payments.filter((payment) => payment.memberId !== memberId || payment.month !== month);
+  return {
+    ...roster,
+    payments: amount > 0 ? [...others, { memberId, month, amount, paidOn }] : others
+  };
+};
+
+export const removeMember = (roster: Roster, memberId: string): Roster => ({
+  ...roster,
+  members: roster.members.filter((member) => member.id !== memberId),
+  payments: roster.payments.filter((payment) => payment.memberId !== memberId)
+});
+
+// Payout places still free in each month of the schedule
+export const openSlots = (roster: Roster, schedule: WithdrawalRow[]): Record<number, number> => {
+  const slots: Record<number, number> = {};
+  for (const row of schedule) slots[row.month] = row.actualWithdrawals;
+  for (const member of roster.members) {
+    if (member.withdrawalMonth !== null && member.withdrawalMonth in slots) slots[member.withdrawalMonth]--;
+  }
+  return slots;
+};
+
+// Give every unassigned member the earliest payout month that still has room,
+// in roster order. Members who don't fit stay unassigned.
+export const autoAssignWithdrawals = (roster: Roster, schedule: WithdrawalRow[]): Roster => {
+  const slots = openSlots(roster, schedule);
+  const members = roster.members.map((member) => {
+    if (member.withdrawalMonth !== null) return member;
+    const free = schedule.find((row) => slots[row.month] > 0);
+    if (!free) return member;
+    slots[free.month]--;
+    return { ...member, withdrawalMonth: free.month };
+  });
+  return { ...roster, members };
+};
+
+// What a member owes for a month of the schedule
+export const memberDue = (member: RosterMember, row: WithdrawalRow) => row.contributionPerMember * member.share;
+
+// Expected against collected for every month up to roster.currentMonth. Every
+// member owes the month's contribution whether or not they have withdrawn.
+export const buildCollectionLedger = (roster: Roster, schedule: WithdrawalRow[]): CollectionLedger => {
+  const dueRows = schedule.slice(0, Math.max(0, roster.currentMonth));
+
+  const months = dueRows.map((row): MonthCollection => {
+    const dues = roster.members.map((member) => ({ due: memberDue(member, row), amount: paidAmount(roster, member.id, row.month) }));
+    return {
+      month: row.month,
+      expectedPerMember: row.contributionPerMember,
+      expected: dues.reduce((sum, { due }) => sum + due, 0),
+      collected: dues.reduce((sum, { amount }) => sum + amount, 0),
+      paidMembers: dues.filter(({ due, amount }) => paymentStatus(amount, due) === 'paid').length,
+      shortfall: dues.reduce((sum, { due, amount }) => sum + Math.max(0, due - amount), 0)
+    };
+  });
+
+  const members = roster.members.map((member): MemberDues => {
+    let expected = 0;
+    let paid = 0;
+    let outstanding = 0;
+    const unpaidMonths: number[] = [];
+    for (const row of dueRows) {
+      const due = memberDue(member, row);
+      const amount = paidAmount(roster, member.id, row.month);
+      expected += due;
+      paid += amount;
+      // Overpaying one month doesn't cover another; each month is settled on its own
+      outstanding += Math.max(0, due - amount);
+      if (paymentStatus(amount, due) !== 'paid') unpaidMonths.push(row.month);
+    }
+    return { memberId: member.id, expected, paid, outstanding, unpaidMonths };
+  });
+
+  return {
+    months,
+    members,
+    expected: months.reduce((sum, month) => sum + month.expected, 0),
+    collected: months.reduce((sum, month) => sum + month.collected, 0),
+    outstanding: members.reduce((sum, member) => sum + member.outstanding, 0)
+  };
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs } from './chitEngine';
+import { buildSensitivityGrid } from './sensitivity';
+
+describe('buildSensitivityGrid', () => {
+  const grid = buildSensitivityGrid(defaultChitInputs, 0, 3, 4);
+
+  it('sweeps utilisation in 10% steps and the chosen rate range', () => {
+    expect(grid.utilizations).toEqual([0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100]);
+    expect(grid.interestRates).toEqual([0, 1, 2, 3]);
+    expect(grid.cells).toHaveLength(4);
+    expect(grid.cells.every((row) => row.length === 11)).toBe(true);
+  });
+
+  it('matches a direct run of the engine', () => {
+    const cell = grid.cells[2][5];
+    const direct = calculateChitDetails({ ...defaultChitInputs, loanInterestRate: 2 }, 50);
+
+    expect(cell.totalInterest).toBe(direct.totalInterestEarned);
+    expect(cell.finalBalance).toBe(direct.finalCarryOver);
+    expect(cell.monthsToServe).toBe(direct.duration);
+  });
+
+  it('earns no interest without loans or without a rate', () => {
+    expect(grid.cells.every((row) => row[0].totalInterest === 0)).toBe(true);
+    expect(grid.cells[0].every((cell) => cell.totalInterest === 0)).toBe(true);
+  });
+
+  it('marks cells where members go unserved', () => {
+    const tight = buildSensitivityGrid({ ...defaultChitInputs, firstWithdrawal: 90000, monthlyIncrement: 2000 }, 0, 0, 1);
+
+    expect(tight.cells[0][0].monthsToServe).toBeNull();
+  });
+});
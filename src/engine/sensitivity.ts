@@ -0,0 +1,55 @@
+import { calculateChitDetails } from './chitEngine';
+import { irrStats } from './compare';
+import type { ChitInputs } from './types';
+
+export interface SensitivityCell {
+  loanUtilization: number;
+  loanInterestRate: number;
+  totalInterest: number;
+  finalBalance: number;
+  // Months until the last member is paid; null when some members are never served
+  monthsToServe: number | null;
+  minIrr: number | null;
+  maxIrr: number | null;
+}
+
+export interface SensitivityGrid {
+  utilizations: number[];
+  interestRates: number[];
+  // One row per interest rate, one column per utilisation
+  cells: SensitivityCell[][];
+}
+
+const steps = (from: number, to: number, count: number) =>
+  count <= 1 ? [from] : Array.from({ length: count }, (_, i) => Number((from + ((to - from) * i) / (count - 1)).toFixed(2)));
+
+// Re-run the scheme across a grid of loan utilisation and interest rate,
+// keeping every other input fixed
+export const buildSensitivityGrid = (
+  inputs: ChitInputs,
+  rateFrom: number,
+  rateTo: number,
+  rateCount: number,
+  utilizationStep = 10
+): SensitivityGrid => {
+  const utilizations = steps(0, 100, Math.floor(100 / utilizationStep) + 1);
+  const interestRates = steps(rateFrom, rateTo, rateCount);
+
+  const cells = interestRates.map((loanInterestRate) =>
+    utilizations.map((loanUtilization) => {
+      const results = calculateChitDetails({ ...inputs, loanInterestRate }, loanUtilization);
+      const { min, max } = irrStats(results);
+      return {
+        loanUtilization,
+        loanInterestRate,
+        totalInterest: results.totalInterestEarned,
+        finalBalance: results.finalCarryOver,
+        monthsToServe: results.totalMembersServed >= inputs.totalMembers ? results.duration : null,
+        minIrr: min,
+        maxIrr: max
+      };
+    })
+  );
+
+  return { utilizations, interestRates, cells };
+};
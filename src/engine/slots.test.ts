@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, type ChitInputs, type MemberSlot } from './chitEngine';
+import { resolveSlots } from './slots';
+import { validateInputs } from './validation';
+
+const ticket = (changes: Partial<MemberSlot> = {}): MemberSlot => ({ share: 1, joinMonth: 1, leaveMonth: null, ...changes });
+
+const withSlots = (memberSlots: MemberSlot[], changes: Partial<ChitInputs> = {}): ChitInputs => ({
+  ...defaultChitInputs,
+  ...changes,
+  memberSlots,
+  totalMembers: memberSlots.filter((slot) => slot.leaveMonth === null).length
+});
+
+describe('member slots', () => {
+  it('gives the same results for equal members spelt out one by one', () => {
+    for (const schemeType of ['fixed', 'auction'] as const) {
+      const inputs = { ...defaultChitInputs, schemeType };
+
+      expect(calculateChitDetails({ ...inputs, memberSlots: resolveSlots(inputs) }, 50)).toEqual(calculateChitDetails(inputs, 50));
+    }
+  });
+
+  it('makes a double share pay and receive double', () => {
+    const inputs = withSlots([ticket({ share: 2 }), ...Array.from({ length: 18 }, () => ticket())]);
+    const results = calculateChitDetails(inputs, 50);
+    const double = results.memberReturns.find((member) => member.member === 1);
+    const single = results.memberReturns.find((member) => member.member === 2);
+
+    expect(results.totalPool).toBe(20 * 5000);
+    expect(results.commissionPerMonth).toBe(5000);
+    expect(results.withdrawalSchedule[0].newContributions).toBe(20 * 5000 - results.commissionPerMonth);
+    expect(double?.share).toBe(2);
+    // The pool can't cover two payouts in month 1, so the next single ticket is paid instead
+    expect(single?.withdrawalMonth).toBe(1);
+    expect(double?.withdrawalMonth).toBeGreaterThan(1);
+    const doubleMonth = results.withdrawalSchedule[(double?.withdrawalMonth ?? 1) - 1];
+    expect(double?.withdrawal).toBe(2 * doubleMonth.withdrawalAmount);
+    expect(double?.totalContribution).toBe(2 * (single?.totalContribution ?? 0));
+  });
+
+  it('charges commission on every share in the pool', () => {
+    const inputs = withSlots([ticket({ share: 2 }), ...Array.from({ length: 19 }, () => ticket())]);
+    const results = calculateChitDetails(inputs, 50);
+
+    expect(results.totalPool).toBe(105000);
+    expect(results.commissionPerMonth).toBe(5250);
+  });
+
+  it('collects the missed instalments from a late joiner and pays them only after they join', () => {
+    const inputs = withSlots([ticket({ joinMonth: 3 }), ...Array.from({ length: 19 }, () => ticket())]);
+    const results = calculateChitDetails(inputs, 50);
+    const joiner = results.memberReturns.find((member) => member.member === 1);
+
+    expect(results.withdrawalSchedule[2].joinerArrears).toBe(2 * 5000);
+    expect(joiner?.joinMonth).toBe(3);
+    expect(joiner?.withdrawalMonth).toBeGreaterThanOrEqual(3);
+    expect(joiner?.totalContribution).toBe(results.memberReturns.find((member) => member.member === 2)?.totalContribution);
+  });
+
+  it('refunds a leaver when the group closes instead of paying them out', () => {
+    const inputs = withSlots([...Array.from({ length: 20 }, () => ticket()), ticket({ leaveMonth: 5 })], { exitRefundPercent: 80 });
+    const results = calculateChitDetails(inputs, 50);
+    const leaver = results.memberReturns.find((member) => member.member === 21);
+    const lastRow = results.withdrawalSchedule.at(-1);
+
+    expect(results.totalMembersServed).toBe(20);
+    expect(leaver?.withdrawalMonth).toBe(lastRow?.month);
+    expect(leaver?.withdrawal).toBeCloseTo(0.8 * 4 * 5000);
+    expect(leaver?.totalContribution).toBe(4 * 5000);
+    expect(lastRow?.leaverRefunds).toBe(16000);
+  });
+});
+
+describe('member slot validation', () => {
+  it('needs one staying member per month of the scheme', () => {
+    const inputs = { ...withSlots([ticket(), ticket(), ticket()]), totalMembers: 4 };
+
+    expect(validateInputs(inputs, 50).memberSlots).toEqual({ field: 'memberSlots', code: 'slotCount', limit: 4 });
+  });
+
+  it('keeps join and leave months inside the scheme', () => {
+    const inputs = withSlots([ticket(), ticket(), ticket({ joinMonth: 2, leaveMonth: 2 })]);
+
+    expect(validateInputs(inputs, 50).memberSlots?.code).toBe('slotMonths');
+  });
+
+  it('caps the first payout by the pool every share pays into', () => {
+    const inputs = withSlots([ticket({ share: 2 }), ...Array.from({ length: 19 }, () => ticket())], { firstWithdrawal: 100000 });
+
+    expect(validateInputs(inputs, 50).firstWithdrawal).toEqual({ field: 'firstWithdrawal', code: 'exceedsNetPool', limit: 99750 });
+  });
+
+  it('allows only single tickets in an auction', () => {
+    const inputs = withSlots([ticket({ share: 2 }), ticket()], { schemeType: 'auction' });
+
+    expect(validateInputs(inputs, 50).memberSlots?.code).toBe('wholeTickets');
+    expect(validateInputs({ ...inputs, schemeType: 'fixed' }, 50).memberSlots).toBeUndefined();
+  });
+});
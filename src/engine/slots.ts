@@ -0,0 +1,90 @@
+import type { ChitInputs, MemberSlot } from './types';
+
+// Where a member's money ended up: paid out, or refunded when the group closed
+export interface SlotOutcome {
+  slot: MemberSlot;
+  // Position in the group's member list (1-based)
+  member: number;
+  month: number;
+  // Net of any GST taken from the payout
+  amount: number;
+}
+
+export const fullTicket = (): MemberSlot => ({ share: 1, joinMonth: 1, leaveMonth: null });
+
+// The group as entered, or totalMembers single tickets held from start to end
+export const resolveSlots = (inputs: Pick<ChitInputs, 'totalMembers' | 'memberSlots'>): MemberSlot[] =>
+  inputs.memberSlots.length > 0
+    ? inputs.memberSlots
+    : Array.from({ length: Math.max(Math.ceil(inputs.totalMembers), 0) }, fullTicket);
+
+// Shape check for slots read back from storage or a shared link
+export const isMemberSlot = (value: unknown): value is MemberSlot => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { share, joinMonth, leaveMonth } = value as Record<string, unknown>;
+  const isNumber = (n: unknown) => typeof n === 'number' && Number.isFinite(n);
+  return isNumber(share) && isNumber(joinMonth) && (leaveMonth === null || isNumber(leaveMonth));
+};
+
+export const isActive = (slot: MemberSlot, month: number) =>
+  slot.joinMonth <= month && (slot.leaveMonth === null || month < slot.leaveMonth);
+
+// Tickets paying in a month
+export const activeShares = (slots: MemberSlot[], month: number) =>
+  slots.reduce((sum, slot) => (isActive(slot, month) ? sum + slot.share : sum), 0);
+
+// Members owed a payout: everyone who doesn't leave early
+export const stayingCount = (slots: MemberSlot[]) => slots.filter((slot) => slot.leaveMonth === null).length;
+
+// A full month's collection from the members who stay to the end, each paying
+// for their share. With equal members this is totalMembers × monthlyContribution.
+export const grossPool = (inputs: Pick<ChitInputs, 'totalMembers' | 'memberSlots' | 'monthlyContribution'>) =>
+  resolveSlots(inputs).reduce((sum, slot) => (slot.leaveMonth === null ? sum + slot.share : sum), 0) * inputs.monthlyContribution;
+
+// Missed instalments paid by members joining in `month`, given what one ticket
+// has paid in all earlier months
+export const joinerArrears = (slots: MemberSlot[], month: number, paidPerTicket: number) =>
+  month > 1 ? slots.reduce((sum, slot) => (slot.joinMonth === month ? sum + slot.share * paidPerTicket : sum), 0) : 0;
+
+// Leaving members are refunded when the group closes. `settled` is owed to those
+// already gone by `month`; members leaving later are still paying, so they leave
+// with the group and `pendingShares` of them get back this month's instalment too.
+export const closingRefunds = (slots: MemberSlot[], month: number, paidBefore: number[], exitRefundPercent: number) => {
+  let settled = 0;
+  let pendingShares = 0;
+  for (const slot of slots) {
+    if (slot.leaveMonth === null || slot.joinMonth > month) continue;
+    if (slot.leaveMonth <= month) settled += slot.share * paidBefore[slot.leaveMonth - 1];
+    else pendingShares += slot.share;
+  }
+  const rate = exitRefundPercent / 100;
+  return {
+    settled: settled * rate + pendingShares * paidBefore[month - 1] * rate,
+    pendingRate: pendingShares * rate,
+    // Refund to one member, once the closing month's instalment is known
+    refund: (slot: MemberSlot, closingInstalment: number) =>
+      slot.share * rate * (slot.leaveMonth !== null && slot.leaveMonth <= month ? paidBefore[slot.leaveMonth - 1] : paidBefore[month - 1] + closingInstalment)
+  };
+};
+
+// Next members due a payout, following `order` (slot indices). Members not yet
+// joined, and larger shares the pool can't cover yet (`fits`), are passed over
+// for now; `count` caps how many are taken.
+export const nextPayees = (
+  slots: MemberSlot[],
+  order: number[],
+  paid: boolean[],
+  month: number,
+  count: number,
+  fits: (share: number) => boolean = () => true
+): number[] => {
+  const payees: number[] = [];
+  for (const index of order) {
+    if (payees.length >= count) break;
+    const slot = slots[index];
+    if (paid[index] || slot.leaveMonth !== null || slot.joinMonth > month) continue;
+    if (!fits(slot.share)) continue;
+    payees.push(index);
+  }
+  return payees;
+};
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, calculateGst, defaultChitInputs, type ChitInputs } from './chitEngine';
+
+// 20 members × ₹5,000 with a 5% monthly commission: ₹5,000 commission, ₹900 GST at 18%
+const baseInputs: ChitInputs = { ...defaultChitInputs, gstRate: 18 };
+
+describe('calculateGst', () => {
+  it('charges GST on the commission and leaves it to the pool by default', () => {
+    expect(calculateGst(baseInputs, 5000, 100000)).toEqual({ gstPerMonth: 900, totalGst: 18000, poolGstPerMonth: 900 });
+  });
+
+  it('takes nothing from the pool when the winner bears the GST', () => {
+    expect(calculateGst({ ...baseInputs, gstBorneBy: 'winner' }, 5000, 100000).poolGstPerMonth).toBe(0);
+  });
+});
+
+describe('taxes in calculateChitDetails', () => {
+  it('changes nothing while the rates are zero', () => {
+    const untaxed = calculateChitDetails(defaultChitInputs, 50);
+
+    expect(untaxed.totalGst).toBe(0);
+    expect(untaxed.totalTds).toBe(0);
+    expect(untaxed.withdrawalSchedule.every((row) => row.gst === 0 && row.winnerDeduction === 0 && row.tdsWithheld === 0)).toBe(true);
+  });
+
+  it('shrinks the net pool by GST the pool bears', () => {
+    const result = calculateChitDetails(baseInputs, 50);
+
+    expect(result.netPoolPerMonth).toBe(94100);
+    expect(result.totalGst).toBe(18000);
+    expect(result.withdrawalSchedule[0]).toMatchObject({ newContributions: 94100, gst: 900, winnerDeduction: 0 });
+    expect(result.memberReturns[0].withdrawal).toBe(80000);
+  });
+
+  it('takes GST the winner bears out of their payout and cash flows', () => {
+    const result = calculateChitDetails({ ...baseInputs, gstBorneBy: 'winner' }, 50);
+    const [first] = result.memberReturns;
+
+    expect(result.netPoolPerMonth).toBe(95000);
+    expect(result.withdrawalSchedule[0]).toMatchObject({ withdrawalAmount: 80000, actualWithdrawals: 1, winnerDeduction: 900 });
+    expect(first.withdrawal).toBe(79100);
+    expect(first.cashFlows[0]).toBe(79100 - 5000);
+  });
+
+  it('charges the winner of an auction month for the GST', () => {
+    const result = calculateChitDetails({ ...baseInputs, schemeType: 'auction', gstBorneBy: 'winner' }, 0);
+    const [row] = result.withdrawalSchedule;
+
+    expect(row.winnerDeduction).toBe(900);
+    expect(result.memberReturns[0].withdrawal).toBe(row.withdrawalAmount - 900);
+  });
+
+  it('withholds TDS from loan interest once the threshold is passed', () => {
+    const untaxed = calculateChitDetails(defaultChitInputs, 50);
+    const taxed = calculateChitDetails({ ...defaultChitInputs, tdsRate: 10, tdsThreshold: 0 }, 50);
+    const tds = taxed.withdrawalSchedule[1].tdsWithheld;
+
+    // Month 1's loan repays its interest in month 2, less 10% withheld
+    expect(Math.abs(tds - taxed.loanDetails[0].interestEarned / 10)).toBeLessThanOrEqual(1);
+    expect(untaxed.withdrawalSchedule[1].carryOverFromPrevious - taxed.withdrawalSchedule[1].carryOverFromPrevious).toBeCloseTo(tds, -1);
+    const rowTotal = taxed.withdrawalSchedule.reduce((sum, row) => sum + row.tdsWithheld, 0);
+    expect(Math.abs(taxed.totalTds - rowTotal)).toBeLessThanOrEqual(taxed.duration);
+  });
+
+  it('withholds nothing while a year stays under the threshold', () => {
+    const result = calculateChitDetails({ ...defaultChitInputs, tdsRate: 10, tdsThreshold: 10_000_000 }, 50);
+
+    expect(result.totalTds).toBe(0);
+  });
+});
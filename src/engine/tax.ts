@@ -0,0 +1,12 @@
+import type { ChitInputs } from './types';
+
+// GST on the commission, per month and over the whole scheme, and how much of
+// it comes out of the pool every month (all of it unless the winner bears it)
+export const calculateGst = (inputs: Pick<ChitInputs, 'gstRate' | 'gstBorneBy'>, commissionPerMonth: number, totalCommission: number) => {
+  const gstPerMonth = (commissionPerMonth * inputs.gstRate) / 100;
+  return {
+    gstPerMonth,
+    totalGst: (totalCommission * inputs.gstRate) / 100,
+    poolGstPerMonth: inputs.gstBorneBy === 'pool' ? gstPerMonth : 0
+  };
+};
@@ -0,0 +1,213 @@
+import type { IrrIssue } from './finance';
+
+export type CommissionType = 'monthly' | 'onetime';
+
+// How the payout ladder is generated:
+// - increment:   firstWithdrawal + monthlyIncrement * i
+// - interpolate: straight line from firstWithdrawal to finalWithdrawal
+// - stepUp:      firstWithdrawal grown by stepUpPercent every month
+// - custom:      organiser-entered amount per month
+export type PayoutMode = 'increment' | 'interpolate' | 'stepUp' | 'custom';
+
+// fixed:   payouts follow the ladder above and several members may withdraw in a month
+// auction: one member per month wins the pool by bidding a discount that is
+//          shared back to every member as a dividend on next month's contribution
+export type SchemeType = 'fixed' | 'auction';
+
+// curve:  bids fall linearly from startingBidPercent in month 1 to zero in the last month
+// manual: organiser-entered bid (% of the pool) per month
+export type BidMode = 'curve' | 'manual';
+
+// How a pool loan is paid back over its tenure:
+// - bullet:       principal and all interest at the end
+// - interestOnly: interest every month, principal at the end
+// - emi:          equal monthly instalments of principal and interest
+export type LoanRepaymentStyle = 'bullet' | 'interestOnly' | 'emi';
+
+// simple:  interest on the original principal only (flat-rate EMI)
+// monthly: interest compounds monthly (reducing-balance EMI)
+export type LoanCompounding = 'simple' | 'monthly';
+
+// Who pays the GST on the foreman's commission: the whole pool every month, or
+// the members taking that month's payout, out of their payout
+export type GstBearer = 'pool' | 'winner';
+
+// Who is offered each payout: members in list order, a seeded random draw, the
+// organiser's full priority list, or members who asked for an early payout first
+export type WithdrawalOrder = 'sequence' | 'lottery' | 'priority' | 'needs';
+
+// One member of the group. A share of 2 pays and is paid double, 0.5 is a half
+// ticket. A replacement joining late pays the instalments already due on joining;
+// a member leaving early is refunded when the group closes instead of paid out.
+export interface MemberSlot {
+  share: number;
+  // First month they belong to the group
+  joinMonth: number;
+  // Month they leave in and stop paying from; null when they stay to the end
+  leaveMonth: number | null;
+}
+
+export interface ChitInputs {
+  totalMembers: number;
+  monthlyContribution: number;
+  firstWithdrawal: number;
+  finalWithdrawal: number;
+  monthlyIncrement: number;
+  commissionType: CommissionType;
+  commissionRate: number;
+  oneTimeCommission: number;
+  loanInterestRate: number;
+  payoutMode: PayoutMode;
+  stepUpPercent: number;
+  customPayouts: number[];
+  schemeType: SchemeType;
+  bidMode: BidMode;
+  startingBidPercent: number;
+  auctionBids: number[];
+  // Loan risk on the spare pool: the chance (%) a month's loans default, the share (%)
+  // of a defaulted repayment eventually recovered, and how many months late it arrives
+  loanDefaultRate: number;
+  loanRecoveryRate: number;
+  loanRepaymentDelay: number;
+  // Loan tenure in months and how it is repaid
+  loanTenure: number;
+  loanRepaymentStyle: LoanRepaymentStyle;
+  loanCompounding: LoanCompounding;
+  // First collection on or after startDate (ISO YYYY-MM-DD, empty = undated) and
+  // the day of the month contributions are due; payouts happen the same day
+  startDate: string;
+  collectionDay: number;
+  // GST (%) charged on the foreman's commission, and TDS (%) withheld from loan
+  // interest once a scheme year's interest passes tdsThreshold (₹)
+  gstRate: number;
+  gstBorneBy: GstBearer;
+  tdsRate: number;
+  tdsThreshold: number;
+  // The group member by member, in payout order; empty means totalMembers single
+  // tickets held from start to end. Members who stay must number totalMembers.
+  memberSlots: MemberSlot[];
+  // Share (%) of what a leaving member paid that is refunded to them when the group closes
+  exitRefundPercent: number;
+  withdrawalOrder: WithdrawalOrder;
+  // Seed of the lottery draw, kept so anyone can reproduce the order
+  lotterySeed: number;
+  // Member numbers (1-based), first paid first: the whole group for a priority
+  // list, only the members who asked for a needs-based payout, most urgent first
+  priorityList: number[];
+  needRequests: number[];
+}
+
+export interface WithdrawalRow {
+  month: number;
+  // Per single ticket; members holding other shares pay and are paid in proportion
+  withdrawalAmount: number;
+  contributionPerMember: number;
+  newContributions: number;
+  carryOverFromPrevious: number;
+  availablePool: number;
+  actualWithdrawals: number;
+  totalWithdrawn: number;
+  remainingPool: number;
+  remainingMembersAfter: number;
+  isLastMonth: boolean;
+  // Auction discount won this month and the dividend it pays each member next month (0 for fixed schemes)
+  bidDiscount: number;
+  dividendPerMember: number;
+  // GST on this month's commission, the part of it taken from each ticket's payout, and
+  // TDS withheld from the loan interest that came in this month
+  gst: number;
+  winnerDeduction: number;
+  tdsWithheld: number;
+  // Missed instalments paid by members joining this month, and refunds to members
+  // who left (paid in the closing month)
+  joinerArrears: number;
+  leaverRefunds: number;
+}
+
+export interface LoanRow {
+  month: number;
+  availableForLoan: number;
+  loanAmount: number;
+  interestRate: number;
+  // Interest and total repayment over the loan's tenure, less any interest
+  // waived because the group closed before it fell due
+  interestEarned: number;
+  repaymentDue: number;
+  // Principal lent out and not yet repaid at the end of the month, across all loans
+  outstandingPrincipal: number;
+  // Expected share of repaymentDue that never comes back, and the part recovered late
+  expectedLoss: number;
+  lateRecovery: number;
+}
+
+// What really happened in a finished month of a running group
+export interface MonthActuals {
+  // Contributions collected from members, before commission
+  collected: number;
+  membersPaid: number;
+  // Total handed to the members paid this month
+  paidOut: number;
+  // Fixed schemes only: money lent from the pool and loan repayments received
+  loansGiven: number;
+  loanRepayments: number;
+}
+
+export interface MemberReturn {
+  member: number;
+  share: number;
+  joinMonth: number;
+  // Set for a member who left early; withdrawalMonth and withdrawal are then their refund
+  leaveMonth: number | null;
+  withdrawalMonth: number;
+  totalContribution: number;
+  withdrawal: number;
+  netReturn: number;
+  returnPercent: number;
+  monthlyIRR: number | null;
+  annualizedIRR: number | null;
+  // Why monthlyIRR is missing, or that it is only the rate nearest zero of
+  // several that fit; null when the IRR is unambiguous
+  irrIssue: IrrIssue | null;
+  // Month-by-month net cash flow for this member (index 0 = month 1)
+  cashFlows: number[];
+}
+
+export interface ChitResult {
+  duration: number;
+  totalPool: number;
+  commissionPerMonth: number;
+  totalCommission: number;
+  netPoolPerMonth: number;
+  withdrawalSchedule: WithdrawalRow[];
+  totalMembersServed: number;
+  finalCarryOver: number;
+  loanDetails: LoanRow[];
+  totalLoanAmount: number;
+  totalInterestEarned: number;
+  totalExpectedLoss: number;
+  totalGst: number;
+  totalTds: number;
+  memberReturns: MemberReturn[];
+}
+
+export interface MemberTimelineRow {
+  month: number;
+  contribution: number;
+  withdrawal: number;
+  netFlow: number;
+  cumulativePosition: number;
+}
+
+export interface MemberSummary {
+  timeline: MemberTimelineRow[];
+  youPay: number;
+  youGet: number;
+  netPosition: number;
+  // Contributions up to and including the withdrawal month
+  paidBefore: number;
+  // Contributions still owed after the withdrawal month
+  paidAfter: number;
+  // Part of the payout funded by other members (negative = member lent to the group)
+  effectiveLoan: number;
+  monthsToRepay: number;
+}
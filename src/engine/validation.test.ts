@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs, type ChitInputs } from './chitEngine';
+import { MAX_MEMBERS, diagnoseScheme, hasFieldErrors, validateInputs } from './validation';
+
+const inputs = (changes: Partial<ChitInputs>): ChitInputs => ({ ...defaultChitInputs, ...changes });
+
+describe('validateInputs', () => {
+  it('accepts the defaults', () => {
+    expect(hasFieldErrors(validateInputs(defaultChitInputs, 50))).toBe(false);
+  });
+
+  it('bounds the member count', () => {
+    expect(validateInputs(inputs({ totalMembers: -5 }), 50).totalMembers?.code).toBe('minMembers');
+    expect(validateInputs(inputs({ totalMembers: 12.5 }), 50).totalMembers?.code).toBe('wholeNumber');
+    expect(validateInputs(inputs({ totalMembers: MAX_MEMBERS + 1 }), 50).totalMembers?.code).toBe('maxMembers');
+  });
+
+  it('rejects zero payouts and commissions above 100%', () => {
+    expect(validateInputs(inputs({ firstWithdrawal: 0 }), 50).firstWithdrawal?.code).toBe('positive');
+    expect(validateInputs(inputs({ commissionRate: 120 }), 50).commissionRate?.code).toBe('percentRange');
+  });
+
+  it('flags a first withdrawal larger than the net pool', () => {
+    // 20 × 5000 = 100000 gross, 5% commission leaves 95000
+    const error = validateInputs(inputs({ firstWithdrawal: 96000 }), 50).firstWithdrawal;
+
+    expect(error).toEqual({ field: 'firstWithdrawal', code: 'exceedsNetPool', limit: 95000 });
+  });
+
+  it('only checks fields the current mode uses', () => {
+    expect(validateInputs(inputs({ finalWithdrawal: 0 }), 50).finalWithdrawal).toBeUndefined();
+    expect(validateInputs(inputs({ payoutMode: 'interpolate', finalWithdrawal: 0 }), 50).finalWithdrawal?.code).toBe('positive');
+    expect(validateInputs(inputs({ schemeType: 'auction', firstWithdrawal: 0 }), 50).firstWithdrawal).toBeUndefined();
+    expect(validateInputs(inputs({ schemeType: 'auction', bidMode: 'manual', auctionBids: [40, 120] }), 50).auctionBids?.code).toBe('bidRange');
+  });
+});
+
+describe('diagnoseScheme', () => {
+  const diagnose = (changes: Partial<ChitInputs>, loanUtilization = 50) => {
+    const scheme = inputs(changes);
+    return diagnoseScheme(scheme, calculateChitDetails(scheme, loanUtilization));
+  };
+
+  it('reports nothing for a workable scheme', () => {
+    expect(diagnose({})).toEqual([]);
+  });
+
+  it('reports when nobody can withdraw in month 1', () => {
+    const [first] = diagnose({ commissionRate: 100 });
+
+    expect(first).toMatchObject({ code: 'noWithdrawalMonth1', available: 0 });
+  });
+
+  it('reports members left unserved, using the engine schedule', () => {
+    const scheme = inputs({ firstWithdrawal: 95000, monthlyIncrement: 20000 });
+    const results = calculateChitDetails(scheme, 0);
+    const unserved = diagnoseScheme(scheme, results).find((item) => item.code === 'membersUnserved');
+
+    expect(unserved).toEqual({
+      code: 'membersUnserved',
+      remaining: results.withdrawalSchedule.at(-1)?.remainingMembersAfter,
+      months: results.duration
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { parseIsoDate } from './calendar';
+import { grossPool } from './slots';
+import type { ChitInputs, ChitResult } from './types';
+
+// Largest group the calculator will simulate; beyond this the per-month
+// tables and inputs become unusable and the render can lock up
+export const MAX_MEMBERS = 500;
+
+export type InputField = keyof ChitInputs | 'loanUtilization';
+
+export type FieldErrorCode =
+  | 'wholeNumber'
+  | 'minMembers'
+  | 'maxMembers'
+  | 'positive'
+  | 'nonNegative'
+  | 'percentRange'
+  | 'exceedsNetPool'
+  | 'commissionExceedsPool'
+  | 'negativeEntries'
+  | 'bidRange'
+  | 'invalidDate'
+  | 'dayOfMonth'
+  | 'slotCount'
+  | 'slotMonths'
+  | 'wholeTickets';
+
+export interface FieldError {
+  field: InputField;
+  code: FieldErrorCode;
+  // The bound that was crossed, for messages such as "at most ₹95,000"
+  limit?: number;
+}
+
+export type FieldErrors = Partial<Record<InputField, FieldError>>;
+
+export type SchemeDiagnostic =
+  | { code: 'noWithdrawalMonth1'; payout: number; available: number }
+  | { code: 'membersUnserved'; remaining: number; months: number }
+  | { code: 'idleMonths'; months: number[] };
+
+const isPercent = (value: number) => value >= 0 && value <= 100;
+
+// Field-level checks on the raw inputs. Only the fields the current scheme and
+// payout mode actually use are checked, so hidden inputs never block results.
+export const validateInputs = (inputs: ChitInputs, loanUtilization: number): FieldErrors => {
+  const errors: FieldErrors = {};
+  const fail = (field: InputField, code: FieldErrorCode, limit?: number) => {
+    errors[field] ??= { field, code, limit };
+  };
+
+  const { totalMembers, monthlyContribution } = inputs;
+  if (!Number.isInteger(totalMembers)) fail('totalMembers', 'wholeNumber');
+  else if (totalMembers < 2) fail('totalMembers', 'minMembers', 2);
+  else if (totalMembers > MAX_MEMBERS) fail('totalMembers', 'maxMembers', MAX_MEMBERS);
+
+  if (!(monthlyContribution > 0)) fail('monthlyContribution', 'positive');
+
+  const pool = grossPool(inputs);
+  if (inputs.commissionType === 'monthly') {
+    if (!isPercent(inputs.commissionRate)) fail('commissionRate', 'percentRange');
+  } else if (inputs.oneTimeCommission < 0) {
+    fail('oneTimeCommission', 'nonNegative');
+  } else if (!errors.totalMembers && !errors.monthlyContribution && inputs.oneTimeCommission >= pool * totalMembers) {
+    fail('oneTimeCommission', 'commissionExceedsPool', pool * totalMembers);
+  }
+
+  if (inputs.loanInterestRate < 0) fail('loanInterestRate', 'nonNegative');
+  else if (inputs.loanInterestRate > 100) fail('loanInterestRate', 'percentRange');
+
+  if (!isPercent(loanUtilization)) fail('loanUtilization', 'percentRange');
+  if (!isPercent(inputs.gstRate)) fail('gstRate', 'percentRange');
+
+  // An empty start date just leaves the schedule undated
+  if (inputs.startDate !== '' && !parseIsoDate(inputs.startDate)) fail('startDate', 'invalidDate');
+  if (!Number.isInteger(inputs.collectionDay) || inputs.collectionDay < 1 || inputs.collectionDay > 31) {
+    fail('collectionDay', 'dayOfMonth');
+  }
+
+  // An empty member list means totalMembers single tickets, nothing to check
+  const slots = inputs.memberSlots;
+  if (slots.length > 0) {
+    const isMonth = (month: number) => Number.isInteger(month) && month >= 1 && month <= totalMembers;
+    if (slots.some((slot) => !(slot.share > 0))) fail('memberSlots', 'positive');
+    else if (slots.some((slot) => !isMonth(slot.joinMonth) || (slot.leaveMonth !== null && !(isMonth(slot.leaveMonth) && slot.leaveMonth > slot.joinMonth)))) {
+      fail('memberSlots', 'slotMonths', totalMembers);
+    } else if (slots.filter((slot) => slot.leaveMonth === null).length !== totalMembers) {
+      // One payout a month for the scheme's length, so one staying member per month
+      fail('memberSlots', 'slotCount', totalMembers);
+    } else if (inputs.schemeType === 'auction' && slots.some((slot) => slot.share !== 1)) {
+      // An auction winner takes the whole pool, which can't be split by share
+      fail('memberSlots', 'wholeTickets');
+    }
+    if (slots.some((slot) => slot.leaveMonth !== null) && !isPercent(inputs.exitRefundPercent)) {
+      fail('exitRefundPercent', 'percentRange');
+    }
+  }
+
+  if (inputs.schemeType === 'fixed') {
+    if (!(inputs.firstWithdrawal > 0)) {
+      fail('firstWithdrawal', 'positive');
+    } else if (!errors.totalMembers && !errors.monthlyContribution && !errors.commissionRate && !errors.oneTimeCommission) {
+      const commissionPerMonth = inputs.commissionType === 'monthly'
+        ? (pool * inputs.commissionRate) / 100
+        : inputs.oneTimeCommission / totalMembers;
+      // GST the pool pays on the commission comes out of every month's collection too
+      const poolGst = inputs.gstBorneBy === 'pool' && isPercent(inputs.gstRate) ? (commissionPerMonth * inputs.gstRate) / 100 : 0;
+      const netPool = Math.floor(pool - commissionPerMonth - poolGst);
+      if (inputs.firstWithdrawal > netPool) fail('firstWithdrawal', 'exceedsNetPool', netPool);
+    }
+
+    if (inputs.payoutMode === 'interpolate' && !(inputs.finalWithdrawal > 0)) fail('finalWithdrawal', 'positive');
+    if (inputs.payoutMode === 'stepUp' && inputs.stepUpPercent < 0) fail('stepUpPercent', 'nonNegative');
+    if (inputs.payoutMode === 'custom' && inputs.customPayouts.some((amount) => amount < 0)) {
+      fail('customPayouts', 'negativeEntries');
+    }
+
+    // Loans (and so loan terms and risk) only exist in fixed schemes
+    if (!isPercent(inputs.loanDefaultRate)) fail('loanDefaultRate', 'percentRange');
+    if (!isPercent(inputs.loanRecoveryRate)) fail('loanRecoveryRate', 'percentRange');
+    if (!Number.isInteger(inputs.loanRepaymentDelay)) fail('loanRepaymentDelay', 'wholeNumber');
+    else if (inputs.loanRepaymentDelay < 0) fail('loanRepaymentDelay', 'nonNegative');
+    if (!Number.isInteger(inputs.loanTenure)) fail('loanTenure', 'wholeNumber');
+    else if (inputs.loanTenure < 1) fail('loanTenure', 'positive');
+    if (!isPercent(inputs.tdsRate)) fail('tdsRate', 'percentRange');
+    if (inputs.tdsThreshold < 0) fail('tdsThreshold', 'nonNegative');
+  } else if (inputs.bidMode === 'curve') {
+    if (!isPercent(inputs.startingBidPercent)) fail('startingBidPercent', 'percentRange');
+  } else if (!inputs.auctionBids.every(isPercent)) {
+    fail('auctionBids', 'bidRange');
+  }
+
+  return errors;
+};
+
+export const hasFieldErrors = (errors: FieldErrors) => Object.keys(errors).length > 0;
+
+// Scheme-level problems read off a finished simulation: numbers that are each
+// valid on their own but don't add up to a chit that serves everyone
+export const diagnoseScheme = (inputs: ChitInputs, results: ChitResult): SchemeDiagnostic[] => {
+  const diagnostics: SchemeDiagnostic[] = [];
+  const [first] = results.withdrawalSchedule;
+  if (!first) return diagnostics;
+
+  if (first.actualWithdrawals === 0) {
+    diagnostics.push({ code: 'noWithdrawalMonth1', payout: first.withdrawalAmount, available: first.availablePool });
+  }
+
+  const idleMonths = results.withdrawalSchedule
+    .filter((row) => row.month > 1 && row.actualWithdrawals === 0)
+    .map((row) => row.month);
+  if (idleMonths.length > 0) diagnostics.push({ code: 'idleMonths', months: idleMonths });
+
+  if (results.totalMembersServed < inputs.totalMembers) {
+    const remaining = results.withdrawalSchedule.at(-1)?.remainingMembersAfter ?? inputs.totalMembers;
+    diagnostics.push({ code: 'membersUnserved', remaining, months: results.duration });
+  }
+
+  return diagnostics;
+};
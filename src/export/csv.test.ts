@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { calculateChitDetails, defaultChitInputs } from '../engine/chitEngine';
+import { translations } from '../translations';
+import { createNumberFormatter, defaultNumberFormat } from '../utils/numberFormat';
+import { tableToCsv } from './csv';
+import { buildReportTables } from './reportTables';
+
+const results = calculateChitDetails(defaultChitInputs, 50);
+
+describe('buildReportTables', () => {
+  it('builds one row per schedule entry, loan and member', () => {
+    const [withdrawals, loans, members] = buildReportTables(results, translations.en);
+
+    expect(withdrawals.rows).toHaveLength(results.withdrawalSchedule.length);
+    expect(loans.rows).toHaveLength(results.loanDetails.length);
+    expect(members.rows).toHaveLength(results.memberReturns.length);
+    expect(withdrawals.rows.every((row) => row.length === withdrawals.headers.length)).toBe(true);
+  });
+
+  it('uses the selected language for titles and headers', () => {
+    const [withdrawals] = buildReportTables(results, translations.kn);
+
+    expect(withdrawals.title).toBe(translations.kn.withdrawalSchedule);
+    expect(withdrawals.headers[0]).toBe(translations.kn.month);
+  });
+
+  it('adds bid and dividend columns for auction schemes', () => {
+    const auction = calculateChitDetails({ ...defaultChitInputs, schemeType: 'auction' }, 50);
+    const [withdrawals] = buildReportTables(auction, translations.en);
+
+    expect(withdrawals.headers).toContain(translations.en.bidDiscount);
+    expect(withdrawals.rows[0]).toHaveLength(withdrawals.headers.length);
+  });
+
+  it('adds localised due dates for dated schemes', () => {
+    const [withdrawals, loans] = buildReportTables(results, translations.kn, { startDate: '2026-01-01', collectionDay: 10 });
+
+    expect(withdrawals.headers[1]).toBe(translations.kn.dueDate);
+    expect(withdrawals.rows[1][1]).toBe('10 ಫೆಬ್ರವರಿ 2026');
+    expect(loans.rows[0][1]).toBe('10 ಜನವರಿ 2026');
+  });
+
+  it('adds GST and TDS columns only for taxed schemes', () => {
+    const taxed = calculateChitDetails({ ...defaultChitInputs, gstRate: 18, tdsRate: 10, tdsThreshold: 0 }, 50);
+    const [untaxedWithdrawals] = buildReportTables(results, translations.en);
+    const [withdrawals] = buildReportTables(taxed, translations.en);
+
+    expect(untaxedWithdrawals.headers).not.toContain(translations.en.gst);
+    expect(withdrawals.headers.slice(-2)).toEqual([translations.en.gst, translations.en.tds]);
+    expect(withdrawals.rows[0].at(-2)).toBe(900);
+    expect(withdrawals.rows.every((row) => row.length === withdrawals.headers.length)).toBe(true);
+  });
+
+  it('converts amounts to the display currency and names it in their headers', () => {
+    const fmt = createNumberFormatter({ ...defaultNumberFormat, currency: 'USD', exchangeRate: 80 });
+    const [withdrawals, , members] = buildReportTables(results, translations.en, undefined, fmt);
+    const [rupeeWithdrawals] = buildReportTables(results, translations.en);
+
+    expect(withdrawals.headers).toContain(`${translations.en.withdrawalAmount} (USD)`);
+    expect(withdrawals.headers).toContain(translations.en.membersWithdrawing);
+    expect(withdrawals.rows[0][1]).toBe(Math.round(((rupeeWithdrawals.rows[0][1] as number) / 80) * 100) / 100);
+    expect(members.rows[0][2]).toBe(Math.round((results.memberReturns[0].totalContribution / 80) * 100) / 100);
+  });
+});
+
+describe('tableToCsv', () => {
+  it('starts with a byte-order mark and uses CRLF line endings', () => {
+    const csv = tableToCsv({ key: 'loanSchedule', title: 'x', headers: ['a', 'b'], rows: [[1, 2]] });
+
+    expect(csv).toBe('\uFEFFa,b\r\n1,2\r\n');
+  });
+
+  it('quotes cells containing commas, quotes or newlines', () => {
+    const csv = tableToCsv({ key: 'loanSchedule', title: 'x', headers: ['Loan, given', 'say "hi"'], rows: [['line\nbreak', 3]] });
+
+    expect(csv).toBe('\uFEFF"Loan, given","say ""hi"""\r\n"line\nbreak",3\r\n');
+  });
+});
@@ -0,0 +1,12 @@
+import type { ExportCell, ExportTable } from './reportTables';
+
+const escapeCell = (cell: ExportCell) => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180 CSV. The byte-order mark makes Excel read Indic text as UTF-8.
+export const tableToCsv = (table: ExportTable): string => {
+  const lines = [table.headers, ...table.rows].map((row) => row.map(escapeCell).join(','));
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
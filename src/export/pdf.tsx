@@ -0,0 +1,77 @@
+import { flushSync } from 'react-dom';
+import { createRoot } from 'react-dom/client';
+import PdfReport from '../components/PdfReport';
+import type { ChitInputs, ChitResult } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from '../utils/numberFormat';
+import type { ExportTable } from './reportTables';
+
+interface PdfReportData {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  results: ChitResult;
+  tables: ExportTable[];
+  fmt: NumberFormatter;
+  t: Translations;
+}
+
+const PAGE_MARGIN = 24;
+const CANVAS_SCALE = 2;
+
+// Page breaks may only fall below a table row or a marked block, so rows are never cut in half
+const breakOffsets = (root: HTMLElement) => {
+  const top = root.getBoundingClientRect().top;
+  return Array.from(root.querySelectorAll('tr, [data-pdf-block]'))
+    .map((element) => (element.getBoundingClientRect().bottom - top) * CANVAS_SCALE)
+    .sort((a, b) => a - b);
+};
+
+// Render the report off-screen, rasterise it with the page's own fonts (so
+// Indic text shapes correctly) and slice it into A4 pages.
+export const renderReportPdf = async (data: PdfReportData): Promise<Blob> => {
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import('jspdf'), import('html2canvas-pro')]);
+
+  const container = document.createElement('div');
+  container.style.position = 'fixed';
+  container.style.left = '-10000px';
+  container.style.top = '0';
+  document.body.appendChild(container);
+  const root = createRoot(container);
+
+  try {
+    flushSync(() => root.render(<PdfReport {...data} />));
+    await document.fonts.ready;
+
+    const report = container.firstElementChild as HTMLElement;
+    const breaks = breakOffsets(report);
+    const canvas = await html2canvas(report, { scale: CANVAS_SCALE, backgroundColor: '#ffffff' });
+
+    const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+    const contentWidth = pdf.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+    const ratio = contentWidth / canvas.width;
+    const maxSliceHeight = Math.floor((pdf.internal.pageSize.getHeight() - PAGE_MARGIN * 2) / ratio);
+
+    let offset = 0;
+    while (offset < canvas.height) {
+      let end = Math.min(offset + maxSliceHeight, canvas.height);
+      if (end < canvas.height) {
+        const fitting = breaks.filter((value) => value > offset && value <= end);
+        if (fitting.length > 0) end = Math.ceil(fitting[fitting.length - 1]);
+      }
+
+      const slice = document.createElement('canvas');
+      slice.width = canvas.width;
+      slice.height = end - offset;
+      slice.getContext('2d')?.drawImage(canvas, 0, offset, canvas.width, slice.height, 0, 0, canvas.width, slice.height);
+
+      if (offset > 0) pdf.addPage();
+      pdf.addImage(slice.toDataURL('image/jpeg', 0.92), 'JPEG', PAGE_MARGIN, PAGE_MARGIN, contentWidth, slice.height * ratio);
+      offset = end;
+    }
+
+    return pdf.output('blob');
+  } finally {
+    root.unmount();
+    container.remove();
+  }
+};
@@ -0,0 +1,118 @@
+import { collectionDate, type ChitInputs, type ChitResult } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { formatCalendarDate, irrIssueLabel } from '../utils/format';
+import { BASE_CURRENCY, createNumberFormatter, defaultNumberFormat, type NumberFormatter } from '../utils/numberFormat';
+
+export type ExportCell = string | number;
+
+export interface ExportTable {
+  key: 'withdrawalSchedule' | 'loanSchedule' | 'memberReturns';
+  title: string;
+  headers: string[];
+  rows: ExportCell[][];
+}
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// Localised, export-ready versions of the three on-screen tables.
+// Cells stay numeric where possible so spreadsheets can total and chart them.
+// Dated schemes get a due-date column next to the month, and taxed schemes
+// their GST and TDS columns after the pool figures. Amounts are converted to
+// the display currency, which is then named in their headers.
+export const buildReportTables = (
+  results: ChitResult,
+  t: Translations,
+  calendar: Pick<ChitInputs, 'startDate' | 'collectionDay'> = { startDate: '', collectionDay: 1 },
+  fmt: NumberFormatter = createNumberFormatter(defaultNumberFormat)
+): ExportTable[] => {
+  const amount = fmt.convert;
+  const amountHeader = (header: string) => (fmt.currency === BASE_CURRENCY ? header : `${header} (${fmt.currency})`);
+
+  const isDated = collectionDate(calendar, 1) !== null;
+  const dateCells = (month: number) => {
+    const date = collectionDate(calendar, month);
+    return date ? [formatCalendarDate(date, t.monthNames)] : [];
+  };
+
+  const isAuction = results.withdrawalSchedule.some((row) => row.bidDiscount > 0);
+  const hasLoanRisk = results.loanDetails.some((loan) => loan.expectedLoss > 0 || loan.lateRecovery > 0);
+  const hasGst = results.totalGst > 0;
+  const hasWinnerGst = results.withdrawalSchedule.some((row) => row.winnerDeduction > 0);
+  const hasTds = results.totalTds > 0;
+
+  const withdrawalHeaders = [t.month, ...(isDated ? [t.dueDate] : []), amountHeader(t.withdrawalAmount), t.membersWithdrawing, amountHeader(t.contribution)];
+  if (isAuction) withdrawalHeaders.push(amountHeader(t.bidDiscount), amountHeader(t.dividend));
+  withdrawalHeaders.push(
+    ...[t.newContributions, t.carryOver, t.availablePool, t.totalWithdrawn, t.remainingPool].map(amountHeader),
+    t.membersLeft
+  );
+  if (hasGst) withdrawalHeaders.push(amountHeader(t.gst));
+  if (hasWinnerGst) withdrawalHeaders.push(amountHeader(t.gstFromPayout));
+  if (hasTds) withdrawalHeaders.push(amountHeader(t.tds));
+
+  return [
+    {
+      key: 'withdrawalSchedule',
+      title: t.withdrawalSchedule,
+      headers: withdrawalHeaders,
+      rows: results.withdrawalSchedule.map((row) => [
+        row.month,
+        ...dateCells(row.month),
+        amount(row.withdrawalAmount),
+        row.actualWithdrawals,
+        amount(row.contributionPerMember),
+        ...(isAuction ? [amount(row.bidDiscount), amount(row.dividendPerMember)] : []),
+        amount(row.newContributions),
+        amount(row.carryOverFromPrevious),
+        amount(row.availablePool),
+        amount(row.totalWithdrawn),
+        amount(row.remainingPool),
+        row.remainingMembersAfter,
+        ...(hasGst ? [amount(row.gst)] : []),
+        ...(hasWinnerGst ? [amount(row.winnerDeduction)] : []),
+        ...(hasTds ? [amount(row.tdsWithheld)] : [])
+      ])
+    },
+    {
+      key: 'loanSchedule',
+      title: t.loanSchedule,
+      headers: [
+        t.month,
+        ...(isDated ? [t.dueDate] : []),
+        amountHeader(t.availableForLoan),
+        amountHeader(t.loanGiven),
+        `${t.interest} (%)`,
+        amountHeader(t.interestEarned),
+        amountHeader(t.repaymentDue),
+        amountHeader(t.outstandingPrincipal),
+        ...(hasLoanRisk ? [amountHeader(t.lateRecovery), amountHeader(t.expectedLoss)] : [])
+      ],
+      rows: results.loanDetails.map((loan) => [
+        loan.month,
+        ...dateCells(loan.month),
+        amount(loan.availableForLoan),
+        amount(loan.loanAmount),
+        loan.interestRate,
+        amount(loan.interestEarned),
+        amount(loan.repaymentDue),
+        amount(loan.outstandingPrincipal),
+        ...(hasLoanRisk ? [amount(loan.lateRecovery), amount(loan.expectedLoss)] : [])
+      ])
+    },
+    {
+      key: 'memberReturns',
+      title: t.effectiveInterest,
+      headers: [t.member, t.withdrawalMonth, ...[t.totalContribution, t.withdrawal, t.netReturn].map(amountHeader), t.returnPercent, `${t.monthlyIRR} (%)`, `${t.effectiveInterestRate} (%)`],
+      rows: results.memberReturns.map((member) => [
+        member.member,
+        member.withdrawalMonth,
+        amount(member.totalContribution),
+        amount(member.withdrawal),
+        amount(member.netReturn),
+        round(member.returnPercent, 2),
+        member.monthlyIRR !== null ? round(member.monthlyIRR, 2) : member.irrIssue ? irrIssueLabel(member.irrIssue, t) : '-',
+        member.annualizedIRR !== null ? round(member.annualizedIRR, 1) : member.irrIssue ? irrIssueLabel(member.irrIssue, t) : '-'
+      ])
+    }
+  ];
+};
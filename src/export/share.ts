@@ -0,0 +1,46 @@
+import { Capacitor } from '@capacitor/core';
+import { Directory, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Hand a generated file to the user: the native share sheet on Android,
+// a regular download in the browser.
+export const deliverFile = async (blob: Blob, fileName: string, title: string): Promise<void> => {
+  if (Capacitor.isNativePlatform()) {
+    const { uri } = await Filesystem.writeFile({
+      path: fileName,
+      data: await blobToBase64(blob),
+      directory: Directory.Cache
+    });
+    await Share.share({ title, files: [uri] });
+    return;
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Share a link: the native share sheet on Android, the clipboard in the browser
+export const shareUrl = async (url: string, title: string): Promise<'shared' | 'copied'> => {
+  if (Capacitor.isNativePlatform()) {
+    await Share.share({ title, url });
+    return 'shared';
+  }
+
+  await navigator.clipboard.writeText(url);
+  return 'copied';
+};
@@ -0,0 +1,19 @@
+import writeXlsxFile from 'write-excel-file/browser';
+import type { ExportTable } from './reportTables';
+
+// Excel limits sheet names to 31 characters and forbids a few symbols
+const sheetName = (title: string) => title.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31);
+
+// One worksheet per table with a bold, frozen header row
+export const tablesToXlsx = (tables: ExportTable[]): Promise<Blob> =>
+  writeXlsxFile(
+    tables.map((table) => ({
+      sheet: sheetName(table.title),
+      stickyRowsCount: 1,
+      columns: table.headers.map((header) => ({ width: Math.max(header.length + 2, 12) })),
+      data: [
+        table.headers.map((header) => ({ value: header, fontWeight: 'bold' as const })),
+        ...table.rows
+      ]
+    }))
+  ).toBlob();
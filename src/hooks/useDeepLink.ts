@@ -0,0 +1,31 @@
+import { useEffect, useEffectEvent } from 'react';
+import { App } from '@capacitor/app';
+import { Capacitor } from '@capacitor/core';
+import { parseShareUrl, stripShareParam, type ParsedShareLink } from '../storage/shareLink';
+
+// Calls onOpen for every share link the app is opened with: the page URL on
+// the web, the launch URL and any later intents on Android.
+export const useDeepLink = (onOpen: (link: Exclude<ParsedShareLink, { status: 'none' }>) => void) => {
+  const handleUrl = useEffectEvent((url: string) => {
+    const link = parseShareUrl(url);
+    if (link.status !== 'none') onOpen(link);
+  });
+
+  useEffect(() => {
+    if (!Capacitor.isNativePlatform()) {
+      handleUrl(window.location.href);
+      window.history.replaceState(null, '', stripShareParam(window.location.href));
+      return;
+    }
+
+    App.getLaunchUrl()
+      .then((launch) => {
+        if (launch) handleUrl(launch.url);
+      })
+      .catch((error) => console.error('Failed to read launch URL', error));
+    const listener = App.addListener('appUrlOpen', (event) => handleUrl(event.url));
+    return () => {
+      listener.then((handle) => handle.remove());
+    };
+  }, []);
+};
@@ -0,0 +1,58 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import { languages, translations, type Language, type Script } from '../translations';
+import { loadLanguage, persistLanguage } from '../storage/languagePreference';
+
+// Noto Sans face for each Indic script, fetched only once that script is shown.
+// Latin text uses Inter, which index.html always loads.
+const SCRIPT_FONTS: Record<Script, string | null> = {
+  latin: null,
+  devanagari: 'Noto Sans Devanagari',
+  kannada: 'Noto Sans Kannada',
+  tamil: 'Noto Sans Tamil',
+  telugu: 'Noto Sans Telugu',
+  malayalam: 'Noto Sans Malayalam'
+};
+
+const loadedFonts = new Set<string>();
+
+const loadScriptFont = (script: Script) => {
+  const family = SCRIPT_FONTS[script];
+  if (!family || loadedFonts.has(family)) return;
+  loadedFonts.add(family);
+  const link = document.createElement('link');
+  link.rel = 'stylesheet';
+  link.href = `https://fonts.googleapis.com/css2?family=${family.replaceAll(' ', '+')}:wght@400;500;600;700&display=swap`;
+  document.head.appendChild(link);
+};
+
+// The interface language, remembered on this device. A language chosen before
+// the saved one has loaded (e.g. from a share link) wins over it; a share
+// link's language is shown without replacing the remembered choice.
+export const useLanguage = () => {
+  const [language, setLanguageState] = useState<Language>('en');
+  const chosen = useRef(false);
+
+  const onLoaded = useEffectEvent((stored: Language | null) => {
+    if (stored && !chosen.current) setLanguageState(stored);
+  });
+
+  useEffect(() => {
+    loadLanguage().then(onLoaded).catch((error) => console.error('Failed to load language', error));
+  }, []);
+
+  useEffect(() => {
+    const { script } = languages[language];
+    document.documentElement.lang = language;
+    loadScriptFont(script);
+    const family = SCRIPT_FONTS[script];
+    document.documentElement.style.setProperty('--script-font', family ? `'${family}'` : 'system-ui');
+  }, [language]);
+
+  const setLanguage = (next: Language, remember = true) => {
+    chosen.current = true;
+    setLanguageState(next);
+    if (remember) persistLanguage(next).catch((error) => console.error('Failed to save language', error));
+  };
+
+  return { language, setLanguage, t: translations[language] };
+};
@@ -0,0 +1,27 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import type { Language } from '../translations';
+import { createNumberFormatter, defaultNumberFormat, type NumberFormatSettings } from '../utils/numberFormat';
+import { loadNumberFormat, persistNumberFormat } from '../storage/numberFormatPreference';
+
+// How amounts and figures are displayed, remembered on this device
+export const useNumberFormat = (language: Language) => {
+  const [settings, setSettingsState] = useState<NumberFormatSettings>(defaultNumberFormat);
+  // Changes made before the stored settings arrive win over them
+  const changed = useRef(false);
+
+  const onLoaded = useEffectEvent((stored: NumberFormatSettings | null) => {
+    if (stored && !changed.current) setSettingsState(stored);
+  });
+
+  useEffect(() => {
+    loadNumberFormat().then(onLoaded).catch((error) => console.error('Failed to load number format', error));
+  }, []);
+
+  const setSettings = (next: NumberFormatSettings) => {
+    changed.current = true;
+    setSettingsState(next);
+    persistNumberFormat(next).catch((error) => console.error('Failed to save number format', error));
+  };
+
+  return { settings, setSettings, fmt: createNumberFormatter(settings, language) };
+};
@@ -0,0 +1,75 @@
+import { useEffect, useEffectEvent } from 'react';
+import { Capacitor } from '@capacitor/core';
+import { LocalNotifications, type LocalNotificationSchema } from '@capacitor/local-notifications';
+import type { DueEvent, DueEventKind } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import { fillTemplate } from '../utils/format';
+import type { NumberFormatter } from '../utils/numberFormat';
+
+// Android only keeps a limited number of alarms per app, and nobody needs
+// reminders years ahead; later ones are scheduled as the group goes on
+const MAX_REMINDERS = 60;
+const REMINDER_HOUR = 9;
+// Let typing settle before rescheduling everything
+const RESCHEDULE_DELAY_MS = 1000;
+
+const KIND_ORDER: DueEventKind[] = ['contribution', 'payout', 'loanRepayment'];
+
+const buildNotifications = (events: DueEvent[], t: Translations, fmt: NumberFormatter, now: Date): LocalNotificationSchema[] => {
+  const texts: Record<DueEventKind, { title: string; body: string }> = {
+    contribution: { title: t.reminderContributionTitle, body: t.reminderContributionBody },
+    payout: { title: t.reminderPayoutTitle, body: t.reminderPayoutBody },
+    loanRepayment: { title: t.reminderLoanTitle, body: t.reminderLoanBody }
+  };
+
+  return events
+    .map((event) => {
+      const at = new Date(event.date);
+      at.setHours(REMINDER_HOUR, 0, 0, 0);
+      return { event, at };
+    })
+    .filter(({ at }) => at > now)
+    .slice(0, MAX_REMINDERS)
+    .map(({ event, at }) => ({
+      // Stable per month and kind so a reschedule replaces rather than duplicates
+      id: event.month * KIND_ORDER.length + KIND_ORDER.indexOf(event.kind),
+      title: texts[event.kind].title,
+      body: fillTemplate(texts[event.kind].body, { month: event.month, amount: fmt.money(event.amount) }),
+      schedule: { at, allowWhileIdle: true }
+    }));
+};
+
+const syncReminders = async (notifications: LocalNotificationSchema[]) => {
+  const pending = await LocalNotifications.getPending();
+  if (pending.notifications.length > 0) {
+    await LocalNotifications.cancel({ notifications: pending.notifications.map(({ id }) => ({ id })) });
+  }
+  if (notifications.length === 0) return;
+
+  let { display } = await LocalNotifications.checkPermissions();
+  if (display === 'prompt' || display === 'prompt-with-rationale') {
+    ({ display } = await LocalNotifications.requestPermissions());
+  }
+  if (display === 'granted') await LocalNotifications.schedule({ notifications });
+};
+
+// Keeps the device's local notifications in step with the dated schedule on
+// Android. Whenever the due dates, amounts, language or number format change,
+// every pending reminder is cancelled and the upcoming ones are scheduled again.
+export const useReminders = (events: DueEvent[], t: Translations, fmt: NumberFormatter) => {
+  const signature = JSON.stringify([
+    t.reminderContributionTitle,
+    fmt.money(1234567.5),
+    events.map((event) => [event.kind, event.month, event.date.getTime(), event.amount])
+  ]);
+
+  const sync = useEffectEvent(() => {
+    syncReminders(buildNotifications(events, t, fmt, new Date())).catch((error) => console.error('Failed to schedule reminders', error));
+  });
+
+  useEffect(() => {
+    if (!Capacitor.isNativePlatform()) return;
+    const timer = setTimeout(sync, RESCHEDULE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [signature]);
+};
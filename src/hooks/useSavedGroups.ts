@@ -0,0 +1,118 @@
+import { useEffect, useEffectEvent, useRef, useState } from 'react';
+import type { ChitInputs, MonthActuals, Roster } from '../engine/chitEngine';
+import {
+  createGroup,
+  deleteGroup,
+  duplicateGroup,
+  emptySavedGroups,
+  loadSavedGroups,
+  persistSavedGroups,
+  renameGroup,
+  selectGroup,
+  updateActuals,
+  updateGroup,
+  updateRoster,
+  type SavedGroup,
+  type SavedGroupsState
+} from '../storage/savedGroups';
+
+// Keeps the saved-groups store in sync with the calculator. The active group
+// always mirrors the live inputs, so edits are saved without an explicit save.
+export const useSavedGroups = (
+  calcInputs: ChitInputs,
+  loanUtilization: number,
+  applyGroup: (group: SavedGroup) => void
+) => {
+  const [state, setState] = useState<SavedGroupsState>(emptySavedGroups);
+  const [loaded, setLoaded] = useState(false);
+  // Set once the calculator is showing something else (e.g. an opened share link)
+  // so a slow load doesn't replace it with the last active group
+  const detached = useRef(false);
+
+  const onLoaded = useEffectEvent((stored: SavedGroupsState) => {
+    const next = detached.current ? selectGroup(stored, null) : stored;
+    setState(next);
+    setLoaded(true);
+    const active = next.groups.find((group) => group.id === next.activeId);
+    if (active) applyGroup(active);
+  });
+
+  useEffect(() => {
+    loadSavedGroups()
+      .catch((error) => {
+        // Start from an empty store rather than leaving saving switched off for the session
+        console.error('Failed to load saved groups', error);
+        return emptySavedGroups();
+      })
+      .then(onLoaded);
+  }, []);
+
+  // Fold the live inputs into the active group before any transition or write
+  const withLiveInputs = (current: SavedGroupsState) =>
+    current.activeId ? updateGroup(current, current.activeId, calcInputs, loanUtilization) : current;
+
+  useEffect(() => {
+    // Never overwrite stored groups with the empty placeholder used before loading finishes
+    if (!loaded) return;
+    const toStore = state.activeId ? updateGroup(state, state.activeId, calcInputs, loanUtilization) : state;
+    persistSavedGroups(toStore).catch((error) => console.error('Failed to save groups', error));
+  }, [state, loaded, calcInputs, loanUtilization]);
+
+  const saveAsNew = (name: string) => {
+    setState((current) => createGroup(withLiveInputs(current), name, calcInputs, loanUtilization));
+  };
+
+  const activate = (next: SavedGroupsState) => {
+    setState(next);
+    const group = next.groups.find((item) => item.id === next.activeId);
+    if (group) applyGroup(group);
+  };
+
+  const switchTo = (id: string | null) => {
+    activate(selectGroup(withLiveInputs(state), id));
+  };
+
+  const rename = (id: string, name: string) => {
+    setState((current) => renameGroup(current, id, name));
+  };
+
+  const duplicate = (id: string, name: string) => {
+    activate(duplicateGroup(withLiveInputs(state), id, name));
+  };
+
+  // Stop mirroring the live inputs into the active group, keeping its last saved state
+  const detach = () => {
+    detached.current = true;
+    setState((current) => selectGroup(withLiveInputs(current), null));
+  };
+
+  // Rosters belong to saved groups; there is nothing to track for unsaved inputs
+  const setRoster = (roster: Roster) => {
+    setState((current) => (current.activeId ? updateRoster(current, current.activeId, roster) : current));
+  };
+
+  const setActuals = (actuals: MonthActuals[]) => {
+    setState((current) => (current.activeId ? updateActuals(current, current.activeId, actuals) : current));
+  };
+
+  const remove = (id: string) => {
+    setState((current) => deleteGroup(current, id));
+  };
+
+  const activeGroup = state.groups.find((group) => group.id === state.activeId);
+
+  return {
+    groups: state.groups,
+    activeId: state.activeId,
+    roster: activeGroup?.roster ?? null,
+    actuals: activeGroup?.actuals ?? [],
+    saveAsNew,
+    switchTo,
+    rename,
+    duplicate,
+    remove,
+    detach,
+    setRoster,
+    setActuals
+  };
+};
@@ -0,0 +1,366 @@
+// English strings. Every key lives here first; other locales fall back to
+// these for anything they haven't translated.
+export const en = {
+  title: 'ChitFund Calculator',
+  subtitle: 'Calculate chit fund withdrawals with multiple members per month',
+  inputParams: 'Input Parameters',
+  totalMembers: 'Total Members',
+  monthlyContribution: 'Monthly Contribution',
+  firstWithdrawal: 'First Withdrawal Amount (Month 1)',
+  finalWithdrawal: 'Final Withdrawal Amount (Last Month)',
+  monthlyIncrement: 'Monthly Increment',
+  loanInterestRate: 'Loan Interest Rate (% per month)',
+  commissionType: 'Commission Type',
+  monthlyRate: 'Monthly Rate (%)',
+  oneTimeAmount: 'One-Time Amount',
+  calculatedResults: 'Calculated Results',
+  monthlyPool: 'Monthly Pool Amount',
+  commissionPerMonth: 'Commission Per Month',
+  totalCommission: 'Total Commission',
+  netPool: 'Net Pool Per Month (After Commission)',
+  duration: 'Duration (Months)',
+  membersServed: 'Members Served',
+  finalBalance: 'Final Pool Balance',
+  totalLoans: 'Total Loans Given',
+  totalInterest: 'Total Interest Earned',
+  loanUtilization: 'Loan Utilization',
+  adjustUtilization: 'Adjust loan utilization percentage',
+  withdrawalTrends: 'Withdrawal & Pool Trends',
+  loanDistribution: 'Loan Distribution & Interest Earned',
+  contributionVsWithdrawal: 'Contribution vs Withdrawal per Member',
+  withdrawalSchedule: 'Withdrawal Schedule',
+  loanSchedule: 'Loan Schedule',
+  month: 'Month',
+  withdrawalAmount: 'Withdrawal Amount',
+  membersWithdrawing: 'Members Withdrawing',
+  contribution: 'Per Member Contribution',
+  newContributions: 'New Contributions',
+  carryOver: 'Carry Over',
+  availablePool: 'Available Pool',
+  totalWithdrawn: 'Total Withdrawn',
+  remainingPool: 'Remaining Pool',
+  membersLeft: 'Members Left',
+  availableForLoan: 'Available',
+  loanGiven: 'Loan Given',
+  interestEarned: 'Interest Earned',
+  repaymentDue: 'Repayment Due',
+  allMembers: 'All members served!',
+  waiting: 'members waiting',
+  fromPool: 'From remaining pool across all months',
+  atRate: 'At',
+  perMonth: 'per month',
+  afterAll: 'Remaining after all withdrawals',
+  overPeriod: 'Over full',
+  monthPeriod: 'month period',
+  loanAmount: 'Loan Amount',
+  interest: 'Interest',
+  withdrawal: 'Withdrawal',
+  pool: 'Pool',
+  memberReturns: 'Member Returns Overview',
+  memberReturnDetails: 'Member Return Details',
+  member: 'Member',
+  withdrawalMonth: 'Withdrawal Month',
+  totalContribution: 'Total Contribution',
+  netReturn: 'Net Return',
+  returnPercent: 'Return %',
+  splitContribution: 'Split Contribution Analysis',
+  paidBefore: 'Paid Before',
+  paidAfter: 'Paid After',
+  effectiveLoan: 'Effective Loan',
+  effectiveInterest: 'Member Returns (IRR)',
+  effectiveInterestRate: 'Annualized IRR',
+  monthlyIRR: 'Monthly IRR',
+  cashFlowTimeline: 'Cash Flow Timeline',
+  cumulativePosition: 'Cumulative Position',
+  simpleSummary: 'Simple Summary',
+  youPay: 'You Pay',
+  youGet: 'You Get',
+  netPosition: 'Net Position',
+  monthsToRepay: 'Months to Repay',
+  netFlow: 'Net Flow',
+  tapMemberHint: 'Tap a member to see their month-by-month cash flows',
+  close: 'Close',
+  payoutMode: 'Payout Schedule',
+  linearIncrement: 'Linear Increment',
+  linearInterpolation: 'First → Final',
+  stepUp: 'Percentage Step-up',
+  customSchedule: 'Custom per Month',
+  stepUpPercent: 'Monthly Step-up (%)',
+  derivedIncrement: 'Derived monthly increment',
+  customScheduleHint: 'Enter the payout for each month. Empty months repeat the previous amount.',
+  schemeType: 'Chit Type',
+  fixedScheme: 'Fixed Payout',
+  auctionScheme: 'Auction (Bid)',
+  bidMode: 'Bids',
+  bidCurve: 'Assumed Bid Decay',
+  manualBids: 'Bid per Month',
+  startingBidPercent: 'Month 1 Bid Discount (%)',
+  manualBidsHint: 'Enter the winning bid discount for each month as % of the monthly pool.',
+  bidDiscount: 'Bid Discount',
+  dividend: 'Dividend / Member',
+  schemeComparison: 'Fixed vs Auction',
+  payoutRange: 'Payout Range',
+  irrRange: 'Annualized IRR Range',
+  savedGroups: 'Saved Groups',
+  groupName: 'Group name',
+  saveAsNew: 'Save as New',
+  rename: 'Rename',
+  duplicate: 'Duplicate',
+  deleteGroup: 'Delete',
+  unsavedGroup: 'Unsaved calculation',
+  copySuffix: '(copy)',
+  confirmDelete: 'Delete this saved group?',
+  autoSaveHint: 'Changes to the selected group are saved automatically on this device.',
+  calculatorTab: 'Calculator',
+  compareTab: 'Compare',
+  scenario: 'Scenario',
+  addScenario: 'Add Scenario',
+  removeScenario: 'Remove',
+  loadFrom: 'Load from',
+  currentInputs: 'Current calculator',
+  irrDistribution: 'IRR Distribution across Members',
+  minIRR: 'Min IRR',
+  medianIRR: 'Median IRR',
+  maxIRR: 'Max IRR',
+  vsBaseline: 'vs Scenario 1',
+  exportReport: 'Export & Share',
+  exportTable: 'Table for CSV',
+  exportCsv: 'CSV',
+  exportXlsx: 'Excel (XLSX)',
+  exportPdf: 'PDF Report',
+  exporting: 'Preparing…',
+  exportFailed: 'Export failed. Please try again.',
+  reportGenerated: 'Generated on',
+  shareLink: 'Share Link',
+  linkCopied: 'Link copied to clipboard',
+  invalidShareLink: 'The shared link could not be read. Showing the default calculation instead.',
+  errWholeNumber: 'Enter a whole number',
+  errMinMembers: 'At least {limit} members are needed',
+  errMaxMembers: 'At most {limit} members are supported',
+  errPositive: 'Must be greater than zero',
+  errNonNegative: 'Cannot be negative',
+  errPercentRange: 'Enter a percentage between 0 and 100',
+  errExceedsNetPool: 'Cannot exceed the net monthly pool of ₹{limit}',
+  errCommissionExceedsPool: 'Must be less than the total collected over the scheme (₹{limit})',
+  errNegativeEntries: 'Payouts cannot be negative',
+  errBidRange: 'Each bid must be between 0% and 100%',
+  fixInputsHint: 'Fix the highlighted inputs to see the results.',
+  diagnosticsTitle: 'Scheme Warnings',
+  diagNoWithdrawalMonth1: 'With these numbers nobody can withdraw in month 1: the payout of {payout} is more than the {available} available.',
+  diagIdleMonths: 'Nobody can withdraw in month(s) {months}.',
+  diagMembersUnserved: '{remaining} members remain unserved after {months} months.',
+  goalSeek: 'Goal Seek',
+  solveFor: 'Solve for',
+  target: 'Target',
+  targetBreakEven: 'Break even (everyone served, final pool ≈ ₹0)',
+  targetServedBy: 'Everyone served by month',
+  targetLastIrr: 'Last member IRR at least (%)',
+  solve: 'Solve',
+  applySolution: 'Apply',
+  solverResult: 'Solution',
+  lastMemberIrr: 'Last Member IRR',
+  solverAtLimit: 'The target is met all the way to the edge of the search range, so this is the limit of the search rather than of the scheme.',
+  solverNotApplicable: 'This input has no effect with the current chit type, payout schedule or commission type.',
+  solverNeverServesAll: 'No value between {low} and {high} serves every member. At best {served} of {total} get paid.',
+  solverEarliestMonth: 'No value between {low} and {high} works. The earliest every member can be served is month {month}.',
+  solverBestIrr: 'No value between {low} and {high} works. The last member\'s IRR reaches at most {irr}% while everyone is still served.',
+  solverNoSolution: 'No value between {low} and {high} meets the target.',
+  sensitivityAnalysis: 'Sensitivity Analysis',
+  sensitivityHint: 'How the scheme responds to loan utilisation (columns) and loan interest rate (rows). The outlined cell is closest to the current settings.',
+  interestRange: 'Interest rate range (% per month)',
+  rangeFrom: 'From',
+  rangeTo: 'To',
+  monthsToServeAll: 'Months to Serve Everyone',
+  sensitivityUnservedNote: '✗ marks settings where some members are never served (or no IRR can be computed).',
+  loanRisk: 'Loan Default Risk',
+  loanRiskHint: 'The chance that a month\'s loans are not repaid on time, how much of a defaulted repayment is eventually recovered, and how many months late it arrives.',
+  loanDefaultRate: 'Default Probability (%)',
+  loanRecoveryRate: 'Recovered on Default (%)',
+  loanRepaymentDelay: 'Recovery Delay (months)',
+  expectedLoss: 'Expected Loss',
+  lateRecovery: 'Late Recovery',
+  riskSimulation: 'Loan Risk Simulation',
+  riskSimulationHint: 'Members paid by the end of each month across {runs} simulated runs in which each month\'s loans either come back or default. The shaded band covers the middle 80% of runs.',
+  runSimulation: 'Run Simulation',
+  riskBand: '10th–90th percentile',
+  noRiskRun: 'No defaults',
+  expectedRun: 'Expected value',
+  medianRun: 'Median run',
+  percentileRange: 'P10 / P50 / P90',
+  totalLosses: 'Loan Losses',
+  shortfallChance: 'Runs leaving members unpaid',
+  loanTerms: 'Loan Terms',
+  loanTermsHint: 'How long spare-pool loans run and how borrowers pay them back.',
+  loanTenure: 'Tenure (months)',
+  repaymentStyle: 'Repayment',
+  bulletRepayment: 'Bullet (all at the end)',
+  interestOnlyRepayment: 'Interest only',
+  emiRepayment: 'EMI',
+  interestCompounding: 'Interest',
+  simpleInterest: 'Simple / flat',
+  monthlyCompounding: 'Compounded monthly',
+  outstandingPrincipal: 'Outstanding Principal',
+  membersTab: 'Members',
+  roster: 'Member Roster',
+  rosterHint: 'Members of this group, the month each one takes the payout and what they have paid.',
+  rosterNeedsGroup: 'Save these inputs as a group to start tracking its members and payments.',
+  memberName: 'Name',
+  phone: 'Phone',
+  joinedOn: 'Joined On',
+  addMember: 'Add Member',
+  autoAssign: 'Assign Free Months',
+  unassigned: 'Not assigned',
+  removeMember: 'Remove member',
+  noMembersYet: 'No members added yet.',
+  rosterCountMismatch: 'The roster has {count} members but the scheme is set up for {total}.',
+  contributionLedger: 'Contribution Ledger',
+  currentMonth: 'Current Month',
+  expectedAmount: 'Expected',
+  collectedAmount: 'Collected',
+  shortfall: 'Shortfall',
+  amountPaid: 'Amount Paid',
+  markPaid: 'Paid in full',
+  statusPaid: 'Paid',
+  statusPartial: 'Partly paid',
+  statusUnpaid: 'Unpaid',
+  outstandingDues: 'Outstanding Dues',
+  unpaidMonths: 'Unpaid Months',
+  duesToDate: 'Dues up to month {month}',
+  noDues: 'Everyone is paid up.',
+  actualsVsPlan: 'Actuals vs Plan',
+  actualsHint: 'Record each finished month as it really happened. Later months are then projected from the real pool balance instead of the original plan.',
+  noActualsYet: 'No months recorded yet.',
+  recordMonth: 'Record Month {month}',
+  undoLastMonth: 'Remove Last Recorded Month',
+  allMonthsRecorded: 'Every month of this group has been recorded.',
+  paidOut: 'Paid Out',
+  loanRepaymentsReceived: 'Loan Repayments',
+  closingBalance: 'Closing Balance',
+  planLabel: 'Plan',
+  recordedMonth: 'Actual',
+  monthNames: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+  scheduleDates: 'Schedule Dates',
+  scheduleDatesHint: 'Set a start date to see real dates in the schedules. On Android you are also reminded of contributions, payouts and loan repayments on their due dates.',
+  startDate: 'Start Date',
+  collectionDay: 'Collection Day of Month',
+  dueDate: 'Due Date',
+  errInvalidDate: 'Enter a valid date',
+  errDayOfMonth: 'Must be a day between 1 and 31',
+  reminderContributionTitle: 'Contribution due today',
+  reminderContributionBody: 'Month {month}: {amount} per member',
+  reminderPayoutTitle: 'Payout day',
+  reminderPayoutBody: 'Month {month}: {amount} to each member withdrawing',
+  reminderLoanTitle: 'Loan repayments due',
+  reminderLoanBody: 'Month {month}: {amount} expected back from pool loans',
+  taxSettings: 'Taxes',
+  taxSettingsHint: 'GST charged on the foreman\'s commission and TDS withheld from loan interest',
+  gstRate: 'GST on Commission (%)',
+  gstBorneBy: 'GST Paid By',
+  gstByPool: 'The pool, every month',
+  gstByWinner: 'The winner, from their payout',
+  tdsRate: 'TDS on Loan Interest (%)',
+  tdsThreshold: 'TDS Threshold per Year',
+  gst: 'GST',
+  gstFromPayout: 'GST from Payout',
+  tds: 'TDS',
+  totalTaxes: 'Taxes (GST + TDS)',
+  benchmarkComparison: 'Chit vs Alternatives',
+  benchmarkHint: 'What each member\'s contributions would grow to in an FD, RD or SIP against their payout saved the same way, and what borrowing the early part of the payout would cost instead',
+  fdRate: 'FD Rate (% p.a.)',
+  rdRate: 'RD Rate (% p.a.)',
+  sipReturn: 'SIP Return (% p.a.)',
+  personalLoanRate: 'Personal Loan Rate (% p.a.)',
+  fixedDeposit: 'Fixed Deposit',
+  recurringDeposit: 'Recurring Deposit',
+  sip: 'SIP',
+  personalLoan: 'Personal Loan',
+  alternativeValue: 'Alternative',
+  chitValue: 'Chit',
+  loanNeeded: 'Borrow',
+  loanRepays: 'Loan repays',
+  chitRepays: 'Chit repays',
+  chitBetter: 'Chit better',
+  chitWorse: 'Chit worse',
+  irrNoSignChange: 'n/a: one-way cash flows',
+  irrNoRoot: 'n/a: no rate fits',
+  irrAmbiguous: 'nearest of {count} rates',
+  timeValue: 'Time Value',
+  discountRate: 'Discount Rate (% p.a.)',
+  npvAtRate: 'NPV at Discount Rate',
+  mirrLabel: 'MIRR (p.a.)',
+  xirrLabel: 'XIRR (calendar dates)',
+  irrFootnote: 'IRR (Internal Rate of Return) accounts for the timing of all cash flows. See the FD, RD, SIP and personal-loan comparison below to evaluate it.',
+  language: 'Language',
+  numberFormat: 'Number Format',
+  numberFormatHint: 'How amounts are grouped and written, and the currency they are shown in. Amounts are converted at your exchange rate for display; the scheme itself is always worked out in rupees.',
+  digitGrouping: 'Digit Grouping',
+  indianGrouping: 'Lakh / crore (10,00,000)',
+  internationalGrouping: 'International (1,000,000)',
+  amountDisplay: 'Summary Amounts',
+  compactAmounts: 'Compact (12.35 L)',
+  fullAmounts: 'Full (12,34,567)',
+  displayCurrency: 'Currency',
+  exchangeRate: '₹ per 1 {currency}',
+  nativeDigits: 'Write numbers in the digits of this language',
+  foremanTab: 'Foreman',
+  foremanDashboard: 'Foreman Profitability',
+  foremanHint: 'What the organiser earns and risks: the commission, the surplus left in the pool once every member is paid (where loan interest ends up), and own cash put in when the pool falls short.',
+  commissionCollected: 'Commission Collected',
+  poolSurplus: 'Surplus Kept',
+  ownCashAtRisk: 'Own Cash Advanced',
+  exposureMonths: 'In months {months}',
+  noExposure: 'The pool never falls short',
+  foremanProfit: 'Total Earnings',
+  foremanIrr: 'Foreman IRR (p.a.)',
+  noOwnCashAtRisk: 'n/a: no own cash at risk',
+  breakEvenMonth: 'Break-even Month',
+  neverBreaksEven: 'Never breaks even',
+  commissionTypeComparison: 'Monthly % vs One-Time Commission',
+  monthlyCommissionColumn: 'Monthly {rate}%',
+  oneTimeCommissionColumn: 'One-time {amount}',
+  memberSlots: 'Member Shares & Timing',
+  memberSlotsHint: 'Give members a larger or smaller share (a 2× share pays and receives double), or let them join late or leave early. Late joiners pay the instalments they missed when they join; members who leave are not paid out but get back part of what they paid when the group closes. Payouts follow the list order.',
+  customizeMembers: 'Customise members',
+  equalMembers: 'Reset to equal members',
+  share: 'Share',
+  joinMonth: 'Joins in Month',
+  leaveMonth: 'Leaves in Month',
+  staysToEnd: 'Stays',
+  exitRefundPercent: 'Refund to Leavers (%)',
+  exitRefundHint: 'Share of their contributions returned to members who leave, paid when the group closes',
+  shareTimes: '{share}× share',
+  leftInMonth: 'Left in month {month}, refunded',
+  joinedInMonth: 'Joined in month {month}',
+  errSlotCount: 'Exactly {limit} members must stay to the end, one payout a month',
+  errSlotMonths: 'Months must fall between 1 and {limit}, with a member leaving after they join',
+  errWholeTickets: 'Auction schemes need every member to hold exactly one share',
+  withdrawalOrder: 'Withdrawal Order',
+  withdrawalOrderHint: 'Who is offered each month\'s payout. Members keep their numbers; only the order they are paid in changes.',
+  sequenceOrder: 'In list order',
+  lotteryDraw: 'Lottery draw',
+  priorityOrder: 'Priority list',
+  needsOrder: 'Needs-based',
+  lotterySeed: 'Draw seed',
+  newDraw: 'Draw again',
+  lotterySeedHint: 'The same seed always draws the same order, so members can check the draw.',
+  priorityHint: 'Move members up or down; the top of the list is paid first.',
+  needsHint: 'Add the members who asked for an early payout, most urgent first. Everyone else follows in list order.',
+  addRequest: 'Add a request…',
+  moveUp: 'Move up',
+  moveDown: 'Move down',
+  removeRequest: 'Remove request',
+  drawnOrder: 'Payout order: members {order}',
+  fairnessReport: 'Fairness Report',
+  fairnessHint: 'Early withdrawers pay for their advance and late ones earn on their savings. A fair payout ladder keeps the two annual rates close.',
+  earliestWithdrawer: 'Earliest Withdrawer',
+  latestWithdrawer: 'Latest Withdrawer',
+  irrSpread: 'IRR Gap (latest − earliest)',
+  memberInMonth: 'Member {member}, month {month}',
+  percentagePoints: '{value} pts',
+  ladderSuggestions: 'Payout ladder changes that narrow the gap',
+  gapAfterChange: 'Gap becomes {gap}',
+  noLadderSuggestions: 'No change to the payout ladder narrows the gap while still paying everyone.',
+  schemeNotApplicable: '{scheme} can\'t run with these inputs, so its column is left blank.',
+  checkFairness: 'Check Fairness',
+  amountLabel: '{label} ({currency})'
+};
@@ -0,0 +1,366 @@
+import type { LocaleStrings } from '../translations';
+
+export const hi: LocaleStrings = {
+  title: 'चिट फंड कैलकुलेटर',
+  subtitle: 'हर महीने कई सदस्यों की निकासी के साथ चिट फंड की गणना करें',
+  inputParams: 'इनपुट विवरण',
+  totalMembers: 'कुल सदस्य',
+  monthlyContribution: 'मासिक अंशदान',
+  firstWithdrawal: 'पहली निकासी राशि (महीना 1)',
+  finalWithdrawal: 'अंतिम निकासी राशि (अंतिम महीना)',
+  monthlyIncrement: 'मासिक वृद्धि',
+  loanInterestRate: 'ऋण ब्याज दर (% प्रति माह)',
+  commissionType: 'कमीशन का प्रकार',
+  monthlyRate: 'मासिक दर (%)',
+  oneTimeAmount: 'एकमुश्त राशि',
+  calculatedResults: 'गणना के परिणाम',
+  monthlyPool: 'मासिक पूल राशि',
+  commissionPerMonth: 'प्रति माह कमीशन',
+  totalCommission: 'कुल कमीशन',
+  netPool: 'प्रति माह शुद्ध पूल (कमीशन के बाद)',
+  duration: 'अवधि (महीने)',
+  membersServed: 'भुगतान पाए सदस्य',
+  finalBalance: 'अंतिम पूल शेष',
+  totalLoans: 'कुल दिए गए ऋण',
+  totalInterest: 'कुल अर्जित ब्याज',
+  loanUtilization: 'ऋण उपयोग',
+  adjustUtilization: 'ऋण उपयोग प्रतिशत बदलें',
+  withdrawalTrends: 'निकासी और पूल का रुझान',
+  loanDistribution: 'ऋण वितरण और अर्जित ब्याज',
+  contributionVsWithdrawal: 'प्रति सदस्य अंशदान बनाम निकासी',
+  withdrawalSchedule: 'निकासी सारणी',
+  loanSchedule: 'ऋण सारणी',
+  month: 'महीना',
+  withdrawalAmount: 'निकासी राशि',
+  membersWithdrawing: 'निकासी करने वाले सदस्य',
+  contribution: 'प्रति सदस्य अंशदान',
+  newContributions: 'नए अंशदान',
+  carryOver: 'पिछला शेष',
+  availablePool: 'उपलब्ध पूल',
+  totalWithdrawn: 'कुल निकासी',
+  remainingPool: 'शेष पूल',
+  membersLeft: 'बाकी सदस्य',
+  availableForLoan: 'उपलब्ध',
+  loanGiven: 'दिया गया ऋण',
+  interestEarned: 'अर्जित ब्याज',
+  repaymentDue: 'देय पुनर्भुगतान',
+  allMembers: 'सभी सदस्यों को भुगतान हो गया!',
+  waiting: 'सदस्य प्रतीक्षा में',
+  fromPool: 'सभी महीनों के शेष पूल से',
+  atRate: 'दर',
+  perMonth: 'प्रति माह',
+  afterAll: 'सभी निकासियों के बाद शेष',
+  overPeriod: 'पूरी',
+  monthPeriod: 'महीने की अवधि में',
+  loanAmount: 'ऋण राशि',
+  interest: 'ब्याज',
+  withdrawal: 'निकासी',
+  pool: 'पूल',
+  memberReturns: 'सदस्य रिटर्न का सारांश',
+  memberReturnDetails: 'सदस्य रिटर्न विवरण',
+  member: 'सदस्य',
+  withdrawalMonth: 'निकासी का महीना',
+  totalContribution: 'कुल अंशदान',
+  netReturn: 'शुद्ध रिटर्न',
+  returnPercent: 'रिटर्न %',
+  splitContribution: 'विभाजित अंशदान विश्लेषण',
+  paidBefore: 'पहले चुकाया',
+  paidAfter: 'बाद में चुकाया',
+  effectiveLoan: 'प्रभावी ऋण',
+  effectiveInterest: 'सदस्य रिटर्न (IRR)',
+  effectiveInterestRate: 'वार्षिक IRR',
+  monthlyIRR: 'मासिक IRR',
+  cashFlowTimeline: 'नकदी प्रवाह समयरेखा',
+  cumulativePosition: 'संचयी स्थिति',
+  simpleSummary: 'सरल सारांश',
+  youPay: 'आप देते हैं',
+  youGet: 'आपको मिलता है',
+  netPosition: 'शुद्ध स्थिति',
+  monthsToRepay: 'चुकाने के महीने',
+  netFlow: 'शुद्ध प्रवाह',
+  tapMemberHint: 'महीनेवार नकदी प्रवाह देखने के लिए किसी सदस्य पर टैप करें',
+  close: 'बंद करें',
+  payoutMode: 'भुगतान सारणी',
+  linearIncrement: 'समान वृद्धि',
+  linearInterpolation: 'पहला → अंतिम',
+  stepUp: 'प्रतिशत वृद्धि',
+  customSchedule: 'हर महीने अलग',
+  stepUpPercent: 'मासिक वृद्धि (%)',
+  derivedIncrement: 'निकाली गई मासिक वृद्धि',
+  customScheduleHint: 'हर महीने का भुगतान दर्ज करें। खाली महीनों में पिछली राशि दोहराई जाएगी।',
+  schemeType: 'चिट का प्रकार',
+  fixedScheme: 'निश्चित भुगतान',
+  auctionScheme: 'नीलामी (बोली)',
+  bidMode: 'बोलियाँ',
+  bidCurve: 'अनुमानित घटती बोली',
+  manualBids: 'हर महीने की बोली',
+  startingBidPercent: 'महीना 1 की बोली छूट (%)',
+  manualBidsHint: 'हर महीने की जीतने वाली बोली छूट मासिक पूल के % के रूप में दर्ज करें।',
+  bidDiscount: 'बोली छूट',
+  dividend: 'लाभांश / सदस्य',
+  schemeComparison: 'निश्चित बनाम नीलामी',
+  payoutRange: 'भुगतान सीमा',
+  irrRange: 'वार्षिक IRR सीमा',
+  savedGroups: 'सहेजे गए समूह',
+  groupName: 'समूह का नाम',
+  saveAsNew: 'नए रूप में सहेजें',
+  rename: 'नाम बदलें',
+  duplicate: 'प्रतिलिपि बनाएँ',
+  deleteGroup: 'हटाएँ',
+  unsavedGroup: 'बिना सहेजी गणना',
+  copySuffix: '(प्रतिलिपि)',
+  confirmDelete: 'क्या यह सहेजा गया समूह हटाना है?',
+  autoSaveHint: 'चुने गए समूह के बदलाव इस डिवाइस पर अपने आप सहेजे जाते हैं।',
+  calculatorTab: 'कैलकुलेटर',
+  compareTab: 'तुलना',
+  scenario: 'परिदृश्य',
+  addScenario: 'परिदृश्य जोड़ें',
+  removeScenario: 'हटाएँ',
+  loadFrom: 'यहाँ से लोड करें',
+  currentInputs: 'वर्तमान कैलकुलेटर',
+  irrDistribution: 'सदस्यों में IRR का वितरण',
+  minIRR: 'न्यूनतम IRR',
+  medianIRR: 'माध्य IRR',
+  maxIRR: 'अधिकतम IRR',
+  vsBaseline: 'परिदृश्य 1 की तुलना में',
+  exportReport: 'निर्यात और साझा करें',
+  exportTable: 'CSV के लिए तालिका',
+  exportCsv: 'CSV',
+  exportXlsx: 'Excel (XLSX)',
+  exportPdf: 'PDF रिपोर्ट',
+  exporting: 'तैयार हो रहा है…',
+  exportFailed: 'निर्यात विफल रहा। कृपया फिर से प्रयास करें।',
+  reportGenerated: 'बनाने की तिथि',
+  shareLink: 'लिंक साझा करें',
+  linkCopied: 'लिंक क्लिपबोर्ड पर कॉपी हो गया',
+  invalidShareLink: 'साझा किया गया लिंक पढ़ा नहीं जा सका। इसके बजाय डिफ़ॉल्ट गणना दिखाई जा रही है।',
+  errWholeNumber: 'पूर्ण संख्या दर्ज करें',
+  errMinMembers: 'कम से कम {limit} सदस्य चाहिए',
+  errMaxMembers: 'अधिकतम {limit} सदस्य समर्थित हैं',
+  errPositive: 'शून्य से अधिक होना चाहिए',
+  errNonNegative: 'ऋणात्मक नहीं हो सकता',
+  errPercentRange: '0 और 100 के बीच प्रतिशत दर्ज करें',
+  errExceedsNetPool: 'शुद्ध मासिक पूल ₹{limit} से अधिक नहीं हो सकता',
+  errCommissionExceedsPool: 'पूरी योजना में एकत्रित राशि (₹{limit}) से कम होना चाहिए',
+  errNegativeEntries: 'भुगतान ऋणात्मक नहीं हो सकते',
+  errBidRange: 'हर बोली 0% और 100% के बीच होनी चाहिए',
+  fixInputsHint: 'परिणाम देखने के लिए चिह्नित इनपुट ठीक करें।',
+  diagnosticsTitle: 'योजना चेतावनियाँ',
+  diagNoWithdrawalMonth1: 'इन आँकड़ों के साथ महीना 1 में कोई निकासी नहीं कर सकता: {payout} का भुगतान उपलब्ध {available} से अधिक है।',
+  diagIdleMonths: 'महीना {months} में कोई निकासी नहीं कर सकता।',
+  diagMembersUnserved: '{months} महीनों के बाद भी {remaining} सदस्यों को भुगतान नहीं हुआ।',
+  goalSeek: 'लक्ष्य खोज',
+  solveFor: 'किसके लिए हल करें',
+  target: 'लक्ष्य',
+  targetBreakEven: 'बराबरी (सबको भुगतान, अंतिम पूल ≈ ₹0)',
+  targetServedBy: 'इस महीने तक सबको भुगतान',
+  targetLastIrr: 'अंतिम सदस्य का IRR कम से कम (%)',
+  solve: 'हल करें',
+  applySolution: 'लागू करें',
+  solverResult: 'हल',
+  lastMemberIrr: 'अंतिम सदस्य का IRR',
+  solverAtLimit: 'लक्ष्य खोज सीमा के किनारे तक पूरा होता है, इसलिए यह योजना की नहीं बल्कि खोज की सीमा है।',
+  solverNotApplicable: 'वर्तमान चिट प्रकार, भुगतान सारणी या कमीशन प्रकार में इस इनपुट का कोई असर नहीं है।',
+  solverNeverServesAll: '{low} और {high} के बीच कोई भी मान सभी सदस्यों को भुगतान नहीं करता। अधिकतम {total} में से {served} को भुगतान होता है।',
+  solverEarliestMonth: '{low} और {high} के बीच कोई मान काम नहीं करता। सभी सदस्यों को सबसे जल्दी महीना {month} तक भुगतान हो सकता है।',
+  solverBestIrr: '{low} और {high} के बीच कोई मान काम नहीं करता। सबको भुगतान रहते हुए अंतिम सदस्य का IRR अधिकतम {irr}% तक पहुँचता है।',
+  solverNoSolution: '{low} और {high} के बीच कोई मान लक्ष्य पूरा नहीं करता।',
+  sensitivityAnalysis: 'संवेदनशीलता विश्लेषण',
+  sensitivityHint: 'ऋण उपयोग (स्तंभ) और ऋण ब्याज दर (पंक्तियाँ) के साथ योजना कैसे बदलती है। रेखांकित खाना वर्तमान सेटिंग के सबसे करीब है।',
+  interestRange: 'ब्याज दर सीमा (% प्रति माह)',
+  rangeFrom: 'से',
+  rangeTo: 'तक',
+  monthsToServeAll: 'सबको भुगतान में लगे महीने',
+  sensitivityUnservedNote: '✗ उन सेटिंग्स को दर्शाता है जहाँ कुछ सदस्यों को कभी भुगतान नहीं होता (या IRR की गणना नहीं हो सकती)।',
+  loanRisk: 'ऋण चूक जोखिम',
+  loanRiskHint: 'किसी महीने के ऋण समय पर न लौटने की संभावना, चूके हुए पुनर्भुगतान का कितना हिस्सा अंततः वसूल होता है, और वह कितने महीने देर से आता है।',
+  loanDefaultRate: 'चूक की संभावना (%)',
+  loanRecoveryRate: 'चूक पर वसूली (%)',
+  loanRepaymentDelay: 'वसूली में देरी (महीने)',
+  expectedLoss: 'अपेक्षित हानि',
+  lateRecovery: 'देर से वसूली',
+  riskSimulation: 'ऋण जोखिम अनुकरण',
+  riskSimulationHint: '{runs} अनुकरणों में हर महीने के अंत तक भुगतान पाए सदस्य, जिनमें हर महीने के ऋण या तो लौटते हैं या चूक जाते हैं। छायांकित पट्टी बीच के 80% अनुकरणों को दर्शाती है।',
+  runSimulation: 'अनुकरण चलाएँ',
+  riskBand: '10वाँ–90वाँ प्रतिशतक',
+  noRiskRun: 'कोई चूक नहीं',
+  expectedRun: 'अपेक्षित मान',
+  medianRun: 'माध्य अनुकरण',
+  percentileRange: 'P10 / P50 / P90',
+  totalLosses: 'ऋण हानि',
+  shortfallChance: 'जिन अनुकरणों में सदस्यों को भुगतान नहीं हुआ',
+  loanTerms: 'ऋण शर्तें',
+  loanTermsHint: 'बचे पूल से दिए गए ऋण कितने समय चलते हैं और उधारकर्ता उन्हें कैसे चुकाते हैं।',
+  loanTenure: 'अवधि (महीने)',
+  repaymentStyle: 'पुनर्भुगतान',
+  bulletRepayment: 'एकमुश्त (अंत में)',
+  interestOnlyRepayment: 'केवल ब्याज',
+  emiRepayment: 'EMI',
+  interestCompounding: 'ब्याज',
+  simpleInterest: 'साधारण / फ्लैट',
+  monthlyCompounding: 'मासिक चक्रवृद्धि',
+  outstandingPrincipal: 'बकाया मूलधन',
+  membersTab: 'सदस्य',
+  roster: 'सदस्य सूची',
+  rosterHint: 'इस समूह के सदस्य, हर सदस्य के भुगतान पाने का महीना और उन्होंने क्या चुकाया है।',
+  rosterNeedsGroup: 'सदस्यों और भुगतानों का हिसाब रखने के लिए इन इनपुट को समूह के रूप में सहेजें।',
+  memberName: 'नाम',
+  phone: 'फ़ोन',
+  joinedOn: 'जुड़ने की तिथि',
+  addMember: 'सदस्य जोड़ें',
+  autoAssign: 'खाली महीने बाँटें',
+  unassigned: 'तय नहीं',
+  removeMember: 'सदस्य हटाएँ',
+  noMembersYet: 'अभी तक कोई सदस्य नहीं जोड़ा गया।',
+  rosterCountMismatch: 'सूची में {count} सदस्य हैं पर योजना {total} सदस्यों के लिए है।',
+  contributionLedger: 'अंशदान बही',
+  currentMonth: 'वर्तमान महीना',
+  expectedAmount: 'अपेक्षित',
+  collectedAmount: 'एकत्रित',
+  shortfall: 'कमी',
+  amountPaid: 'चुकाई गई राशि',
+  markPaid: 'पूरा चुकाया',
+  statusPaid: 'चुकाया',
+  statusPartial: 'आंशिक',
+  statusUnpaid: 'बकाया',
+  outstandingDues: 'बकाया राशि',
+  unpaidMonths: 'बकाया महीने',
+  duesToDate: 'महीना {month} तक का बकाया',
+  noDues: 'सभी ने पूरा चुका दिया है।',
+  actualsVsPlan: 'वास्तविक बनाम योजना',
+  actualsHint: 'हर पूरे हुए महीने को जैसा हुआ वैसा दर्ज करें। आगे के महीने तब मूल योजना के बजाय वास्तविक पूल शेष से अनुमानित होंगे।',
+  noActualsYet: 'अभी तक कोई महीना दर्ज नहीं हुआ।',
+  recordMonth: 'महीना {month} दर्ज करें',
+  undoLastMonth: 'अंतिम दर्ज महीना हटाएँ',
+  allMonthsRecorded: 'इस समूह के सभी महीने दर्ज हो चुके हैं।',
+  paidOut: 'भुगतान किया',
+  loanRepaymentsReceived: 'ऋण पुनर्भुगतान',
+  closingBalance: 'अंतिम शेष',
+  planLabel: 'योजना',
+  recordedMonth: 'वास्तविक',
+  monthNames: ['जन', 'फ़र', 'मार्च', 'अप्रै', 'मई', 'जून', 'जुला', 'अग', 'सितं', 'अक्टू', 'नवं', 'दिसं'],
+  scheduleDates: 'सारणी की तिथियाँ',
+  scheduleDatesHint: 'सारणियों में असली तिथियाँ देखने के लिए आरंभ तिथि चुनें। Android पर अंशदान, भुगतान और ऋण पुनर्भुगतान की देय तिथि पर आपको याद भी दिलाया जाएगा।',
+  startDate: 'आरंभ तिथि',
+  collectionDay: 'महीने का संग्रह दिवस',
+  dueDate: 'देय तिथि',
+  errInvalidDate: 'मान्य तिथि दर्ज करें',
+  errDayOfMonth: '1 से 31 के बीच का दिन होना चाहिए',
+  reminderContributionTitle: 'आज अंशदान देय है',
+  reminderContributionBody: 'महीना {month}: प्रति सदस्य {amount}',
+  reminderPayoutTitle: 'भुगतान का दिन',
+  reminderPayoutBody: 'महीना {month}: निकासी करने वाले हर सदस्य को {amount}',
+  reminderLoanTitle: 'ऋण पुनर्भुगतान देय',
+  reminderLoanBody: 'महीना {month}: पूल ऋणों से {amount} वापस अपेक्षित',
+  taxSettings: 'कर',
+  taxSettingsHint: 'फ़ोरमैन के कमीशन पर लगने वाला GST और ऋण ब्याज से काटा गया TDS',
+  gstRate: 'कमीशन पर GST (%)',
+  gstBorneBy: 'GST कौन चुकाता है',
+  gstByPool: 'पूल, हर महीने',
+  gstByWinner: 'विजेता, अपने भुगतान से',
+  tdsRate: 'ऋण ब्याज पर TDS (%)',
+  tdsThreshold: 'प्रति वर्ष TDS सीमा',
+  gst: 'GST',
+  gstFromPayout: 'भुगतान से GST',
+  tds: 'TDS',
+  totalTaxes: 'कर (GST + TDS)',
+  benchmarkComparison: 'चिट बनाम विकल्प',
+  benchmarkHint: 'हर सदस्य का अंशदान FD, RD या SIP में कितना बढ़ता, उसी तरह बचाए गए भुगतान की तुलना में, और भुगतान का शुरुआती हिस्सा उधार लेने में कितना खर्च आता',
+  fdRate: 'FD दर (% प्रति वर्ष)',
+  rdRate: 'RD दर (% प्रति वर्ष)',
+  sipReturn: 'SIP रिटर्न (% प्रति वर्ष)',
+  personalLoanRate: 'व्यक्तिगत ऋण दर (% प्रति वर्ष)',
+  fixedDeposit: 'सावधि जमा',
+  recurringDeposit: 'आवर्ती जमा',
+  sip: 'SIP',
+  personalLoan: 'व्यक्तिगत ऋण',
+  alternativeValue: 'विकल्प',
+  chitValue: 'चिट',
+  loanNeeded: 'उधार',
+  loanRepays: 'ऋण में चुकाना',
+  chitRepays: 'चिट में चुकाना',
+  chitBetter: 'चिट बेहतर',
+  chitWorse: 'चिट कमज़ोर',
+  irrNoSignChange: 'लागू नहीं: एकतरफ़ा नकदी प्रवाह',
+  irrNoRoot: 'लागू नहीं: कोई दर नहीं बैठती',
+  irrAmbiguous: '{count} दरों में सबसे निकट',
+  timeValue: 'समय मूल्य',
+  discountRate: 'छूट दर (% प्रति वर्ष)',
+  npvAtRate: 'छूट दर पर NPV',
+  mirrLabel: 'MIRR (प्रति वर्ष)',
+  xirrLabel: 'XIRR (कैलेंडर तिथियाँ)',
+  irrFootnote: 'IRR (आंतरिक प्रतिफल दर) सभी नकदी प्रवाहों के समय को ध्यान में रखता है। इसे परखने के लिए नीचे FD, RD, SIP और व्यक्तिगत ऋण की तुलना देखें।',
+  language: 'भाषा',
+  numberFormat: 'संख्या प्रारूप',
+  numberFormatHint: 'राशियों को कैसे समूहित करके लिखा जाए और किस मुद्रा में दिखाया जाए। दिखाने के लिए राशियाँ आपकी विनिमय दर पर बदली जाती हैं; योजना की गणना हमेशा रुपयों में होती है।',
+  digitGrouping: 'अंक समूहन',
+  indianGrouping: 'लाख / करोड़ (10,00,000)',
+  internationalGrouping: 'अंतरराष्ट्रीय (1,000,000)',
+  amountDisplay: 'सारांश राशियाँ',
+  compactAmounts: 'संक्षिप्त (12.35 L)',
+  fullAmounts: 'पूर्ण (12,34,567)',
+  displayCurrency: 'मुद्रा',
+  exchangeRate: '1 {currency} के लिए ₹',
+  nativeDigits: 'संख्याएँ देवनागरी अंकों में लिखें',
+  foremanTab: 'फ़ोरमैन',
+  foremanDashboard: 'फ़ोरमैन की कमाई',
+  foremanHint: 'आयोजक क्या कमाता है और किस जोखिम में है: कमीशन, सभी सदस्यों के भुगतान के बाद पूल में बची राशि (जिसमें ऋण का ब्याज आता है), और पूल कम पड़ने पर लगाई गई अपनी रकम।',
+  commissionCollected: 'वसूला गया कमीशन',
+  poolSurplus: 'बची हुई राशि',
+  ownCashAtRisk: 'लगाई गई अपनी रकम',
+  exposureMonths: 'महीने {months} में',
+  noExposure: 'पूल कभी कम नहीं पड़ता',
+  foremanProfit: 'कुल कमाई',
+  foremanIrr: 'फ़ोरमैन का IRR (वार्षिक)',
+  noOwnCashAtRisk: 'लागू नहीं: अपनी कोई रकम जोखिम में नहीं',
+  breakEvenMonth: 'ब्रेक-ईवन महीना',
+  neverBreaksEven: 'कभी ब्रेक-ईवन नहीं',
+  commissionTypeComparison: 'मासिक % बनाम एकमुश्त कमीशन',
+  monthlyCommissionColumn: 'मासिक {rate}%',
+  oneTimeCommissionColumn: 'एकमुश्त {amount}',
+  memberSlots: 'सदस्य हिस्सा और समय',
+  memberSlotsHint: 'सदस्यों को बड़ा या छोटा हिस्सा दें (2× हिस्सा दोगुना भरता और पाता है), या उन्हें देर से जुड़ने या बीच में छोड़ने दें। देर से जुड़ने वाले छूटी किस्तें जुड़ते समय भरते हैं; छोड़ने वालों को भुगतान नहीं मिलता, पर समूह बंद होने पर उनकी जमा का एक भाग लौटाया जाता है। भुगतान सूची के क्रम में होते हैं।',
+  customizeMembers: 'सदस्य अनुकूलित करें',
+  equalMembers: 'बराबर सदस्यों पर लौटें',
+  share: 'हिस्सा',
+  joinMonth: 'जुड़ने का महीना',
+  leaveMonth: 'छोड़ने का महीना',
+  staysToEnd: 'अंत तक',
+  exitRefundPercent: 'छोड़ने वालों को वापसी (%)',
+  exitRefundHint: 'छोड़ने वाले सदस्यों को उनकी जमा का कितना भाग लौटाया जाता है, समूह बंद होने पर',
+  shareTimes: '{share}× हिस्सा',
+  leftInMonth: 'महीने {month} में छोड़ा, वापसी मिली',
+  joinedInMonth: 'महीने {month} में जुड़े',
+  errSlotCount: 'ठीक {limit} सदस्यों को अंत तक रहना होगा, हर महीने एक भुगतान',
+  errSlotMonths: 'महीने 1 से {limit} के बीच हों, और छोड़ना जुड़ने के बाद हो',
+  errWholeTickets: 'नीलामी योजना में हर सदस्य का ठीक एक हिस्सा होना चाहिए',
+  withdrawalOrder: 'निकासी क्रम',
+  withdrawalOrderHint: 'हर महीने का भुगतान किसे मिले। सदस्यों के नंबर वही रहते हैं; केवल भुगतान का क्रम बदलता है।',
+  sequenceOrder: 'सूची के क्रम में',
+  lotteryDraw: 'लॉटरी ड्रॉ',
+  priorityOrder: 'प्राथमिकता सूची',
+  needsOrder: 'ज़रूरत के आधार पर',
+  lotterySeed: 'ड्रॉ सीड',
+  newDraw: 'फिर से ड्रॉ करें',
+  lotterySeedHint: 'एक ही सीड से हमेशा वही क्रम निकलता है, इसलिए सदस्य ड्रॉ जाँच सकते हैं।',
+  priorityHint: 'सदस्यों को ऊपर या नीचे करें; सूची में सबसे ऊपर वाले को पहले भुगतान मिलता है।',
+  needsHint: 'जल्दी भुगतान माँगने वाले सदस्य जोड़ें, सबसे ज़रूरी पहले। बाकी सब सूची के क्रम में आते हैं।',
+  addRequest: 'अनुरोध जोड़ें…',
+  moveUp: 'ऊपर करें',
+  moveDown: 'नीचे करें',
+  removeRequest: 'अनुरोध हटाएँ',
+  drawnOrder: 'भुगतान क्रम: सदस्य {order}',
+  fairnessReport: 'निष्पक्षता रिपोर्ट',
+  fairnessHint: 'जल्दी निकालने वाले अग्रिम की कीमत चुकाते हैं और देर से निकालने वाले बचत पर कमाते हैं। निष्पक्ष भुगतान सीढ़ी दोनों वार्षिक दरों को पास रखती है।',
+  earliestWithdrawer: 'सबसे पहले निकालने वाले',
+  latestWithdrawer: 'सबसे बाद में निकालने वाले',
+  irrSpread: 'IRR अंतर (अंतिम − पहला)',
+  memberInMonth: 'सदस्य {member}, महीना {month}',
+  percentagePoints: '{value} अंक',
+  ladderSuggestions: 'अंतर घटाने वाले भुगतान सीढ़ी बदलाव',
+  gapAfterChange: 'अंतर {gap} हो जाता है',
+  noLadderSuggestions: 'भुगतान सीढ़ी का कोई बदलाव सभी को भुगतान करते हुए अंतर नहीं घटाता।',
+  schemeNotApplicable: '{scheme} इन इनपुट के साथ नहीं चल सकती, इसलिए उसका कॉलम खाली है।',
+  checkFairness: 'निष्पक्षता जाँचें',
+  amountLabel: '{label} ({currency})'
+};
@@ -0,0 +1,366 @@
+import type { LocaleStrings } from '../translations';
+
+export const kn: LocaleStrings = {
+  title: 'ಚೀಟಿ ಲೆಕ್ಕಾಚಾರ',
+  subtitle: 'ಚೀಟಿ ವ್ಯವಹಾರದ ಉಳಿತಾಯ ಮತ್ತು ಲೆಕ್ಕ',
+  inputParams: 'ಕೆಳಗಿನ ವಿವರಗಳನ್ನು ತುಂಬಿಸಿ',
+  totalMembers: 'ಒಟ್ಟು ಸದಸ್ಯರು',
+  monthlyContribution: 'ತಿಂಗಳ ಕಂತು ',
+  firstWithdrawal: 'ಮೊದಲನೇ ಚೀಟಿ',
+  finalWithdrawal: 'ಕೊನೆಯ ಚೀಟಿ (ಕೊನೆಯ ತಿಂಗಳು)',
+  monthlyIncrement: 'ತಿಂಗಳ ಏರಿಕೆ ಹಣ',
+  loanInterestRate: 'ಬಡ್ಡಿ ದರ',
+  commissionType: 'ಕಮಿಷನ್ ರೀತಿ',
+  monthlyRate: 'ತಿಂಗಳ ಕಮಿಷನ್  (%)',
+  oneTimeAmount: 'ಒಟ್ಟು ಕಮಿಷನ್ ಮೊತ್ತ',
+  calculatedResults: 'ಲೆಕ್ಕಾಚಾರ ಫಲಿತಾಂಶಗಳು',
+  monthlyPool: 'ತಿಂಗಳ ಸೇರುವ ಒಟ್ಟು ಚೀಟಿ ಮೊತ್ತ',
+  commissionPerMonth: 'ಪ್ರತಿ ತಿಂಗಳ ಕಮಿಷನ್',
+  totalCommission: 'ಒಟ್ಟು ಕಮಿಷನ್',
+  netPool: 'ನಿವ್ವಳ ಪೂಲ್ ಪ್ರತಿ ತಿಂಗಳು (ಕಮಿಷನ್ ನಂತರ)',
+  duration: 'ಒಟ್ಟು ಚೀಟಿ ತಿಂಗಳುಗಳು',
+  membersServed: 'ಚೀಟಿ ಪಡೆದ ಸದಸ್ಯರು',
+  finalBalance: 'ಕೊನೆಯ ಪೂಲ್ ಬಾಲೆನ್ಸ್',
+  totalLoans: 'ಬಡ್ಡಿಗೆ ನೀಡಿದ ಒಟ್ಟು ಹಣ',
+  totalInterest: 'ಗಳಿಸಿದ ಒಟ್ಟು ಬಡ್ಡಿ',
+  loanUtilization: 'ಪ್ರತಿ ತಿಂಗಳು ಬಡ್ಡಿಗೆ ಹೋಗುವ ಶೇಕಡಾವಾರು ಹಣ',
+  adjustUtilization: '% ಸರಿಹೊಂದಿಸಿ ಬಡ್ಡಿ ಹಣ ಅಂದಾಜುಮಾಡಿ',
+  withdrawalTrends: 'ಹಿಂಪಡೆಯುವಿಕೆ ಮತ್ತು ತಿಂಗಳಿನ ಚೀಟಿ ಹಣದ ಗ್ರಾಫ್',
+  loanDistribution: 'ಸಾಲ ವಿತರಣೆ ಮತ್ತು ಬಡ್ಡಿ ಗಳಿಕೆ',
+  contributionVsWithdrawal: 'ಪ್ರತಿ ಸದಸ್ಯರ ಕಟ್ಟುವಿಕೆ ಹಾಗೂ ಹಿಂಪಡೆಯುವಿಕೆ',
+  withdrawalSchedule: 'ಹಿಂಪಡೆಯುವಿಕೆ ವೇಳಾಪಟ್ಟಿ',
+  loanSchedule: 'ಸಾಲದ ವೇಳಾಪಟ್ಟಿ',
+  month: 'ತಿಂಗಳು',
+  withdrawalAmount: 'ಹಿಂಪಡೆಯುವ ಮೊತ್ತ',
+  membersWithdrawing: 'ಹಿಂಪಡೆಯುವ ಸದಸ್ಯರು',
+  contribution: 'ಪ್ರತಿ ಸದಸ್ಯರ ನೀಡುವಿಕೆ',
+  newContributions: 'ಹೊಸ ನೀಡುವಿಕೆ',
+  carryOver: 'ತಿಂಗಳ ಮಿಕ್ಕಿದ ಹಣ',
+  availablePool: 'ಸದರಿ ಚೀಟಿಯ ಒಟ್ಟು ಹಣ',
+  totalWithdrawn: 'ಒಟ್ಟು ಹಿಂಪಡೆಯಲಾಗಿದೆ',
+  remainingPool: 'ಸದರಿ ಚೀಟಿಯ ಉಳಿದ ಹಣ',
+  membersLeft: 'ಉಳಿದ ಸದಸ್ಯರು',
+  availableForLoan: 'ಲಭ್ಯವಿದೆ',
+  loanGiven: 'ಸಾಲ ನೀಡಲಾಗಿದೆ',
+  interestEarned: 'ಬಡ್ಡಿ ಗಳಿಸಿದೆ',
+  repaymentDue: 'ಮರುಪಾವತಿ ಬಾಕಿ',
+  allMembers: 'ಎಲ್ಲಾ ಸದಸ್ಯರಿಗೆ ಸೇವೆ ಸಲ್ಲಿಸಲಾಗಿದೆ!',
+  waiting: 'ಸದಸ್ಯರು ಕಾಯುತ್ತಿದ್ದಾರೆ',
+  fromPool: 'ಎಲ್ಲಾ ತಿಂಗಳುಗಳಲ್ಲಿ ಉಳಿದ ಪೂಲ್‌ನಿಂದ',
+  atRate: '',
+  perMonth: 'ಪ್ರತಿ ತಿಂಗಳು',
+  afterAll: 'ಎಲ್ಲಾ ಹಿಂಪಡೆಯುವಿಕೆಗಳ ನಂತರ ಉಳಿದಿದೆ',
+  overPeriod: 'ಪೂರ್ಣ',
+  monthPeriod: 'ತಿಂಗಳ ಅವಧಿಯ ಮೇಲೆ',
+  loanAmount: 'ಸಾಲದ ಮೊತ್ತ',
+  interest: 'ಬಡ್ಡಿ',
+  withdrawal: 'ಹಿಂಪಡೆಯುವಿಕೆ',
+  pool: 'ಪೂಲ್',
+  memberReturns: 'ಸದಸ್ಯರ ಲಾಭ ನಷ್ಟ',
+  memberReturnDetails: 'ಸದಸ್ಯರ ಲಾಭ ನಷ್ಟ ವಿವರ',
+  member: 'ಸದಸ್ಯ',
+  withdrawalMonth: 'ಹಿಂಪಡೆಯುವ ತಿಂಗಳು',
+  totalContribution: 'ಒಟ್ಟು ಕಟ್ಟಿದ ಹಣ',
+  netReturn: 'ಗಳಿಕೆ/ನಷ್ಟ',
+  returnPercent: 'ಲಾಭ %',
+  splitContribution: 'ವಿಭಜಿತ ಕೊಡುಗೆ ವಿಶ್ಲೇಷಣೆ',
+  paidBefore: 'ಮೊದಲು ಕಟ್ಟಿದ್ದು',
+  paidAfter: 'ನಂತರ ಕಟ್ಟಿದ್ದು',
+  effectiveLoan: 'ಉಳಿದ ಕಂತುಗಳ ಒಟ್ಟು ಹಣ',
+  effectiveInterest: 'ಸದಸ್ಯರ ಲಾಭ (IRR)',
+  effectiveInterestRate: 'ವಾರ್ಷಿಕ IRR',
+  monthlyIRR: 'ಮಾಸಿಕ IRR',
+  cashFlowTimeline: 'ಹಣದ ಹರಿವು',
+  cumulativePosition: 'ಒಟ್ಟು ಸ್ಥಾನ',
+  simpleSummary: 'ಸರಳ ಸಾರಾಂಶ',
+  youPay: 'ನೀವು ಕಟ್ಟುವುದು',
+  youGet: 'ನೀವು ಪಡೆಯುವುದು',
+  netPosition: 'ನಿವ್ವಳ ಸ್ಥಾನ',
+  monthsToRepay: 'ಉಳಿದ ಒಟ್ಟು ಕಂತುಗಳು',
+  netFlow: 'ನಿವ್ವಳ ಹರಿವು',
+  tapMemberHint: 'ತಿಂಗಳವಾರು ಹಣದ ಹರಿವು ನೋಡಲು ಸದಸ್ಯರನ್ನು ಒತ್ತಿ',
+  close: 'ಮುಚ್ಚಿ',
+  payoutMode: 'ಚೀಟಿ ಮೊತ್ತದ ವಿಧಾನ',
+  linearIncrement: 'ತಿಂಗಳ ಏರಿಕೆ',
+  linearInterpolation: 'ಮೊದಲ → ಕೊನೆಯ ಚೀಟಿ',
+  stepUp: 'ಶೇಕಡಾವಾರು ಏರಿಕೆ',
+  customSchedule: 'ಪ್ರತಿ ತಿಂಗಳ ಮೊತ್ತ',
+  stepUpPercent: 'ತಿಂಗಳ ಏರಿಕೆ (%)',
+  derivedIncrement: 'ಲೆಕ್ಕ ಹಾಕಿದ ತಿಂಗಳ ಏರಿಕೆ',
+  customScheduleHint: 'ಪ್ರತಿ ತಿಂಗಳ ಚೀಟಿ ಮೊತ್ತ ನಮೂದಿಸಿ. ಖಾಲಿ ತಿಂಗಳುಗಳಿಗೆ ಹಿಂದಿನ ಮೊತ್ತ ಬಳಸಲಾಗುತ್ತದೆ.',
+  schemeType: 'ಚೀಟಿ ವಿಧ',
+  fixedScheme: 'ನಿಗದಿತ ಚೀಟಿ',
+  auctionScheme: 'ಹರಾಜು ಚೀಟಿ',
+  bidMode: 'ಬಿಡ್ ವಿಧಾನ',
+  bidCurve: 'ಅಂದಾಜು ಬಿಡ್ ಇಳಿಕೆ',
+  manualBids: 'ಪ್ರತಿ ತಿಂಗಳ ಬಿಡ್',
+  startingBidPercent: 'ಮೊದಲ ತಿಂಗಳ ಬಿಡ್ ರಿಯಾಯಿತಿ (%)',
+  manualBidsHint: 'ಪ್ರತಿ ತಿಂಗಳ ಗೆದ್ದ ಬಿಡ್ ರಿಯಾಯಿತಿಯನ್ನು ತಿಂಗಳ ಚೀಟಿ ಮೊತ್ತದ % ಆಗಿ ನಮೂದಿಸಿ.',
+  bidDiscount: 'ಬಿಡ್ ರಿಯಾಯಿತಿ',
+  dividend: 'ಪ್ರತಿ ಸದಸ್ಯರ ಡಿವಿಡೆಂಡ್',
+  schemeComparison: 'ನಿಗದಿತ ಮತ್ತು ಹರಾಜು ಹೋಲಿಕೆ',
+  payoutRange: 'ಚೀಟಿ ಮೊತ್ತದ ವ್ಯಾಪ್ತಿ',
+  irrRange: 'ವಾರ್ಷಿಕ IRR ವ್ಯಾಪ್ತಿ',
+  savedGroups: 'ಉಳಿಸಿದ ಚೀಟಿ ಗುಂಪುಗಳು',
+  groupName: 'ಗುಂಪಿನ ಹೆಸರು',
+  saveAsNew: 'ಹೊಸದಾಗಿ ಉಳಿಸಿ',
+  rename: 'ಹೆಸರು ಬದಲಿಸಿ',
+  duplicate: 'ನಕಲು ಮಾಡಿ',
+  deleteGroup: 'ಅಳಿಸಿ',
+  unsavedGroup: 'ಉಳಿಸದ ಲೆಕ್ಕಾಚಾರ',
+  copySuffix: '(ನಕಲು)',
+  confirmDelete: 'ಈ ಉಳಿಸಿದ ಗುಂಪನ್ನು ಅಳಿಸಬೇಕೆ?',
+  autoSaveHint: 'ಆಯ್ಕೆ ಮಾಡಿದ ಗುಂಪಿನ ಬದಲಾವಣೆಗಳು ಈ ಸಾಧನದಲ್ಲಿ ತಾನಾಗಿಯೇ ಉಳಿಯುತ್ತವೆ.',
+  calculatorTab: 'ಲೆಕ್ಕಾಚಾರ',
+  compareTab: 'ಹೋಲಿಕೆ',
+  scenario: 'ಆಯ್ಕೆ',
+  addScenario: 'ಆಯ್ಕೆ ಸೇರಿಸಿ',
+  removeScenario: 'ತೆಗೆದುಹಾಕಿ',
+  loadFrom: 'ಇಲ್ಲಿಂದ ತುಂಬಿಸಿ',
+  currentInputs: 'ಈಗಿನ ಲೆಕ್ಕಾಚಾರ',
+  irrDistribution: 'ಸದಸ್ಯರಲ್ಲಿ IRR ಹಂಚಿಕೆ',
+  minIRR: 'ಕನಿಷ್ಠ IRR',
+  medianIRR: 'ಮಧ್ಯಮ IRR',
+  maxIRR: 'ಗರಿಷ್ಠ IRR',
+  vsBaseline: 'ಆಯ್ಕೆ 1 ಕ್ಕೆ ಹೋಲಿಸಿ',
+  exportReport: 'ರಫ್ತು ಮತ್ತು ಹಂಚಿಕೆ',
+  exportTable: 'CSV ಗಾಗಿ ಪಟ್ಟಿ',
+  exportCsv: 'CSV',
+  exportXlsx: 'ಎಕ್ಸೆಲ್ (XLSX)',
+  exportPdf: 'PDF ವರದಿ',
+  exporting: 'ಸಿದ್ಧಪಡಿಸಲಾಗುತ್ತಿದೆ…',
+  exportFailed: 'ರಫ್ತು ವಿಫಲವಾಗಿದೆ. ಮತ್ತೆ ಪ್ರಯತ್ನಿಸಿ.',
+  reportGenerated: 'ರಚಿಸಿದ ದಿನಾಂಕ',
+  shareLink: 'ಲಿಂಕ್ ಹಂಚಿಕೊಳ್ಳಿ',
+  linkCopied: 'ಲಿಂಕ್ ನಕಲಿಸಲಾಗಿದೆ',
+  invalidShareLink: 'ಹಂಚಿದ ಲಿಂಕ್ ಓದಲು ಸಾಧ್ಯವಾಗಲಿಲ್ಲ. ಮೂಲ ಲೆಕ್ಕಾಚಾರವನ್ನು ತೋರಿಸಲಾಗುತ್ತಿದೆ.',
+  errWholeNumber: 'ಪೂರ್ಣ ಸಂಖ್ಯೆಯನ್ನು ನಮೂದಿಸಿ',
+  errMinMembers: 'ಕನಿಷ್ಠ {limit} ಸದಸ್ಯರು ಬೇಕು',
+  errMaxMembers: 'ಗರಿಷ್ಠ {limit} ಸದಸ್ಯರವರೆಗೆ ಮಾತ್ರ ಬೆಂಬಲವಿದೆ',
+  errPositive: 'ಸೊನ್ನೆಗಿಂತ ಹೆಚ್ಚಿರಬೇಕು',
+  errNonNegative: 'ಋಣಾತ್ಮಕವಾಗಿರಬಾರದು',
+  errPercentRange: '0 ರಿಂದ 100 ರೊಳಗಿನ ಶೇಕಡಾ ನಮೂದಿಸಿ',
+  errExceedsNetPool: 'ತಿಂಗಳ ನಿವ್ವಳ ಪೂಲ್ ₹{limit} ಕ್ಕಿಂತ ಹೆಚ್ಚಿರಬಾರದು',
+  errCommissionExceedsPool: 'ಚೀಟಿಯ ಅವಧಿಯಲ್ಲಿ ಸಂಗ್ರಹವಾಗುವ ಒಟ್ಟು ಮೊತ್ತಕ್ಕಿಂತ (₹{limit}) ಕಡಿಮೆ ಇರಬೇಕು',
+  errNegativeEntries: 'ಚೀಟಿ ಮೊತ್ತ ಋಣಾತ್ಮಕವಾಗಿರಬಾರದು',
+  errBidRange: 'ಪ್ರತಿ ಬಿಡ್ 0% ರಿಂದ 100% ರೊಳಗಿರಬೇಕು',
+  fixInputsHint: 'ಫಲಿತಾಂಶ ನೋಡಲು ಗುರುತಿಸಿದ ವಿವರಗಳನ್ನು ಸರಿಪಡಿಸಿ.',
+  diagnosticsTitle: 'ಚೀಟಿ ಎಚ್ಚರಿಕೆಗಳು',
+  diagNoWithdrawalMonth1: 'ಈ ಸಂಖ್ಯೆಗಳಲ್ಲಿ 1ನೇ ತಿಂಗಳು ಯಾರೂ ಚೀಟಿ ಪಡೆಯಲಾಗದು: {payout} ಚೀಟಿ ಮೊತ್ತ ಲಭ್ಯವಿರುವ {available} ಕ್ಕಿಂತ ಹೆಚ್ಚು.',
+  diagIdleMonths: 'ತಿಂಗಳು {months} ರಲ್ಲಿ ಯಾರೂ ಚೀಟಿ ಪಡೆಯಲಾಗದು.',
+  diagMembersUnserved: '{months} ತಿಂಗಳ ನಂತರವೂ {remaining} ಸದಸ್ಯರು ಚೀಟಿ ಪಡೆದಿಲ್ಲ.',
+  goalSeek: 'ಗುರಿ ಹುಡುಕಿ',
+  solveFor: 'ಯಾವುದನ್ನು ಕಂಡುಹಿಡಿಯಬೇಕು',
+  target: 'ಗುರಿ',
+  targetBreakEven: 'ಸಮತೋಲನ (ಎಲ್ಲರಿಗೂ ಚೀಟಿ, ಕೊನೆಯ ಪೂಲ್ ≈ ₹0)',
+  targetServedBy: 'ಈ ತಿಂಗಳೊಳಗೆ ಎಲ್ಲರಿಗೂ ಚೀಟಿ',
+  targetLastIrr: 'ಕೊನೆಯ ಸದಸ್ಯರ ಕನಿಷ್ಠ IRR (%)',
+  solve: 'ಲೆಕ್ಕ ಹಾಕಿ',
+  applySolution: 'ಅನ್ವಯಿಸಿ',
+  solverResult: 'ಪರಿಹಾರ',
+  lastMemberIrr: 'ಕೊನೆಯ ಸದಸ್ಯರ IRR',
+  solverAtLimit: 'ಹುಡುಕಾಟದ ಮಿತಿಯವರೆಗೂ ಗುರಿ ತಲುಪುತ್ತದೆ, ಆದ್ದರಿಂದ ಇದು ಹುಡುಕಾಟದ ಮಿತಿ, ಚೀಟಿಯದಲ್ಲ.',
+  solverNotApplicable: 'ಈಗಿನ ಚೀಟಿ ರೀತಿ, ಚೀಟಿ ವೇಳಾಪಟ್ಟಿ ಅಥವಾ ಕಮಿಷನ್ ರೀತಿಯಲ್ಲಿ ಈ ವಿವರ ಪರಿಣಾಮ ಬೀರುವುದಿಲ್ಲ.',
+  solverNeverServesAll: '{low} ರಿಂದ {high} ರೊಳಗಿನ ಯಾವ ಮೊತ್ತದಲ್ಲೂ ಎಲ್ಲರಿಗೂ ಚೀಟಿ ಸಿಗುವುದಿಲ್ಲ. ಹೆಚ್ಚೆಂದರೆ {total} ರಲ್ಲಿ {served} ಸದಸ್ಯರಿಗೆ ಸಿಗುತ್ತದೆ.',
+  solverEarliestMonth: '{low} ರಿಂದ {high} ರೊಳಗೆ ಪರಿಹಾರವಿಲ್ಲ. ಎಲ್ಲರಿಗೂ ಚೀಟಿ ಸಿಗುವ ಮೊದಲ ತಿಂಗಳು {month}.',
+  solverBestIrr: '{low} ರಿಂದ {high} ರೊಳಗೆ ಪರಿಹಾರವಿಲ್ಲ. ಎಲ್ಲರಿಗೂ ಚೀಟಿ ಸಿಗುವಾಗ ಕೊನೆಯ ಸದಸ್ಯರ IRR ಗರಿಷ್ಠ {irr}% ಮಾತ್ರ.',
+  solverNoSolution: '{low} ರಿಂದ {high} ರೊಳಗಿನ ಯಾವ ಮೊತ್ತವೂ ಗುರಿ ತಲುಪುವುದಿಲ್ಲ.',
+  sensitivityAnalysis: 'ಸಂವೇದನಾ ವಿಶ್ಲೇಷಣೆ',
+  sensitivityHint: 'ಬಡ್ಡಿಗೆ ಹೋಗುವ ಹಣದ ಶೇಕಡಾ (ಕಾಲಂಗಳು) ಮತ್ತು ಬಡ್ಡಿ ದರ (ಸಾಲುಗಳು) ಬದಲಾದಾಗ ಚೀಟಿ ಹೇಗೆ ಬದಲಾಗುತ್ತದೆ. ಗುರುತಿಸಿದ ಕೋಶ ಈಗಿನ ಆಯ್ಕೆಗೆ ಹತ್ತಿರದ್ದು.',
+  interestRange: 'ಬಡ್ಡಿ ದರದ ವ್ಯಾಪ್ತಿ (% ಪ್ರತಿ ತಿಂಗಳು)',
+  rangeFrom: 'ಇಂದ',
+  rangeTo: 'ವರೆಗೆ',
+  monthsToServeAll: 'ಎಲ್ಲರಿಗೂ ಚೀಟಿ ಸಿಗಲು ತಿಂಗಳುಗಳು',
+  sensitivityUnservedNote: '✗ ಇರುವಲ್ಲಿ ಕೆಲವು ಸದಸ್ಯರಿಗೆ ಚೀಟಿ ಸಿಗುವುದಿಲ್ಲ (ಅಥವಾ IRR ಲೆಕ್ಕಿಸಲಾಗುವುದಿಲ್ಲ).',
+  loanRisk: 'ಸಾಲ ಬಾಕಿ ಅಪಾಯ',
+  loanRiskHint: 'ಒಂದು ತಿಂಗಳ ಸಾಲ ಸಮಯಕ್ಕೆ ಮರಳದಿರುವ ಸಾಧ್ಯತೆ, ಬಾಕಿಯಾದ ಹಣದಲ್ಲಿ ಎಷ್ಟು ಕೊನೆಗೆ ವಸೂಲಾಗುತ್ತದೆ ಮತ್ತು ಎಷ್ಟು ತಿಂಗಳು ತಡವಾಗಿ ಬರುತ್ತದೆ.',
+  loanDefaultRate: 'ಬಾಕಿ ಸಾಧ್ಯತೆ (%)',
+  loanRecoveryRate: 'ಬಾಕಿಯಲ್ಲಿ ವಸೂಲಿ (%)',
+  loanRepaymentDelay: 'ವಸೂಲಿ ವಿಳಂಬ (ತಿಂಗಳು)',
+  expectedLoss: 'ಅಂದಾಜು ನಷ್ಟ',
+  lateRecovery: 'ತಡವಾದ ವಸೂಲಿ',
+  riskSimulation: 'ಸಾಲ ಅಪಾಯ ಅನುಕರಣೆ',
+  riskSimulationHint: 'ಪ್ರತಿ ತಿಂಗಳ ಸಾಲ ಮರಳುವ ಅಥವಾ ಬಾಕಿಯಾಗುವ {runs} ಅನುಕರಣೆಗಳಲ್ಲಿ ಪ್ರತಿ ತಿಂಗಳ ಕೊನೆಗೆ ಚೀಟಿ ಪಡೆದ ಸದಸ್ಯರು. ಬಣ್ಣದ ಪಟ್ಟಿ ಮಧ್ಯದ 80% ಅನುಕರಣೆಗಳನ್ನು ತೋರಿಸುತ್ತದೆ.',
+  runSimulation: 'ಅನುಕರಣೆ ನಡೆಸಿ',
+  riskBand: '10ನೇ–90ನೇ ಶೇಕಡಾಂಶ',
+  noRiskRun: 'ಬಾಕಿ ಇಲ್ಲದೆ',
+  expectedRun: 'ಅಂದಾಜು ಮೌಲ್ಯ',
+  medianRun: 'ಮಧ್ಯಮ ಅನುಕರಣೆ',
+  percentileRange: 'P10 / P50 / P90',
+  totalLosses: 'ಸಾಲ ನಷ್ಟ',
+  shortfallChance: 'ಸದಸ್ಯರಿಗೆ ಚೀಟಿ ಸಿಗದ ಅನುಕರಣೆಗಳು',
+  loanTerms: 'ಸಾಲದ ಷರತ್ತುಗಳು',
+  loanTermsHint: 'ಉಳಿದ ಹಣದ ಸಾಲಗಳ ಅವಧಿ ಮತ್ತು ಸಾಲಗಾರರು ಹೇಗೆ ಮರುಪಾವತಿಸುತ್ತಾರೆ.',
+  loanTenure: 'ಅವಧಿ (ತಿಂಗಳು)',
+  repaymentStyle: 'ಮರುಪಾವತಿ',
+  bulletRepayment: 'ಒಮ್ಮೆಗೆ (ಕೊನೆಯಲ್ಲಿ)',
+  interestOnlyRepayment: 'ಬಡ್ಡಿ ಮಾತ್ರ',
+  emiRepayment: 'ಇಎಂಐ',
+  interestCompounding: 'ಬಡ್ಡಿ',
+  simpleInterest: 'ಸರಳ / ಫ್ಲಾಟ್',
+  monthlyCompounding: 'ಮಾಸಿಕ ಚಕ್ರಬಡ್ಡಿ',
+  outstandingPrincipal: 'ಬಾಕಿ ಅಸಲು',
+  membersTab: 'ಸದಸ್ಯರು',
+  roster: 'ಸದಸ್ಯರ ಪಟ್ಟಿ',
+  rosterHint: 'ಈ ಗುಂಪಿನ ಸದಸ್ಯರು, ಪ್ರತಿಯೊಬ್ಬರು ಚೀಟಿ ಪಡೆಯುವ ತಿಂಗಳು ಮತ್ತು ಅವರು ಕಟ್ಟಿರುವ ಹಣ.',
+  rosterNeedsGroup: 'ಸದಸ್ಯರು ಮತ್ತು ಪಾವತಿಗಳನ್ನು ದಾಖಲಿಸಲು ಈ ವಿವರಗಳನ್ನು ಗುಂಪಾಗಿ ಉಳಿಸಿ.',
+  memberName: 'ಹೆಸರು',
+  phone: 'ಫೋನ್',
+  joinedOn: 'ಸೇರಿದ ದಿನಾಂಕ',
+  addMember: 'ಸದಸ್ಯರನ್ನು ಸೇರಿಸಿ',
+  autoAssign: 'ಖಾಲಿ ತಿಂಗಳುಗಳನ್ನು ನೀಡಿ',
+  unassigned: 'ನಿಗದಿಯಾಗಿಲ್ಲ',
+  removeMember: 'ಸದಸ್ಯರನ್ನು ತೆಗೆದುಹಾಕಿ',
+  noMembersYet: 'ಇನ್ನೂ ಯಾವುದೇ ಸದಸ್ಯರನ್ನು ಸೇರಿಸಿಲ್ಲ.',
+  rosterCountMismatch: 'ಪಟ್ಟಿಯಲ್ಲಿ {count} ಸದಸ್ಯರಿದ್ದಾರೆ ಆದರೆ ಯೋಜನೆ {total} ಸದಸ್ಯರಿಗೆ ಇದೆ.',
+  contributionLedger: 'ಕಂತು ಲೆಡ್ಜರ್',
+  currentMonth: 'ಪ್ರಸ್ತುತ ತಿಂಗಳು',
+  expectedAmount: 'ನಿರೀಕ್ಷಿತ',
+  collectedAmount: 'ಸಂಗ್ರಹಿಸಿದ್ದು',
+  shortfall: 'ಕೊರತೆ',
+  amountPaid: 'ಕಟ್ಟಿದ ಮೊತ್ತ',
+  markPaid: 'ಪೂರ್ಣ ಕಟ್ಟಿದ್ದಾರೆ',
+  statusPaid: 'ಕಟ್ಟಿದ್ದಾರೆ',
+  statusPartial: 'ಭಾಗಶಃ',
+  statusUnpaid: 'ಬಾಕಿ',
+  outstandingDues: 'ಬಾಕಿ ಮೊತ್ತ',
+  unpaidMonths: 'ಬಾಕಿ ತಿಂಗಳುಗಳು',
+  duesToDate: '{month}ನೇ ತಿಂಗಳವರೆಗಿನ ಬಾಕಿ',
+  noDues: 'ಎಲ್ಲರೂ ಪೂರ್ಣ ಕಟ್ಟಿದ್ದಾರೆ.',
+  actualsVsPlan: 'ವಾಸ್ತವ ಮತ್ತು ಯೋಜನೆ',
+  actualsHint: 'ಮುಗಿದ ಪ್ರತಿ ತಿಂಗಳನ್ನು ನಿಜವಾಗಿ ನಡೆದಂತೆ ದಾಖಲಿಸಿ. ನಂತರದ ತಿಂಗಳುಗಳನ್ನು ಮೂಲ ಯೋಜನೆಯ ಬದಲು ನಿಜವಾದ ಬಾಕಿ ಹಣದಿಂದ ಲೆಕ್ಕ ಹಾಕಲಾಗುತ್ತದೆ.',
+  noActualsYet: 'ಇನ್ನೂ ಯಾವುದೇ ತಿಂಗಳನ್ನು ದಾಖಲಿಸಿಲ್ಲ.',
+  recordMonth: '{month}ನೇ ತಿಂಗಳನ್ನು ದಾಖಲಿಸಿ',
+  undoLastMonth: 'ಕೊನೆಯ ದಾಖಲಿತ ತಿಂಗಳನ್ನು ತೆಗೆದುಹಾಕಿ',
+  allMonthsRecorded: 'ಈ ಗುಂಪಿನ ಎಲ್ಲಾ ತಿಂಗಳುಗಳನ್ನು ದಾಖಲಿಸಲಾಗಿದೆ.',
+  paidOut: 'ಪಾವತಿಸಿದ್ದು',
+  loanRepaymentsReceived: 'ಸಾಲ ಮರುಪಾವತಿ',
+  closingBalance: 'ಅಂತಿಮ ಬಾಕಿ',
+  planLabel: 'ಯೋಜನೆ',
+  recordedMonth: 'ವಾಸ್ತವ',
+  monthNames: ['ಜನವರಿ', 'ಫೆಬ್ರವರಿ', 'ಮಾರ್ಚ್', 'ಏಪ್ರಿಲ್', 'ಮೇ', 'ಜೂನ್', 'ಜುಲೈ', 'ಆಗಸ್ಟ್', 'ಸೆಪ್ಟೆಂಬರ್', 'ಅಕ್ಟೋಬರ್', 'ನವೆಂಬರ್', 'ಡಿಸೆಂಬರ್'],
+  scheduleDates: 'ವೇಳಾಪಟ್ಟಿ ದಿನಾಂಕಗಳು',
+  scheduleDatesHint: 'ವೇಳಾಪಟ್ಟಿಯಲ್ಲಿ ನಿಜವಾದ ದಿನಾಂಕಗಳನ್ನು ನೋಡಲು ಆರಂಭ ದಿನಾಂಕವನ್ನು ನೀಡಿ. ಆಂಡ್ರಾಯ್ಡ್‌ನಲ್ಲಿ ಕಂತು, ಚೀಟಿ ಪಾವತಿ ಮತ್ತು ಸಾಲ ಮರುಪಾವತಿಯ ದಿನದಂದು ಜ್ಞಾಪನೆಯೂ ಬರುತ್ತದೆ.',
+  startDate: 'ಆರಂಭ ದಿನಾಂಕ',
+  collectionDay: 'ಕಂತು ಕಟ್ಟುವ ದಿನ',
+  dueDate: 'ನಿಗದಿತ ದಿನಾಂಕ',
+  errInvalidDate: 'ಸರಿಯಾದ ದಿನಾಂಕ ನೀಡಿ',
+  errDayOfMonth: '1 ರಿಂದ 31 ರೊಳಗಿನ ದಿನವಾಗಿರಬೇಕು',
+  reminderContributionTitle: 'ಇಂದು ಕಂತು ಕಟ್ಟುವ ದಿನ',
+  reminderContributionBody: '{month}ನೇ ತಿಂಗಳು: ಪ್ರತಿ ಸದಸ್ಯರಿಗೆ {amount}',
+  reminderPayoutTitle: 'ಚೀಟಿ ಪಾವತಿ ದಿನ',
+  reminderPayoutBody: '{month}ನೇ ತಿಂಗಳು: ಹಿಂಪಡೆಯುವ ಪ್ರತಿ ಸದಸ್ಯರಿಗೆ {amount}',
+  reminderLoanTitle: 'ಸಾಲ ಮರುಪಾವತಿ ದಿನ',
+  reminderLoanBody: '{month}ನೇ ತಿಂಗಳು: ಸಾಲಗಳಿಂದ {amount} ಬರಬೇಕಿದೆ',
+  taxSettings: 'ತೆರಿಗೆಗಳು',
+  taxSettingsHint: 'ಫೋರ್‌ಮನ್ ಕಮಿಷನ್ ಮೇಲಿನ ಜಿಎಸ್‌ಟಿ ಮತ್ತು ಸಾಲದ ಬಡ್ಡಿಯಿಂದ ಕಡಿತಗೊಳ್ಳುವ ಟಿಡಿಎಸ್',
+  gstRate: 'ಕಮಿಷನ್ ಮೇಲೆ ಜಿಎಸ್‌ಟಿ (%)',
+  gstBorneBy: 'ಜಿಎಸ್‌ಟಿ ಪಾವತಿಸುವವರು',
+  gstByPool: 'ಪೂಲ್, ಪ್ರತಿ ತಿಂಗಳು',
+  gstByWinner: 'ವಿಜೇತರು, ಅವರ ಪಾವತಿಯಿಂದ',
+  tdsRate: 'ಸಾಲದ ಬಡ್ಡಿಯ ಮೇಲೆ ಟಿಡಿಎಸ್ (%)',
+  tdsThreshold: 'ವರ್ಷಕ್ಕೆ ಟಿಡಿಎಸ್ ಮಿತಿ',
+  gst: 'ಜಿಎಸ್‌ಟಿ',
+  gstFromPayout: 'ಪಾವತಿಯಿಂದ ಜಿಎಸ್‌ಟಿ',
+  tds: 'ಟಿಡಿಎಸ್',
+  totalTaxes: 'ತೆರಿಗೆಗಳು (ಜಿಎಸ್‌ಟಿ + ಟಿಡಿಎಸ್)',
+  benchmarkComparison: 'ಚೀಟಿ ಮತ್ತು ಪರ್ಯಾಯಗಳು',
+  benchmarkHint: 'ಪ್ರತಿ ಸದಸ್ಯರ ಕೊಡುಗೆಗಳು FD, RD ಅಥವಾ SIP ನಲ್ಲಿ ಎಷ್ಟು ಬೆಳೆಯುತ್ತಿದ್ದವು, ಅದೇ ರೀತಿ ಉಳಿಸಿದ ಅವರ ಪಾವತಿಗೆ ಹೋಲಿಸಿ, ಮತ್ತು ಪಾವತಿಯ ಮುಂಗಡ ಭಾಗವನ್ನು ಸಾಲವಾಗಿ ಪಡೆದರೆ ಎಷ್ಟು ವೆಚ್ಚವಾಗುತ್ತಿತ್ತು',
+  fdRate: 'FD ದರ (% ವಾರ್ಷಿಕ)',
+  rdRate: 'RD ದರ (% ವಾರ್ಷಿಕ)',
+  sipReturn: 'SIP ಲಾಭ (% ವಾರ್ಷಿಕ)',
+  personalLoanRate: 'ವೈಯಕ್ತಿಕ ಸಾಲದ ದರ (% ವಾರ್ಷಿಕ)',
+  fixedDeposit: 'ನಿಶ್ಚಿತ ಠೇವಣಿ',
+  recurringDeposit: 'ಆವರ್ತ ಠೇವಣಿ',
+  sip: 'SIP',
+  personalLoan: 'ವೈಯಕ್ತಿಕ ಸಾಲ',
+  alternativeValue: 'ಪರ್ಯಾಯ',
+  chitValue: 'ಚೀಟಿ',
+  loanNeeded: 'ಸಾಲ',
+  loanRepays: 'ಸಾಲ ಮರುಪಾವತಿ',
+  chitRepays: 'ಚೀಟಿ ಮರುಪಾವತಿ',
+  chitBetter: 'ಚೀಟಿ ಉತ್ತಮ',
+  chitWorse: 'ಚೀಟಿ ಕಡಿಮೆ',
+  irrNoSignChange: 'ಇಲ್ಲ: ಒಂದೇ ದಿಕ್ಕಿನ ಹಣದ ಹರಿವು',
+  irrNoRoot: 'ಇಲ್ಲ: ಯಾವ ದರವೂ ಹೊಂದುವುದಿಲ್ಲ',
+  irrAmbiguous: '{count} ದರಗಳಲ್ಲಿ ಹತ್ತಿರದ್ದು',
+  timeValue: 'ಹಣದ ಸಮಯ ಮೌಲ್ಯ',
+  discountRate: 'ರಿಯಾಯಿತಿ ದರ (% ವಾರ್ಷಿಕ)',
+  npvAtRate: 'ರಿಯಾಯಿತಿ ದರದಲ್ಲಿ NPV',
+  mirrLabel: 'MIRR (ವಾರ್ಷಿಕ)',
+  xirrLabel: 'XIRR (ಕ್ಯಾಲೆಂಡರ್ ದಿನಾಂಕಗಳು)',
+  irrFootnote: 'IRR (Internal Rate of Return) ಎಲ್ಲಾ ತಿಂಗಳುಗಳ ಹಣದ ಹರಿವನ್ನು ಗಣನೆಗೆ ತೆಗೆದುಕೊಂಡು ಮಾಡಿದ ಬಡ್ಡಿ ದರ. ಇದನ್ನು ಕೆಳಗಿನ FD, RD, SIP ಮತ್ತು ವೈಯಕ್ತಿಕ ಸಾಲದ ಹೋಲಿಕೆಯೊಂದಿಗೆ ನೋಡಿ.',
+  language: 'ಭಾಷೆ',
+  numberFormat: 'ಸಂಖ್ಯಾ ಸ್ವರೂಪ',
+  numberFormatHint: 'ಮೊತ್ತಗಳನ್ನು ಹೇಗೆ ಗುಂಪು ಮಾಡಿ ಬರೆಯಬೇಕು ಮತ್ತು ಯಾವ ಕರೆನ್ಸಿಯಲ್ಲಿ ತೋರಿಸಬೇಕು. ಪ್ರದರ್ಶನಕ್ಕಾಗಿ ಮೊತ್ತಗಳನ್ನು ನಿಮ್ಮ ವಿನಿಮಯ ದರದಲ್ಲಿ ಪರಿವರ್ತಿಸಲಾಗುತ್ತದೆ; ಚೀಟಿಯ ಲೆಕ್ಕ ಯಾವಾಗಲೂ ರೂಪಾಯಿಗಳಲ್ಲೇ ಇರುತ್ತದೆ.',
+  digitGrouping: 'ಅಂಕಿ ಗುಂಪು',
+  indianGrouping: 'ಲಕ್ಷ / ಕೋಟಿ (10,00,000)',
+  internationalGrouping: 'ಅಂತರರಾಷ್ಟ್ರೀಯ (1,000,000)',
+  amountDisplay: 'ಸಾರಾಂಶ ಮೊತ್ತಗಳು',
+  compactAmounts: 'ಸಂಕ್ಷಿಪ್ತ (12.35 L)',
+  fullAmounts: 'ಪೂರ್ಣ (12,34,567)',
+  displayCurrency: 'ಕರೆನ್ಸಿ',
+  exchangeRate: '1 {currency} ಗೆ ₹',
+  nativeDigits: 'ಸಂಖ್ಯೆಗಳನ್ನು ಕನ್ನಡ ಅಂಕಿಗಳಲ್ಲಿ ಬರೆಯಿರಿ',
+  foremanTab: 'ಫೋರ್‌ಮನ್',
+  foremanDashboard: 'ಫೋರ್‌ಮನ್ ಲಾಭ',
+  foremanHint: 'ಆಯೋಜಕರು ಗಳಿಸುವುದು ಮತ್ತು ಅಪಾಯಕ್ಕೆ ಒಡ್ಡುವುದು: ಕಮಿಷನ್, ಎಲ್ಲಾ ಸದಸ್ಯರಿಗೆ ಪಾವತಿಸಿದ ನಂತರ ಪೂಲ್‌ನಲ್ಲಿ ಉಳಿಯುವ ಮೊತ್ತ (ಸಾಲದ ಬಡ್ಡಿ ಇಲ್ಲಿ ಸೇರುತ್ತದೆ), ಮತ್ತು ಪೂಲ್ ಕೊರತೆಯಾದಾಗ ಹಾಕುವ ಸ್ವಂತ ಹಣ.',
+  commissionCollected: 'ಸಂಗ್ರಹಿಸಿದ ಕಮಿಷನ್',
+  poolSurplus: 'ಉಳಿದ ಮೊತ್ತ',
+  ownCashAtRisk: 'ಹಾಕಿದ ಸ್ವಂತ ಹಣ',
+  exposureMonths: '{months} ತಿಂಗಳುಗಳಲ್ಲಿ',
+  noExposure: 'ಪೂಲ್ ಎಂದಿಗೂ ಕೊರತೆಯಾಗುವುದಿಲ್ಲ',
+  foremanProfit: 'ಒಟ್ಟು ಗಳಿಕೆ',
+  foremanIrr: 'ಫೋರ್‌ಮನ್ IRR (ವಾರ್ಷಿಕ)',
+  noOwnCashAtRisk: 'ಅನ್ವಯಿಸದು: ಸ್ವಂತ ಹಣ ಅಪಾಯದಲ್ಲಿಲ್ಲ',
+  breakEvenMonth: 'ಬ್ರೇಕ್-ಈವನ್ ತಿಂಗಳು',
+  neverBreaksEven: 'ಎಂದಿಗೂ ಬ್ರೇಕ್-ಈವನ್ ಆಗುವುದಿಲ್ಲ',
+  commissionTypeComparison: 'ಮಾಸಿಕ % ಮತ್ತು ಒಂದು ಬಾರಿಯ ಕಮಿಷನ್',
+  monthlyCommissionColumn: 'ಮಾಸಿಕ {rate}%',
+  oneTimeCommissionColumn: 'ಒಂದು ಬಾರಿ {amount}',
+  memberSlots: 'ಸದಸ್ಯರ ಪಾಲು ಮತ್ತು ಸಮಯ',
+  memberSlotsHint: 'ಸದಸ್ಯರಿಗೆ ದೊಡ್ಡ ಅಥವಾ ಚಿಕ್ಕ ಪಾಲು ನೀಡಿ (2× ಪಾಲು ಎರಡರಷ್ಟು ಕಟ್ಟುತ್ತದೆ ಮತ್ತು ಪಡೆಯುತ್ತದೆ), ಅಥವಾ ತಡವಾಗಿ ಸೇರಲು ಅಥವಾ ಮಧ್ಯದಲ್ಲಿ ಬಿಡಲು ಬಿಡಿ. ತಡವಾಗಿ ಸೇರುವವರು ತಪ್ಪಿದ ಕಂತುಗಳನ್ನು ಸೇರುವಾಗ ಕಟ್ಟುತ್ತಾರೆ; ಬಿಟ್ಟವರಿಗೆ ಪಾವತಿ ಇಲ್ಲ, ಆದರೆ ಗುಂಪು ಮುಗಿದಾಗ ಕಟ್ಟಿದ್ದರ ಒಂದು ಭಾಗ ಹಿಂತಿರುಗುತ್ತದೆ. ಪಾವತಿಗಳು ಪಟ್ಟಿಯ ಕ್ರಮದಲ್ಲಿ.',
+  customizeMembers: 'ಸದಸ್ಯರನ್ನು ಹೊಂದಿಸಿ',
+  equalMembers: 'ಸಮಾನ ಸದಸ್ಯರಿಗೆ ಮರಳಿ',
+  share: 'ಪಾಲು',
+  joinMonth: 'ಸೇರುವ ತಿಂಗಳು',
+  leaveMonth: 'ಬಿಡುವ ತಿಂಗಳು',
+  staysToEnd: 'ಕೊನೆಯವರೆಗೆ',
+  exitRefundPercent: 'ಬಿಟ್ಟವರಿಗೆ ಮರುಪಾವತಿ (%)',
+  exitRefundHint: 'ಬಿಟ್ಟ ಸದಸ್ಯರಿಗೆ ಅವರು ಕಟ್ಟಿದ್ದರಲ್ಲಿ ಹಿಂತಿರುಗುವ ಭಾಗ, ಗುಂಪು ಮುಗಿದಾಗ',
+  shareTimes: '{share}× ಪಾಲು',
+  leftInMonth: 'ತಿಂಗಳು {month} ರಲ್ಲಿ ಬಿಟ್ಟರು, ಮರುಪಾವತಿ',
+  joinedInMonth: 'ತಿಂಗಳು {month} ರಲ್ಲಿ ಸೇರಿದರು',
+  errSlotCount: 'ನಿಖರವಾಗಿ {limit} ಸದಸ್ಯರು ಕೊನೆಯವರೆಗೆ ಇರಬೇಕು, ತಿಂಗಳಿಗೆ ಒಂದು ಪಾವತಿ',
+  errSlotMonths: 'ತಿಂಗಳುಗಳು 1 ರಿಂದ {limit} ರೊಳಗಿರಬೇಕು, ಬಿಡುವುದು ಸೇರಿದ ನಂತರ',
+  errWholeTickets: 'ಹರಾಜು ಯೋಜನೆಯಲ್ಲಿ ಪ್ರತಿ ಸದಸ್ಯರಿಗೆ ನಿಖರವಾಗಿ ಒಂದು ಪಾಲು ಇರಬೇಕು',
+  withdrawalOrder: 'ಹಿಂಪಡೆಯುವ ಕ್ರಮ',
+  withdrawalOrderHint: 'ಪ್ರತಿ ತಿಂಗಳ ಪಾವತಿ ಯಾರಿಗೆ. ಸದಸ್ಯರ ಸಂಖ್ಯೆಗಳು ಬದಲಾಗುವುದಿಲ್ಲ; ಪಾವತಿಯ ಕ್ರಮ ಮಾತ್ರ ಬದಲಾಗುತ್ತದೆ.',
+  sequenceOrder: 'ಪಟ್ಟಿಯ ಕ್ರಮದಲ್ಲಿ',
+  lotteryDraw: 'ಲಾಟರಿ ಡ್ರಾ',
+  priorityOrder: 'ಆದ್ಯತಾ ಪಟ್ಟಿ',
+  needsOrder: 'ಅಗತ್ಯ ಆಧಾರಿತ',
+  lotterySeed: 'ಡ್ರಾ ಸೀಡ್',
+  newDraw: 'ಮತ್ತೆ ಡ್ರಾ ಮಾಡಿ',
+  lotterySeedHint: 'ಒಂದೇ ಸೀಡ್ ಯಾವಾಗಲೂ ಅದೇ ಕ್ರಮವನ್ನು ನೀಡುತ್ತದೆ, ಆದ್ದರಿಂದ ಸದಸ್ಯರು ಡ್ರಾ ಪರಿಶೀಲಿಸಬಹುದು.',
+  priorityHint: 'ಸದಸ್ಯರನ್ನು ಮೇಲೆ ಅಥವಾ ಕೆಳಗೆ ಸರಿಸಿ; ಪಟ್ಟಿಯ ಮೇಲಿರುವವರಿಗೆ ಮೊದಲು ಪಾವತಿ.',
+  needsHint: 'ಬೇಗ ಪಾವತಿ ಕೇಳಿದ ಸದಸ್ಯರನ್ನು ಸೇರಿಸಿ, ಅತ್ಯಂತ ತುರ್ತು ಮೊದಲು. ಉಳಿದವರು ಪಟ್ಟಿಯ ಕ್ರಮದಲ್ಲಿ.',
+  addRequest: 'ವಿನಂತಿ ಸೇರಿಸಿ…',
+  moveUp: 'ಮೇಲೆ ಸರಿಸಿ',
+  moveDown: 'ಕೆಳಗೆ ಸರಿಸಿ',
+  removeRequest: 'ವಿನಂತಿ ತೆಗೆದುಹಾಕಿ',
+  drawnOrder: 'ಪಾವತಿ ಕ್ರಮ: ಸದಸ್ಯರು {order}',
+  fairnessReport: 'ನ್ಯಾಯಸಮ್ಮತತೆ ವರದಿ',
+  fairnessHint: 'ಬೇಗ ಹಿಂಪಡೆಯುವವರು ಮುಂಗಡಕ್ಕೆ ಬೆಲೆ ತೆರುತ್ತಾರೆ, ತಡವಾಗಿ ಹಿಂಪಡೆಯುವವರು ಉಳಿತಾಯದ ಮೇಲೆ ಗಳಿಸುತ್ತಾರೆ. ನ್ಯಾಯಯುತ ಪಾವತಿ ಏಣಿ ಎರಡೂ ವಾರ್ಷಿಕ ದರಗಳನ್ನು ಹತ್ತಿರ ಇಡುತ್ತದೆ.',
+  earliestWithdrawer: 'ಮೊದಲು ಹಿಂಪಡೆದವರು',
+  latestWithdrawer: 'ಕೊನೆಯಲ್ಲಿ ಹಿಂಪಡೆದವರು',
+  irrSpread: 'IRR ಅಂತರ (ಕೊನೆಯ − ಮೊದಲ)',
+  memberInMonth: 'ಸದಸ್ಯ {member}, ತಿಂಗಳು {month}',
+  percentagePoints: '{value} ಅಂಕ',
+  ladderSuggestions: 'ಅಂತರ ಕಡಿಮೆ ಮಾಡುವ ಪಾವತಿ ಏಣಿ ಬದಲಾವಣೆಗಳು',
+  gapAfterChange: 'ಅಂತರ {gap} ಆಗುತ್ತದೆ',
+  noLadderSuggestions: 'ಎಲ್ಲರಿಗೂ ಪಾವತಿಸುತ್ತಾ ಅಂತರ ಕಡಿಮೆ ಮಾಡುವ ಯಾವುದೇ ಪಾವತಿ ಏಣಿ ಬದಲಾವಣೆ ಇಲ್ಲ.',
+  schemeNotApplicable: '{scheme} ಈ ಇನ್‌ಪುಟ್‌ಗಳೊಂದಿಗೆ ನಡೆಯುವುದಿಲ್ಲ, ಆದ್ದರಿಂದ ಅದರ ಕಾಲಮ್ ಖಾಲಿ ಇದೆ.',
+  checkFairness: 'ನ್ಯಾಯಸಮ್ಮತತೆ ಪರಿಶೀಲಿಸಿ',
+  amountLabel: '{label} ({currency})'
+};
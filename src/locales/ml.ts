@@ -0,0 +1,366 @@
+import type { LocaleStrings } from '../translations';
+
+export const ml: LocaleStrings = {
+  title: 'ചിട്ടി കാൽക്കുലേറ്റർ',
+  subtitle: 'ഓരോ മാസവും പല അംഗങ്ങൾ എടുക്കുന്ന ചിട്ടിത്തുക കണക്കാക്കുക',
+  inputParams: 'ഇൻപുട്ട് വിവരങ്ങൾ',
+  totalMembers: 'ആകെ അംഗങ്ങൾ',
+  monthlyContribution: 'പ്രതിമാസ തവണ',
+  firstWithdrawal: 'ആദ്യ പിൻവലിക്കൽ തുക (മാസം 1)',
+  finalWithdrawal: 'അവസാന പിൻവലിക്കൽ തുക (അവസാന മാസം)',
+  monthlyIncrement: 'പ്രതിമാസ വർധന',
+  loanInterestRate: 'വായ്പ പലിശ നിരക്ക് (മാസം %)',
+  commissionType: 'കമ്മീഷൻ തരം',
+  monthlyRate: 'പ്രതിമാസ നിരക്ക് (%)',
+  oneTimeAmount: 'ഒറ്റത്തവണ തുക',
+  calculatedResults: 'കണക്കുകൂട്ടൽ ഫലങ്ങൾ',
+  monthlyPool: 'പ്രതിമാസ പൂൾ തുക',
+  commissionPerMonth: 'മാസം കമ്മീഷൻ',
+  totalCommission: 'ആകെ കമ്മീഷൻ',
+  netPool: 'മാസം അറ്റ പൂൾ (കമ്മീഷന് ശേഷം)',
+  duration: 'കാലാവധി (മാസങ്ങൾ)',
+  membersServed: 'തുക ലഭിച്ച അംഗങ്ങൾ',
+  finalBalance: 'അവസാന പൂൾ ബാക്കി',
+  totalLoans: 'നൽകിയ ആകെ വായ്പ',
+  totalInterest: 'നേടിയ ആകെ പലിശ',
+  loanUtilization: 'വായ്പ ഉപയോഗം',
+  adjustUtilization: 'വായ്പ ഉപയോഗ ശതമാനം മാറ്റുക',
+  withdrawalTrends: 'പിൻവലിക്കൽ & പൂൾ പ്രവണത',
+  loanDistribution: 'വായ്പ വിതരണം & നേടിയ പലിശ',
+  contributionVsWithdrawal: 'അംഗത്തിന്റെ തവണയും പിൻവലിക്കലും',
+  withdrawalSchedule: 'പിൻവലിക്കൽ പട്ടിക',
+  loanSchedule: 'വായ്പ പട്ടിക',
+  month: 'മാസം',
+  withdrawalAmount: 'പിൻവലിക്കൽ തുക',
+  membersWithdrawing: 'പിൻവലിക്കുന്ന അംഗങ്ങൾ',
+  contribution: 'അംഗത്തിന്റെ തവണ',
+  newContributions: 'പുതിയ തവണകൾ',
+  carryOver: 'മുൻ ബാക്കി',
+  availablePool: 'ലഭ്യമായ പൂൾ',
+  totalWithdrawn: 'ആകെ പിൻവലിച്ചത്',
+  remainingPool: 'ശേഷിക്കുന്ന പൂൾ',
+  membersLeft: 'ശേഷിക്കുന്ന അംഗങ്ങൾ',
+  availableForLoan: 'ലഭ്യം',
+  loanGiven: 'നൽകിയ വായ്പ',
+  interestEarned: 'നേടിയ പലിശ',
+  repaymentDue: 'തിരിച്ചടയ്ക്കേണ്ടത്',
+  allMembers: 'എല്ലാ അംഗങ്ങൾക്കും തുക ലഭിച്ചു!',
+  waiting: 'അംഗങ്ങൾ കാത്തിരിക്കുന്നു',
+  fromPool: 'എല്ലാ മാസങ്ങളിലെയും ശേഷിക്കുന്ന പൂളിൽ നിന്ന്',
+  atRate: 'നിരക്ക്',
+  perMonth: 'മാസം',
+  afterAll: 'എല്ലാ പിൻവലിക്കലുകൾക്കും ശേഷം ബാക്കി',
+  overPeriod: 'മുഴുവൻ',
+  monthPeriod: 'മാസ കാലയളവിൽ',
+  loanAmount: 'വായ്പ തുക',
+  interest: 'പലിശ',
+  withdrawal: 'പിൻവലിക്കൽ',
+  pool: 'പൂൾ',
+  memberReturns: 'അംഗങ്ങളുടെ ആദായ സംഗ്രഹം',
+  memberReturnDetails: 'അംഗങ്ങളുടെ ആദായ വിവരങ്ങൾ',
+  member: 'അംഗം',
+  withdrawalMonth: 'പിൻവലിക്കൽ മാസം',
+  totalContribution: 'ആകെ തവണ',
+  netReturn: 'അറ്റ ആദായം',
+  returnPercent: 'ആദായം %',
+  splitContribution: 'വിഭജിത തവണ വിശകലനം',
+  paidBefore: 'മുമ്പ് അടച്ചത്',
+  paidAfter: 'ശേഷം അടച്ചത്',
+  effectiveLoan: 'ഫലത്തിലുള്ള വായ്പ',
+  effectiveInterest: 'അംഗങ്ങളുടെ ആദായം (IRR)',
+  effectiveInterestRate: 'വാർഷിക IRR',
+  monthlyIRR: 'പ്രതിമാസ IRR',
+  cashFlowTimeline: 'പണമൊഴുക്ക് സമയരേഖ',
+  cumulativePosition: 'സഞ്ചിത നില',
+  simpleSummary: 'ലളിത സംഗ്രഹം',
+  youPay: 'നിങ്ങൾ അടയ്ക്കുന്നത്',
+  youGet: 'നിങ്ങൾക്ക് ലഭിക്കുന്നത്',
+  netPosition: 'അറ്റ നില',
+  monthsToRepay: 'തിരിച്ചടവ് മാസങ്ങൾ',
+  netFlow: 'അറ്റ ഒഴുക്ക്',
+  tapMemberHint: 'മാസംതോറുമുള്ള പണമൊഴുക്ക് കാണാൻ ഒരു അംഗത്തെ ടാപ്പ് ചെയ്യുക',
+  close: 'അടയ്ക്കുക',
+  payoutMode: 'നൽകൽ പട്ടിക',
+  linearIncrement: 'തുല്യ വർധന',
+  linearInterpolation: 'ആദ്യം → അവസാനം',
+  stepUp: 'ശതമാന വർധന',
+  customSchedule: 'ഓരോ മാസവും വെവ്വേറെ',
+  stepUpPercent: 'പ്രതിമാസ വർധന (%)',
+  derivedIncrement: 'കണക്കാക്കിയ പ്രതിമാസ വർധന',
+  customScheduleHint: 'ഓരോ മാസത്തെയും തുക നൽകുക. ഒഴിഞ്ഞ മാസങ്ങളിൽ മുൻ തുക ആവർത്തിക്കും.',
+  schemeType: 'ചിട്ടി തരം',
+  fixedScheme: 'നിശ്ചിത തുക',
+  auctionScheme: 'ലേലം',
+  bidMode: 'ലേലങ്ങൾ',
+  bidCurve: 'അനുമാനിച്ച ലേലക്കുറവ്',
+  manualBids: 'ഓരോ മാസത്തെയും ലേലം',
+  startingBidPercent: 'മാസം 1 ലേലക്കിഴിവ് (%)',
+  manualBidsHint: 'ഓരോ മാസവും വിജയിച്ച ലേലക്കിഴിവ് പ്രതിമാസ പൂളിന്റെ % ആയി നൽകുക.',
+  bidDiscount: 'ലേലക്കിഴിവ്',
+  dividend: 'ലാഭവിഹിതം / അംഗം',
+  schemeComparison: 'നിശ്ചിതം vs ലേലം',
+  payoutRange: 'തുക പരിധി',
+  irrRange: 'വാർഷിക IRR പരിധി',
+  savedGroups: 'സംരക്ഷിച്ച ഗ്രൂപ്പുകൾ',
+  groupName: 'ഗ്രൂപ്പിന്റെ പേര്',
+  saveAsNew: 'പുതിയതായി സംരക്ഷിക്കുക',
+  rename: 'പേര് മാറ്റുക',
+  duplicate: 'പകർപ്പ് എടുക്കുക',
+  deleteGroup: 'ഇല്ലാതാക്കുക',
+  unsavedGroup: 'സംരക്ഷിക്കാത്ത കണക്ക്',
+  copySuffix: '(പകർപ്പ്)',
+  confirmDelete: 'ഈ സംരക്ഷിച്ച ഗ്രൂപ്പ് ഇല്ലാതാക്കണോ?',
+  autoSaveHint: 'തിരഞ്ഞെടുത്ത ഗ്രൂപ്പിലെ മാറ്റങ്ങൾ ഈ ഉപകരണത്തിൽ സ്വയം സംരക്ഷിക്കപ്പെടും.',
+  calculatorTab: 'കാൽക്കുലേറ്റർ',
+  compareTab: 'താരതമ്യം',
+  scenario: 'സാഹചര്യം',
+  addScenario: 'സാഹചര്യം ചേർക്കുക',
+  removeScenario: 'നീക്കുക',
+  loadFrom: 'ഇതിൽ നിന്ന് ലോഡ് ചെയ്യുക',
+  currentInputs: 'നിലവിലെ കാൽക്കുലേറ്റർ',
+  irrDistribution: 'അംഗങ്ങൾക്കിടയിലെ IRR വിതരണം',
+  minIRR: 'കുറഞ്ഞ IRR',
+  medianIRR: 'മധ്യ IRR',
+  maxIRR: 'കൂടിയ IRR',
+  vsBaseline: 'സാഹചര്യം 1 നോട് താരതമ്യം',
+  exportReport: 'എക്സ്പോർട്ട് & പങ്കിടൽ',
+  exportTable: 'CSV-ക്കുള്ള പട്ടിക',
+  exportCsv: 'CSV',
+  exportXlsx: 'Excel (XLSX)',
+  exportPdf: 'PDF റിപ്പോർട്ട്',
+  exporting: 'തയ്യാറാക്കുന്നു…',
+  exportFailed: 'എക്സ്പോർട്ട് പരാജയപ്പെട്ടു. വീണ്ടും ശ്രമിക്കുക.',
+  reportGenerated: 'തയ്യാറാക്കിയ തീയതി',
+  shareLink: 'ലിങ്ക് പങ്കിടുക',
+  linkCopied: 'ലിങ്ക് ക്ലിപ്പ്ബോർഡിലേക്ക് പകർത്തി',
+  invalidShareLink: 'പങ്കിട്ട ലിങ്ക് വായിക്കാനായില്ല. പകരം സ്ഥിരസ്ഥിതി കണക്ക് കാണിക്കുന്നു.',
+  errWholeNumber: 'പൂർണ്ണസംഖ്യ നൽകുക',
+  errMinMembers: 'കുറഞ്ഞത് {limit} അംഗങ്ങൾ വേണം',
+  errMaxMembers: 'പരമാവധി {limit} അംഗങ്ങളെ മാത്രമേ പിന്തുണയ്ക്കൂ',
+  errPositive: 'പൂജ്യത്തേക്കാൾ കൂടുതലായിരിക്കണം',
+  errNonNegative: 'നെഗറ്റീവ് ആകരുത്',
+  errPercentRange: '0 നും 100 നും ഇടയിലുള്ള ശതമാനം നൽകുക',
+  errExceedsNetPool: 'അറ്റ പ്രതിമാസ പൂൾ ₹{limit} കവിയരുത്',
+  errCommissionExceedsPool: 'പദ്ധതിയിലുടനീളം പിരിക്കുന്ന തുകയേക്കാൾ (₹{limit}) കുറവായിരിക്കണം',
+  errNegativeEntries: 'തുകകൾ നെഗറ്റീവ് ആകരുത്',
+  errBidRange: 'ഓരോ ലേലവും 0% നും 100% നും ഇടയിലായിരിക്കണം',
+  fixInputsHint: 'ഫലങ്ങൾ കാണാൻ അടയാളപ്പെടുത്തിയ ഇൻപുട്ടുകൾ ശരിയാക്കുക.',
+  diagnosticsTitle: 'പദ്ധതി മുന്നറിയിപ്പുകൾ',
+  diagNoWithdrawalMonth1: 'ഈ സംഖ്യകളിൽ മാസം 1 ൽ ആർക്കും എടുക്കാനാവില്ല: {payout} തുക ലഭ്യമായ {available} നേക്കാൾ കൂടുതലാണ്.',
+  diagIdleMonths: 'മാസം {months} ൽ ആർക്കും എടുക്കാനാവില്ല.',
+  diagMembersUnserved: '{months} മാസങ്ങൾക്ക് ശേഷവും {remaining} അംഗങ്ങൾക്ക് തുക ലഭിച്ചിട്ടില്ല.',
+  goalSeek: 'ലക്ഷ്യ തിരയൽ',
+  solveFor: 'എന്തിന് പരിഹാരം',
+  target: 'ലക്ഷ്യം',
+  targetBreakEven: 'സമനില (എല്ലാവർക്കും തുക, അവസാന പൂൾ ≈ ₹0)',
+  targetServedBy: 'ഈ മാസത്തോടെ എല്ലാവർക്കും തുക',
+  targetLastIrr: 'അവസാന അംഗത്തിന്റെ IRR കുറഞ്ഞത് (%)',
+  solve: 'പരിഹരിക്കുക',
+  applySolution: 'പ്രയോഗിക്കുക',
+  solverResult: 'പരിഹാരം',
+  lastMemberIrr: 'അവസാന അംഗത്തിന്റെ IRR',
+  solverAtLimit: 'തിരയൽ പരിധിയുടെ അറ്റം വരെ ലക്ഷ്യം നിറവേറുന്നു; ഇത് പദ്ധതിയുടെയല്ല, തിരയലിന്റെ പരിധിയാണ്.',
+  solverNotApplicable: 'നിലവിലെ ചിട്ടി തരം, നൽകൽ പട്ടിക അല്ലെങ്കിൽ കമ്മീഷൻ തരത്തിൽ ഈ ഇൻപുട്ടിന് ഫലമില്ല.',
+  solverNeverServesAll: '{low} നും {high} നും ഇടയിലുള്ള ഒരു മൂല്യവും എല്ലാ അംഗങ്ങൾക്കും തുക നൽകുന്നില്ല. പരമാവധി {total} ൽ {served} പേർക്ക് ലഭിക്കും.',
+  solverEarliestMonth: '{low} നും {high} നും ഇടയിലുള്ള ഒരു മൂല്യവും ഫലിക്കുന്നില്ല. എല്ലാ അംഗങ്ങൾക്കും ഏറ്റവും നേരത്തെ മാസം {month} ൽ ലഭിക്കും.',
+  solverBestIrr: '{low} നും {high} നും ഇടയിലുള്ള ഒരു മൂല്യവും ഫലിക്കുന്നില്ല. എല്ലാവർക്കും തുക ലഭിക്കുമ്പോൾ അവസാന അംഗത്തിന്റെ IRR പരമാവധി {irr}% വരെ എത്തുന്നു.',
+  solverNoSolution: '{low} നും {high} നും ഇടയിലുള്ള ഒരു മൂല്യവും ലക്ഷ്യം നേടുന്നില്ല.',
+  sensitivityAnalysis: 'സംവേദനക്ഷമതാ വിശകലനം',
+  sensitivityHint: 'വായ്പ ഉപയോഗം (കോളങ്ങൾ), വായ്പ പലിശ നിരക്ക് (വരികൾ) എന്നിവ മാറുമ്പോൾ പദ്ധതി എങ്ങനെ പ്രതികരിക്കുന്നു. രേഖപ്പെടുത്തിയ കളം നിലവിലെ ക്രമീകരണത്തോട് ഏറ്റവും അടുത്താണ്.',
+  interestRange: 'പലിശ നിരക്ക് പരിധി (മാസം %)',
+  rangeFrom: 'മുതൽ',
+  rangeTo: 'വരെ',
+  monthsToServeAll: 'എല്ലാവർക്കും തുക നൽകാൻ വേണ്ട മാസങ്ങൾ',
+  sensitivityUnservedNote: '✗ ചില അംഗങ്ങൾക്ക് ഒരിക്കലും തുക ലഭിക്കാത്ത (അല്ലെങ്കിൽ IRR കണക്കാക്കാനാവാത്ത) ക്രമീകരണങ്ങളെ സൂചിപ്പിക്കുന്നു.',
+  loanRisk: 'വായ്പ കുടിശ്ശിക സാധ്യത',
+  loanRiskHint: 'ഒരു മാസത്തെ വായ്പകൾ സമയത്ത് തിരികെ വരാതിരിക്കാനുള്ള സാധ്യത, മുടങ്ങിയ തിരിച്ചടവിൽ എത്ര ഒടുവിൽ തിരിച്ചുകിട്ടും, എത്ര മാസം വൈകിയാണ് അത് വരുന്നത്.',
+  loanDefaultRate: 'മുടക്ക സാധ്യത (%)',
+  loanRecoveryRate: 'മുടക്കത്തിൽ തിരിച്ചുകിട്ടുന്നത് (%)',
+  loanRepaymentDelay: 'തിരിച്ചുകിട്ടൽ വൈകൽ (മാസങ്ങൾ)',
+  expectedLoss: 'പ്രതീക്ഷിത നഷ്ടം',
+  lateRecovery: 'വൈകിയ തിരിച്ചുകിട്ടൽ',
+  riskSimulation: 'വായ്പ സാധ്യതാ സിമുലേഷൻ',
+  riskSimulationHint: 'ഓരോ മാസത്തെയും വായ്പകൾ തിരികെ വരികയോ മുടങ്ങുകയോ ചെയ്യുന്ന {runs} സിമുലേഷനുകളിൽ ഓരോ മാസാവസാനവും തുക ലഭിച്ച അംഗങ്ങൾ. ഷേഡ് ചെയ്ത പട്ട മധ്യത്തിലെ 80% റണ്ണുകൾ കാണിക്കുന്നു.',
+  runSimulation: 'സിമുലേഷൻ നടത്തുക',
+  riskBand: '10–90 പെർസെന്റൈൽ',
+  noRiskRun: 'മുടക്കമില്ല',
+  expectedRun: 'പ്രതീക്ഷിത മൂല്യം',
+  medianRun: 'മധ്യ റൺ',
+  percentileRange: 'P10 / P50 / P90',
+  totalLosses: 'വായ്പ നഷ്ടം',
+  shortfallChance: 'അംഗങ്ങൾക്ക് തുക കിട്ടാത്ത റണ്ണുകൾ',
+  loanTerms: 'വായ്പ വ്യവസ്ഥകൾ',
+  loanTermsHint: 'ബാക്കി പൂളിൽ നിന്നുള്ള വായ്പകളുടെ കാലാവധിയും വായ്പക്കാർ തിരിച്ചടയ്ക്കുന്ന രീതിയും.',
+  loanTenure: 'കാലാവധി (മാസങ്ങൾ)',
+  repaymentStyle: 'തിരിച്ചടവ്',
+  bulletRepayment: 'ഒറ്റയടിക്ക് (അവസാനം)',
+  interestOnlyRepayment: 'പലിശ മാത്രം',
+  emiRepayment: 'EMI',
+  interestCompounding: 'പലിശ',
+  simpleInterest: 'സാധാരണ / ഫ്ലാറ്റ്',
+  monthlyCompounding: 'പ്രതിമാസ കൂട്ടുപലിശ',
+  outstandingPrincipal: 'കുടിശ്ശിക മുതൽ',
+  membersTab: 'അംഗങ്ങൾ',
+  roster: 'അംഗ പട്ടിക',
+  rosterHint: 'ഈ ഗ്രൂപ്പിലെ അംഗങ്ങൾ, ഓരോരുത്തരും തുക എടുക്കുന്ന മാസം, അവർ അടച്ചത്.',
+  rosterNeedsGroup: 'അംഗങ്ങളെയും അടവുകളെയും പിന്തുടരാൻ ഈ ഇൻപുട്ടുകൾ ഒരു ഗ്രൂപ്പായി സംരക്ഷിക്കുക.',
+  memberName: 'പേര്',
+  phone: 'ഫോൺ',
+  joinedOn: 'ചേർന്ന തീയതി',
+  addMember: 'അംഗത്തെ ചേർക്കുക',
+  autoAssign: 'ഒഴിഞ്ഞ മാസങ്ങൾ നൽകുക',
+  unassigned: 'നൽകിയിട്ടില്ല',
+  removeMember: 'അംഗത്തെ നീക്കുക',
+  noMembersYet: 'ഇതുവരെ അംഗങ്ങളെ ചേർത്തിട്ടില്ല.',
+  rosterCountMismatch: 'പട്ടികയിൽ {count} അംഗങ്ങളുണ്ട്, പക്ഷേ പദ്ധതി {total} പേർക്കാണ്.',
+  contributionLedger: 'തവണ ലെഡ്ജർ',
+  currentMonth: 'നിലവിലെ മാസം',
+  expectedAmount: 'പ്രതീക്ഷിച്ചത്',
+  collectedAmount: 'പിരിച്ചത്',
+  shortfall: 'കുറവ്',
+  amountPaid: 'അടച്ച തുക',
+  markPaid: 'പൂർണ്ണമായി അടച്ചു',
+  statusPaid: 'അടച്ചു',
+  statusPartial: 'ഭാഗികം',
+  statusUnpaid: 'അടച്ചിട്ടില്ല',
+  outstandingDues: 'കുടിശ്ശിക',
+  unpaidMonths: 'അടയ്ക്കാത്ത മാസങ്ങൾ',
+  duesToDate: 'മാസം {month} വരെയുള്ള കുടിശ്ശിക',
+  noDues: 'എല്ലാവരും പൂർണ്ണമായി അടച്ചു.',
+  actualsVsPlan: 'യഥാർത്ഥം vs പദ്ധതി',
+  actualsHint: 'പൂർത്തിയായ ഓരോ മാസവും നടന്നതുപോലെ രേഖപ്പെടുത്തുക. തുടർന്നുള്ള മാസങ്ങൾ യഥാർത്ഥ പദ്ധതിക്ക് പകരം യഥാർത്ഥ പൂൾ ബാക്കിയിൽ നിന്ന് കണക്കാക്കും.',
+  noActualsYet: 'ഇതുവരെ ഒരു മാസവും രേഖപ്പെടുത്തിയിട്ടില്ല.',
+  recordMonth: 'മാസം {month} രേഖപ്പെടുത്തുക',
+  undoLastMonth: 'അവസാനം രേഖപ്പെടുത്തിയ മാസം നീക്കുക',
+  allMonthsRecorded: 'ഈ ഗ്രൂപ്പിന്റെ എല്ലാ മാസങ്ങളും രേഖപ്പെടുത്തി.',
+  paidOut: 'നൽകിയത്',
+  loanRepaymentsReceived: 'വായ്പ തിരിച്ചടവുകൾ',
+  closingBalance: 'അവസാന ബാക്കി',
+  planLabel: 'പദ്ധതി',
+  recordedMonth: 'യഥാർത്ഥം',
+  monthNames: ['ജനു', 'ഫെബ്രു', 'മാർ', 'ഏപ്രി', 'മേയ്', 'ജൂൺ', 'ജൂലൈ', 'ഓഗ', 'സെപ്റ്റം', 'ഒക്ടോ', 'നവം', 'ഡിസം'],
+  scheduleDates: 'പട്ടിക തീയതികൾ',
+  scheduleDatesHint: 'പട്ടികകളിൽ യഥാർത്ഥ തീയതികൾ കാണാൻ ആരംഭ തീയതി നൽകുക. Android-ൽ തവണ, തുക നൽകൽ, വായ്പ തിരിച്ചടവ് എന്നിവയുടെ തീയതികളിൽ ഓർമ്മപ്പെടുത്തലും ലഭിക്കും.',
+  startDate: 'ആരംഭ തീയതി',
+  collectionDay: 'മാസത്തിലെ പിരിവ് ദിവസം',
+  dueDate: 'അവസാന തീയതി',
+  errInvalidDate: 'സാധുവായ തീയതി നൽകുക',
+  errDayOfMonth: '1 നും 31 നും ഇടയിലുള്ള ദിവസമായിരിക്കണം',
+  reminderContributionTitle: 'ഇന്ന് തവണ അടയ്ക്കണം',
+  reminderContributionBody: 'മാസം {month}: അംഗത്തിന് {amount}',
+  reminderPayoutTitle: 'തുക നൽകുന്ന ദിവസം',
+  reminderPayoutBody: 'മാസം {month}: പിൻവലിക്കുന്ന ഓരോ അംഗത്തിനും {amount}',
+  reminderLoanTitle: 'വായ്പ തിരിച്ചടവുകൾ വരേണ്ടതുണ്ട്',
+  reminderLoanBody: 'മാസം {month}: പൂൾ വായ്പകളിൽ നിന്ന് {amount} തിരികെ പ്രതീക്ഷിക്കുന്നു',
+  taxSettings: 'നികുതികൾ',
+  taxSettingsHint: 'ഫോർമാന്റെ കമ്മീഷനിലെ GST, വായ്പ പലിശയിൽ നിന്ന് പിടിക്കുന്ന TDS',
+  gstRate: 'കമ്മീഷനിൽ GST (%)',
+  gstBorneBy: 'GST അടയ്ക്കുന്നത്',
+  gstByPool: 'പൂൾ, എല്ലാ മാസവും',
+  gstByWinner: 'വിജയി, സ്വന്തം തുകയിൽ നിന്ന്',
+  tdsRate: 'വായ്പ പലിശയിൽ TDS (%)',
+  tdsThreshold: 'വർഷം TDS പരിധി',
+  gst: 'GST',
+  gstFromPayout: 'തുകയിൽ നിന്ന് GST',
+  tds: 'TDS',
+  totalTaxes: 'നികുതികൾ (GST + TDS)',
+  benchmarkComparison: 'ചിട്ടി vs മറ്റ് മാർഗങ്ങൾ',
+  benchmarkHint: 'ഓരോ അംഗത്തിന്റെയും തവണകൾ FD, RD അല്ലെങ്കിൽ SIP ൽ എത്ര വളരും, അതേ രീതിയിൽ സൂക്ഷിച്ച ചിട്ടിത്തുകയുമായി താരതമ്യം, ഒപ്പം തുകയുടെ ആദ്യഭാഗം വായ്പയായി എടുത്താലുള്ള ചെലവും',
+  fdRate: 'FD നിരക്ക് (വർഷം %)',
+  rdRate: 'RD നിരക്ക് (വർഷം %)',
+  sipReturn: 'SIP ആദായം (വർഷം %)',
+  personalLoanRate: 'വ്യക്തിഗത വായ്പ നിരക്ക് (വർഷം %)',
+  fixedDeposit: 'സ്ഥിര നിക്ഷേപം',
+  recurringDeposit: 'ആവർത്തന നിക്ഷേപം',
+  sip: 'SIP',
+  personalLoan: 'വ്യക്തിഗത വായ്പ',
+  alternativeValue: 'മറ്റ് മാർഗം',
+  chitValue: 'ചിട്ടി',
+  loanNeeded: 'കടം',
+  loanRepays: 'വായ്പയിൽ തിരിച്ചടവ്',
+  chitRepays: 'ചിട്ടിയിൽ തിരിച്ചടവ്',
+  chitBetter: 'ചിട്ടി മികച്ചത്',
+  chitWorse: 'ചിട്ടി പിന്നിൽ',
+  irrNoSignChange: 'ബാധകമല്ല: ഒരു ദിശയിലുള്ള പണമൊഴുക്ക്',
+  irrNoRoot: 'ബാധകമല്ല: ഒരു നിരക്കും യോജിക്കുന്നില്ല',
+  irrAmbiguous: '{count} നിരക്കുകളിൽ ഏറ്റവും അടുത്തത്',
+  timeValue: 'സമയ മൂല്യം',
+  discountRate: 'ഡിസ്കൗണ്ട് നിരക്ക് (വർഷം %)',
+  npvAtRate: 'ഡിസ്കൗണ്ട് നിരക്കിൽ NPV',
+  mirrLabel: 'MIRR (വർഷം)',
+  xirrLabel: 'XIRR (കലണ്ടർ തീയതികൾ)',
+  irrFootnote: 'IRR (ആന്തരിക ആദായ നിരക്ക്) എല്ലാ പണമൊഴുക്കുകളുടെയും സമയം കണക്കിലെടുക്കുന്നു. അത് വിലയിരുത്താൻ താഴെയുള്ള FD, RD, SIP, വ്യക്തിഗത വായ്പ താരതമ്യം കാണുക.',
+  language: 'ഭാഷ',
+  numberFormat: 'സംഖ്യാ രൂപം',
+  numberFormatHint: 'തുകകൾ എങ്ങനെ ഗ്രൂപ്പാക്കി എഴുതണം, ഏത് കറൻസിയിൽ കാണിക്കണം. പ്രദർശനത്തിനായി തുകകൾ നിങ്ങളുടെ വിനിമയ നിരക്കിൽ മാറ്റുന്നു; പദ്ധതിയുടെ കണക്ക് എപ്പോഴും രൂപയിലാണ്.',
+  digitGrouping: 'അക്ക ഗ്രൂപ്പിംഗ്',
+  indianGrouping: 'ലക്ഷം / കോടി (10,00,000)',
+  internationalGrouping: 'അന്താരാഷ്ട്ര (1,000,000)',
+  amountDisplay: 'സംഗ്രഹ തുകകൾ',
+  compactAmounts: 'ചുരുക്കം (12.35 L)',
+  fullAmounts: 'പൂർണ്ണം (12,34,567)',
+  displayCurrency: 'കറൻസി',
+  exchangeRate: '1 {currency} ന് ₹',
+  nativeDigits: 'സംഖ്യകൾ മലയാള അക്കങ്ങളിൽ എഴുതുക',
+  foremanTab: 'ഫോർമാൻ',
+  foremanDashboard: 'ഫോർമാന്റെ ലാഭം',
+  foremanHint: 'സംഘാടകൻ നേടുന്നതും നഷ്ടസാധ്യതയും: കമ്മീഷൻ, എല്ലാ അംഗങ്ങൾക്കും നൽകിയ ശേഷം പൂളിൽ ബാക്കിയാകുന്ന തുക (വായ്പാ പലിശ ഇതിലാണ് എത്തുന്നത്), പൂൾ തികയാതെ വരുമ്പോൾ ഇടുന്ന സ്വന്തം പണം.',
+  commissionCollected: 'പിരിച്ച കമ്മീഷൻ',
+  poolSurplus: 'ബാക്കി തുക',
+  ownCashAtRisk: 'ഇട്ട സ്വന്തം പണം',
+  exposureMonths: '{months} മാസങ്ങളിൽ',
+  noExposure: 'പൂൾ ഒരിക്കലും തികയാതെ വരുന്നില്ല',
+  foremanProfit: 'ആകെ വരുമാനം',
+  foremanIrr: 'ഫോർമാന്റെ IRR (വാർഷികം)',
+  noOwnCashAtRisk: 'ബാധകമല്ല: സ്വന്തം പണം അപകടത്തിലില്ല',
+  breakEvenMonth: 'ബ്രേക്ക്-ഈവൻ മാസം',
+  neverBreaksEven: 'ഒരിക്കലും ബ്രേക്ക്-ഈവൻ ആകുന്നില്ല',
+  commissionTypeComparison: 'പ്രതിമാസ % vs ഒറ്റത്തവണ കമ്മീഷൻ',
+  monthlyCommissionColumn: 'പ്രതിമാസം {rate}%',
+  oneTimeCommissionColumn: 'ഒറ്റത്തവണ {amount}',
+  memberSlots: 'അംഗങ്ങളുടെ ഓഹരിയും സമയവും',
+  memberSlotsHint: 'അംഗങ്ങൾക്ക് വലുതോ ചെറുതോ ആയ ഓഹരി നൽകുക (2× ഓഹരി ഇരട്ടി അടയ്ക്കുകയും ഇരട്ടി നേടുകയും ചെയ്യും), അല്ലെങ്കിൽ വൈകി ചേരാനോ ഇടയ്ക്ക് പിന്മാറാനോ അനുവദിക്കുക. വൈകി ചേരുന്നവർ നഷ്ടമായ തവണകൾ ചേരുമ്പോൾ അടയ്ക്കും; പിന്മാറിയവർക്ക് പേഔട്ട് ഇല്ല, പക്ഷേ ഗ്രൂപ്പ് അവസാനിക്കുമ്പോൾ അടച്ചതിന്റെ ഒരു ഭാഗം തിരികെ ലഭിക്കും. പേഔട്ടുകൾ പട്ടികയുടെ ക്രമത്തിൽ.',
+  customizeMembers: 'അംഗങ്ങളെ ക്രമീകരിക്കുക',
+  equalMembers: 'തുല്യ അംഗങ്ങളിലേക്ക് മടങ്ങുക',
+  share: 'ഓഹരി',
+  joinMonth: 'ചേരുന്ന മാസം',
+  leaveMonth: 'പിന്മാറുന്ന മാസം',
+  staysToEnd: 'അവസാനം വരെ',
+  exitRefundPercent: 'പിന്മാറിയവർക്ക് തിരികെ (%)',
+  exitRefundHint: 'പിന്മാറുന്ന അംഗങ്ങൾക്ക് അവർ അടച്ചതിൽ തിരികെ നൽകുന്ന ഭാഗം, ഗ്രൂപ്പ് അവസാനിക്കുമ്പോൾ',
+  shareTimes: '{share}× ഓഹരി',
+  leftInMonth: 'മാസം {month} ൽ പിന്മാറി, തിരികെ നൽകി',
+  joinedInMonth: 'മാസം {month} ൽ ചേർന്നു',
+  errSlotCount: 'കൃത്യം {limit} അംഗങ്ങൾ അവസാനം വരെ തുടരണം, മാസം ഒരു പേഔട്ട്',
+  errSlotMonths: 'മാസങ്ങൾ 1 മുതൽ {limit} വരെ ആയിരിക്കണം, പിന്മാറൽ ചേർന്നതിന് ശേഷം',
+  errWholeTickets: 'ലേല പദ്ധതിയിൽ ഓരോ അംഗത്തിനും കൃത്യം ഒരു ഓഹരി വേണം',
+  withdrawalOrder: 'പിൻവലിക്കൽ ക്രമം',
+  withdrawalOrderHint: 'ഓരോ മാസത്തെയും പേഔട്ട് ആർക്ക്. അംഗങ്ങളുടെ നമ്പറുകൾ മാറില്ല; പേഔട്ടിന്റെ ക്രമം മാത്രം മാറും.',
+  sequenceOrder: 'പട്ടികയുടെ ക്രമത്തിൽ',
+  lotteryDraw: 'നറുക്കെടുപ്പ്',
+  priorityOrder: 'മുൻഗണനാ പട്ടിക',
+  needsOrder: 'ആവശ്യാധിഷ്ഠിതം',
+  lotterySeed: 'നറുക്ക് സീഡ്',
+  newDraw: 'വീണ്ടും നറുക്കെടുക്കുക',
+  lotterySeedHint: 'ഒരേ സീഡ് എപ്പോഴും ഒരേ ക്രമം നൽകും, അതിനാൽ അംഗങ്ങൾക്ക് നറുക്ക് പരിശോധിക്കാം.',
+  priorityHint: 'അംഗങ്ങളെ മുകളിലേക്കോ താഴേക്കോ നീക്കുക; പട്ടികയിൽ മുകളിലുള്ളയാൾക്ക് ആദ്യം പേഔട്ട്.',
+  needsHint: 'നേരത്തെ പേഔട്ട് ചോദിച്ച അംഗങ്ങളെ ചേർക്കുക, ഏറ്റവും അടിയന്തരം ആദ്യം. മറ്റുള്ളവർ പട്ടികയുടെ ക്രമത്തിൽ.',
+  addRequest: 'അഭ്യർത്ഥന ചേർക്കുക…',
+  moveUp: 'മുകളിലേക്ക് നീക്കുക',
+  moveDown: 'താഴേക്ക് നീക്കുക',
+  removeRequest: 'അഭ്യർത്ഥന നീക്കുക',
+  drawnOrder: 'പേഔട്ട് ക്രമം: അംഗങ്ങൾ {order}',
+  fairnessReport: 'നീതി റിപ്പോർട്ട്',
+  fairnessHint: 'നേരത്തെ പിൻവലിക്കുന്നവർ മുൻകൂറിന് വില നൽകുന്നു, വൈകി പിൻവലിക്കുന്നവർ സമ്പാദ്യത്തിൽ നേടുന്നു. നീതിയുള്ള പേഔട്ട് ഗോവണി രണ്ട് വാർഷിക നിരക്കുകളും അടുത്ത് നിർത്തുന്നു.',
+  earliestWithdrawer: 'ആദ്യം പിൻവലിച്ചയാൾ',
+  latestWithdrawer: 'അവസാനം പിൻവലിച്ചയാൾ',
+  irrSpread: 'IRR വ്യത്യാസം (അവസാനം − ആദ്യം)',
+  memberInMonth: 'അംഗം {member}, മാസം {month}',
+  percentagePoints: '{value} പോയിന്റ്',
+  ladderSuggestions: 'വ്യത്യാസം കുറയ്ക്കുന്ന പേഔട്ട് ഗോവണി മാറ്റങ്ങൾ',
+  gapAfterChange: 'വ്യത്യാസം {gap} ആകും',
+  noLadderSuggestions: 'എല്ലാവർക്കും പേഔട്ട് നൽകിക്കൊണ്ട് വ്യത്യാസം കുറയ്ക്കുന്ന ഗോവണി മാറ്റമൊന്നുമില്ല.',
+  schemeNotApplicable: '{scheme} ഈ ഇൻപുട്ടുകളിൽ പ്രവർത്തിക്കില്ല, അതിനാൽ അതിന്റെ കോളം ശൂന്യമാണ്.',
+  checkFairness: 'നീതി പരിശോധിക്കുക',
+  amountLabel: '{label} ({currency})'
+};
@@ -0,0 +1,366 @@
+import type { LocaleStrings } from '../translations';
+
+export const ta: LocaleStrings = {
+  title: 'சீட்டு கணக்கீட்டான்',
+  subtitle: 'ஒவ்வொரு மாதமும் பல உறுப்பினர்கள் எடுக்கும் சீட்டுத் தொகையைக் கணக்கிடுங்கள்',
+  inputParams: 'உள்ளீட்டு விவரங்கள்',
+  totalMembers: 'மொத்த உறுப்பினர்கள்',
+  monthlyContribution: 'மாதாந்திர சந்தா',
+  firstWithdrawal: 'முதல் எடுப்புத் தொகை (மாதம் 1)',
+  finalWithdrawal: 'இறுதி எடுப்புத் தொகை (கடைசி மாதம்)',
+  monthlyIncrement: 'மாதாந்திர உயர்வு',
+  loanInterestRate: 'கடன் வட்டி விகிதம் (மாதத்திற்கு %)',
+  commissionType: 'கமிஷன் வகை',
+  monthlyRate: 'மாதாந்திர விகிதம் (%)',
+  oneTimeAmount: 'ஒருமுறை தொகை',
+  calculatedResults: 'கணக்கீட்டு முடிவுகள்',
+  monthlyPool: 'மாதாந்திர சேர்ப்புத் தொகை',
+  commissionPerMonth: 'மாதத்திற்கு கமிஷன்',
+  totalCommission: 'மொத்த கமிஷன்',
+  netPool: 'மாதத்திற்கு நிகர சேர்ப்பு (கமிஷனுக்குப் பின்)',
+  duration: 'காலம் (மாதங்கள்)',
+  membersServed: 'தொகை பெற்ற உறுப்பினர்கள்',
+  finalBalance: 'இறுதி இருப்பு',
+  totalLoans: 'வழங்கிய மொத்தக் கடன்',
+  totalInterest: 'ஈட்டிய மொத்த வட்டி',
+  loanUtilization: 'கடன் பயன்பாடு',
+  adjustUtilization: 'கடன் பயன்பாட்டு சதவீதத்தை மாற்றவும்',
+  withdrawalTrends: 'எடுப்பு மற்றும் இருப்புப் போக்கு',
+  loanDistribution: 'கடன் பகிர்வு மற்றும் ஈட்டிய வட்டி',
+  contributionVsWithdrawal: 'உறுப்பினர் வாரியாக சந்தா மற்றும் எடுப்பு',
+  withdrawalSchedule: 'எடுப்பு அட்டவணை',
+  loanSchedule: 'கடன் அட்டவணை',
+  month: 'மாதம்',
+  withdrawalAmount: 'எடுப்புத் தொகை',
+  membersWithdrawing: 'எடுக்கும் உறுப்பினர்கள்',
+  contribution: 'உறுப்பினர் சந்தா',
+  newContributions: 'புதிய சந்தாக்கள்',
+  carryOver: 'முன் இருப்பு',
+  availablePool: 'கிடைக்கும் தொகை',
+  totalWithdrawn: 'மொத்த எடுப்பு',
+  remainingPool: 'மீதி இருப்பு',
+  membersLeft: 'மீதமுள்ள உறுப்பினர்கள்',
+  availableForLoan: 'கிடைப்பது',
+  loanGiven: 'வழங்கிய கடன்',
+  interestEarned: 'ஈட்டிய வட்டி',
+  repaymentDue: 'திருப்பிச் செலுத்த வேண்டியது',
+  allMembers: 'அனைத்து உறுப்பினர்களுக்கும் தொகை கிடைத்தது!',
+  waiting: 'உறுப்பினர்கள் காத்திருக்கின்றனர்',
+  fromPool: 'அனைத்து மாதங்களின் மீதி இருப்பிலிருந்து',
+  atRate: 'விகிதம்',
+  perMonth: 'மாதத்திற்கு',
+  afterAll: 'அனைத்து எடுப்புகளுக்குப் பின் மீதி',
+  overPeriod: 'முழு',
+  monthPeriod: 'மாத காலத்தில்',
+  loanAmount: 'கடன் தொகை',
+  interest: 'வட்டி',
+  withdrawal: 'எடுப்பு',
+  pool: 'இருப்பு',
+  memberReturns: 'உறுப்பினர் வருவாய் சுருக்கம்',
+  memberReturnDetails: 'உறுப்பினர் வருவாய் விவரங்கள்',
+  member: 'உறுப்பினர்',
+  withdrawalMonth: 'எடுப்பு மாதம்',
+  totalContribution: 'மொத்த சந்தா',
+  netReturn: 'நிகர வருவாய்',
+  returnPercent: 'வருவாய் %',
+  splitContribution: 'பிரித்த சந்தா பகுப்பாய்வு',
+  paidBefore: 'முன்பு செலுத்தியது',
+  paidAfter: 'பின்பு செலுத்தியது',
+  effectiveLoan: 'பயனுள்ள கடன்',
+  effectiveInterest: 'உறுப்பினர் வருவாய் (IRR)',
+  effectiveInterestRate: 'ஆண்டு IRR',
+  monthlyIRR: 'மாதாந்திர IRR',
+  cashFlowTimeline: 'பணப்புழக்க காலவரிசை',
+  cumulativePosition: 'ஒட்டுமொத்த நிலை',
+  simpleSummary: 'எளிய சுருக்கம்',
+  youPay: 'நீங்கள் செலுத்துவது',
+  youGet: 'நீங்கள் பெறுவது',
+  netPosition: 'நிகர நிலை',
+  monthsToRepay: 'திருப்பிச் செலுத்தும் மாதங்கள்',
+  netFlow: 'நிகர புழக்கம்',
+  tapMemberHint: 'மாதவாரி பணப்புழக்கத்தைப் பார்க்க ஒரு உறுப்பினரைத் தட்டவும்',
+  close: 'மூடு',
+  payoutMode: 'வழங்கல் அட்டவணை',
+  linearIncrement: 'சம உயர்வு',
+  linearInterpolation: 'முதல் → இறுதி',
+  stepUp: 'சதவீத உயர்வு',
+  customSchedule: 'ஒவ்வொரு மாதமும் தனியாக',
+  stepUpPercent: 'மாதாந்திர உயர்வு (%)',
+  derivedIncrement: 'கணக்கிட்ட மாதாந்திர உயர்வு',
+  customScheduleHint: 'ஒவ்வொரு மாதத்தின் தொகையை உள்ளிடவும். காலியான மாதங்களில் முந்தைய தொகை தொடரும்.',
+  schemeType: 'சீட்டு வகை',
+  fixedScheme: 'நிலையான தொகை',
+  auctionScheme: 'ஏலம்',
+  bidMode: 'ஏலத் தள்ளுபடிகள்',
+  bidCurve: 'அனுமான ஏலக் குறைவு',
+  manualBids: 'மாதவாரி ஏலம்',
+  startingBidPercent: 'மாதம் 1 ஏலத் தள்ளுபடி (%)',
+  manualBidsHint: 'ஒவ்வொரு மாதமும் வென்ற ஏலத் தள்ளுபடியை மாதாந்திர சேர்ப்பின் % ஆக உள்ளிடவும்.',
+  bidDiscount: 'ஏலத் தள்ளுபடி',
+  dividend: 'ஈவுத்தொகை / உறுப்பினர்',
+  schemeComparison: 'நிலையான மற்றும் ஏலம்',
+  payoutRange: 'தொகை வரம்பு',
+  irrRange: 'ஆண்டு IRR வரம்பு',
+  savedGroups: 'சேமித்த குழுக்கள்',
+  groupName: 'குழுவின் பெயர்',
+  saveAsNew: 'புதிதாகச் சேமி',
+  rename: 'பெயர் மாற்று',
+  duplicate: 'நகலெடு',
+  deleteGroup: 'நீக்கு',
+  unsavedGroup: 'சேமிக்காத கணக்கீடு',
+  copySuffix: '(நகல்)',
+  confirmDelete: 'இந்த சேமித்த குழுவை நீக்கவா?',
+  autoSaveHint: 'தேர்ந்தெடுத்த குழுவின் மாற்றங்கள் இந்தச் சாதனத்தில் தானாகச் சேமிக்கப்படும்.',
+  calculatorTab: 'கணக்கீடு',
+  compareTab: 'ஒப்பீடு',
+  scenario: 'சூழல்',
+  addScenario: 'சூழலைச் சேர்',
+  removeScenario: 'நீக்கு',
+  loadFrom: 'இதிலிருந்து ஏற்று',
+  currentInputs: 'தற்போதைய கணக்கீடு',
+  irrDistribution: 'உறுப்பினர்களிடையே IRR பரவல்',
+  minIRR: 'குறைந்த IRR',
+  medianIRR: 'இடைநிலை IRR',
+  maxIRR: 'அதிக IRR',
+  vsBaseline: 'சூழல் 1 உடன் ஒப்பிட',
+  exportReport: 'ஏற்றுமதி & பகிர்வு',
+  exportTable: 'CSV க்கான அட்டவணை',
+  exportCsv: 'CSV',
+  exportXlsx: 'Excel (XLSX)',
+  exportPdf: 'PDF அறிக்கை',
+  exporting: 'தயாராகிறது…',
+  exportFailed: 'ஏற்றுமதி தோல்வியடைந்தது. மீண்டும் முயற்சிக்கவும்.',
+  reportGenerated: 'உருவாக்கிய தேதி',
+  shareLink: 'இணைப்பைப் பகிர்',
+  linkCopied: 'இணைப்பு நகலெடுக்கப்பட்டது',
+  invalidShareLink: 'பகிர்ந்த இணைப்பைப் படிக்க முடியவில்லை. இயல்பு கணக்கீடு காட்டப்படுகிறது.',
+  errWholeNumber: 'முழு எண்ணை உள்ளிடவும்',
+  errMinMembers: 'குறைந்தது {limit} உறுப்பினர்கள் தேவை',
+  errMaxMembers: 'அதிகபட்சம் {limit} உறுப்பினர்களே ஆதரிக்கப்படுகின்றனர்',
+  errPositive: 'பூஜ்யத்தை விட அதிகமாக இருக்க வேண்டும்',
+  errNonNegative: 'எதிர்மறையாக இருக்கக் கூடாது',
+  errPercentRange: '0 முதல் 100 வரையிலான சதவீதத்தை உள்ளிடவும்',
+  errExceedsNetPool: 'நிகர மாதாந்திர சேர்ப்பு ₹{limit} ஐ மீறக் கூடாது',
+  errCommissionExceedsPool: 'முழுத் திட்டத்தில் வசூலாகும் தொகையை (₹{limit}) விடக் குறைவாக இருக்க வேண்டும்',
+  errNegativeEntries: 'தொகைகள் எதிர்மறையாக இருக்கக் கூடாது',
+  errBidRange: 'ஒவ்வொரு ஏலமும் 0% முதல் 100% வரை இருக்க வேண்டும்',
+  fixInputsHint: 'முடிவுகளைக் காண குறிக்கப்பட்ட உள்ளீடுகளைச் சரிசெய்யவும்.',
+  diagnosticsTitle: 'திட்ட எச்சரிக்கைகள்',
+  diagNoWithdrawalMonth1: 'இந்த எண்களுடன் மாதம் 1 இல் யாரும் எடுக்க முடியாது: {payout} தொகை கிடைக்கும் {available} ஐ விட அதிகம்.',
+  diagIdleMonths: 'மாதம் {months} இல் யாரும் எடுக்க முடியாது.',
+  diagMembersUnserved: '{months} மாதங்களுக்குப் பிறகும் {remaining} உறுப்பினர்களுக்குத் தொகை கிடைக்கவில்லை.',
+  goalSeek: 'இலக்குத் தேடல்',
+  solveFor: 'எதற்குத் தீர்வு',
+  target: 'இலக்கு',
+  targetBreakEven: 'சமநிலை (அனைவருக்கும் தொகை, இறுதி இருப்பு ≈ ₹0)',
+  targetServedBy: 'இந்த மாதத்திற்குள் அனைவருக்கும் தொகை',
+  targetLastIrr: 'கடைசி உறுப்பினரின் IRR குறைந்தது (%)',
+  solve: 'தீர்',
+  applySolution: 'பயன்படுத்து',
+  solverResult: 'தீர்வு',
+  lastMemberIrr: 'கடைசி உறுப்பினரின் IRR',
+  solverAtLimit: 'தேடல் வரம்பின் விளிம்பு வரை இலக்கு நிறைவேறுகிறது; இது திட்டத்தின் வரம்பு அல்ல, தேடலின் வரம்பு.',
+  solverNotApplicable: 'தற்போதைய சீட்டு வகை, வழங்கல் அட்டவணை அல்லது கமிஷன் வகையில் இந்த உள்ளீட்டுக்கு விளைவு இல்லை.',
+  solverNeverServesAll: '{low} முதல் {high} வரை எந்த மதிப்பும் அனைவருக்கும் தொகை தராது. அதிகபட்சம் {total} இல் {served} பேருக்குக் கிடைக்கும்.',
+  solverEarliestMonth: '{low} முதல் {high} வரை எந்த மதிப்பும் பொருந்தவில்லை. அனைவருக்கும் மிக விரைவாக மாதம் {month} இல் தொகை கிடைக்கும்.',
+  solverBestIrr: '{low} முதல் {high} வரை எந்த மதிப்பும் பொருந்தவில்லை. அனைவருக்கும் தொகை கிடைக்கும் நிலையில் கடைசி உறுப்பினரின் IRR அதிகபட்சம் {irr}%.',
+  solverNoSolution: '{low} முதல் {high} வரை எந்த மதிப்பும் இலக்கை அடையவில்லை.',
+  sensitivityAnalysis: 'உணர்திறன் பகுப்பாய்வு',
+  sensitivityHint: 'கடன் பயன்பாடு (நெடுவரிசைகள்) மற்றும் கடன் வட்டி விகிதம் (வரிசைகள்) மாறும்போது திட்டம் எப்படி மாறுகிறது. கோடிட்ட கட்டம் தற்போதைய அமைப்புக்கு மிக அருகில் உள்ளது.',
+  interestRange: 'வட்டி விகித வரம்பு (மாதத்திற்கு %)',
+  rangeFrom: 'முதல்',
+  rangeTo: 'வரை',
+  monthsToServeAll: 'அனைவருக்கும் தொகை தர ஆகும் மாதங்கள்',
+  sensitivityUnservedNote: '✗ சில உறுப்பினர்களுக்கு ஒருபோதும் தொகை கிடைக்காத (அல்லது IRR கணக்கிட முடியாத) அமைப்புகளைக் குறிக்கிறது.',
+  loanRisk: 'கடன் தவறும் அபாயம்',
+  loanRiskHint: 'ஒரு மாதக் கடன்கள் சரியான நேரத்தில் திரும்பாத வாய்ப்பு, தவறிய தொகையில் எவ்வளவு இறுதியில் மீட்கப்படுகிறது, அது எத்தனை மாதம் தாமதமாக வருகிறது.',
+  loanDefaultRate: 'தவறும் வாய்ப்பு (%)',
+  loanRecoveryRate: 'தவறியதில் மீட்பு (%)',
+  loanRepaymentDelay: 'மீட்பு தாமதம் (மாதங்கள்)',
+  expectedLoss: 'எதிர்பார்க்கும் இழப்பு',
+  lateRecovery: 'தாமத மீட்பு',
+  riskSimulation: 'கடன் அபாய உருவகப்படுத்தல்',
+  riskSimulationHint: 'ஒவ்வொரு மாதக் கடன்களும் திரும்பும் அல்லது தவறும் {runs} உருவகப்படுத்தல்களில், ஒவ்வொரு மாத இறுதியிலும் தொகை பெற்ற உறுப்பினர்கள். நிழலிட்ட பட்டை நடுவிலுள்ள 80% ஓட்டங்களைக் காட்டுகிறது.',
+  runSimulation: 'உருவகப்படுத்து',
+  riskBand: '10வது–90வது சதமானம்',
+  noRiskRun: 'தவறல் இல்லை',
+  expectedRun: 'எதிர்பார்க்கும் மதிப்பு',
+  medianRun: 'இடைநிலை ஓட்டம்',
+  percentileRange: 'P10 / P50 / P90',
+  totalLosses: 'கடன் இழப்பு',
+  shortfallChance: 'உறுப்பினர்களுக்குத் தொகை கிடைக்காத ஓட்டங்கள்',
+  loanTerms: 'கடன் நிபந்தனைகள்',
+  loanTermsHint: 'மீதி இருப்பிலிருந்து தரும் கடன்களின் காலம் மற்றும் கடன் பெற்றவர்கள் திருப்பிச் செலுத்தும் முறை.',
+  loanTenure: 'காலம் (மாதங்கள்)',
+  repaymentStyle: 'திருப்பிச் செலுத்தல்',
+  bulletRepayment: 'ஒரேயடியாக (இறுதியில்)',
+  interestOnlyRepayment: 'வட்டி மட்டும்',
+  emiRepayment: 'EMI',
+  interestCompounding: 'வட்டி',
+  simpleInterest: 'தனி / நிலையான',
+  monthlyCompounding: 'மாதாந்திர கூட்டு வட்டி',
+  outstandingPrincipal: 'நிலுவை அசல்',
+  membersTab: 'உறுப்பினர்கள்',
+  roster: 'உறுப்பினர் பட்டியல்',
+  rosterHint: 'இந்தக் குழுவின் உறுப்பினர்கள், ஒவ்வொருவரும் தொகை பெறும் மாதம் மற்றும் அவர்கள் செலுத்தியவை.',
+  rosterNeedsGroup: 'உறுப்பினர்களையும் செலுத்தல்களையும் கண்காணிக்க இந்த உள்ளீடுகளைக் குழுவாகச் சேமிக்கவும்.',
+  memberName: 'பெயர்',
+  phone: 'தொலைபேசி',
+  joinedOn: 'சேர்ந்த தேதி',
+  addMember: 'உறுப்பினரைச் சேர்',
+  autoAssign: 'காலி மாதங்களை ஒதுக்கு',
+  unassigned: 'ஒதுக்கப்படவில்லை',
+  removeMember: 'உறுப்பினரை நீக்கு',
+  noMembersYet: 'இன்னும் உறுப்பினர்கள் சேர்க்கப்படவில்லை.',
+  rosterCountMismatch: 'பட்டியலில் {count} உறுப்பினர்கள் உள்ளனர், ஆனால் திட்டம் {total} பேருக்கானது.',
+  contributionLedger: 'சந்தா பேரேடு',
+  currentMonth: 'நடப்பு மாதம்',
+  expectedAmount: 'எதிர்பார்ப்பு',
+  collectedAmount: 'வசூலானது',
+  shortfall: 'பற்றாக்குறை',
+  amountPaid: 'செலுத்திய தொகை',
+  markPaid: 'முழுமையாகச் செலுத்தினார்',
+  statusPaid: 'செலுத்தப்பட்டது',
+  statusPartial: 'பகுதி',
+  statusUnpaid: 'செலுத்தவில்லை',
+  outstandingDues: 'நிலுவைத் தொகை',
+  unpaidMonths: 'செலுத்தாத மாதங்கள்',
+  duesToDate: 'மாதம் {month} வரை நிலுவை',
+  noDues: 'அனைவரும் முழுமையாகச் செலுத்தியுள்ளனர்.',
+  actualsVsPlan: 'உண்மை மற்றும் திட்டம்',
+  actualsHint: 'முடிந்த ஒவ்வொரு மாதத்தையும் நடந்தபடியே பதிவு செய்யவும். பின்வரும் மாதங்கள் மூலத் திட்டத்துக்குப் பதிலாக உண்மையான இருப்பிலிருந்து கணிக்கப்படும்.',
+  noActualsYet: 'இன்னும் எந்த மாதமும் பதிவு செய்யப்படவில்லை.',
+  recordMonth: 'மாதம் {month} பதிவு செய்',
+  undoLastMonth: 'கடைசியாகப் பதிவு செய்த மாதத்தை நீக்கு',
+  allMonthsRecorded: 'இந்தக் குழுவின் அனைத்து மாதங்களும் பதிவு செய்யப்பட்டுவிட்டன.',
+  paidOut: 'வழங்கியது',
+  loanRepaymentsReceived: 'கடன் திருப்பல்கள்',
+  closingBalance: 'இறுதி இருப்பு',
+  planLabel: 'திட்டம்',
+  recordedMonth: 'உண்மை',
+  monthNames: ['ஜன', 'பிப்', 'மார்', 'ஏப்', 'மே', 'ஜூன்', 'ஜூலை', 'ஆக', 'செப்', 'அக்', 'நவ', 'டிச'],
+  scheduleDates: 'அட்டவணை தேதிகள்',
+  scheduleDatesHint: 'அட்டவணைகளில் உண்மையான தேதிகளைக் காண தொடக்கத் தேதியை அமைக்கவும். Android இல் சந்தா, வழங்கல் மற்றும் கடன் திருப்பல் தேதிகளில் நினைவூட்டலும் கிடைக்கும்.',
+  startDate: 'தொடக்கத் தேதி',
+  collectionDay: 'மாதத்தின் வசூல் நாள்',
+  dueDate: 'செலுத்த வேண்டிய தேதி',
+  errInvalidDate: 'சரியான தேதியை உள்ளிடவும்',
+  errDayOfMonth: '1 முதல் 31 வரையிலான நாளாக இருக்க வேண்டும்',
+  reminderContributionTitle: 'இன்று சந்தா செலுத்த வேண்டும்',
+  reminderContributionBody: 'மாதம் {month}: உறுப்பினருக்கு {amount}',
+  reminderPayoutTitle: 'வழங்கல் நாள்',
+  reminderPayoutBody: 'மாதம் {month}: எடுக்கும் ஒவ்வொரு உறுப்பினருக்கும் {amount}',
+  reminderLoanTitle: 'கடன் திருப்பல்கள் வர வேண்டும்',
+  reminderLoanBody: 'மாதம் {month}: இருப்புக் கடன்களிலிருந்து {amount} திரும்ப எதிர்பார்க்கப்படுகிறது',
+  taxSettings: 'வரிகள்',
+  taxSettingsHint: 'நடத்துநரின் கமிஷன் மீதான GST மற்றும் கடன் வட்டியில் பிடிக்கப்படும் TDS',
+  gstRate: 'கமிஷன் மீது GST (%)',
+  gstBorneBy: 'GST செலுத்துபவர்',
+  gstByPool: 'இருப்பு, ஒவ்வொரு மாதமும்',
+  gstByWinner: 'வென்றவர், தம் தொகையிலிருந்து',
+  tdsRate: 'கடன் வட்டி மீது TDS (%)',
+  tdsThreshold: 'ஆண்டுக்கு TDS வரம்பு',
+  gst: 'GST',
+  gstFromPayout: 'தொகையிலிருந்து GST',
+  tds: 'TDS',
+  totalTaxes: 'வரிகள் (GST + TDS)',
+  benchmarkComparison: 'சீட்டு மற்றும் மாற்று வழிகள்',
+  benchmarkHint: 'ஒவ்வொரு உறுப்பினரின் சந்தாவும் FD, RD அல்லது SIP இல் எவ்வளவு வளரும், அதே முறையில் சேமித்த சீட்டுத் தொகையுடன் ஒப்பிட்டு, மற்றும் தொகையின் முன்பகுதியைக் கடனாகப் பெற்றால் ஆகும் செலவு',
+  fdRate: 'FD விகிதம் (ஆண்டுக்கு %)',
+  rdRate: 'RD விகிதம் (ஆண்டுக்கு %)',
+  sipReturn: 'SIP வருவாய் (ஆண்டுக்கு %)',
+  personalLoanRate: 'தனிநபர் கடன் விகிதம் (ஆண்டுக்கு %)',
+  fixedDeposit: 'நிலை வைப்பு',
+  recurringDeposit: 'தொடர் வைப்பு',
+  sip: 'SIP',
+  personalLoan: 'தனிநபர் கடன்',
+  alternativeValue: 'மாற்று வழி',
+  chitValue: 'சீட்டு',
+  loanNeeded: 'கடன்',
+  loanRepays: 'கடனில் திருப்பல்',
+  chitRepays: 'சீட்டில் திருப்பல்',
+  chitBetter: 'சீட்டு சிறந்தது',
+  chitWorse: 'சீட்டு பின்தங்கியது',
+  irrNoSignChange: 'பொருந்தாது: ஒருதிசைப் பணப்புழக்கம்',
+  irrNoRoot: 'பொருந்தாது: எந்த விகிதமும் பொருந்தவில்லை',
+  irrAmbiguous: '{count} விகிதங்களில் மிக அருகிலுள்ளது',
+  timeValue: 'கால மதிப்பு',
+  discountRate: 'தள்ளுபடி விகிதம் (ஆண்டுக்கு %)',
+  npvAtRate: 'தள்ளுபடி விகிதத்தில் NPV',
+  mirrLabel: 'MIRR (ஆண்டுக்கு)',
+  xirrLabel: 'XIRR (நாள்காட்டி தேதிகள்)',
+  irrFootnote: 'IRR (உள் வருவாய் விகிதம்) அனைத்துப் பணப்புழக்கங்களின் நேரத்தையும் கணக்கில் கொள்கிறது. அதை மதிப்பிட கீழே உள்ள FD, RD, SIP மற்றும் தனிநபர் கடன் ஒப்பீட்டைப் பார்க்கவும்.',
+  language: 'மொழி',
+  numberFormat: 'எண் வடிவம்',
+  numberFormatHint: 'தொகைகள் எவ்வாறு குழுவாக்கி எழுதப்படுகின்றன, எந்த நாணயத்தில் காட்டப்படுகின்றன. காட்சிக்காகத் தொகைகள் உங்கள் மாற்று விகிதத்தில் மாற்றப்படும்; திட்டக் கணக்கீடு எப்போதும் ரூபாயிலேயே இருக்கும்.',
+  digitGrouping: 'இலக்கக் குழுவாக்கம்',
+  indianGrouping: 'லட்சம் / கோடி (10,00,000)',
+  internationalGrouping: 'சர்வதேச (1,000,000)',
+  amountDisplay: 'சுருக்கத் தொகைகள்',
+  compactAmounts: 'சுருக்கம் (12.35 L)',
+  fullAmounts: 'முழுமை (12,34,567)',
+  displayCurrency: 'நாணயம்',
+  exchangeRate: '1 {currency} க்கு ₹',
+  nativeDigits: 'எண்களைத் தமிழ் இலக்கங்களில் எழுது',
+  foremanTab: 'ஃபோர்மேன்',
+  foremanDashboard: 'ஃபோர்மேன் லாபம்',
+  foremanHint: 'அமைப்பாளர் ஈட்டுவதும் இடர் எடுப்பதும்: கமிஷன், அனைத்து உறுப்பினர்களுக்கும் செலுத்திய பின் நிதியில் மீதமிருக்கும் தொகை (கடன் வட்டி இங்கே சேரும்), நிதி போதாதபோது போடும் சொந்தப் பணம்.',
+  commissionCollected: 'வசூலான கமிஷன்',
+  poolSurplus: 'மீதத் தொகை',
+  ownCashAtRisk: 'போட்ட சொந்தப் பணம்',
+  exposureMonths: '{months} மாதங்களில்',
+  noExposure: 'நிதி ஒருபோதும் குறைவதில்லை',
+  foremanProfit: 'மொத்த வருவாய்',
+  foremanIrr: 'ஃபோர்மேன் IRR (ஆண்டு)',
+  noOwnCashAtRisk: 'பொருந்தாது: சொந்தப் பணம் இடரில் இல்லை',
+  breakEvenMonth: 'சமநிலை மாதம்',
+  neverBreaksEven: 'சமநிலையை அடைவதில்லை',
+  commissionTypeComparison: 'மாதாந்திர % மற்றும் ஒருமுறை கமிஷன்',
+  monthlyCommissionColumn: 'மாதாந்திர {rate}%',
+  oneTimeCommissionColumn: 'ஒருமுறை {amount}',
+  memberSlots: 'உறுப்பினர் பங்கு மற்றும் காலம்',
+  memberSlotsHint: 'உறுப்பினர்களுக்கு பெரிய அல்லது சிறிய பங்கு கொடுங்கள் (2× பங்கு இருமடங்கு செலுத்தி இருமடங்கு பெறும்), அல்லது தாமதமாக சேர அல்லது இடையில் விலக அனுமதியுங்கள். தாமதமாக சேர்பவர்கள் தவறிய தவணைகளை சேரும்போது செலுத்துவர்; விலகியவர்களுக்கு பணம் வழங்கப்படாது, ஆனால் குழு முடியும்போது செலுத்தியதில் ஒரு பகுதி திருப்பித் தரப்படும். பணம் பட்டியல் வரிசையில் வழங்கப்படும்.',
+  customizeMembers: 'உறுப்பினர்களை மாற்றியமை',
+  equalMembers: 'சம உறுப்பினர்களுக்கு திரும்பு',
+  share: 'பங்கு',
+  joinMonth: 'சேரும் மாதம்',
+  leaveMonth: 'விலகும் மாதம்',
+  staysToEnd: 'இறுதிவரை',
+  exitRefundPercent: 'விலகியவர்களுக்கு திருப்பம் (%)',
+  exitRefundHint: 'விலகும் உறுப்பினர்களுக்கு அவர்கள் செலுத்தியதில் திருப்பித் தரப்படும் பகுதி, குழு முடியும்போது',
+  shareTimes: '{share}× பங்கு',
+  leftInMonth: 'மாதம் {month} இல் விலகினார், திருப்பித் தரப்பட்டது',
+  joinedInMonth: 'மாதம் {month} இல் சேர்ந்தார்',
+  errSlotCount: 'சரியாக {limit} உறுப்பினர்கள் இறுதிவரை இருக்க வேண்டும், மாதத்திற்கு ஒரு பணம்',
+  errSlotMonths: 'மாதங்கள் 1 முதல் {limit} வரை இருக்க வேண்டும், விலகல் சேர்ந்த பிறகு',
+  errWholeTickets: 'ஏலத் திட்டத்தில் ஒவ்வொரு உறுப்பினருக்கும் சரியாக ஒரு பங்கு இருக்க வேண்டும்',
+  withdrawalOrder: 'எடுப்பு வரிசை',
+  withdrawalOrderHint: 'ஒவ்வொரு மாதப் பணமும் யாருக்கு. உறுப்பினர் எண்கள் மாறாது; பணம் பெறும் வரிசை மட்டுமே மாறும்.',
+  sequenceOrder: 'பட்டியல் வரிசையில்',
+  lotteryDraw: 'குலுக்கல்',
+  priorityOrder: 'முன்னுரிமைப் பட்டியல்',
+  needsOrder: 'தேவை அடிப்படையில்',
+  lotterySeed: 'குலுக்கல் விதை',
+  newDraw: 'மீண்டும் குலுக்கு',
+  lotterySeedHint: 'ஒரே விதை எப்போதும் ஒரே வரிசையைத் தரும், எனவே உறுப்பினர்கள் குலுக்கலைச் சரிபார்க்கலாம்.',
+  priorityHint: 'உறுப்பினர்களை மேலே அல்லது கீழே நகர்த்துங்கள்; பட்டியலின் மேலே உள்ளவருக்கு முதலில் பணம்.',
+  needsHint: 'முன்கூட்டியே பணம் கேட்ட உறுப்பினர்களைச் சேர்க்கவும், மிக அவசரமானவர் முதலில். மற்றவர்கள் பட்டியல் வரிசையில் தொடர்வர்.',
+  addRequest: 'கோரிக்கையைச் சேர்…',
+  moveUp: 'மேலே நகர்த்து',
+  moveDown: 'கீழே நகர்த்து',
+  removeRequest: 'கோரிக்கையை நீக்கு',
+  drawnOrder: 'பண வரிசை: உறுப்பினர்கள் {order}',
+  fairnessReport: 'நியாய அறிக்கை',
+  fairnessHint: 'முன்கூட்டியே எடுப்பவர்கள் முன்பணத்திற்கு விலை கொடுப்பர், தாமதமாக எடுப்பவர்கள் சேமிப்பில் ஈட்டுவர். நியாயமான பண ஏணி இரு ஆண்டு விகிதங்களையும் அருகில் வைக்கும்.',
+  earliestWithdrawer: 'முதலில் எடுத்தவர்',
+  latestWithdrawer: 'கடைசியில் எடுத்தவர்',
+  irrSpread: 'IRR இடைவெளி (கடைசி − முதல்)',
+  memberInMonth: 'உறுப்பினர் {member}, மாதம் {month}',
+  percentagePoints: '{value} புள்ளி',
+  ladderSuggestions: 'இடைவெளியைக் குறைக்கும் பண ஏணி மாற்றங்கள்',
+  gapAfterChange: 'இடைவெளி {gap} ஆகும்',
+  noLadderSuggestions: 'அனைவருக்கும் பணம் வழங்கியபடி இடைவெளியைக் குறைக்கும் பண ஏணி மாற்றம் இல்லை.',
+  schemeNotApplicable: '{scheme} இந்த உள்ளீடுகளுடன் இயங்காது, அதனால் அதன் நெடுவரிசை காலியாக உள்ளது.',
+  checkFairness: 'நியாயத்தைச் சரிபார்',
+  amountLabel: '{label} ({currency})'
+};
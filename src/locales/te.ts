@@ -0,0 +1,366 @@
+import type { LocaleStrings } from '../translations';
+
+export const te: LocaleStrings = {
+  title: 'చిట్ ఫండ్ కాలిక్యులేటర్',
+  subtitle: 'ప్రతి నెలా పలువురు సభ్యులు తీసుకునే చిట్ మొత్తాలను లెక్కించండి',
+  inputParams: 'ఇన్‌పుట్ వివరాలు',
+  totalMembers: 'మొత్తం సభ్యులు',
+  monthlyContribution: 'నెలవారీ చందా',
+  firstWithdrawal: 'మొదటి ఉపసంహరణ మొత్తం (నెల 1)',
+  finalWithdrawal: 'చివరి ఉపసంహరణ మొత్తం (చివరి నెల)',
+  monthlyIncrement: 'నెలవారీ పెంపు',
+  loanInterestRate: 'రుణ వడ్డీ రేటు (నెలకు %)',
+  commissionType: 'కమీషన్ రకం',
+  monthlyRate: 'నెలవారీ రేటు (%)',
+  oneTimeAmount: 'ఒకేసారి మొత్తం',
+  calculatedResults: 'లెక్కింపు ఫలితాలు',
+  monthlyPool: 'నెలవారీ పూల్ మొత్తం',
+  commissionPerMonth: 'నెలకు కమీషన్',
+  totalCommission: 'మొత్తం కమీషన్',
+  netPool: 'నెలకు నికర పూల్ (కమీషన్ తర్వాత)',
+  duration: 'వ్యవధి (నెలలు)',
+  membersServed: 'మొత్తం పొందిన సభ్యులు',
+  finalBalance: 'చివరి పూల్ నిల్వ',
+  totalLoans: 'ఇచ్చిన మొత్తం రుణాలు',
+  totalInterest: 'ఆర్జించిన మొత్తం వడ్డీ',
+  loanUtilization: 'రుణ వినియోగం',
+  adjustUtilization: 'రుణ వినియోగ శాతాన్ని మార్చండి',
+  withdrawalTrends: 'ఉపసంహరణ & పూల్ ధోరణులు',
+  loanDistribution: 'రుణ పంపిణీ & ఆర్జించిన వడ్డీ',
+  contributionVsWithdrawal: 'సభ్యుని చందా వర్సెస్ ఉపసంహరణ',
+  withdrawalSchedule: 'ఉపసంహరణ పట్టిక',
+  loanSchedule: 'రుణ పట్టిక',
+  month: 'నెల',
+  withdrawalAmount: 'ఉపసంహరణ మొత్తం',
+  membersWithdrawing: 'ఉపసంహరించే సభ్యులు',
+  contribution: 'సభ్యుని చందా',
+  newContributions: 'కొత్త చందాలు',
+  carryOver: 'ముందు నిల్వ',
+  availablePool: 'అందుబాటులో ఉన్న పూల్',
+  totalWithdrawn: 'మొత్తం ఉపసంహరణ',
+  remainingPool: 'మిగిలిన పూల్',
+  membersLeft: 'మిగిలిన సభ్యులు',
+  availableForLoan: 'అందుబాటులో',
+  loanGiven: 'ఇచ్చిన రుణం',
+  interestEarned: 'ఆర్జించిన వడ్డీ',
+  repaymentDue: 'చెల్లించాల్సిన తిరిగి చెల్లింపు',
+  allMembers: 'సభ్యులందరికీ మొత్తం అందింది!',
+  waiting: 'సభ్యులు వేచి ఉన్నారు',
+  fromPool: 'అన్ని నెలల మిగిలిన పూల్ నుండి',
+  atRate: 'రేటు',
+  perMonth: 'నెలకు',
+  afterAll: 'అన్ని ఉపసంహరణల తర్వాత మిగిలినది',
+  overPeriod: 'పూర్తి',
+  monthPeriod: 'నెలల వ్యవధిలో',
+  loanAmount: 'రుణ మొత్తం',
+  interest: 'వడ్డీ',
+  withdrawal: 'ఉపసంహరణ',
+  pool: 'పూల్',
+  memberReturns: 'సభ్యుల రాబడి సారాంశం',
+  memberReturnDetails: 'సభ్యుల రాబడి వివరాలు',
+  member: 'సభ్యుడు',
+  withdrawalMonth: 'ఉపసంహరణ నెల',
+  totalContribution: 'మొత్తం చందా',
+  netReturn: 'నికర రాబడి',
+  returnPercent: 'రాబడి %',
+  splitContribution: 'విభజిత చందా విశ్లేషణ',
+  paidBefore: 'ముందు చెల్లించింది',
+  paidAfter: 'తర్వాత చెల్లించింది',
+  effectiveLoan: 'ప్రభావిత రుణం',
+  effectiveInterest: 'సభ్యుల రాబడి (IRR)',
+  effectiveInterestRate: 'వార్షిక IRR',
+  monthlyIRR: 'నెలవారీ IRR',
+  cashFlowTimeline: 'నగదు ప్రవాహ కాలరేఖ',
+  cumulativePosition: 'సంచిత స్థితి',
+  simpleSummary: 'సరళ సారాంశం',
+  youPay: 'మీరు చెల్లించేది',
+  youGet: 'మీకు వచ్చేది',
+  netPosition: 'నికర స్థితి',
+  monthsToRepay: 'తిరిగి చెల్లించే నెలలు',
+  netFlow: 'నికర ప్రవాహం',
+  tapMemberHint: 'నెలవారీ నగదు ప్రవాహం చూడటానికి సభ్యునిపై నొక్కండి',
+  close: 'మూసివేయి',
+  payoutMode: 'చెల్లింపు పట్టిక',
+  linearIncrement: 'సమాన పెంపు',
+  linearInterpolation: 'మొదటి → చివరి',
+  stepUp: 'శాతం పెంపు',
+  customSchedule: 'ప్రతి నెలకు వేరుగా',
+  stepUpPercent: 'నెలవారీ పెంపు (%)',
+  derivedIncrement: 'లెక్కించిన నెలవారీ పెంపు',
+  customScheduleHint: 'ప్రతి నెల చెల్లింపును నమోదు చేయండి. ఖాళీ నెలల్లో మునుపటి మొత్తం కొనసాగుతుంది.',
+  schemeType: 'చిట్ రకం',
+  fixedScheme: 'స్థిర చెల్లింపు',
+  auctionScheme: 'వేలం (బిడ్)',
+  bidMode: 'బిడ్లు',
+  bidCurve: 'అంచనా బిడ్ తగ్గుదల',
+  manualBids: 'నెలవారీ బిడ్',
+  startingBidPercent: 'నెల 1 బిడ్ తగ్గింపు (%)',
+  manualBidsHint: 'ప్రతి నెల గెలిచిన బిడ్ తగ్గింపును నెలవారీ పూల్‌లో % గా నమోదు చేయండి.',
+  bidDiscount: 'బిడ్ తగ్గింపు',
+  dividend: 'డివిడెండ్ / సభ్యుడు',
+  schemeComparison: 'స్థిర వర్సెస్ వేలం',
+  payoutRange: 'చెల్లింపు పరిధి',
+  irrRange: 'వార్షిక IRR పరిధి',
+  savedGroups: 'సేవ్ చేసిన గ్రూపులు',
+  groupName: 'గ్రూప్ పేరు',
+  saveAsNew: 'కొత్తగా సేవ్ చేయి',
+  rename: 'పేరు మార్చు',
+  duplicate: 'నకలు చేయి',
+  deleteGroup: 'తొలగించు',
+  unsavedGroup: 'సేవ్ చేయని లెక్క',
+  copySuffix: '(నకలు)',
+  confirmDelete: 'ఈ సేవ్ చేసిన గ్రూప్‌ను తొలగించాలా?',
+  autoSaveHint: 'ఎంచుకున్న గ్రూప్ మార్పులు ఈ పరికరంలో స్వయంచాలకంగా సేవ్ అవుతాయి.',
+  calculatorTab: 'కాలిక్యులేటర్',
+  compareTab: 'పోల్చు',
+  scenario: 'సందర్భం',
+  addScenario: 'సందర్భం జోడించు',
+  removeScenario: 'తొలగించు',
+  loadFrom: 'దీని నుండి లోడ్ చేయి',
+  currentInputs: 'ప్రస్తుత కాలిక్యులేటర్',
+  irrDistribution: 'సభ్యుల మధ్య IRR పంపిణీ',
+  minIRR: 'కనిష్ఠ IRR',
+  medianIRR: 'మధ్యస్థ IRR',
+  maxIRR: 'గరిష్ఠ IRR',
+  vsBaseline: 'సందర్భం 1 తో పోలిస్తే',
+  exportReport: 'ఎగుమతి & షేర్',
+  exportTable: 'CSV కోసం పట్టిక',
+  exportCsv: 'CSV',
+  exportXlsx: 'Excel (XLSX)',
+  exportPdf: 'PDF నివేదిక',
+  exporting: 'సిద్ధమవుతోంది…',
+  exportFailed: 'ఎగుమతి విఫలమైంది. దయచేసి మళ్లీ ప్రయత్నించండి.',
+  reportGenerated: 'రూపొందించిన తేదీ',
+  shareLink: 'లింక్ షేర్ చేయి',
+  linkCopied: 'లింక్ క్లిప్‌బోర్డ్‌కు కాపీ అయింది',
+  invalidShareLink: 'షేర్ చేసిన లింక్‌ను చదవలేకపోయాం. బదులుగా డిఫాల్ట్ లెక్క చూపుతున్నాం.',
+  errWholeNumber: 'పూర్ణ సంఖ్యను నమోదు చేయండి',
+  errMinMembers: 'కనీసం {limit} సభ్యులు అవసరం',
+  errMaxMembers: 'గరిష్ఠంగా {limit} సభ్యులకు మాత్రమే మద్దతు ఉంది',
+  errPositive: 'సున్నా కంటే ఎక్కువ ఉండాలి',
+  errNonNegative: 'రుణాత్మకంగా ఉండకూడదు',
+  errPercentRange: '0 నుండి 100 మధ్య శాతం నమోదు చేయండి',
+  errExceedsNetPool: 'నికర నెలవారీ పూల్ ₹{limit} ను మించకూడదు',
+  errCommissionExceedsPool: 'పథకం మొత్తంలో వసూలయ్యే మొత్తం (₹{limit}) కంటే తక్కువగా ఉండాలి',
+  errNegativeEntries: 'చెల్లింపులు రుణాత్మకంగా ఉండకూడదు',
+  errBidRange: 'ప్రతి బిడ్ 0% నుండి 100% మధ్య ఉండాలి',
+  fixInputsHint: 'ఫలితాలు చూడటానికి గుర్తించిన ఇన్‌పుట్‌లను సరిచేయండి.',
+  diagnosticsTitle: 'పథక హెచ్చరికలు',
+  diagNoWithdrawalMonth1: 'ఈ సంఖ్యలతో నెల 1 లో ఎవరూ తీసుకోలేరు: {payout} చెల్లింపు అందుబాటులో ఉన్న {available} కంటే ఎక్కువ.',
+  diagIdleMonths: 'నెల {months} లో ఎవరూ తీసుకోలేరు.',
+  diagMembersUnserved: '{months} నెలల తర్వాత కూడా {remaining} సభ్యులకు మొత్తం అందలేదు.',
+  goalSeek: 'లక్ష్య శోధన',
+  solveFor: 'దేనికి పరిష్కరించాలి',
+  target: 'లక్ష్యం',
+  targetBreakEven: 'సమతుల్యం (అందరికీ చెల్లింపు, చివరి పూల్ ≈ ₹0)',
+  targetServedBy: 'ఈ నెలలోగా అందరికీ చెల్లింపు',
+  targetLastIrr: 'చివరి సభ్యుని IRR కనీసం (%)',
+  solve: 'పరిష్కరించు',
+  applySolution: 'వర్తింపజేయి',
+  solverResult: 'పరిష్కారం',
+  lastMemberIrr: 'చివరి సభ్యుని IRR',
+  solverAtLimit: 'శోధన పరిధి అంచు వరకు లక్ష్యం నెరవేరుతుంది, కాబట్టి ఇది పథకం పరిమితి కాదు, శోధన పరిమితి.',
+  solverNotApplicable: 'ప్రస్తుత చిట్ రకం, చెల్లింపు పట్టిక లేదా కమీషన్ రకంతో ఈ ఇన్‌పుట్ ప్రభావం చూపదు.',
+  solverNeverServesAll: '{low} నుండి {high} మధ్య ఏ విలువా సభ్యులందరికీ చెల్లించదు. గరిష్ఠంగా {total} లో {served} మందికి అందుతుంది.',
+  solverEarliestMonth: '{low} నుండి {high} మధ్య ఏ విలువా పనిచేయదు. సభ్యులందరికీ అత్యంత త్వరగా నెల {month} లో అందుతుంది.',
+  solverBestIrr: '{low} నుండి {high} మధ్య ఏ విలువా పనిచేయదు. అందరికీ చెల్లింపు ఉండగా చివరి సభ్యుని IRR గరిష్ఠంగా {irr}% చేరుతుంది.',
+  solverNoSolution: '{low} నుండి {high} మధ్య ఏ విలువా లక్ష్యాన్ని చేరదు.',
+  sensitivityAnalysis: 'సున్నితత్వ విశ్లేషణ',
+  sensitivityHint: 'రుణ వినియోగం (నిలువు వరుసలు) మరియు రుణ వడ్డీ రేటు (అడ్డు వరుసలు) మారినప్పుడు పథకం ఎలా స్పందిస్తుంది. గీత గీసిన గడి ప్రస్తుత సెట్టింగ్‌లకు అత్యంత దగ్గరగా ఉంది.',
+  interestRange: 'వడ్డీ రేటు పరిధి (నెలకు %)',
+  rangeFrom: 'నుండి',
+  rangeTo: 'వరకు',
+  monthsToServeAll: 'అందరికీ చెల్లించడానికి పట్టే నెలలు',
+  sensitivityUnservedNote: '✗ కొందరు సభ్యులకు ఎప్పటికీ చెల్లింపు అందని (లేదా IRR లెక్కించలేని) సెట్టింగ్‌లను సూచిస్తుంది.',
+  loanRisk: 'రుణ ఎగవేత ప్రమాదం',
+  loanRiskHint: 'ఒక నెల రుణాలు సమయానికి తిరిగి రాని అవకాశం, ఎగవేసిన మొత్తంలో చివరకు ఎంత వసూలవుతుంది, అది ఎన్ని నెలలు ఆలస్యంగా వస్తుంది.',
+  loanDefaultRate: 'ఎగవేత అవకాశం (%)',
+  loanRecoveryRate: 'ఎగవేతలో వసూలు (%)',
+  loanRepaymentDelay: 'వసూలు ఆలస్యం (నెలలు)',
+  expectedLoss: 'అంచనా నష్టం',
+  lateRecovery: 'ఆలస్య వసూలు',
+  riskSimulation: 'రుణ ప్రమాద అనుకరణ',
+  riskSimulationHint: 'ప్రతి నెల రుణాలు తిరిగి వచ్చే లేదా ఎగవేయబడే {runs} అనుకరణల్లో, ప్రతి నెల చివరికి చెల్లింపు పొందిన సభ్యులు. నీడ పట్టీ మధ్యలోని 80% అనుకరణలను చూపుతుంది.',
+  runSimulation: 'అనుకరణ నడుపు',
+  riskBand: '10వ–90వ శతాంశం',
+  noRiskRun: 'ఎగవేతలు లేవు',
+  expectedRun: 'అంచనా విలువ',
+  medianRun: 'మధ్యస్థ అనుకరణ',
+  percentileRange: 'P10 / P50 / P90',
+  totalLosses: 'రుణ నష్టాలు',
+  shortfallChance: 'సభ్యులకు చెల్లింపు అందని అనుకరణలు',
+  loanTerms: 'రుణ నిబంధనలు',
+  loanTermsHint: 'మిగిలిన పూల్ నుండి ఇచ్చే రుణాల కాలం మరియు రుణగ్రహీతలు తిరిగి చెల్లించే విధానం.',
+  loanTenure: 'కాలం (నెలలు)',
+  repaymentStyle: 'తిరిగి చెల్లింపు',
+  bulletRepayment: 'ఒకేసారి (చివర్లో)',
+  interestOnlyRepayment: 'వడ్డీ మాత్రమే',
+  emiRepayment: 'EMI',
+  interestCompounding: 'వడ్డీ',
+  simpleInterest: 'సాధారణ / ఫ్లాట్',
+  monthlyCompounding: 'నెలవారీ చక్రవడ్డీ',
+  outstandingPrincipal: 'బకాయి అసలు',
+  membersTab: 'సభ్యులు',
+  roster: 'సభ్యుల జాబితా',
+  rosterHint: 'ఈ గ్రూప్ సభ్యులు, ఒక్కొక్కరు చెల్లింపు పొందే నెల మరియు వారు చెల్లించినవి.',
+  rosterNeedsGroup: 'సభ్యులు మరియు చెల్లింపులను ట్రాక్ చేయడానికి ఈ ఇన్‌పుట్‌లను గ్రూప్‌గా సేవ్ చేయండి.',
+  memberName: 'పేరు',
+  phone: 'ఫోన్',
+  joinedOn: 'చేరిన తేదీ',
+  addMember: 'సభ్యుని జోడించు',
+  autoAssign: 'ఖాళీ నెలలు కేటాయించు',
+  unassigned: 'కేటాయించలేదు',
+  removeMember: 'సభ్యుని తొలగించు',
+  noMembersYet: 'ఇంకా సభ్యులను జోడించలేదు.',
+  rosterCountMismatch: 'జాబితాలో {count} సభ్యులు ఉన్నారు, కానీ పథకం {total} మందికి.',
+  contributionLedger: 'చందా లెడ్జర్',
+  currentMonth: 'ప్రస్తుత నెల',
+  expectedAmount: 'అంచనా',
+  collectedAmount: 'వసూలైనది',
+  shortfall: 'లోటు',
+  amountPaid: 'చెల్లించిన మొత్తం',
+  markPaid: 'పూర్తిగా చెల్లించారు',
+  statusPaid: 'చెల్లించారు',
+  statusPartial: 'పాక్షికం',
+  statusUnpaid: 'చెల్లించలేదు',
+  outstandingDues: 'బకాయిలు',
+  unpaidMonths: 'చెల్లించని నెలలు',
+  duesToDate: 'నెల {month} వరకు బకాయిలు',
+  noDues: 'అందరూ పూర్తిగా చెల్లించారు.',
+  actualsVsPlan: 'వాస్తవం వర్సెస్ ప్రణాళిక',
+  actualsHint: 'ముగిసిన ప్రతి నెలను జరిగినట్లుగా నమోదు చేయండి. తర్వాతి నెలలు అసలు ప్రణాళికకు బదులు వాస్తవ పూల్ నిల్వ నుండి అంచనా వేయబడతాయి.',
+  noActualsYet: 'ఇంకా ఏ నెలా నమోదు కాలేదు.',
+  recordMonth: 'నెల {month} నమోదు చేయి',
+  undoLastMonth: 'చివరిగా నమోదు చేసిన నెలను తొలగించు',
+  allMonthsRecorded: 'ఈ గ్రూప్ అన్ని నెలలూ నమోదయ్యాయి.',
+  paidOut: 'చెల్లించినది',
+  loanRepaymentsReceived: 'రుణ తిరిగి చెల్లింపులు',
+  closingBalance: 'ముగింపు నిల్వ',
+  planLabel: 'ప్రణాళిక',
+  recordedMonth: 'వాస్తవం',
+  monthNames: ['జన', 'ఫిబ్ర', 'మార్చి', 'ఏప్రి', 'మే', 'జూన్', 'జులై', 'ఆగ', 'సెప్టెం', 'అక్టో', 'నవం', 'డిసెం'],
+  scheduleDates: 'పట్టిక తేదీలు',
+  scheduleDatesHint: 'పట్టికల్లో నిజమైన తేదీలు చూడటానికి ప్రారంభ తేదీని సెట్ చేయండి. Android లో చందాలు, చెల్లింపులు మరియు రుణ తిరిగి చెల్లింపుల గడువు తేదీల్లో గుర్తుచేస్తాం.',
+  startDate: 'ప్రారంభ తేదీ',
+  collectionDay: 'నెలలో వసూలు రోజు',
+  dueDate: 'గడువు తేదీ',
+  errInvalidDate: 'సరైన తేదీని నమోదు చేయండి',
+  errDayOfMonth: '1 నుండి 31 మధ్య రోజు అయి ఉండాలి',
+  reminderContributionTitle: 'ఈరోజు చందా చెల్లించాలి',
+  reminderContributionBody: 'నెల {month}: సభ్యునికి {amount}',
+  reminderPayoutTitle: 'చెల్లింపు రోజు',
+  reminderPayoutBody: 'నెల {month}: ఉపసంహరించే ప్రతి సభ్యునికి {amount}',
+  reminderLoanTitle: 'రుణ తిరిగి చెల్లింపులు రావాలి',
+  reminderLoanBody: 'నెల {month}: పూల్ రుణాల నుండి {amount} తిరిగి రావాలి',
+  taxSettings: 'పన్నులు',
+  taxSettingsHint: 'ఫోర్‌మ్యాన్ కమీషన్‌పై GST మరియు రుణ వడ్డీ నుండి మినహాయించే TDS',
+  gstRate: 'కమీషన్‌పై GST (%)',
+  gstBorneBy: 'GST చెల్లించేది',
+  gstByPool: 'పూల్, ప్రతి నెల',
+  gstByWinner: 'విజేత, తన చెల్లింపు నుండి',
+  tdsRate: 'రుణ వడ్డీపై TDS (%)',
+  tdsThreshold: 'సంవత్సరానికి TDS పరిమితి',
+  gst: 'GST',
+  gstFromPayout: 'చెల్లింపు నుండి GST',
+  tds: 'TDS',
+  totalTaxes: 'పన్నులు (GST + TDS)',
+  benchmarkComparison: 'చిట్ వర్సెస్ ప్రత్యామ్నాయాలు',
+  benchmarkHint: 'ప్రతి సభ్యుని చందాలు FD, RD లేదా SIP లో ఎంత పెరుగుతాయి, అదే విధంగా దాచిన చిట్ మొత్తంతో పోలిస్తే, మరియు చిట్ మొత్తంలో ముందు భాగాన్ని అప్పుగా తీసుకుంటే అయ్యే ఖర్చు',
+  fdRate: 'FD రేటు (సంవత్సరానికి %)',
+  rdRate: 'RD రేటు (సంవత్సరానికి %)',
+  sipReturn: 'SIP రాబడి (సంవత్సరానికి %)',
+  personalLoanRate: 'వ్యక్తిగత రుణ రేటు (సంవత్సరానికి %)',
+  fixedDeposit: 'ఫిక్స్‌డ్ డిపాజిట్',
+  recurringDeposit: 'రికరింగ్ డిపాజిట్',
+  sip: 'SIP',
+  personalLoan: 'వ్యక్తిగత రుణం',
+  alternativeValue: 'ప్రత్యామ్నాయం',
+  chitValue: 'చిట్',
+  loanNeeded: 'అప్పు',
+  loanRepays: 'రుణంలో చెల్లింపు',
+  chitRepays: 'చిట్‌లో చెల్లింపు',
+  chitBetter: 'చిట్ మెరుగు',
+  chitWorse: 'చిట్ వెనుకబడింది',
+  irrNoSignChange: 'వర్తించదు: ఒకే దిశ నగదు ప్రవాహం',
+  irrNoRoot: 'వర్తించదు: ఏ రేటూ సరిపోలదు',
+  irrAmbiguous: '{count} రేట్లలో దగ్గరిది',
+  timeValue: 'కాల విలువ',
+  discountRate: 'డిస్కౌంట్ రేటు (సంవత్సరానికి %)',
+  npvAtRate: 'డిస్కౌంట్ రేటు వద్ద NPV',
+  mirrLabel: 'MIRR (సంవత్సరానికి)',
+  xirrLabel: 'XIRR (క్యాలెండర్ తేదీలు)',
+  irrFootnote: 'IRR (అంతర్గత రాబడి రేటు) అన్ని నగదు ప్రవాహాల సమయాన్ని పరిగణిస్తుంది. దాన్ని అంచనా వేయడానికి కింద ఉన్న FD, RD, SIP మరియు వ్యక్తిగత రుణ పోలికను చూడండి.',
+  language: 'భాష',
+  numberFormat: 'సంఖ్యా ఫార్మాట్',
+  numberFormatHint: 'మొత్తాలను ఎలా సమూహపరచి రాయాలి, ఏ కరెన్సీలో చూపాలి. ప్రదర్శన కోసం మొత్తాలు మీ మారకం రేటుతో మార్చబడతాయి; పథకం లెక్క ఎప్పుడూ రూపాయల్లోనే ఉంటుంది.',
+  digitGrouping: 'అంకెల సమూహం',
+  indianGrouping: 'లక్ష / కోటి (10,00,000)',
+  internationalGrouping: 'అంతర్జాతీయ (1,000,000)',
+  amountDisplay: 'సారాంశ మొత్తాలు',
+  compactAmounts: 'సంక్షిప్తం (12.35 L)',
+  fullAmounts: 'పూర్తి (12,34,567)',
+  displayCurrency: 'కరెన్సీ',
+  exchangeRate: '1 {currency} కి ₹',
+  nativeDigits: 'సంఖ్యలను తెలుగు అంకెల్లో రాయండి',
+  foremanTab: 'ఫోర్‌మన్',
+  foremanDashboard: 'ఫోర్‌మన్ లాభం',
+  foremanHint: 'నిర్వాహకుడు సంపాదించేది, రిస్క్ చేసేది: కమీషన్, సభ్యులందరికీ చెల్లించిన తర్వాత పూల్‌లో మిగిలే మొత్తం (రుణ వడ్డీ ఇక్కడ చేరుతుంది), పూల్ తక్కువైనప్పుడు పెట్టే సొంత డబ్బు.',
+  commissionCollected: 'వసూలైన కమీషన్',
+  poolSurplus: 'మిగులు మొత్తం',
+  ownCashAtRisk: 'పెట్టిన సొంత డబ్బు',
+  exposureMonths: '{months} నెలల్లో',
+  noExposure: 'పూల్ ఎప్పుడూ తక్కువ కాదు',
+  foremanProfit: 'మొత్తం సంపాదన',
+  foremanIrr: 'ఫోర్‌మన్ IRR (వార్షిక)',
+  noOwnCashAtRisk: 'వర్తించదు: సొంత డబ్బు రిస్క్‌లో లేదు',
+  breakEvenMonth: 'బ్రేక్-ఈవెన్ నెల',
+  neverBreaksEven: 'ఎప్పుడూ బ్రేక్-ఈవెన్ కాదు',
+  commissionTypeComparison: 'నెలవారీ % మరియు ఒకేసారి కమీషన్',
+  monthlyCommissionColumn: 'నెలవారీ {rate}%',
+  oneTimeCommissionColumn: 'ఒకేసారి {amount}',
+  memberSlots: 'సభ్యుల వాటా మరియు సమయం',
+  memberSlotsHint: 'సభ్యులకు పెద్ద లేదా చిన్న వాటా ఇవ్వండి (2× వాటా రెట్టింపు కడుతుంది, రెట్టింపు పొందుతుంది), లేదా ఆలస్యంగా చేరడానికి లేదా మధ్యలో వదిలివేయడానికి అనుమతించండి. ఆలస్యంగా చేరినవారు తప్పిన వాయిదాలు చేరినప్పుడు కడతారు; వదిలినవారికి చెల్లింపు ఉండదు, కానీ గ్రూప్ ముగిసినప్పుడు కట్టినదాంట్లో ఒక భాగం తిరిగి వస్తుంది. చెల్లింపులు జాబితా క్రమంలో.',
+  customizeMembers: 'సభ్యులను అనుకూలీకరించండి',
+  equalMembers: 'సమాన సభ్యులకు తిరిగి',
+  share: 'వాటా',
+  joinMonth: 'చేరే నెల',
+  leaveMonth: 'వదిలే నెల',
+  staysToEnd: 'చివరి వరకు',
+  exitRefundPercent: 'వదిలినవారికి వాపసు (%)',
+  exitRefundHint: 'వదిలిన సభ్యులకు వారు కట్టినదాంట్లో తిరిగి ఇచ్చే భాగం, గ్రూప్ ముగిసినప్పుడు',
+  shareTimes: '{share}× వాటా',
+  leftInMonth: 'నెల {month} లో వదిలారు, వాపసు ఇచ్చారు',
+  joinedInMonth: 'నెల {month} లో చేరారు',
+  errSlotCount: 'సరిగ్గా {limit} సభ్యులు చివరి వరకు ఉండాలి, నెలకు ఒక చెల్లింపు',
+  errSlotMonths: 'నెలలు 1 నుండి {limit} మధ్య ఉండాలి, వదలడం చేరిన తర్వాత',
+  errWholeTickets: 'వేలం పథకంలో ప్రతి సభ్యునికి సరిగ్గా ఒక వాటా ఉండాలి',
+  withdrawalOrder: 'ఉపసంహరణ క్రమం',
+  withdrawalOrderHint: 'ప్రతి నెల చెల్లింపు ఎవరికి. సభ్యుల సంఖ్యలు మారవు; చెల్లింపు క్రమం మాత్రమే మారుతుంది.',
+  sequenceOrder: 'జాబితా క్రమంలో',
+  lotteryDraw: 'లాటరీ డ్రా',
+  priorityOrder: 'ప్రాధాన్యత జాబితా',
+  needsOrder: 'అవసరం ఆధారంగా',
+  lotterySeed: 'డ్రా సీడ్',
+  newDraw: 'మళ్లీ డ్రా చేయండి',
+  lotterySeedHint: 'ఒకే సీడ్ ఎప్పుడూ అదే క్రమాన్ని ఇస్తుంది, కాబట్టి సభ్యులు డ్రాను తనిఖీ చేయవచ్చు.',
+  priorityHint: 'సభ్యులను పైకి లేదా కిందికి జరపండి; జాబితాలో పై వారికి ముందుగా చెల్లింపు.',
+  needsHint: 'ముందుగా చెల్లింపు అడిగిన సభ్యులను జోడించండి, అత్యవసరమైనవారు ముందు. మిగిలినవారు జాబితా క్రమంలో.',
+  addRequest: 'అభ్యర్థన జోడించండి…',
+  moveUp: 'పైకి జరపండి',
+  moveDown: 'కిందికి జరపండి',
+  removeRequest: 'అభ్యర్థన తీసివేయండి',
+  drawnOrder: 'చెల్లింపు క్రమం: సభ్యులు {order}',
+  fairnessReport: 'న్యాయ నివేదిక',
+  fairnessHint: 'ముందుగా తీసుకునేవారు అడ్వాన్స్‌కు ఖర్చు చెల్లిస్తారు, ఆలస్యంగా తీసుకునేవారు పొదుపుపై సంపాదిస్తారు. న్యాయమైన చెల్లింపు నిచ్చెన రెండు వార్షిక రేట్లను దగ్గరగా ఉంచుతుంది.',
+  earliestWithdrawer: 'మొదట తీసుకున్నవారు',
+  latestWithdrawer: 'చివరగా తీసుకున్నవారు',
+  irrSpread: 'IRR తేడా (చివరి − మొదటి)',
+  memberInMonth: 'సభ్యుడు {member}, నెల {month}',
+  percentagePoints: '{value} పాయింట్లు',
+  ladderSuggestions: 'తేడాను తగ్గించే చెల్లింపు నిచ్చెన మార్పులు',
+  gapAfterChange: 'తేడా {gap} అవుతుంది',
+  noLadderSuggestions: 'అందరికీ చెల్లిస్తూ తేడాను తగ్గించే చెల్లింపు నిచ్చెన మార్పు ఏదీ లేదు.',
+  schemeNotApplicable: '{scheme} ఈ ఇన్‌పుట్‌లతో నడవదు, కాబట్టి దాని కాలమ్ ఖాళీగా ఉంది.',
+  checkFairness: 'న్యాయాన్ని పరిశీలించు',
+  amountLabel: '{label} ({currency})'
+};
@@ -0,0 +1,30 @@
+import { Capacitor } from '@capacitor/core';
+import { Preferences } from '@capacitor/preferences';
+
+// Small async key/value store: Capacitor Preferences on Android (survives
+// WebView data clears), localStorage in the browser.
+export const keyValueStore = {
+  async get(key: string): Promise<string | null> {
+    if (Capacitor.isNativePlatform()) {
+      const { value } = await Preferences.get({ key });
+      return value;
+    }
+    return localStorage.getItem(key);
+  },
+
+  async set(key: string, value: string): Promise<void> {
+    if (Capacitor.isNativePlatform()) {
+      await Preferences.set({ key, value });
+      return;
+    }
+    localStorage.setItem(key, value);
+  },
+
+  async remove(key: string): Promise<void> {
+    if (Capacitor.isNativePlatform()) {
+      await Preferences.remove({ key });
+      return;
+    }
+    localStorage.removeItem(key);
+  }
+};
@@ -0,0 +1,12 @@
+import { isLanguage, type Language } from '../translations';
+import { keyValueStore } from './keyValueStore';
+
+const STORAGE_KEY = 'chitfund.language';
+
+// The language picked last time, or null when none was saved (or it's no longer offered)
+export const loadLanguage = async (): Promise<Language | null> => {
+  const stored = await keyValueStore.get(STORAGE_KEY);
+  return isLanguage(stored) ? stored : null;
+};
+
+export const persistLanguage = (language: Language): Promise<void> => keyValueStore.set(STORAGE_KEY, language);
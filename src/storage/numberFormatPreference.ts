@@ -0,0 +1,33 @@
+import { defaultNumberFormat, isDisplayCurrency, type NumberFormatSettings } from '../utils/numberFormat';
+import { keyValueStore } from './keyValueStore';
+
+const STORAGE_KEY = 'chitfund.numberFormat';
+
+// Stored settings field by field, so one unreadable field falls back to its default alone
+export const normalizeNumberFormat = (value: unknown): NumberFormatSettings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<Record<keyof NumberFormatSettings, unknown>>;
+  return {
+    grouping: stored.grouping === 'international' ? 'international' : defaultNumberFormat.grouping,
+    display: stored.display === 'full' ? 'full' : defaultNumberFormat.display,
+    nativeDigits: typeof stored.nativeDigits === 'boolean' ? stored.nativeDigits : defaultNumberFormat.nativeDigits,
+    currency: isDisplayCurrency(stored.currency) ? stored.currency : defaultNumberFormat.currency,
+    exchangeRate:
+      typeof stored.exchangeRate === 'number' && Number.isFinite(stored.exchangeRate) && stored.exchangeRate > 0
+        ? stored.exchangeRate
+        : defaultNumberFormat.exchangeRate
+  };
+};
+
+export const loadNumberFormat = async (): Promise<NumberFormatSettings | null> => {
+  const stored = await keyValueStore.get(STORAGE_KEY);
+  if (!stored) return null;
+
+  try {
+    return normalizeNumberFormat(JSON.parse(stored));
+  } catch {
+    return null;
+  }
+};
+
+export const persistNumberFormat = (settings: NumberFormatSettings): Promise<void> =>
+  keyValueStore.set(STORAGE_KEY, JSON.stringify(settings));
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { defaultChitInputs, emptyRoster } from '../engine/chitEngine';
+import {
+  SAVED_GROUPS_VERSION,
+  createGroup,
+  deleteGroup,
+  duplicateGroup,
+  emptySavedGroups,
+  migrateSavedGroups,
+  normalizeInputs,
+  renameGroup,
+  selectGroup,
+  updateRoster
+} from './savedGroups';
+
+describe('normalizeInputs', () => {
+  it('fills fields missing from older saves with defaults', () => {
+    const inputs = normalizeInputs({ totalMembers: 25, monthlyContribution: 4000 });
+
+    expect(inputs.totalMembers).toBe(25);
+    expect(inputs.monthlyContribution).toBe(4000);
+    expect(inputs.payoutMode).toBe(defaultChitInputs.payoutMode);
+    expect(inputs.schemeType).toBe(defaultChitInputs.schemeType);
+  });
+
+  it('ignores unknown fields and values of the wrong type', () => {
+    const inputs = normalizeInputs({ totalMembers: '30', retired: true });
+
+    expect(inputs.totalMembers).toBe(defaultChitInputs.totalMembers);
+    expect(inputs).not.toHaveProperty('retired');
+  });
+
+  it('drops a member list with unreadable entries', () => {
+    const slot = { share: 2, joinMonth: 1, leaveMonth: null };
+
+    expect(normalizeInputs({ memberSlots: [slot] }).memberSlots).toEqual([slot]);
+    expect(normalizeInputs({ memberSlots: [slot, { share: 1 }] }).memberSlots).toEqual([]);
+  });
+});
+
+describe('migrateSavedGroups', () => {
+  it('returns an empty store for garbage', () => {
+    expect(migrateSavedGroups(null)).toEqual(emptySavedGroups());
+    expect(migrateSavedGroups('oops')).toEqual(emptySavedGroups());
+  });
+
+  it('refuses data written by a newer schema', () => {
+    expect(migrateSavedGroups({ version: SAVED_GROUPS_VERSION + 1, groups: [] })).toEqual(emptySavedGroups());
+  });
+
+  it('keeps valid groups and drops broken ones', () => {
+    const state = migrateSavedGroups({
+      version: 1,
+      activeId: 'a',
+      groups: [
+        { id: 'a', name: 'Office group', inputs: { totalMembers: 25 }, loanUtilization: 40 },
+        { name: 'no id' }
+      ]
+    });
+
+    expect(state.groups).toHaveLength(1);
+    expect(state.groups[0].inputs.totalMembers).toBe(25);
+    expect(state.groups[0].loanUtilization).toBe(40);
+    expect(state.activeId).toBe('a');
+  });
+
+  it('gives v1 groups an empty roster and drops payments for unknown members', () => {
+    const [legacy] = migrateSavedGroups({
+      version: 1,
+      groups: [{ id: 'a', name: 'Old group', inputs: {} }]
+    }).groups;
+    expect(legacy.roster).toEqual(emptyRoster());
+    expect(legacy.actuals).toEqual([]);
+
+    const [current] = migrateSavedGroups({
+      version: 2,
+      groups: [{
+        id: 'b',
+        name: 'Running group',
+        inputs: {},
+        roster: {
+          members: [{ id: 'm1', name: 'Lakshmi', phone: '98450 00000', joinedOn: '2026-01-05', withdrawalMonth: 3 }, { phone: 'no id' }],
+          payments: [
+            { memberId: 'm1', month: 1, amount: 5000, paidOn: '2026-01-10' },
+            { memberId: 'ghost', month: 1, amount: 5000, paidOn: '2026-01-10' }
+          ],
+          currentMonth: 2
+        }
+      }]
+    }).groups;
+    expect(current.roster.members).toHaveLength(1);
+    expect(current.roster.members[0].withdrawalMonth).toBe(3);
+    expect(current.roster.members[0].share).toBe(1);
+    expect(current.roster.payments).toEqual([{ memberId: 'm1', month: 1, amount: 5000, paidOn: '2026-01-10' }]);
+    expect(current.roster.currentMonth).toBe(2);
+  });
+
+  it('keeps recorded months up to the first unreadable one', () => {
+    const month = { collected: 100000, membersPaid: 1, paidOut: 80000, loansGiven: 7500, loanRepayments: 0 };
+    const [group] = migrateSavedGroups({
+      version: 3,
+      groups: [{ id: 'a', name: 'Running group', inputs: {}, actuals: [month, { collected: 'lots' }, month] }]
+    }).groups;
+
+    expect(group.actuals).toEqual([month]);
+  });
+
+  it('clears an active id that points to a missing group', () => {
+    const state = migrateSavedGroups({ version: 1, activeId: 'gone', groups: [] });
+
+    expect(state.activeId).toBeNull();
+  });
+});
+
+describe('saved group operations', () => {
+  const withOne = createGroup(emptySavedGroups(), 'Family', defaultChitInputs, 50);
+  const id = withOne.groups[0].id;
+
+  it('creates and activates a new group', () => {
+    expect(withOne.groups[0].name).toBe('Family');
+    expect(withOne.activeId).toBe(id);
+  });
+
+  it('renames a group', () => {
+    expect(renameGroup(withOne, id, 'Relatives').groups[0].name).toBe('Relatives');
+  });
+
+  it('duplicates a group with its own copy of the inputs', () => {
+    const state = duplicateGroup(withOne, id, 'Family (copy)');
+
+    expect(state.groups).toHaveLength(2);
+    expect(state.groups[1].name).toBe('Family (copy)');
+    expect(state.groups[1].id).not.toBe(id);
+    expect(state.groups[1].inputs).not.toBe(state.groups[0].inputs);
+    expect(state.activeId).toBe(state.groups[1].id);
+  });
+
+  it('deletes a group and clears it as active', () => {
+    const state = deleteGroup(withOne, id);
+
+    expect(state.groups).toEqual([]);
+    expect(state.activeId).toBeNull();
+  });
+
+  it('stores a roster on the group it belongs to', () => {
+    const roster = { ...emptyRoster(), currentMonth: 4 };
+
+    expect(updateRoster(withOne, id, roster).groups[0].roster).toBe(roster);
+    expect(withOne.groups[0].roster).toEqual(emptyRoster());
+  });
+
+  it('only selects groups that exist', () => {
+    expect(selectGroup(withOne, 'missing').activeId).toBeNull();
+    expect(selectGroup(withOne, id).activeId).toBe(id);
+  });
+});
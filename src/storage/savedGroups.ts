@@ -0,0 +1,219 @@
+import {
+  defaultChitInputs,
+  emptyRoster,
+  isMemberSlot,
+  type ChitInputs,
+  type ContributionPayment,
+  type MonthActuals,
+  type Roster,
+  type RosterMember
+} from '../engine/chitEngine';
+import { keyValueStore } from './keyValueStore';
+
+const STORAGE_KEY = 'chitfund.savedGroups';
+
+// Bump when the stored shape changes and add a step to migrateSavedGroups
+export const SAVED_GROUPS_VERSION = 3;
+
+export interface SavedGroup {
+  id: string;
+  name: string;
+  inputs: ChitInputs;
+  loanUtilization: number;
+  // Members and contributions of a group that is actually running (v2)
+  roster: Roster;
+  // Recorded figures of the months already finished, month 1 first (v3)
+  actuals: MonthActuals[];
+  updatedAt: string;
+}
+
+export interface SavedGroupsState {
+  version: number;
+  activeId: string | null;
+  groups: SavedGroup[];
+}
+
+export const emptySavedGroups = (): SavedGroupsState => ({
+  version: SAVED_GROUPS_VERSION,
+  activeId: null,
+  groups: []
+});
+
+const newId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fill in any input fields added since the group was saved, dropping unknown ones
+export const normalizeInputs = (raw: unknown): ChitInputs => {
+  const inputs: ChitInputs = { ...defaultChitInputs };
+  if (!isRecord(raw)) return inputs;
+
+  for (const key of Object.keys(defaultChitInputs) as (keyof ChitInputs)[]) {
+    const value = raw[key];
+    if (value !== undefined && typeof value === typeof defaultChitInputs[key]) {
+      (inputs as Record<keyof ChitInputs, unknown>)[key] = value;
+    }
+  }
+  // Any array passes the check above; a damaged member list falls back to equal members
+  if (!(Array.isArray(inputs.memberSlots) && inputs.memberSlots.every(isMemberSlot))) inputs.memberSlots = [];
+  return inputs;
+};
+
+const normalizeMember = (raw: unknown): RosterMember | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    phone: typeof raw.phone === 'string' ? raw.phone : '',
+    joinedOn: typeof raw.joinedOn === 'string' ? raw.joinedOn : '',
+    // Members added before shares were tracked hold a single ticket
+    share: typeof raw.share === 'number' && raw.share > 0 ? raw.share : 1,
+    withdrawalMonth: typeof raw.withdrawalMonth === 'number' ? raw.withdrawalMonth : null
+  };
+};
+
+const normalizePayment = (raw: unknown): ContributionPayment | null => {
+  if (!isRecord(raw) || typeof raw.memberId !== 'string' || typeof raw.month !== 'number' || typeof raw.amount !== 'number') {
+    return null;
+  }
+  return {
+    memberId: raw.memberId,
+    month: raw.month,
+    amount: raw.amount,
+    paidOn: typeof raw.paidOn === 'string' ? raw.paidOn : ''
+  };
+};
+
+// Groups saved before v2 have no roster and start with an empty one
+const normalizeRoster = (raw: unknown): Roster => {
+  if (!isRecord(raw)) return emptyRoster();
+
+  const members = Array.isArray(raw.members)
+    ? raw.members.map(normalizeMember).filter((member): member is RosterMember => member !== null)
+    : [];
+  const payments = Array.isArray(raw.payments)
+    ? raw.payments
+        .map(normalizePayment)
+        .filter((payment): payment is ContributionPayment => payment !== null && members.some((member) => member.id === payment.memberId))
+    : [];
+  const currentMonth = typeof raw.currentMonth === 'number' && raw.currentMonth >= 1 ? raw.currentMonth : 1;
+
+  return { members, payments, currentMonth };
+};
+
+const ACTUAL_FIELDS = ['collected', 'membersPaid', 'paidOut', 'loansGiven', 'loanRepayments'] as const;
+
+// Recorded months must run on from month 1, so stop at the first unreadable one
+const normalizeActuals = (raw: unknown): MonthActuals[] => {
+  const actuals: MonthActuals[] = [];
+  if (!Array.isArray(raw)) return actuals;
+
+  for (const entry of raw) {
+    if (!isRecord(entry) || !ACTUAL_FIELDS.every((field) => typeof entry[field] === 'number')) break;
+    actuals.push({
+      collected: entry.collected as number,
+      membersPaid: entry.membersPaid as number,
+      paidOut: entry.paidOut as number,
+      loansGiven: entry.loansGiven as number,
+      loanRepayments: entry.loanRepayments as number
+    });
+  }
+  return actuals;
+};
+
+const normalizeGroup = (raw: unknown): SavedGroup | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+
+  return {
+    id: raw.id,
+    name: raw.name,
+    inputs: normalizeInputs(raw.inputs),
+    loanUtilization: typeof raw.loanUtilization === 'number' ? raw.loanUtilization : 50,
+    roster: normalizeRoster(raw.roster),
+    actuals: normalizeActuals(raw.actuals),
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date(0).toISOString()
+  };
+};
+
+// Upgrade whatever was stored to the current schema. Unreadable data yields an empty store
+// rather than an exception so a bad write can never lock the user out of the app.
+export const migrateSavedGroups = (raw: unknown): SavedGroupsState => {
+  if (!isRecord(raw) || typeof raw.version !== 'number' || raw.version > SAVED_GROUPS_VERSION) {
+    return emptySavedGroups();
+  }
+
+  const groups = Array.isArray(raw.groups)
+    ? raw.groups.map(normalizeGroup).filter((group): group is SavedGroup => group !== null)
+    : [];
+  const activeId = typeof raw.activeId === 'string' && groups.some((group) => group.id === raw.activeId)
+    ? raw.activeId
+    : null;
+
+  return { version: SAVED_GROUPS_VERSION, activeId, groups };
+};
+
+export const loadSavedGroups = async (): Promise<SavedGroupsState> => {
+  const stored = await keyValueStore.get(STORAGE_KEY);
+  if (!stored) return emptySavedGroups();
+
+  try {
+    return migrateSavedGroups(JSON.parse(stored));
+  } catch {
+    return emptySavedGroups();
+  }
+};
+
+export const persistSavedGroups = (state: SavedGroupsState): Promise<void> =>
+  keyValueStore.set(STORAGE_KEY, JSON.stringify(state));
+
+// Pure state transitions used by the switcher UI
+
+export const createGroup = (state: SavedGroupsState, name: string, inputs: ChitInputs, loanUtilization: number): SavedGroupsState => {
+  const group: SavedGroup = { id: newId(), name, inputs, loanUtilization, roster: emptyRoster(), actuals: [], updatedAt: new Date().toISOString() };
+  return { ...state, activeId: group.id, groups: [...state.groups, group] };
+};
+
+export const updateGroup = (state: SavedGroupsState, id: string, inputs: ChitInputs, loanUtilization: number): SavedGroupsState => ({
+  ...state,
+  groups: state.groups.map((group) =>
+    group.id === id ? { ...group, inputs, loanUtilization, updatedAt: new Date().toISOString() } : group
+  )
+});
+
+export const updateRoster = (state: SavedGroupsState, id: string, roster: Roster): SavedGroupsState => ({
+  ...state,
+  groups: state.groups.map((group) =>
+    group.id === id ? { ...group, roster, updatedAt: new Date().toISOString() } : group
+  )
+});
+
+export const updateActuals = (state: SavedGroupsState, id: string, actuals: MonthActuals[]): SavedGroupsState => ({
+  ...state,
+  groups: state.groups.map((group) =>
+    group.id === id ? { ...group, actuals, updatedAt: new Date().toISOString() } : group
+  )
+});
+
+export const renameGroup = (state: SavedGroupsState, id: string, name: string): SavedGroupsState => ({
+  ...state,
+  groups: state.groups.map((group) => (group.id === id ? { ...group, name } : group))
+});
+
+export const duplicateGroup = (state: SavedGroupsState, id: string, name: string): SavedGroupsState => {
+  const source = state.groups.find((group) => group.id === id);
+  if (!source) return state;
+  return createGroup(state, name, { ...source.inputs }, source.loanUtilization);
+};
+
+export const deleteGroup = (state: SavedGroupsState, id: string): SavedGroupsState => ({
+  ...state,
+  activeId: state.activeId === id ? null : state.activeId,
+  groups: state.groups.filter((group) => group.id !== id)
+});
+
+export const selectGroup = (state: SavedGroupsState, id: string | null): SavedGroupsState => ({
+  ...state,
+  activeId: id !== null && state.groups.some((group) => group.id === id) ? id : null
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { defaultChitInputs } from '../engine/chitEngine';
+import {
+  buildShareUrl,
+  decodeSharedState,
+  encodeSharedState,
+  parseShareUrl,
+  stripShareParam,
+  type SharedState
+} from './shareLink';
+
+const state: SharedState = {
+  inputs: { ...defaultChitInputs, totalMembers: 25, schemeType: 'auction', auctionBids: [30, 22.5, 10], loanTenure: 4, loanRepaymentStyle: 'emi', startDate: '2026-11-01', gstRate: 18, gstBorneBy: 'winner', memberSlots: [{ share: 1, joinMonth: 1, leaveMonth: null }, { share: 1, joinMonth: 3, leaveMonth: null }], exitRefundPercent: 90, withdrawalOrder: 'lottery', lotterySeed: 4821 },
+  loanUtilization: 35,
+  language: 'kn'
+};
+
+describe('share link encoding', () => {
+  it('round-trips the full calculator state', () => {
+    expect(decodeSharedState(encodeSharedState(state))).toEqual(state);
+  });
+
+  it('produces a URL-safe token', () => {
+    expect(encodeSharedState(state)).toMatch(/^7\.[A-Za-z0-9_-]+$/);
+  });
+
+  it('rejects tokens from an unknown version', () => {
+    const [, body] = encodeSharedState(state).split('.');
+    expect(decodeSharedState(`99.${body}`)).toBeNull();
+  });
+
+  it('still opens v1 links, filling newer fields with defaults', () => {
+    const v1 = ['en', 40, 25, 5000, 80000, 99000, 1000, 'monthly', 5, 10000, 2, 'increment', 1, [], 'fixed', 'curve', 30, []];
+    const decoded = decodeSharedState(`1.${btoa(JSON.stringify(v1))}`);
+
+    expect(decoded?.inputs.totalMembers).toBe(25);
+    expect(decoded?.loanUtilization).toBe(40);
+    expect(decoded?.inputs.loanDefaultRate).toBe(defaultChitInputs.loanDefaultRate);
+  });
+
+  it('rejects garbage and payloads with bad values', () => {
+    expect(decodeSharedState('2.not-base64!')).toBeNull();
+    expect(decodeSharedState(`2.${btoa('[1,2,3]')}`)).toBeNull();
+
+    const badScheme = encodeSharedState({ ...state, inputs: { ...state.inputs, schemeType: 'lottery' as never } });
+    expect(decodeSharedState(badScheme)).toBeNull();
+
+    const badUtilization = encodeSharedState({ ...state, loanUtilization: 150 });
+    expect(decodeSharedState(badUtilization)).toBeNull();
+
+    const badSlots = encodeSharedState({ ...state, inputs: { ...state.inputs, memberSlots: [{ share: '2' }] as never } });
+    expect(decodeSharedState(badSlots)).toBeNull();
+  });
+});
+
+describe('parseShareUrl', () => {
+  it('reads web links from the hash and app links from the query', () => {
+    const web = buildShareUrl(state, 'https://example.com/app/');
+    const app = buildShareUrl(state, null);
+
+    expect(web.startsWith('https://example.com/app/#s=')).toBe(true);
+    expect(app.startsWith('com.chitfund.calculator://open?s=')).toBe(true);
+    expect(parseShareUrl(web)).toEqual({ status: 'ok', state });
+    expect(parseShareUrl(app)).toEqual({ status: 'ok', state });
+  });
+
+  it('distinguishes a missing link from a malformed one', () => {
+    expect(parseShareUrl('https://example.com/')).toEqual({ status: 'none' });
+    expect(parseShareUrl('https://example.com/#s=1.broken')).toEqual({ status: 'invalid' });
+  });
+
+  it('strips only the share token from the address', () => {
+    expect(stripShareParam('https://example.com/?lang=kn#s=1.abc')).toBe('https://example.com/?lang=kn');
+  });
+});
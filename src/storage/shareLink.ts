@@ -0,0 +1,153 @@
+import { defaultChitInputs, isMemberSlot, type ChitInputs } from '../engine/chitEngine';
+import { isLanguage, type Language } from '../translations';
+
+// Bump when the payload layout changes and add the new layout to FIELD_LAYOUTS;
+// older links must keep decoding
+export const SHARE_LINK_VERSION = 7;
+
+const PARAM = 's';
+const APP_LINK_BASE = 'com.chitfund.calculator://open';
+
+export interface SharedState {
+  inputs: ChitInputs;
+  loanUtilization: number;
+  language: Language;
+}
+
+export type ParsedShareLink =
+  | { status: 'none' }
+  | { status: 'invalid' }
+  | { status: 'ok'; state: SharedState };
+
+// Positional layout of a v1 payload. Never reorder: links already sent depend on it.
+const V1_FIELDS = [
+  'totalMembers',
+  'monthlyContribution',
+  'firstWithdrawal',
+  'finalWithdrawal',
+  'monthlyIncrement',
+  'commissionType',
+  'commissionRate',
+  'oneTimeCommission',
+  'loanInterestRate',
+  'payoutMode',
+  'stepUpPercent',
+  'customPayouts',
+  'schemeType',
+  'bidMode',
+  'startingBidPercent',
+  'auctionBids'
+] as const satisfies readonly (keyof ChitInputs)[];
+
+const V2_FIELDS = [...V1_FIELDS, 'loanDefaultRate', 'loanRecoveryRate', 'loanRepaymentDelay'] as const;
+
+const V3_FIELDS = [...V2_FIELDS, 'loanTenure', 'loanRepaymentStyle', 'loanCompounding'] as const;
+
+const V4_FIELDS = [...V3_FIELDS, 'startDate', 'collectionDay'] as const;
+
+const V5_FIELDS = [...V4_FIELDS, 'gstRate', 'gstBorneBy', 'tdsRate', 'tdsThreshold'] as const;
+
+const V6_FIELDS = [...V5_FIELDS, 'memberSlots', 'exitRefundPercent'] as const;
+
+const V7_FIELDS = [...V6_FIELDS, 'withdrawalOrder', 'lotterySeed', 'priorityList', 'needRequests'] as const;
+
+// Fields a link of each version carries; anything newer falls back to the defaults
+const FIELD_LAYOUTS: Record<string, readonly (keyof ChitInputs)[]> = {
+  1: V1_FIELDS,
+  2: V2_FIELDS,
+  3: V3_FIELDS,
+  4: V4_FIELDS,
+  5: V5_FIELDS,
+  6: V6_FIELDS,
+  7: V7_FIELDS
+};
+
+const CURRENT_FIELDS = FIELD_LAYOUTS[SHARE_LINK_VERSION];
+
+const ENUM_VALUES: Partial<Record<keyof ChitInputs, readonly string[]>> = {
+  commissionType: ['monthly', 'onetime'],
+  payoutMode: ['increment', 'interpolate', 'stepUp', 'custom'],
+  schemeType: ['fixed', 'auction'],
+  bidMode: ['curve', 'manual'],
+  loanRepaymentStyle: ['bullet', 'interestOnly', 'emi'],
+  loanCompounding: ['simple', 'monthly'],
+  gstBorneBy: ['pool', 'winner'],
+  withdrawalOrder: ['sequence', 'lottery', 'priority', 'needs']
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isValidField = (key: keyof ChitInputs, value: unknown) => {
+  const allowed = ENUM_VALUES[key];
+  if (allowed) return typeof value === 'string' && allowed.includes(value);
+  if (key === 'customPayouts' || key === 'auctionBids' || key === 'priorityList' || key === 'needRequests') return Array.isArray(value) && value.every(isFiniteNumber);
+  if (key === 'memberSlots') return Array.isArray(value) && value.every(isMemberSlot);
+  if (key === 'startDate') return typeof value === 'string' && (value === '' || /^\d{4}-\d{2}-\d{2}$/.test(value));
+  return isFiniteNumber(value);
+};
+
+const toBase64Url = (text: string) => btoa(text).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (text: string) => atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+
+// Compact token: "<version>.<base64url JSON array>". The payload is plain ASCII,
+// so no UTF-8 step is needed around btoa/atob.
+export const encodeSharedState = ({ inputs, loanUtilization, language }: SharedState): string => {
+  const payload = [language, loanUtilization, ...CURRENT_FIELDS.map((key) => inputs[key])];
+  return `${SHARE_LINK_VERSION}.${toBase64Url(JSON.stringify(payload))}`;
+};
+
+export const decodeSharedState = (token: string): SharedState | null => {
+  const [version, body] = token.split('.');
+  const fields = Object.hasOwn(FIELD_LAYOUTS, version) ? FIELD_LAYOUTS[version] : undefined;
+  if (!fields || !body) return null;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(body));
+  } catch {
+    return null;
+  }
+
+  if (!Array.isArray(payload) || payload.length !== fields.length + 2) return null;
+  const [language, loanUtilization, ...values] = payload;
+  if (!isLanguage(language) || !isFiniteNumber(loanUtilization) || loanUtilization < 0 || loanUtilization > 100) {
+    return null;
+  }
+  if (!fields.every((key, index) => isValidField(key, values[index]))) return null;
+
+  const inputs: ChitInputs = { ...defaultChitInputs, ...Object.fromEntries(fields.map((key, index) => [key, values[index]])) };
+  return { inputs, loanUtilization, language };
+};
+
+// Web links carry the token in the hash so it never reaches a server; app links
+// (com.chitfund.calculator://open?s=...) use the query string.
+export const parseShareUrl = (url: string): ParsedShareLink => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return { status: 'none' };
+  }
+
+  const token = new URLSearchParams(parsed.hash.slice(1)).get(PARAM) ?? parsed.searchParams.get(PARAM);
+  if (token === null) return { status: 'none' };
+
+  const state = decodeSharedState(token);
+  return state ? { status: 'ok', state } : { status: 'invalid' };
+};
+
+// Links go out as https so chat apps make them clickable; the app opens them through
+// App Links. The custom scheme is only a fallback for builds with no web address.
+export const buildShareUrl = (state: SharedState, webBase: string | null): string =>
+  webBase ? `${webBase}#${PARAM}=${encodeSharedState(state)}` : `${APP_LINK_BASE}?${PARAM}=${encodeSharedState(state)}`;
+
+// Address-bar URL with the share token removed, so edits after opening a link aren't contradicted by it
+export const stripShareParam = (url: string): string => {
+  const parsed = new URL(url);
+  parsed.searchParams.delete(PARAM);
+  const hash = new URLSearchParams(parsed.hash.slice(1));
+  hash.delete(PARAM);
+  parsed.hash = hash.toString();
+  return parsed.toString();
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { en } from './locales/en';
+import { isLanguage, languages, locales, resolveLocale, translations } from './translations';
+
+const placeholders = (text: string) => [...text.matchAll(/\{(\w+)\}/g)].map(([, name]) => name).sort();
+
+describe('translations', () => {
+  it('offers every language in the picker', () => {
+    expect(Object.keys(translations).sort()).toEqual(Object.keys(languages).sort());
+  });
+
+  it('falls back to English for keys a locale leaves out', () => {
+    const resolved = resolveLocale({ title: 'ಚೀಟಿ' });
+
+    expect(resolved.title).toBe('ಚೀಟಿ');
+    expect(resolved.subtitle).toBe(en.subtitle);
+    for (const strings of Object.values(translations)) {
+      expect(Object.keys(strings).sort()).toEqual(Object.keys(en).sort());
+    }
+  });
+
+  it.each(Object.entries(locales))('keeps the placeholders and shapes of the English strings in %s', (_, strings) => {
+    for (const [key, value] of Object.entries(strings)) {
+      const english = en[key as keyof typeof en];
+      if (Array.isArray(english)) {
+        expect(value, key).toHaveLength(english.length);
+      } else {
+        expect(placeholders(value as string), key).toEqual(placeholders(english));
+      }
+    }
+  });
+
+  it('recognises only the offered languages', () => {
+    expect(isLanguage('ta')).toBe(true);
+    expect(isLanguage('fr')).toBe(false);
+    expect(isLanguage('toString')).toBe(false);
+  });
+});
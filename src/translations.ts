@@ -0,0 +1,36 @@
+import { en } from './locales/en';
+import { hi } from './locales/hi';
+import { kn } from './locales/kn';
+import { ml } from './locales/ml';
+import { ta } from './locales/ta';
+import { te } from './locales/te';
+
+export type Translations = typeof en;
+// A locale may leave keys out (the English text is shown instead) but can't add unknown ones
+export type LocaleStrings = Partial<Translations>;
+
+export type Script = 'latin' | 'devanagari' | 'kannada' | 'tamil' | 'telugu' | 'malayalam';
+
+// Languages offered in the picker, each named in its own script
+export const languages = {
+  en: { name: 'English', script: 'latin' },
+  hi: { name: 'हिन्दी', script: 'devanagari' },
+  kn: { name: 'ಕನ್ನಡ', script: 'kannada' },
+  ta: { name: 'தமிழ்', script: 'tamil' },
+  te: { name: 'తెలుగు', script: 'telugu' },
+  ml: { name: 'മലയാളം', script: 'malayalam' }
+} satisfies Record<string, { name: string; script: Script }>;
+
+export type Language = keyof typeof languages;
+
+export const locales: Record<Language, LocaleStrings> = { en, hi, kn, ta, te, ml };
+
+// Fills whatever a locale leaves out with the English text
+export const resolveLocale = (strings: LocaleStrings): Translations => ({ ...en, ...strings });
+
+export const translations = Object.fromEntries(
+  Object.entries(locales).map(([language, strings]) => [language, resolveLocale(strings)])
+) as Record<Language, Translations>;
+
+export const isLanguage = (value: unknown): value is Language =>
+  typeof value === 'string' && Object.hasOwn(languages, value);
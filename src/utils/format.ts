@@ -0,0 +1,22 @@
+import type { IrrIssue } from '../engine/chitEngine';
+import type { Translations } from '../translations';
+import type { NumberFormatter } from './numberFormat';
+
+// Fill {name} placeholders in a translated message
+export const fillTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? String(values[key]) : match));
+
+// Calendar date as "5 Jan 2026", with month names from the active translation
+export const formatCalendarDate = (date: Date, monthNames: readonly string[]): string =>
+  `${date.getDate()} ${monthNames[date.getMonth()]} ${date.getFullYear()}`;
+
+// Why a member has no single IRR, in place of a bare "-"
+export const irrIssueLabel = (issue: IrrIssue, t: Pick<Translations, 'irrNoSignChange' | 'irrNoRoot' | 'irrAmbiguous'>): string => {
+  if (issue.status === 'noSignChange') return t.irrNoSignChange;
+  if (issue.status === 'noRoot') return t.irrNoRoot;
+  return fillTemplate(t.irrAmbiguous, { count: issue.rates.length });
+};
+
+// Label of an amount input; amounts are always entered in rupees, whatever the display currency
+export const amountLabel = (label: string, t: Pick<Translations, 'amountLabel'>, fmt: Pick<NumberFormatter, 'entrySymbol'>): string =>
+  fillTemplate(t.amountLabel, { label, currency: fmt.entrySymbol });
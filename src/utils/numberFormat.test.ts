@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeNumberFormat } from '../storage/numberFormatPreference';
+import { createNumberFormatter, defaultNumberFormat } from './numberFormat';
+
+describe('createNumberFormatter', () => {
+  it('groups digits in lakhs and crores or in thousands', () => {
+    const indian = createNumberFormatter({ ...defaultNumberFormat, display: 'full' });
+    const international = createNumberFormatter({ ...defaultNumberFormat, display: 'full', grouping: 'international' });
+
+    expect(indian.money(1234567)).toBe('₹12,34,567');
+    expect(international.money(1234567)).toBe('₹1,234,567');
+  });
+
+  it('keeps entry labels in rupees whatever the display currency', () => {
+    const dollars = createNumberFormatter({ ...defaultNumberFormat, currency: 'USD', exchangeRate: 80 });
+
+    expect(dollars.symbol).toBe('$');
+    expect(dollars.entrySymbol).toBe('₹');
+  });
+
+  it('shortens summary amounts with the grouping’s own units', () => {
+    const indian = createNumberFormatter(defaultNumberFormat);
+    const international = createNumberFormatter({ ...defaultNumberFormat, grouping: 'international' });
+
+    expect(indian.money(150000)).toBe('₹1.50 L');
+    expect(indian.money(25000000)).toBe('₹2.50 Cr');
+    expect(indian.money(999)).toBe('₹999');
+    expect(international.money(2500000)).toBe('₹2.50 M');
+    expect(indian.money(150000, 'full')).toBe('₹1,50,000');
+  });
+
+  it('uses the language’s own digits when asked to', () => {
+    const kannada = createNumberFormatter({ ...defaultNumberFormat, nativeDigits: true }, 'kn');
+    const english = createNumberFormatter({ ...defaultNumberFormat, nativeDigits: true }, 'en');
+
+    expect(kannada.number(1234)).toBe('೧,೨೩೪');
+    expect(english.number(1234)).toBe('1,234');
+  });
+
+  it('converts rupees to the display currency at the entered rate', () => {
+    const fmt = createNumberFormatter({ ...defaultNumberFormat, display: 'full', currency: 'USD', exchangeRate: 80 });
+
+    expect(fmt.currency).toBe('USD');
+    expect(fmt.money(100000)).toBe('$1,250.00');
+    expect(fmt.convert(1000)).toBe(12.5);
+  });
+
+  it('stays in rupees without a usable rate', () => {
+    const fmt = createNumberFormatter({ ...defaultNumberFormat, display: 'full', currency: 'USD', exchangeRate: 0 });
+
+    expect(fmt.currency).toBe('INR');
+    expect(fmt.money(1000)).toBe('₹1,000');
+    expect(fmt.convert(1000)).toBe(1000);
+  });
+
+  it('signs gains and losses', () => {
+    const fmt = createNumberFormatter({ ...defaultNumberFormat, display: 'full' });
+
+    expect(fmt.signedMoney(5000)).toBe('+₹5,000');
+    expect(fmt.signedMoney(-5000)).toBe('-₹5,000');
+    expect(fmt.money(-0.4)).toBe('₹0');
+    expect(fmt.percent(12.345, 2, true)).toBe('+12.35%');
+    expect(fmt.percent(-3)).toBe('-3.0%');
+  });
+});
+
+describe('normalizeNumberFormat', () => {
+  it('keeps valid fields and defaults the rest', () => {
+    expect(normalizeNumberFormat({ grouping: 'international', currency: 'XYZ', exchangeRate: -1 })).toEqual({
+      ...defaultNumberFormat,
+      grouping: 'international'
+    });
+    expect(normalizeNumberFormat(null)).toEqual(defaultNumberFormat);
+  });
+});
@@ -0,0 +1,114 @@
+import { languages, type Language, type Script } from '../translations';
+
+export type DigitGrouping = 'indian' | 'international';
+export type AmountDisplay = 'compact' | 'full';
+
+export interface NumberFormatSettings {
+  // 10,00,000 (lakh/crore) or 1,000,000
+  grouping: DigitGrouping;
+  // Summary figures as 1.50 L or as 1,50,000; tables always show full amounts
+  display: AmountDisplay;
+  // Digits of the language's own script (e.g. ೧೨೩ in Kannada) instead of 0-9
+  nativeDigits: boolean;
+  // ISO 4217 code amounts are shown in; the engine itself always works in rupees
+  currency: string;
+  // Rupees per one unit of `currency`, as entered by the user
+  exchangeRate: number;
+}
+
+export const BASE_CURRENCY = 'INR';
+
+export const defaultNumberFormat: NumberFormatSettings = {
+  grouping: 'indian',
+  display: 'compact',
+  nativeDigits: false,
+  currency: BASE_CURRENCY,
+  exchangeRate: 1
+};
+
+// The rupee plus the currencies members abroad most often earn in
+export const displayCurrencies = ['INR', 'USD', 'AED', 'SAR', 'QAR', 'KWD', 'OMR', 'BHD', 'GBP', 'EUR', 'SGD', 'CAD', 'AUD'];
+
+const NUMBERING_SYSTEMS: Record<Script, string> = {
+  latin: 'latn',
+  devanagari: 'deva',
+  kannada: 'knda',
+  tamil: 'tamldec',
+  telugu: 'telu',
+  malayalam: 'mlym'
+};
+
+// Suffixes for compact amounts, largest first
+const COMPACT_UNITS: Record<DigitGrouping, [number, string][]> = {
+  indian: [[10000000, 'Cr'], [100000, 'L'], [1000, 'K']],
+  international: [[1000000000, 'B'], [1000000, 'M'], [1000, 'K']]
+};
+
+// Only the offered currencies count, so a stored or linked code can't pick an arbitrary one
+export const isDisplayCurrency = (code: unknown): code is string => typeof code === 'string' && displayCurrencies.includes(code);
+
+export interface NumberFormatter {
+  currency: string;
+  symbol: string;
+  // Symbol of the rupee, the currency every amount is entered in
+  entrySymbol: string;
+  // Rupee amount in the display currency, with its symbol
+  money: (rupees: number, display?: AmountDisplay) => string;
+  // The same with an explicit + on gains
+  signedMoney: (rupees: number, display?: AmountDisplay) => string;
+  // Rupee amount converted to the display currency, for charts and exports
+  convert: (rupees: number) => number;
+  // Plain figure such as a count or an amount entered in rupees
+  number: (value: number, maxFractionDigits?: number) => string;
+  percent: (value: number, fractionDigits?: number, signed?: boolean) => string;
+}
+
+// Every figure the app shows goes through one of these, so grouping, digits
+// and currency follow the user's settings everywhere.
+export const createNumberFormatter = (settings: NumberFormatSettings, language: Language = 'en'): NumberFormatter => {
+  // Without a usable rate there is nothing to convert with, so amounts stay in rupees
+  const converted = settings.currency !== BASE_CURRENCY && isDisplayCurrency(settings.currency) && settings.exchangeRate > 0;
+  const currency = converted ? settings.currency : BASE_CURRENCY;
+  const rate = converted ? settings.exchangeRate : 1;
+  const moneyDigits = converted ? 2 : 0;
+
+  const numberingSystem = settings.nativeDigits ? NUMBERING_SYSTEMS[languages[language].script] : 'latn';
+  const locale = `${settings.grouping === 'indian' ? 'en-IN' : 'en-US'}-u-nu-${numberingSystem}`;
+  const cache = new Map<string, Intl.NumberFormat>();
+  const plain = (value: number, minFractionDigits: number, maxFractionDigits: number) => {
+    const key = `${minFractionDigits}-${maxFractionDigits}`;
+    let formatter = cache.get(key);
+    if (!formatter) {
+      formatter = new Intl.NumberFormat(locale, { minimumFractionDigits: minFractionDigits, maximumFractionDigits: maxFractionDigits });
+      cache.set(key, formatter);
+    }
+    return formatter.format(value);
+  };
+
+  const symbolOf = (code: string) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: code }).formatToParts(0).find((part) => part.type === 'currency')?.value ?? code;
+  const symbol = symbolOf(currency);
+  // Letter codes such as "AED" need a (non-breaking) gap before the digits; signs such as ₹ or $ don't
+  const prefix = /^[A-Z]+$/i.test(symbol) ? `${symbol}\u00a0` : symbol;
+
+  const money = (rupees: number, display: AmountDisplay = settings.display) => {
+    const amount = rupees / rate;
+    const size = Math.abs(amount);
+    const unit = display === 'compact' ? COMPACT_UNITS[settings.grouping].find(([threshold]) => size >= threshold) : undefined;
+    const body = unit ? `${plain(size / unit[0], 2, 2)} ${unit[1]}` : plain(size, moneyDigits, moneyDigits);
+    // Rounding can leave nothing to be negative about
+    const negative = amount < 0 && body !== plain(0, moneyDigits, moneyDigits);
+    return `${negative ? '-' : ''}${prefix}${body}`;
+  };
+
+  return {
+    currency,
+    symbol,
+    entrySymbol: symbolOf(BASE_CURRENCY),
+    money,
+    signedMoney: (rupees, display) => `${rupees >= 0 ? '+' : ''}${money(rupees, display)}`,
+    convert: (rupees) => (converted ? Math.round((rupees / rate) * 100) / 100 : rupees),
+    number: (value, maxFractionDigits = 0) => plain(value, 0, maxFractionDigits),
+    percent: (value, fractionDigits = 1, signed = false) => `${signed && value >= 0 ? '+' : ''}${plain(value, fractionDigits, fractionDigits)}%`
+  };
+};
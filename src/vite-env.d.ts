@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Public address of the web build (e.g. https://chit.example.org/), used for
+  // share links; its host must match shareLinkHost in the Android build
+  readonly VITE_SHARE_LINK_BASE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}